@@ -4,7 +4,7 @@ import { useToastStore } from '@/stores/toast'
 import { usePocketStore } from '@/stores/pocket'
 import { useGoalStore } from '@/stores/goal'
 import { useI18n } from 'vue-i18n'
-import { formatIDR } from '@/utils/currency'
+import { formatIDR, formatMoney } from '@/utils/currency'
 
 export type AddTransactionPayload =
   | { pocketId: string; amount: number; type: 'income' | 'expense' }
@@ -38,7 +38,7 @@ export function useAddTransactionFlow() {
     } else if (payload && 'pocketId' in payload) {
       const pocket = pocketStore.getPocketById(payload.pocketId)
       const pocketName = pocket?.name ?? t('pocket.title')
-      const amount = formatIDR(payload.amount)
+      const amount = formatMoney(payload.amount, pocket?.currency)
       const message = t('transaction.addedToPocket', { pocket: pocketName, amount })
       const action = {
         label: t('transaction.viewTransaction'),
@@ -0,0 +1,64 @@
+import { computed, type Ref } from 'vue'
+import { useTransactionStore } from '@/stores/transaction'
+import { usePocketStore } from '@/stores/pocket'
+import { useGoalStore } from '@/stores/goal'
+import { useRecurringStore } from '@/stores/recurring'
+import { useBillStore } from '@/stores/bill'
+import { useCurrencyStore } from '@/stores/currency'
+import { DEFAULT_CURRENCY } from '@/utils/currency'
+import { buildCashFlowForecast, type ForecastAccount } from '@/services/forecastService'
+import { getSortedPockets } from '@/composables/usePocketLimits'
+
+/**
+ * Cash-flow forecast over the stores: current pocket and goal balances projected
+ * `months` ahead. Pocket amounts stay in each pocket's currency, goals in IDR;
+ * the total is in the base currency.
+ */
+export function useCashFlowForecast(months: Ref<number>, includeEveryday: Ref<boolean>) {
+  const txStore = useTransactionStore()
+  const pocketStore = usePocketStore()
+  const goalStore = useGoalStore()
+  const recurringStore = useRecurringStore()
+  const billStore = useBillStore()
+  const currencyStore = useCurrencyStore()
+
+  const accounts = computed<ForecastAccount[]>(() => [
+    ...getSortedPockets(pocketStore.pockets).map((p) => ({
+      account: p.id,
+      name: p.name,
+      balance: txStore.pocketBalances[p.id] ?? 0,
+    })),
+    ...goalStore.goals.map((g) => ({
+      account: `goal:${g.id}`,
+      name: g.name,
+      balance: goalStore.goalDisplayBalances[g.id] ?? 0,
+    })),
+  ])
+
+  /** Currency an account's amounts are in. */
+  function accountCurrency(account: string) {
+    return account.startsWith('goal:') ? DEFAULT_CURRENCY : currencyStore.pocketCurrency(account)
+  }
+
+  const forecast = computed(() =>
+    buildCashFlowForecast({
+      transactions: txStore.transactions,
+      accounts: accounts.value,
+      rules: recurringStore.rules,
+      bills: billStore.bills,
+      months: months.value,
+      toBase: (amount, account) => currencyStore.convert(amount, accountCurrency(account)),
+      includeEveryday: includeEveryday.value,
+    }),
+  )
+
+  function refresh() {
+    txStore.fetchTransactions()
+    pocketStore.fetchPockets()
+    goalStore.fetchGoals()
+    recurringStore.fetchRules()
+    billStore.fetchBills()
+  }
+
+  return { forecast, accountCurrency, refresh }
+}
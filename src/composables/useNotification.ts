@@ -1,12 +1,16 @@
 /**
- * Local notification logic for transaction activity.
+ * Local notification logic for transaction activity and bill due dates.
  * Uses Web Notifications API. No backend. Fully offline.
  */
 
 import { useProfileStore } from '@/stores/profile'
 import { useNotificationStore } from '@/stores/notification'
 import { useTransactionStore } from '@/stores/transaction'
+import { useBillStore } from '@/stores/bill'
+import { useCurrencyStore } from '@/stores/currency'
+import { daysUntil } from '@/services/billService'
 import { useI18n } from 'vue-i18n'
+import { useRouter } from 'vue-router'
 import type { Transaction } from '@/types/transaction'
 import type { NotificationFrequency } from '@/stores/profile'
 import type { NotificationItem } from '@/types/notification'
@@ -249,6 +253,7 @@ export function useNotification() {
   const transactionStore = useTransactionStore()
   const notificationStore = useNotificationStore()
   const { t } = useI18n()
+  const router = useRouter()
 
   function checkAndFireNotification(): void {
     if (!profileStore.profile.notificationsEnabled) return
@@ -278,6 +283,38 @@ export function useNotification() {
     }
   }
 
+  /**
+   * Remind about bills whose reminder window has opened (once per due date).
+   * Reminders are set per bill, so they do not depend on the activity summary setting.
+   */
+  function checkBillReminders(): void {
+    if (!('Notification' in window)) return
+    if (Notification.permission !== 'granted') return
+
+    const billStore = useBillStore()
+    const currencyStore = useCurrencyStore()
+    for (const bill of billStore.takeDueReminders()) {
+      const days = daysUntil(bill.dueDate!)
+      const amount = currencyStore.format(bill.amount, currencyStore.pocketCurrency(bill.pocketId))
+      const body =
+        days < 0
+          ? t('bills.reminderOverdue', { name: bill.name, amount })
+          : days === 0
+            ? t('bills.reminderToday', { name: bill.name, amount })
+            : t('bills.reminderSoon', { name: bill.name, amount, days }, days)
+      const notification = new Notification('Fanplanner', {
+        body,
+        icon: '/ico.svg',
+        tag: `fanplanner-bill-${bill.id}-${bill.dueDate}`,
+      })
+      notification.onclick = () => {
+        window.focus()
+        notification.close()
+        router.push('/bills')
+      }
+    }
+  }
+
   function openHistorySheet(period?: NotificationPeriod | null): void {
     const pending = getPendingNotificationPeriod()
     const p = period ?? pending ?? getNotificationPeriod(profileStore.profile)
@@ -300,6 +337,7 @@ export function useNotification() {
     showHistorySheet: notificationStore.showHistorySheet,
     historyPeriod: notificationStore.historyPeriod,
     checkAndFireNotification,
+    checkBillReminders,
     openHistorySheet,
     closeHistorySheet,
     requestPermission,
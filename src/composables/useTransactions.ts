@@ -1,6 +1,9 @@
 import { computed } from 'vue'
 import { useTransactionStore } from '@/stores/transaction'
 import type { TransactionFormData } from '@/types/transaction'
+import type { MerchantSpending } from '@/types/merchant'
+import { getCategoryLines } from '@/utils/transactionSplits'
+import { merchantKey } from '@/utils/merchants'
 
 /**
  * Composable for transaction operations
@@ -20,27 +23,31 @@ export function useTransactions() {
   // Transaction operations
   const fetchTransactions = () => store.fetchTransactions()
   const createTransaction = (data: TransactionFormData) => store.createTransaction(data)
+  const createTransactions = (data: TransactionFormData[]) => store.createTransactions(data)
   const updateTransaction = (id: string, data: Partial<TransactionFormData>) => store.updateTransaction(id, data)
   const deleteTransaction = (id: string) => store.deleteTransaction(id)
   const getTransactionById = (id: string) => store.getTransactionById(id)
 
-  // Computed helpers
+  // Computed helpers (amounts in the base currency, for totals and charts)
   const incomeTransactions = computed(() =>
-    transactions.value.filter((t) => t.type === 'income')
+    store.baseTransactions.filter((t) => t.type === 'income')
   )
 
   const expenseTransactions = computed(() =>
-    transactions.value.filter((t) => t.type === 'expense')
+    store.baseTransactions.filter((t) => t.type === 'expense')
   )
 
   const transactionsByCategory = computed(() => {
     const grouped = new Map<string, { total: number; count: number }>()
 
     expenseTransactions.value.forEach((t) => {
-      const existing = grouped.get(t.category) || { total: 0, count: 0 }
-      grouped.set(t.category, {
-        total: existing.total + t.amount,
-        count: existing.count + 1,
+      // Split transactions contribute each line to its own category
+      getCategoryLines(t).forEach((line) => {
+        const existing = grouped.get(line.category) || { total: 0, count: 0 }
+        grouped.set(line.category, {
+          total: existing.total + line.amount,
+          count: existing.count + 1,
+        })
       })
     })
 
@@ -54,10 +61,12 @@ export function useTransactions() {
     const grouped = new Map<string, { total: number; count: number }>()
 
     incomeTransactions.value.forEach((t) => {
-      const existing = grouped.get(t.category) || { total: 0, count: 0 }
-      grouped.set(t.category, {
-        total: existing.total + t.amount,
-        count: existing.count + 1,
+      getCategoryLines(t).forEach((line) => {
+        const existing = grouped.get(line.category) || { total: 0, count: 0 }
+        grouped.set(line.category, {
+          total: existing.total + line.amount,
+          count: existing.count + 1,
+        })
       })
     })
 
@@ -67,10 +76,53 @@ export function useTransactions() {
     })).sort((a, b) => b.total - a.total)
   })
 
+  // Income and expense per tag; a transaction with several tags counts toward each
+  const transactionsByTag = computed(() => {
+    const grouped = new Map<string, { tag: string; income: number; expense: number; count: number }>()
+
+    store.baseTransactions.forEach((t) => {
+      const type = t.type
+      if (type === 'transfer') return
+      t.tags?.forEach((tag) => {
+        const key = tag.toLowerCase()
+        const existing = grouped.get(key) || { tag, income: 0, expense: 0, count: 0 }
+        existing[type] += t.amount
+        existing.count += 1
+        grouped.set(key, existing)
+      })
+    })
+
+    return Array.from(grouped.values()).sort((a, b) => b.expense + b.income - (a.expense + a.income))
+  })
+
+  // Spending per merchant, largest first; the category is the one most of it went to
+  const transactionsByMerchant = computed<MerchantSpending[]>(() => {
+    const grouped = new Map<string, { merchant: string; total: number; count: number; byCategory: Map<string, number> }>()
+
+    expenseTransactions.value.forEach((t) => {
+      if (!t.merchant) return
+      const key = merchantKey(t.merchant)
+      const existing = grouped.get(key) || { merchant: t.merchant, total: 0, count: 0, byCategory: new Map() }
+      existing.total += t.amount
+      existing.count += 1
+      getCategoryLines(t).forEach((line) => {
+        existing.byCategory.set(line.category, (existing.byCategory.get(line.category) ?? 0) + line.amount)
+      })
+      grouped.set(key, existing)
+    })
+
+    return Array.from(grouped.values())
+      .map(({ byCategory, ...rest }) => ({
+        ...rest,
+        category: [...byCategory.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '',
+      }))
+      .sort((a, b) => b.total - a.total)
+  })
+
   // Helper function to get transactions by category with type filter
   const getTransactionsByCategory = (type: 'all' | 'income' | 'expense') => {
     const filtered = type === 'all'
-      ? transactions.value
+      ? store.baseTransactions
       : type === 'income'
       ? incomeTransactions.value
       : expenseTransactions.value
@@ -78,10 +130,12 @@ export function useTransactions() {
     const grouped = new Map<string, { total: number; count: number }>()
 
     filtered.forEach((t) => {
-      const existing = grouped.get(t.category) || { total: 0, count: 0 }
-      grouped.set(t.category, {
-        total: existing.total + t.amount,
-        count: existing.count + 1,
+      getCategoryLines(t).forEach((line) => {
+        const existing = grouped.get(line.category) || { total: 0, count: 0 }
+        grouped.set(line.category, {
+          total: existing.total + line.amount,
+          count: existing.count + 1,
+        })
       })
     })
 
@@ -138,11 +192,14 @@ export function useTransactions() {
     expenseTransactions,
     transactionsByCategory,
     incomeTransactionsByCategory,
+    transactionsByTag,
+    transactionsByMerchant,
     recentTransactions,
 
     // Methods
     fetchTransactions,
     createTransaction,
+    createTransactions,
     updateTransaction,
     deleteTransaction,
     getTransactionById,
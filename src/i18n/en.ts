@@ -21,6 +21,7 @@ export default {
     show: 'Show',
     hide: 'Hide',
     continue: 'Continue',
+    deviceSaveFailed: 'Could not save to this device. Recent changes may be lost when the app closes.',
   },
 
   // Navigation
@@ -216,6 +217,31 @@ export default {
       visitWebsite: 'Visit Website',
       visitWebsiteDesc: 'Learn more about FanPlanner',
     },
+    tools: {
+      title: 'Money Tools',
+      recurring: 'Recurring Transactions',
+      recurringDesc: 'Salary, rent and subscriptions posted automatically',
+      budgets: 'Budgets',
+      budgetsDesc: 'Monthly limits per category and overspend tracking',
+      exchangeRates: 'Exchange Rates',
+      exchangeRatesDesc: 'Pocket currencies and conversion rates',
+      cloudSync: 'Cloud Sync',
+      cloudSyncDesc: 'Keep your data across devices (Premium)',
+      statementImport: 'Import Statement',
+      statementImportDesc: 'Bank and e-wallet CSV, OFX or QIF files',
+      categoryRules: 'Category Rules',
+      categoryRulesDesc: 'Auto-assign categories by description, merchant or amount',
+      merchants: 'Merchants',
+      merchantsDesc: 'Choose the category and pocket for each shop',
+      categories: 'Categories',
+      categoriesDesc: 'Names, icons, colors and sub-categories',
+      attachments: 'Receipt images',
+      attachmentsDesc: 'Storage used by attached receipts and cleanup',
+      bills: 'Bills',
+      billsDesc: 'Due dates, reminders and a payment calendar',
+      liabilities: 'Debts & net worth',
+      liabilitiesDesc: 'Credit cards, loans and paylater with your net worth over time',
+    },
   },
 
   // Settings
@@ -459,6 +485,7 @@ export default {
       securityDesc: 'Your passphrase is never stored. Decryption only happens in memory for your safety.',
       continueButton: 'Continue',
       decryptFailed: 'Wrong passphrase or file is not a backup from this app. Check passphrase and try again.',
+      statementHint: 'Importing a bank or e-wallet statement (CSV, OFX, QIF)? Use Import Statement.',
     },
   },
 
@@ -568,6 +595,15 @@ export default {
       investment: 'Investment',
       gift: 'Gift',
     },
+    splitAction: 'Split across categories',
+    splitTitle: 'Split',
+    splitCancel: 'Don\'t split',
+    splitAddLine: 'Add line',
+    splitUnassigned: 'Unassigned: {amount}',
+    splitSummary: '{category} + {count} more',
+    splitTooFewLines: 'A split needs at least two lines.',
+    splitLineInvalid: 'Every split line needs a category and an amount.',
+    splitTotalMismatch: 'Split amounts must add up to the transaction amount.',
   },
 
   // Receipt Scanner
@@ -616,11 +652,34 @@ export default {
     takePhotoButton: 'Take Photo',
     uploadImageButton: 'Upload Image',
     manualInputDesc: 'Or enter transaction information manually below',
-    item: 'Item',
-    quantity: 'Qty',
+    itemNamePlaceholder: 'Item name',
+    addItem: 'Add item',
+    adjustments: 'Tax, service & discounts',
+    addAdjustment: 'Add charge or discount',
+    adjustment: {
+      tax: 'Tax',
+      service: 'Service charge',
+      tip: 'Tip',
+      discount: 'Discount',
+      rounding: 'Rounding',
+    },
+    toggleSign: 'Switch between adding and subtracting',
+    itemsTotal: 'Items',
+    receiptTotal: 'Receipt total',
+    breakdownBalanced: 'Items and charges add up to the total',
+    breakdownOff: 'Off by {amount} from the total',
+    addDifferenceAsRounding: 'Add difference as rounding',
+    useComputedTotal: 'Use {amount} as total',
+    saveAs: 'Save as',
+    saveMode: {
+      single: 'One transaction',
+      items: 'One per item',
+      category: 'One per category',
+    },
+    splitNeedsBalance: 'To save per item or category, the breakdown must add up to the total.',
+    splitDate: 'Date for all transactions',
     dateWarning: 'Date Warning',
     dateWarningDesc: 'The date detected from the receipt is in the future. Using today\'s date instead.',
-    dateWarningMultiple: 'Some transactions have future dates. Dates have been corrected to today.',
     cancel: 'Cancel',
     submit: 'Submit',
     submitMultiple: 'Submit {count} Item(s)',
@@ -648,7 +707,7 @@ export default {
     activateLicenseForUnlimited: 'for unlimited text input.',
     limitReached: 'Text input limit reached ({max} uses per day). Activate a license to unlock unlimited text input.',
     howToUse: 'How to Use',
-    howToUseDesc: 'Type transaction in natural language, such as "Beli bakso hari ini 20 ribu" or "Gaji masuk 5 juta". The app will automatically fill the form for you.',
+    howToUseDesc: 'Type transaction in natural language, such as "Beli bakso hari ini 20 ribu" or "Gaji masuk 5 juta". Put several transactions on separate lines or separate them with commas, e.g. "kopi 25rb, parkir 5rb kemarin". Name a pocket or goal to pick it or move money: "bayar listrik 300rb dari BCA", "nabung 500rb ke goal Liburan". English works too: "spent $12.50 on coffee last Friday". The app will automatically fill the form for you.',
     howToUseDescGoal: 'Type income for your goal, e.g. "Gaji masuk 5 juta" or "Bonus 2 juta". Goals only accept income—no expenses here.',
     enterTransaction: 'Enter Transaction',
     enterTransactionPlaceholder: 'Example: Beli bakso hari ini 20 ribu atau Gaji masuk 5 juta',
@@ -670,6 +729,7 @@ export default {
     description: 'Description',
     category: 'Category',
     date: 'Date',
+    tags: 'Tags',
     confidenceHigh: 'High',
     confidenceMedium: 'Medium',
     confidenceLow: 'Low',
@@ -685,6 +745,21 @@ export default {
     income: 'Income',
     expense: 'Expense',
     premiumBenefits: 'for unlimited text input.',
+    parseSuccessMulti: '1 transaction found | {count} transactions found',
+    parseSuccessMultiDesc: 'Tap a transaction to correct it, or remove the ones you do not want before saving.',
+    netTotal: 'Net {amount}',
+    checkDraft: 'Check',
+    removeDraft: 'Remove transaction',
+    ignoredLines: 'Skipped (no amount): {lines}',
+    saveAll: 'Save {count} transactions',
+    transfer: 'Transfer',
+    goalTransfer: 'Transfer to goal',
+    goal: 'Goal',
+    today: 'Today',
+    pocket: 'Pocket',
+    fromPocket: 'From pocket',
+    transferTo: 'To',
+    transferDatedToday: 'Transfers are recorded with today\'s date.',
   },
 
   // Home/Dashboard
@@ -773,7 +848,7 @@ export default {
   transactions: {
     title: 'Transactions',
     subtitle: 'Where did your money go?',
-    searchPlaceholder: 'Search notes...',
+    searchPlaceholder: 'Search notes or filter, e.g. amount>50000',
     searchNotesPlaceholder: 'Search notes...',
     allTime: 'All Time',
     allWallets: 'All Wallets',
@@ -808,6 +883,20 @@ export default {
     exportPDF: 'PDF',
     exportNoDataTitle: 'No data to export',
     exportNoDataMessage: 'There are no transactions to export to Excel or PDF. Try adjusting your filters or add some transactions first.',
+    moreFilters: 'More filters',
+    moreFiltersCount: 'Filters ({count})',
+    categories: 'Categories',
+    noCategoriesYet: 'No categories in your transactions yet.',
+    amountRange: 'Amount',
+    minAmount: 'At least',
+    maxAmount: 'At most',
+    amountRangeHint: 'Compared with each transaction\'s amount in its own currency. Leave empty for no limit.',
+    amountRangeInvalid: 'The minimum is larger than the maximum.',
+    resetFilters: 'Reset',
+    applyFilters: 'Apply',
+    queryInvalid: 'Not understood, ignored: {terms}',
+    queryHelpTitle: 'Search and filter syntax',
+    queryHelp: 'Plain words search notes, category names and tags. Add terms like category:, type:, pocket:, goal:, tag: (or #tag), has:receipt / no:receipt, amount> / amount< / amount:10k..50k and date:today / date:7d / date:2026-03 / date>=2026-01-01. Separate alternatives with commas and quote names with spaces; every term must match.',
   },
   // Goals
   goal: {
@@ -837,17 +926,36 @@ export default {
     annualReturnLabel: 'Estimated annual return (%)',
     annualReturnPlaceholder: 'e.g. 6',
     returnHeader: 'Return: {percent}%/year',
-    returnCalculatedDaily: 'Return is calculated daily',
     investmentDisclaimer: 'This is a simulation to help you track progress, not real market data.',
     investmentGrowthTitle: 'Investment Growth',
     initialInvested: 'Initial invested amount',
     totalReturn: 'Total return (profit)',
-    simulatedGrowthLabel: 'Simulated daily growth based on your return setting.',
+    simulatedGrowthLabel: 'Simulated growth based on your return and compounding settings.',
     investmentDisclaimerShort: 'Investment growth is simulated for planning purposes only.',
     investmentActivityTitle: 'Investment Activity',
     dailyInvestmentReturn: 'Daily Investment Return',
     dailyInvestmentReturnId: 'Daily Investment Return',
     simulationBadge: 'Simulation',
+    monthlyInvestmentReturn: 'Monthly Investment Return',
+    yearlyInvestmentReturn: 'Yearly Investment Return',
+    compounding: 'Compounding',
+    compoundingDaily: 'Daily',
+    compoundingMonthly: 'Monthly',
+    compoundingYearly: 'Yearly',
+    compoundingHint: 'Return accrues every day and is added to the goal at the end of each period.',
+    volatilityLabel: 'Volatility (% per year, optional)',
+    volatilityPlaceholder: 'e.g. 5',
+    volatilityHint: 'Shows pessimistic and optimistic projections at the return minus / plus this amount.',
+    returnEffectiveFrom: 'Effective from',
+    returnEffectiveHint: 'A new rate applies from this date; simulated return from then on is recalculated.',
+    growthChartTitle: 'Principal vs. return',
+    growthChartDesc: 'Simulated so far, projected for the next month | Simulated so far, projected for the next {months} months',
+    chartPrincipal: 'Principal',
+    chartBalance: 'Balance',
+    chartProjected: 'Projected',
+    chartOptimistic: 'Optimistic',
+    chartPessimistic: 'Pessimistic',
+    showScenarios: 'Show scenarios (±{percent}% return)',
     startInvestingToSeeGrowth: 'Start investing to see growth over time.',
     withdraw: 'Withdraw',
     insightTitle: 'Insight',
@@ -905,4 +1013,552 @@ export default {
     paidButton: 'I have paid — Contact WhatsApp',
     waMessage: 'Hi, I have completed the payment under the name {name}.',
   },
+  // Recurring transactions
+  recurring: {
+    title: 'Recurring',
+    subtitle: 'Transactions posted automatically on schedule',
+    createTitle: 'New Recurring Transaction',
+    editTitle: 'Edit Recurring Transaction',
+    createDesc: 'Due occurrences are posted automatically when you open the app.',
+    createSuccess: 'Recurring transaction "{name}" created.',
+    updateSuccess: 'Recurring transaction updated.',
+    deleteTitle: 'Delete recurring rule?',
+    deleteMessage: 'Future occurrences will no longer be posted. Transactions already posted are kept.',
+    deleteSuccess: 'Recurring rule deleted.',
+    descriptionPlaceholder: 'e.g. Rent, Netflix, Salary',
+    targetPocket: 'Target pocket',
+    frequency: 'Repeats',
+    frequencyDaily: 'Daily',
+    frequencyWeekly: 'Weekly',
+    frequencyMonthly: 'Monthly',
+    frequencyYearly: 'Yearly',
+    interval: 'Every',
+    intervalRequired: 'Repeat interval must be at least 1.',
+    startDate: 'First occurrence',
+    ends: 'Ends',
+    endNever: 'Never',
+    endOnDate: 'On a date',
+    endAfterCount: 'After a number of times',
+    endDate: 'End date',
+    endDateInvalid: 'End date must be on or after the first occurrence.',
+    occurrences: 'Number of occurrences',
+    occurrencesRequired: 'Number of occurrences must be at least 1.',
+    editHint: 'Changes apply to future occurrences only. Posted transactions are not changed.',
+    everyNDays: 'Every day | Every {n} days',
+    everyNWeeks: 'Every week | Every {n} weeks',
+    everyNMonths: 'Every month | Every {n} months',
+    everyNYears: 'Every year | Every {n} years',
+    nextDue: 'Next: {date}',
+    postedSoFar: '{count} posted so far',
+    postedCount: 'Posted {count} recurring transaction | Posted {count} recurring transactions',
+    statusPaused: 'Paused',
+    statusEnded: 'Ended',
+    pause: 'Pause',
+    resume: 'Resume',
+    paused: '"{name}" paused.',
+    resumed: '"{name}" resumed. Missed occurrences are skipped.',
+    emptyTitle: 'No recurring transactions yet',
+    emptyDesc: 'Set up salary, rent, subscriptions or installments once and let them post automatically.',
+    generatedBadge: 'Recurring',
+    manageRule: 'Manage recurring',
+  },
+  // Budgets
+  budget: {
+    title: 'Budgets',
+    subtitle: 'Spending limits per category',
+    createTitle: 'New Budget',
+    editTitle: 'Edit Budget',
+    createDesc: 'Set a spending limit for a category. Only expenses count toward the budget.',
+    createSuccess: 'Budget for {category} created.',
+    updateSuccess: 'Budget updated.',
+    deleteTitle: 'Delete budget?',
+    deleteMessage: 'The budget for {category} will be removed. Your transactions are not affected.',
+    deleteSuccess: 'Budget deleted.',
+    alreadyExists: 'A budget for this category, period and pocket already exists.',
+    amountRequired: 'Budget limit must be greater than 0.',
+    limit: 'Limit',
+    period: 'Period',
+    periodWeekly: 'Weekly',
+    periodMonthly: 'Monthly',
+    periodYearly: 'Yearly',
+    pocketScope: 'Count expenses from',
+    allPockets: 'All pockets',
+    monthlySpent: 'Spent this month',
+    ofLimit: 'of {limit} monthly budget',
+    spentOf: '{spent} of {limit}',
+    remaining: '{amount} left',
+    overBy: 'Over by {amount}',
+    overBudget: 'Over budget',
+    emptyTitle: 'No budgets yet',
+    emptyDesc: 'Set a monthly limit for food, transport or shopping and see at a glance when you go over.',
+  },
+  currency: {
+    title: 'Exchange Rates',
+    subtitle: 'Convert pocket currencies for totals',
+    baseCurrency: 'Base currency',
+    baseCurrencyHint: 'Total balance, summaries, charts and budgets are shown in this currency.',
+    baseUpdated: 'Totals are now shown in {currency}.',
+    ratesTitle: 'Rates',
+    ratesHint: 'Enter how much 1 unit of each currency is worth in IDR. Rates are entered manually and only used for totals.',
+    ratePlaceholder: 'e.g. 16250',
+    rateLabel: '1 {currency} = ? IDR',
+    rateInvalid: 'Exchange rate must be greater than 0.',
+    rateInvalidFor: 'Rate for {currency} must be greater than 0.',
+    ratesSaved: 'Exchange rates saved.',
+    lastUpdated: 'Last updated {date}',
+    usedByPockets: 'Used by {count} pocket | Used by {count} pockets',
+    missingRates: 'No exchange rate for {currencies}. Those amounts are added to totals without conversion.',
+    missingRateShort: 'rate missing',
+    pocketCurrency: 'Currency',
+    pocketCurrencyHint: 'Cannot be changed after the pocket is created.',
+    convertedPreview: 'Arrives as {amount}',
+    transferRateMissing: 'No exchange rate between {from} and {to}. Add one in Exchange Rates before moving money.',
+  },
+  cloudSync: {
+    title: 'Cloud Sync',
+    subtitle: 'Keep your data across devices',
+    storedIn: 'Your data is stored',
+    backendLocal: 'On this device only',
+    backendCloud: 'In your cloud account',
+    premiumTitle: 'Premium feature',
+    premiumDesc: 'With a Premium license you can store transactions, pockets and goals in your account and use them on every device.',
+    upgrade: 'Upgrade to Premium',
+    signInTitle: 'Sign in',
+    signInDesc: 'We will email you a sign-in link. No password needed.',
+    email: 'Email',
+    emailInvalid: 'Enter a valid email address.',
+    sendLink: 'Email me a sign-in link',
+    linkSent: 'Sign-in link sent to {email}. Open it on this device to continue.',
+    signedInAs: 'Signed in as',
+    cloudOffDesc: 'Turn on cloud storage to copy the data on this device to your account and keep it in sync.',
+    cloudOnDesc: 'Transactions, pockets and goals are saved to your account. Changes made offline are kept and synced when you are back online.',
+    turnOn: 'Turn on cloud storage',
+    turnOnTitle: 'Store data in the cloud?',
+    turnOnMessage: 'Your transactions, pockets and goals on this device will be copied to your account. The app reloads when done.',
+    turnOff: 'Keep data on this device only',
+    turnOffTitle: 'Stop cloud storage?',
+    turnOffMessage: 'Your account data will be copied to this device and new changes stay here. The app reloads when done.',
+    enabled: 'Cloud storage is on.',
+    disabled: 'Data is now stored on this device only.',
+    switchFailed: 'Could not reach the server. Check your connection and try again.',
+    signOut: 'Sign out',
+    syncTitle: 'Sync',
+    syncing: 'Syncing…',
+    upToDate: 'All changes synced',
+    pendingChanges: 'No changes waiting | 1 change waiting to sync | {count} changes waiting to sync',
+    lastSynced: 'Last synced {date}',
+    neverSynced: 'Not synced yet',
+    syncError: 'Last sync failed. Changes stay on this device and are sent when the connection is back.',
+    offline: 'You are offline. Changes are saved on this device and synced later.',
+    syncNow: 'Sync now',
+    conflictsTitle: 'Conflict log',
+    conflictsDesc: 'When a change here and on another device touch the same field, the later change is kept.',
+    noConflicts: 'No conflicts so far.',
+    clearConflicts: 'Clear log',
+    keptThisDevice: 'Kept this device',
+    keptOtherDevice: 'Kept other device',
+    deletedHere: 'Deleted on this device, edited on another',
+    deletedElsewhere: 'Edited on this device, deleted on another',
+    entity: {
+      transaction: 'Transaction',
+      pocket: 'Pocket',
+      goal: 'Goal',
+    },
+  },
+  statementImport: {
+    title: 'Import Statement',
+    subtitle: 'Add transactions from your bank or e-wallet',
+    pocket: 'Import into pocket',
+    chooseFile: 'Choose a CSV, OFX or QIF file',
+    formatsHint: 'Download the statement from your bank or e-wallet app as CSV, OFX/QFX or QIF.',
+    unsupportedFile: 'This file type is not supported. Use CSV, OFX/QFX or QIF.',
+    emptyFile: 'The file has no rows.',
+    noRows: 'No transactions could be read. Check the columns and date format.',
+    mappingTitle: 'Match the columns',
+    mappingHint: 'Tell us which columns of {file} hold the date, description and amount.',
+    hasHeader: 'First row is a header',
+    columnN: 'Column {n} (e.g. {sample})',
+    columnNone: '— None —',
+    dateColumn: 'Date column',
+    dateFormatLabel: 'Date format',
+    descriptionColumn: 'Description column',
+    amountModeLabel: 'Money in and out',
+    amountColumn: 'Amount column',
+    debitColumn: 'Money out (debit) column',
+    creditColumn: 'Money in (credit) column',
+    amountMode: {
+      signed: 'One amount column, negative or DB = money out',
+      inverted: 'One amount column, positive = money out',
+      debitCredit: 'Separate debit and credit columns',
+    },
+    dateFormat: {
+      dmy: 'Day / Month / Year',
+      mdy: 'Month / Day / Year',
+      ymd: 'Year / Month / Day',
+    },
+    preview: 'Preview',
+    previewTitle: 'Transactions',
+    found: 'No transactions found | 1 transaction found | {count} transactions found',
+    duplicatesFound: '1 transaction is already in this pocket and was unticked. | {count} transactions are already in this pocket and were unticked.',
+    skippedRows: '1 row was skipped (no date or amount). | {count} rows were skipped (no date or amount).',
+    duplicate: 'Already added',
+    selectAll: 'All',
+    selectNone: 'None',
+    noDescription: 'Imported transaction',
+    categoryHint: 'Categories come from your category rules; rows no rule matches get "Other".',
+    importCount: 'Import | Import 1 transaction | Import {count} transactions',
+    imported: 'No transactions imported | 1 transaction imported | {count} transactions imported',
+    importFailed: 'Could not import the statement. Please try again.',
+  },
+  categoryRules: {
+    title: 'Category Rules',
+    subtitle: 'Categorize transactions automatically',
+    createTitle: 'New Rule',
+    editTitle: 'Edit Rule',
+    createDesc: 'When every condition matches, the transaction gets this category. Applies to the form, text input, receipt scans and statement imports.',
+    createSuccess: 'Rule for {category} created.',
+    updateSuccess: 'Rule updated.',
+    deleteTitle: 'Delete rule?',
+    deleteMessage: 'The rule that sets {category} will be removed. Categories already recorded stay as they are.',
+    deleteSuccess: 'Rule deleted.',
+    appliesTo: 'Applies to',
+    typeAny: 'Income and expenses',
+    typeIncome: 'Income',
+    typeExpense: 'Expenses',
+    conditions: 'Conditions',
+    conditionsHint: 'Text matches ignore upper and lower case. Merchant uses the merchant read from a receipt, or the description otherwise.',
+    addCondition: 'Add condition',
+    fieldDescription: 'Description',
+    fieldMerchant: 'Merchant',
+    fieldAmount: 'Amount',
+    op: {
+      contains: 'Contains',
+      equals: 'Is exactly',
+      startsWith: 'Starts with',
+      regex: 'Matches pattern',
+      gt: 'More than',
+      gte: 'At least',
+      lt: 'Less than',
+      lte: 'At most',
+    },
+    valuePlaceholder: 'e.g. grab',
+    patternPlaceholder: 'e.g. ^(gojek|grab)',
+    setCategory: 'Set category to',
+    enabled: 'Enabled',
+    conditionRequired: 'Add at least one condition.',
+    valueRequired: 'Fill in the text for every condition.',
+    amountRequired: 'Amount conditions need an amount greater than 0.',
+    invalidPattern: '"{pattern}" is not a valid pattern.',
+    conditionSummary: '{field} {operator} {value}',
+    and: 'and',
+    orderHint: 'Rules are checked from top to bottom; the first one that matches sets the category.',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    reapply: 'Re-apply rules to history',
+    reapplyTitle: 'Re-apply rules',
+    reapplyDesc: '{count} transaction will change category. | {count} transactions will change category.',
+    reapplyNone: 'Your recorded transactions already match the rules.',
+    reapplyConfirm: 'Update {count}',
+    reapplySuccess: '{count} transaction recategorized. | {count} transactions recategorized.',
+    emptyTitle: 'No rules yet',
+    emptyDesc: 'Tell the app that "Grab" is Transport or "Indomaret" is Shopping, and new transactions get the right category by themselves.',
+  },
+  categories: {
+    title: 'Categories',
+    subtitle: 'Rename, recolor and group your categories',
+    createTitle: 'New category',
+    editTitle: 'Edit category',
+    createDesc: 'Sub-categories count toward their parent in budgets and filters.',
+    name: 'Name',
+    namePlaceholder: 'e.g. Pets',
+    nameRequired: 'Enter a name for the category.',
+    nameTaken: 'A category with this name already exists here.',
+    type: 'Used for',
+    typeBoth: 'Income and expense',
+    typeIncome: 'Income only',
+    typeExpense: 'Expense only',
+    parent: 'Parent category',
+    noParent: 'None (top level)',
+    hasChildrenHint: 'This category has sub-categories, so it stays at the top level.',
+    icon: 'Icon',
+    color: 'Color',
+    createSuccess: 'Category "{name}" created',
+    updateSuccess: 'Category updated',
+    archive: 'Archive',
+    archiveTitle: 'Archive category?',
+    archiveMessage: '"{name}" will no longer be offered for new transactions. Existing transactions keep it.',
+    archiveMessageWithChildren: '"{name}" and its sub-categories will no longer be offered for new transactions. Existing transactions keep them.',
+    archiveSuccess: 'Category archived',
+    restore: 'Restore',
+    restoreSuccess: 'Category "{name}" restored',
+    archivedTitle: 'Archived',
+    archivedDesc: 'Hidden from pickers, still shown on past transactions.',
+  },
+  savedFilters: {
+    saveView: 'Save view',
+    saveTitle: 'Save this view',
+    saveDesc: 'Keep the current filters under a name and open them with one tap.',
+    name: 'Name',
+    namePlaceholder: 'e.g. Big food spends',
+    nameRequired: 'Enter a name for the view.',
+    nameTaken: 'You already have a view with this name.',
+    query: 'Filters',
+    pinToHome: 'Pin to the home screen',
+    pin: 'Pin to home',
+    unpin: 'Unpin from home',
+    saveSuccess: 'View "{name}" saved',
+    deleteTitle: 'Delete saved view?',
+    deleteMessage: 'The view "{name}" will be removed. Your transactions are not affected.',
+    deleteSuccess: 'Saved view deleted',
+    homeTitle: 'Saved views',
+    matchCount: '{count} transaction | {count} transactions',
+  },
+  tags: {
+    label: 'Tags',
+    placeholder: 'Add a tag, e.g. bali-trip',
+    remove: 'Remove tag {tag}',
+    totalsTitle: 'Totals by Tag',
+    totalsDesc: 'Income and spending across tagged transactions',
+    transactionCount: '{count} transaction | {count} transactions',
+  },
+  merchants: {
+    totalsTitle: 'Top Merchants',
+    totalsDesc: 'Where your spending goes, by shop',
+    transactionCount: '{count} purchase | {count} purchases',
+    share: '{percent}% of merchant spending',
+    title: 'Merchants',
+    subtitle: 'Shops from your history and what new entries from them start with',
+    manage: 'Manage',
+    category: 'Category',
+    pocket: 'Pocket',
+    automatic: 'Automatic ({value})',
+    automaticNone: 'Automatic',
+    lastUsed: 'Last purchase {date}',
+    updateSuccess: 'Preferences for {name} saved',
+    emptyTitle: 'No merchants yet',
+    emptyDesc: 'Scan a receipt or type an entry like "Indomaret 25rb" and the shop shows up here.',
+  },
+  attachments: {
+    title: 'Receipt',
+    deviceOnly: 'Images stay on this device and are not synced',
+    none: 'No image attached to this transaction yet.',
+    imageAlt: 'Receipt image',
+    showText: 'Scanned text',
+    hideText: 'Hide text',
+    remove: 'Remove',
+    attach: 'Attach image',
+    attachReceipt: 'Attach receipt',
+    viewReceipt: 'View receipt',
+    keepWithTransaction: 'Keep the receipt image with the transaction',
+    storageFull: 'Receipt storage is full. Remove old images in Profile → Receipt images.',
+    storageFullSkipped: 'Receipt storage is full, so the image was not kept. The transaction is saved.',
+    unavailable: 'This browser cannot store images (private browsing may block it).',
+    saveFailed: 'Could not save the image.',
+    manageTitle: 'Receipt images',
+    manageSubtitle: 'Images attached to transactions on this device',
+    storageUsed: 'Storage used',
+    limitHint: 'Images are compressed and do not count toward your plan. Free up space below when the limit is near.',
+    cleanUnlinked: 'Remove unlinked',
+    cleanOld: 'Older than {months} months',
+    cleanMessage: 'Delete {count} image? This cannot be undone. | Delete {count} images? This cannot be undone.',
+    deleteTitle: 'Delete image',
+    deleteMessage: 'The image is removed from every transaction it is attached to. This cannot be undone.',
+    deleted: '{count} image deleted | {count} images deleted',
+    notLinked: 'Not linked to a transaction',
+    emptyTitle: 'No receipt images',
+    emptyDesc: 'Scanned receipts you keep, and images you attach to a transaction, show up here.',
+    includeInExport: 'Include receipt images',
+    includeInExportHint: 'Makes the backup file larger.',
+    imported: '{count} receipt image restored. | {count} receipt images restored.',
+  },
+  bills: {
+    title: 'Bills',
+    subtitle: 'Upcoming payments and due dates',
+    createTitle: 'New bill',
+    editTitle: 'Edit bill',
+    createDesc: 'Get reminded before it is due and record the payment in one tap',
+    name: 'Name',
+    namePlaceholder: 'e.g. Electricity, Internet, Rent',
+    nameRequired: 'Name is required',
+    payFrom: 'Pay from pocket',
+    repeat: 'Repeats',
+    repeatOnce: 'One time',
+    dueDate: 'Due date',
+    nextDueDate: 'Next due date',
+    reminder: 'Reminder',
+    reminderNone: 'No reminder',
+    reminderOnDay: 'On the due date',
+    reminderDaysBefore: '{n} day before | {n} days before',
+    reminderSoon: '{name} ({amount}) is due tomorrow | {name} ({amount}) is due in {days} days',
+    reminderToday: '{name} ({amount}) is due today',
+    reminderOverdue: '{name} ({amount}) is overdue',
+    enableReminders: 'Enable',
+    enableRemindersDesc: 'Allow notifications to get reminded before bills are due.',
+    tabUpcoming: 'Upcoming',
+    tabCalendar: 'Calendar',
+    dueToday: 'Due today',
+    dueIn: 'Due tomorrow | Due in {n} days',
+    overdueBy: 'Overdue 1 day | Overdue {n} days',
+    markPaid: 'Mark as paid',
+    payTitle: 'Pay {name}',
+    payDesc: 'Records an expense from {pocket}',
+    paidOn: 'Paid on',
+    paidOnDate: 'Paid on {date}',
+    paidSuccess: '{name} marked as paid',
+    payFailed: 'Could not record the payment.',
+    paidSection: 'Paid',
+    createSuccess: 'Bill "{name}" added',
+    updateSuccess: 'Bill updated',
+    deleteTitle: 'Delete bill',
+    deleteMessage: 'Delete "{name}"? Payments already recorded stay in your transactions.',
+    deleteSuccess: 'Bill deleted',
+    emptyTitle: 'No bills yet',
+    emptyDesc: 'Add rent, utilities or subscriptions to see what is due and get reminded in time.',
+    previousMonth: 'Previous month',
+    nextMonth: 'Next month',
+    legendDue: 'Due',
+    legendOverdue: 'Overdue',
+    legendPaid: 'Paid',
+    legendSpending: 'spent',
+    monthSpending: 'Spent this month',
+    monthBillsDue: 'Bills still due',
+    nothingOnDay: 'No bills or spending on this day.',
+  },
+
+  // Cash-flow forecast (dashboard)
+  forecast: {
+    title: 'Cash-flow forecast',
+    subtitle: 'Projected from repeating transactions, recurring rules, bills and goal contributions',
+    account: 'Show',
+    netWorth: 'Net worth (all pockets & goals)',
+    goalPrefix: 'Goal:',
+    horizon: 'Period',
+    months: '{count} month | {count} months',
+    includeEveryday: 'Include average everyday spending',
+    balance: 'Balance',
+    endBalance: 'Expected on {date}',
+    negativeWarning: '{name} is projected to go below zero on {date}',
+    lowestBalance: 'Lowest balance {amount} on {date}',
+    basedOn: 'No repeating transactions found in your history yet | Based on {count} repeating transaction found in your history | Based on {count} repeating transactions found in your history',
+  },
+
+  // Liabilities & net worth
+  liabilities: {
+    title: 'Debts',
+    subtitle: 'Credit cards, loans and paylater',
+    createTitle: 'New debt',
+    editTitle: 'Edit debt',
+    createDesc: 'Payments are recorded as transfers from a pocket',
+    name: 'Name',
+    namePlaceholder: 'e.g. BCA credit card, Motorbike loan',
+    nameRequired: 'Name is required',
+    kind: 'Type',
+    kindCreditCard: 'Credit card',
+    kindLoan: 'Loan',
+    kindPaylater: 'Paylater',
+    currency: 'Currency',
+    balance: 'Amount owed today',
+    interestRate: 'Interest (% per year)',
+    interestInvalid: 'Interest must be between 0 and 100%',
+    dueDay: 'Due day',
+    dueDayPlaceholder: '1–31',
+    dueDayInvalid: 'Due day must be between 1 and 31',
+    minimumPayment: 'Minimum payment per month',
+    minimumPaymentValue: 'Minimum {amount} / month',
+    apr: '{rate}% APR',
+    dueOnDay: 'due on day {day}',
+    paidOff: 'Paid off',
+    pay: 'Pay',
+    payTitle: 'Pay {name}',
+    payDesc: 'Outstanding {amount}',
+    payFrom: 'Pay from pocket',
+    paidSuccess: 'Payment to {name} recorded',
+    payFailed: 'Failed to record the payment',
+    createSuccess: 'Debt "{name}" added',
+    updateSuccess: 'Debt updated',
+    deleteTitle: 'Delete debt?',
+    deleteMessage: 'Delete "{name}"? Payments already made stay in your transaction history.',
+    deleteSuccess: 'Debt deleted',
+    emptyTitle: 'No debts tracked',
+    emptyDesc: 'Add credit cards, loans or paylater to see your real net worth: what you own minus what you owe.',
+    netWorth: 'Net worth',
+    assets: 'Assets',
+    debts: 'Debts',
+    monthlyInterest: 'About {amount} interest per month at current balances',
+    historyTitle: 'Net worth history',
+    historyDesc: 'Assets minus debts, recorded every month',
+    historyEmpty: 'Your history starts this month. Come back next month to see the trend.',
+    homeSummary: 'Debts {debts} · Net worth {netWorth}',
+  },
+
+  // Debt payoff planner
+  debtPayoff: {
+    title: 'Debt payoff planner',
+    subtitle: 'Snowball vs. avalanche',
+    linkDesc: 'Compare snowball and avalanche with your monthly budget',
+    addDebt: 'Add debt',
+    debtsTitle: 'Debts to pay off',
+    debtsDesc: 'Untick a debt to leave it out of the plan',
+    budget: 'Monthly budget for debts',
+    budgetHint: 'Minimum payments {minimums} · Total owed {total}',
+    snowball: 'Snowball',
+    snowballDesc: 'Smallest balance first',
+    avalanche: 'Avalanche',
+    avalancheDesc: 'Highest interest first',
+    debtFreeIn: 'Debt-free by {date} ({count} month) | Debt-free by {date} ({count} months)',
+    totalInterest: 'Interest {amount}',
+    belowMinimums: 'Budget is below the minimum payments',
+    neverPaidOff: 'Interest grows faster than this budget pays off',
+    avalancheSaves: 'Avalanche saves {amount} in interest compared to snowball.',
+    scheduleTitle: 'Month by month',
+    order: 'Extra payments go to: {names}',
+    colMonth: 'Month',
+    colPayment: 'Payment',
+    colInterest: 'Interest',
+    colBalance: 'Left',
+    paidOff: 'Paid off: {names}',
+    showAll: 'Show all {count} months',
+    showLess: 'Show less',
+    emptyTitle: 'No debts to plan',
+    emptyDesc: 'Add your credit cards, loans or paylater with their interest rate and minimum payment to see when you can be debt-free.',
+  },
+  goalPlan: {
+    title: 'Plan',
+    status: {
+      completed: 'Reached',
+      on_track: 'On track',
+      behind: 'Behind',
+      overdue: 'Overdue',
+    },
+    deadline: 'Target date',
+    requiredMonthly: 'Needed per month',
+    requiredWeekly: 'Needed per week',
+    expectedBalance: 'Expected by now',
+    projectionOnTime: 'At this pace you reach the target in {date}.',
+    projectionLate: 'At this pace you reach the target in {date}, after the target date.',
+    projectionNever: 'At this pace the target is not reached.',
+    projectionNoPace: 'No recent contributions. Add money or set up an auto-save to see when you get there.',
+    paceAutoSave: 'Based on your auto-saves of {amount} per month.',
+    paceHistory: 'Based on your average of {amount} per month over the last few months.',
+    includesReturns: 'Includes the estimated {percent}% annual return.',
+    autoSaves: 'Auto-save',
+    noAutoSaves: 'Move money from a pocket into this goal automatically every week or month.',
+    addAutoSave: 'Add auto-save',
+    editAutoSave: 'Edit auto-save',
+    autoSaveDesc: 'Scheduled transfer into "{name}"',
+    fromPocket: 'From pocket',
+    fromPocketValue: 'From {pocket}',
+    unknownPocket: 'Deleted pocket',
+    useSuggested: 'Use the amount needed to stay on track ({amount})',
+    firstTransfer: 'First transfer',
+    scheduleFrom: 'Schedule from',
+    skipNote: 'A transfer is skipped when the pocket balance is too low or the goal is already reached.',
+    nextTransfer: 'Next transfer {date}',
+    lastSkipped: 'Skipped on {date}: pocket balance too low.',
+    autoSaveCreated: 'Auto-save for "{name}" created.',
+    autoSaveUpdated: 'Auto-save updated.',
+    autoSavePaused: 'Auto-save paused.',
+    autoSaveResumed: 'Auto-save resumed. Missed transfers are skipped.',
+    autoSaveDeleted: 'Auto-save deleted.',
+  },
 }
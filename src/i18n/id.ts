@@ -21,6 +21,7 @@ export default {
     show: 'Tampilkan',
     hide: 'Sembunyikan',
     continue: 'Lanjutkan',
+    deviceSaveFailed: 'Gagal menyimpan ke perangkat ini. Perubahan terakhir bisa hilang saat aplikasi ditutup.',
   },
 
   // Navigation
@@ -214,6 +215,31 @@ export default {
       visitWebsite: 'Kunjungi Website',
       visitWebsiteDesc: 'Pelajari lebih lanjut tentang FanPlanner',
     },
+    tools: {
+      title: 'Alat Keuangan',
+      recurring: 'Transaksi Berulang',
+      recurringDesc: 'Gaji, sewa, dan langganan dicatat otomatis',
+      budgets: 'Anggaran',
+      budgetsDesc: 'Batas pengeluaran per kategori dan pantau yang berlebih',
+      exchangeRates: 'Kurs Mata Uang',
+      exchangeRatesDesc: 'Mata uang pocket dan kurs konversi',
+      cloudSync: 'Sinkronisasi Cloud',
+      cloudSyncDesc: 'Simpan datamu di semua perangkat (Premium)',
+      statementImport: 'Impor Mutasi',
+      statementImportDesc: 'File CSV, OFX, atau QIF dari bank dan e-wallet',
+      categoryRules: 'Aturan Kategori',
+      categoryRulesDesc: 'Atur kategori otomatis dari deskripsi, merchant atau nominal',
+      merchants: 'Merchant',
+      merchantsDesc: 'Pilih kategori dan kantong untuk tiap toko',
+      categories: 'Kategori',
+      categoriesDesc: 'Nama, ikon, warna, dan sub-kategori',
+      attachments: 'Gambar struk',
+      attachmentsDesc: 'Penyimpanan struk terlampir dan pembersihan',
+      bills: 'Tagihan',
+      billsDesc: 'Jatuh tempo, pengingat dan kalender pembayaran',
+      liabilities: 'Utang & kekayaan bersih',
+      liabilitiesDesc: 'Kartu kredit, pinjaman, dan paylater beserta kekayaan bersih dari waktu ke waktu',
+    },
   },
 
   // Settings
@@ -459,6 +485,7 @@ export default {
       securityDesc: 'Passphrase Anda tidak pernah disimpan. Dekripsi hanya terjadi di memori demi keamanan Anda.',
       continueButton: 'Lanjutkan',
       decryptFailed: 'Passphrase salah atau file bukan backup dari aplikasi ini. Cek passphrase lalu coba lagi.',
+      statementHint: 'Mau impor mutasi bank atau e-wallet (CSV, OFX, QIF)? Gunakan Impor Mutasi.',
     },
   },
 
@@ -568,6 +595,15 @@ export default {
       investment: 'Investasi',
       gift: 'Hadiah',
     },
+    splitAction: 'Pisah ke beberapa kategori',
+    splitTitle: 'Pisah kategori',
+    splitCancel: 'Batal pisah',
+    splitAddLine: 'Tambah baris',
+    splitUnassigned: 'Belum dialokasikan: {amount}',
+    splitSummary: '{category} + {count} lainnya',
+    splitTooFewLines: 'Pisah kategori butuh minimal dua baris.',
+    splitLineInvalid: 'Setiap baris harus punya kategori dan nominal.',
+    splitTotalMismatch: 'Total nominal per kategori harus sama dengan nominal transaksi.',
   },
 
   // Receipt Scanner
@@ -611,11 +647,34 @@ export default {
     takePhotoButton: 'Ambil Foto',
     uploadImageButton: 'Upload Gambar',
     manualInputDesc: 'Atau masukkan informasi transaksi secara manual di bawah ini',
-    item: 'Item',
-    quantity: 'Jml',
+    itemNamePlaceholder: 'Nama item',
+    addItem: 'Tambah item',
+    adjustments: 'Pajak, servis & diskon',
+    addAdjustment: 'Tambah biaya atau diskon',
+    adjustment: {
+      tax: 'Pajak (PPN)',
+      service: 'Biaya layanan',
+      tip: 'Tip',
+      discount: 'Diskon',
+      rounding: 'Pembulatan',
+    },
+    toggleSign: 'Ganti antara menambah dan mengurangi',
+    itemsTotal: 'Item',
+    receiptTotal: 'Total struk',
+    breakdownBalanced: 'Item dan biaya sudah sesuai dengan total',
+    breakdownOff: 'Selisih {amount} dari total',
+    addDifferenceAsRounding: 'Catat selisih sebagai pembulatan',
+    useComputedTotal: 'Pakai {amount} sebagai total',
+    saveAs: 'Simpan sebagai',
+    saveMode: {
+      single: 'Satu transaksi',
+      items: 'Per item',
+      category: 'Per kategori',
+    },
+    splitNeedsBalance: 'Untuk menyimpan per item atau kategori, rincian harus sesuai dengan total.',
+    splitDate: 'Tanggal untuk semua transaksi',
     dateWarning: 'Peringatan Tanggal',
     dateWarningDesc: 'Tanggal yang terdeteksi dari struk adalah tanggal masa depan. Menggunakan tanggal hari ini sebagai gantinya.',
-    dateWarningMultiple: 'Beberapa transaksi memiliki tanggal masa depan. Tanggal telah diperbaiki menjadi hari ini.',
     cancel: 'Batal',
     submit: 'Kirim',
     scanFailed: 'Scan Gagal',
@@ -646,7 +705,7 @@ export default {
     activateLicenseForUnlimited: 'untuk input teks tanpa batas.',
     limitReached: 'Batas input teks tercapai ({max} penggunaan per hari). Aktifkan lisensi untuk membuka input teks tanpa batas.',
     howToUse: 'Cara Menggunakan',
-    howToUseDesc: 'Ketik transaksi dalam bahasa natural, seperti "Beli bakso hari ini 20 ribu" atau "Gaji masuk 5 juta". Aplikasi akan otomatis mengisi form untuk Anda.',
+    howToUseDesc: 'Ketik transaksi dalam bahasa natural, seperti "Beli bakso hari ini 20 ribu" atau "Gaji masuk 5 juta". Tulis beberapa transaksi per baris atau pisahkan dengan koma, misalnya "kopi 25rb, parkir 5rb kemarin". Sebut nama kantong atau goal untuk memilihnya atau memindahkan uang: "bayar listrik 300rb dari BCA", "nabung 500rb ke goal Liburan". Bahasa Inggris juga bisa: "spent $12.50 on coffee last Friday". Aplikasi akan otomatis mengisi form untuk Anda.',
     howToUseDescGoal: 'Ketik pemasukan untuk goal, misalnya "Gaji masuk 5 juta" atau "Bonus 2 juta". Goal hanya menerima income—tidak ada pengeluaran di sini.',
     enterTransaction: 'Masukkan Transaksi',
     enterTransactionPlaceholder: 'Contoh: Beli bakso hari ini 20 ribu atau Gaji masuk 5 juta',
@@ -668,6 +727,7 @@ export default {
     description: 'Deskripsi',
     category: 'Kategori',
     date: 'Tanggal',
+    tags: 'Tag',
     confidenceHigh: 'Tinggi',
     confidenceMedium: 'Sedang',
     confidenceLow: 'Rendah',
@@ -683,6 +743,21 @@ export default {
     income: 'Income',
     expense: 'Expense',
     premiumBenefits: 'untuk input teks tanpa batas.',
+    parseSuccessMulti: '1 transaksi ditemukan | {count} transaksi ditemukan',
+    parseSuccessMultiDesc: 'Ketuk transaksi untuk mengoreksinya, atau hapus yang tidak diinginkan sebelum menyimpan.',
+    netTotal: 'Bersih {amount}',
+    checkDraft: 'Periksa',
+    removeDraft: 'Hapus transaksi',
+    ignoredLines: 'Dilewati (tanpa jumlah): {lines}',
+    saveAll: 'Simpan {count} transaksi',
+    transfer: 'Transfer',
+    goalTransfer: 'Transfer ke Goal',
+    goal: 'Goal',
+    today: 'Hari ini',
+    pocket: 'Kantong',
+    fromPocket: 'Dari kantong',
+    transferTo: 'Ke',
+    transferDatedToday: 'Transfer dicatat dengan tanggal hari ini.',
   },
 
   // Home/Dashboard
@@ -771,7 +846,7 @@ export default {
   transactions: {
     title: 'Transaksi',
     subtitle: 'Uangmu lari ke mana aja?',
-    searchPlaceholder: 'Cari catatan...',
+    searchPlaceholder: 'Cari catatan atau filter, mis. amount>50000',
     searchNotesPlaceholder: 'Cari catatan...',
     allTime: 'Semua Waktu',
     allWallets: 'Semua Dompet',
@@ -806,6 +881,20 @@ export default {
     exportPDF: 'PDF',
     exportNoDataTitle: 'Belum ada data untuk diekspor',
     exportNoDataMessage: 'Tidak ada transaksi yang bisa diekspor ke Excel atau PDF. Coba ubah filter atau tambahkan transaksi dulu ya.',
+    moreFilters: 'Filter lain',
+    moreFiltersCount: 'Filter ({count})',
+    categories: 'Kategori',
+    noCategoriesYet: 'Belum ada kategori di transaksimu.',
+    amountRange: 'Nominal',
+    minAmount: 'Minimal',
+    maxAmount: 'Maksimal',
+    amountRangeHint: 'Dibandingkan dengan nominal tiap transaksi dalam mata uangnya sendiri. Kosongkan jika tanpa batas.',
+    amountRangeInvalid: 'Nominal minimal lebih besar dari maksimal.',
+    resetFilters: 'Atur ulang',
+    applyFilters: 'Terapkan',
+    queryInvalid: 'Tidak dipahami, diabaikan: {terms}',
+    queryHelpTitle: 'Cara mencari dan memfilter',
+    queryHelp: 'Kata biasa mencari catatan, nama kategori dan tag. Tambahkan istilah seperti kategori:, tipe:, dompet:, goal:, tag: (atau #tag), ada:struk / tanpa:struk, jumlah> / jumlah< / jumlah:10rb..50rb dan tanggal:today / tanggal:7d / tanggal:2026-03 / tanggal>=2026-01-01. Pisahkan pilihan dengan koma dan beri tanda kutip pada nama yang berspasi; semua istilah harus cocok.',
   },
   // Payment
   payment: {
@@ -875,17 +964,36 @@ export default {
     annualReturnLabel: 'Estimasi return tahunan (%)',
     annualReturnPlaceholder: 'Contoh: 6',
     returnHeader: 'Return: {percent}%/tahun',
-    returnCalculatedDaily: 'Return dihitung per hari',
     investmentDisclaimer: 'Ini simulasi untuk membantu melacak progress, bukan data pasar nyata.',
     investmentGrowthTitle: 'Pertumbuhan Investasi',
     initialInvested: 'Jumlah awal diinvestasikan',
     totalReturn: 'Total return (keuntungan)',
-    simulatedGrowthLabel: 'Pertumbuhan harian simulasi berdasarkan pengaturan return Anda.',
+    simulatedGrowthLabel: 'Pertumbuhan simulasi berdasarkan pengaturan return dan pemajemukan Anda.',
     investmentDisclaimerShort: 'Pertumbuhan investasi disimulasi hanya untuk keperluan perencanaan.',
     investmentActivityTitle: 'Aktivitas Investasi',
     dailyInvestmentReturn: 'Daily Investment Return',
     dailyInvestmentReturnId: 'Return Investasi Harian',
     simulationBadge: 'Simulasi',
+    monthlyInvestmentReturn: 'Return Investasi Bulanan',
+    yearlyInvestmentReturn: 'Return Investasi Tahunan',
+    compounding: 'Pemajemukan',
+    compoundingDaily: 'Harian',
+    compoundingMonthly: 'Bulanan',
+    compoundingYearly: 'Tahunan',
+    compoundingHint: 'Return dihitung setiap hari dan ditambahkan ke Goal di akhir setiap periode.',
+    volatilityLabel: 'Volatilitas (% per tahun, opsional)',
+    volatilityPlaceholder: 'Contoh: 5',
+    volatilityHint: 'Menampilkan proyeksi pesimis dan optimis dengan return dikurangi / ditambah nilai ini.',
+    returnEffectiveFrom: 'Berlaku mulai',
+    returnEffectiveHint: 'Return baru berlaku mulai tanggal ini; return simulasi sejak tanggal itu dihitung ulang.',
+    growthChartTitle: 'Modal vs. return',
+    growthChartDesc: 'Simulasi sejauh ini, proyeksi untuk {months} bulan ke depan',
+    chartPrincipal: 'Modal',
+    chartBalance: 'Saldo',
+    chartProjected: 'Proyeksi',
+    chartOptimistic: 'Optimis',
+    chartPessimistic: 'Pesimis',
+    showScenarios: 'Tampilkan skenario (return ±{percent}%)',
     startInvestingToSeeGrowth: 'Mulai investasi untuk melihat pertumbuhan seiring waktu.',
     goalName: 'Nama goal',
     goalNamePlaceholder: 'mis. Liburan, DP Rumah',
@@ -948,4 +1056,552 @@ export default {
     deleteConfirm: 'Hapus Goal',
     deleteSuccess: 'Goal "{name}" berhasil dihapus.',
   },
+  // Transaksi berulang
+  recurring: {
+    title: 'Transaksi Berulang',
+    subtitle: 'Transaksi yang dicatat otomatis sesuai jadwal',
+    createTitle: 'Transaksi Berulang Baru',
+    editTitle: 'Edit Transaksi Berulang',
+    createDesc: 'Transaksi yang jatuh tempo dicatat otomatis saat aplikasi dibuka.',
+    createSuccess: 'Transaksi berulang "{name}" berhasil dibuat.',
+    updateSuccess: 'Transaksi berulang berhasil diperbarui.',
+    deleteTitle: 'Hapus aturan berulang?',
+    deleteMessage: 'Transaksi berikutnya tidak akan dicatat lagi. Transaksi yang sudah tercatat tetap disimpan.',
+    deleteSuccess: 'Aturan berulang dihapus.',
+    descriptionPlaceholder: 'Contoh: Sewa kos, Netflix, Gaji',
+    targetPocket: 'Kantong tujuan',
+    frequency: 'Berulang',
+    frequencyDaily: 'Harian',
+    frequencyWeekly: 'Mingguan',
+    frequencyMonthly: 'Bulanan',
+    frequencyYearly: 'Tahunan',
+    interval: 'Setiap',
+    intervalRequired: 'Interval pengulangan minimal 1.',
+    startDate: 'Tanggal pertama',
+    ends: 'Berakhir',
+    endNever: 'Tidak pernah',
+    endOnDate: 'Pada tanggal',
+    endAfterCount: 'Setelah beberapa kali',
+    endDate: 'Tanggal berakhir',
+    endDateInvalid: 'Tanggal berakhir harus sama atau setelah tanggal pertama.',
+    occurrences: 'Jumlah kali',
+    occurrencesRequired: 'Jumlah kali minimal 1.',
+    editHint: 'Perubahan hanya berlaku untuk transaksi berikutnya. Transaksi yang sudah tercatat tidak berubah.',
+    everyNDays: 'Setiap hari | Setiap {n} hari',
+    everyNWeeks: 'Setiap minggu | Setiap {n} minggu',
+    everyNMonths: 'Setiap bulan | Setiap {n} bulan',
+    everyNYears: 'Setiap tahun | Setiap {n} tahun',
+    nextDue: 'Berikutnya: {date}',
+    postedSoFar: '{count} sudah tercatat',
+    postedCount: '{count} transaksi berulang dicatat | {count} transaksi berulang dicatat',
+    statusPaused: 'Dijeda',
+    statusEnded: 'Selesai',
+    pause: 'Jeda',
+    resume: 'Lanjutkan',
+    paused: '"{name}" dijeda.',
+    resumed: '"{name}" dilanjutkan. Jadwal yang terlewat tidak dicatat.',
+    emptyTitle: 'Belum ada transaksi berulang',
+    emptyDesc: 'Atur gaji, sewa, langganan, atau cicilan sekali saja dan biarkan tercatat otomatis.',
+    generatedBadge: 'Berulang',
+    manageRule: 'Kelola transaksi berulang',
+  },
+  // Anggaran
+  budget: {
+    title: 'Anggaran',
+    subtitle: 'Batas pengeluaran per kategori',
+    createTitle: 'Anggaran Baru',
+    editTitle: 'Edit Anggaran',
+    createDesc: 'Atur batas pengeluaran untuk satu kategori. Hanya pengeluaran yang dihitung.',
+    createSuccess: 'Anggaran {category} berhasil dibuat.',
+    updateSuccess: 'Anggaran berhasil diperbarui.',
+    deleteTitle: 'Hapus anggaran?',
+    deleteMessage: 'Anggaran {category} akan dihapus. Transaksi Anda tidak terpengaruh.',
+    deleteSuccess: 'Anggaran dihapus.',
+    alreadyExists: 'Anggaran untuk kategori, periode, dan kantong ini sudah ada.',
+    amountRequired: 'Batas anggaran harus lebih dari 0.',
+    limit: 'Batas',
+    period: 'Periode',
+    periodWeekly: 'Mingguan',
+    periodMonthly: 'Bulanan',
+    periodYearly: 'Tahunan',
+    pocketScope: 'Hitung pengeluaran dari',
+    allPockets: 'Semua kantong',
+    monthlySpent: 'Terpakai bulan ini',
+    ofLimit: 'dari anggaran bulanan {limit}',
+    spentOf: '{spent} dari {limit}',
+    remaining: 'Sisa {amount}',
+    overBy: 'Lebih {amount}',
+    overBudget: 'Melebihi anggaran',
+    emptyTitle: 'Belum ada anggaran',
+    emptyDesc: 'Atur batas bulanan untuk makan, transportasi, atau belanja dan langsung lihat saat pengeluaran berlebih.',
+  },
+  currency: {
+    title: 'Kurs Mata Uang',
+    subtitle: 'Konversi mata uang pocket untuk total',
+    baseCurrency: 'Mata uang utama',
+    baseCurrencyHint: 'Total saldo, ringkasan, grafik dan anggaran ditampilkan dalam mata uang ini.',
+    baseUpdated: 'Total sekarang ditampilkan dalam {currency}.',
+    ratesTitle: 'Kurs',
+    ratesHint: 'Masukkan nilai 1 unit tiap mata uang dalam IDR. Kurs diisi manual dan hanya dipakai untuk total.',
+    ratePlaceholder: 'cth. 16250',
+    rateLabel: '1 {currency} = ? IDR',
+    rateInvalid: 'Kurs harus lebih dari 0.',
+    rateInvalidFor: 'Kurs {currency} harus lebih dari 0.',
+    ratesSaved: 'Kurs disimpan.',
+    lastUpdated: 'Terakhir diperbarui {date}',
+    usedByPockets: 'Dipakai {count} pocket',
+    missingRates: 'Belum ada kurs untuk {currencies}. Jumlahnya ditambahkan ke total tanpa konversi.',
+    missingRateShort: 'kurs belum diisi',
+    pocketCurrency: 'Mata uang',
+    pocketCurrencyHint: 'Tidak bisa diubah setelah pocket dibuat.',
+    convertedPreview: 'Diterima sebesar {amount}',
+    transferRateMissing: 'Belum ada kurs antara {from} dan {to}. Isi kursnya di Kurs Mata Uang sebelum memindahkan uang.',
+  },
+  cloudSync: {
+    title: 'Sinkronisasi Cloud',
+    subtitle: 'Simpan datamu di semua perangkat',
+    storedIn: 'Datamu disimpan',
+    backendLocal: 'Hanya di perangkat ini',
+    backendCloud: 'Di akun cloud kamu',
+    premiumTitle: 'Fitur Premium',
+    premiumDesc: 'Dengan lisensi Premium kamu bisa menyimpan transaksi, pocket dan goal di akunmu dan memakainya di semua perangkat.',
+    upgrade: 'Upgrade ke Premium',
+    signInTitle: 'Masuk',
+    signInDesc: 'Kami akan mengirim link masuk ke emailmu. Tanpa password.',
+    email: 'Email',
+    emailInvalid: 'Masukkan alamat email yang valid.',
+    sendLink: 'Kirim link masuk',
+    linkSent: 'Link masuk dikirim ke {email}. Buka di perangkat ini untuk lanjut.',
+    signedInAs: 'Masuk sebagai',
+    cloudOffDesc: 'Aktifkan penyimpanan cloud untuk menyalin data di perangkat ini ke akunmu dan menjaganya tetap sinkron.',
+    cloudOnDesc: 'Transaksi, pocket dan goal disimpan di akunmu. Perubahan saat offline tetap tersimpan dan disinkron saat kembali online.',
+    turnOn: 'Aktifkan penyimpanan cloud',
+    turnOnTitle: 'Simpan data di cloud?',
+    turnOnMessage: 'Transaksi, pocket dan goal di perangkat ini akan disalin ke akunmu. Aplikasi akan dimuat ulang setelah selesai.',
+    turnOff: 'Simpan data di perangkat ini saja',
+    turnOffTitle: 'Berhenti memakai cloud?',
+    turnOffMessage: 'Data akunmu akan disalin ke perangkat ini dan perubahan baru tersimpan di sini. Aplikasi akan dimuat ulang setelah selesai.',
+    enabled: 'Penyimpanan cloud aktif.',
+    disabled: 'Data sekarang hanya disimpan di perangkat ini.',
+    switchFailed: 'Tidak bisa terhubung ke server. Periksa koneksimu dan coba lagi.',
+    signOut: 'Keluar',
+    syncTitle: 'Sinkronisasi',
+    syncing: 'Menyinkronkan…',
+    upToDate: 'Semua perubahan tersinkron',
+    pendingChanges: 'Tidak ada perubahan tertunda | 1 perubahan menunggu sinkron | {count} perubahan menunggu sinkron',
+    lastSynced: 'Terakhir sinkron {date}',
+    neverSynced: 'Belum pernah sinkron',
+    syncError: 'Sinkron terakhir gagal. Perubahan tetap di perangkat ini dan dikirim saat koneksi kembali.',
+    offline: 'Kamu sedang offline. Perubahan disimpan di perangkat ini dan disinkron nanti.',
+    syncNow: 'Sinkron sekarang',
+    conflictsTitle: 'Log konflik',
+    conflictsDesc: 'Jika perubahan di sini dan di perangkat lain mengubah kolom yang sama, perubahan terakhir yang dipakai.',
+    noConflicts: 'Belum ada konflik.',
+    clearConflicts: 'Hapus log',
+    keptThisDevice: 'Pakai perangkat ini',
+    keptOtherDevice: 'Pakai perangkat lain',
+    deletedHere: 'Dihapus di perangkat ini, diubah di perangkat lain',
+    deletedElsewhere: 'Diubah di perangkat ini, dihapus di perangkat lain',
+    entity: {
+      transaction: 'Transaksi',
+      pocket: 'Pocket',
+      goal: 'Goal',
+    },
+  },
+  statementImport: {
+    title: 'Impor Mutasi',
+    subtitle: 'Tambahkan transaksi dari bank atau e-wallet',
+    pocket: 'Impor ke Pocket',
+    chooseFile: 'Pilih file CSV, OFX, atau QIF',
+    formatsHint: 'Unduh mutasi dari aplikasi bank atau e-wallet dalam format CSV, OFX/QFX, atau QIF.',
+    unsupportedFile: 'Jenis file tidak didukung. Gunakan CSV, OFX/QFX, atau QIF.',
+    emptyFile: 'File tidak berisi baris apa pun.',
+    noRows: 'Tidak ada transaksi yang bisa dibaca. Periksa kolom dan format tanggal.',
+    mappingTitle: 'Cocokkan kolom',
+    mappingHint: 'Pilih kolom di {file} yang berisi tanggal, keterangan, dan nominal.',
+    hasHeader: 'Baris pertama adalah judul kolom',
+    columnN: 'Kolom {n} (mis. {sample})',
+    columnNone: '— Tidak ada —',
+    dateColumn: 'Kolom tanggal',
+    dateFormatLabel: 'Format tanggal',
+    descriptionColumn: 'Kolom keterangan',
+    amountModeLabel: 'Uang masuk dan keluar',
+    amountColumn: 'Kolom nominal',
+    debitColumn: 'Kolom uang keluar (debit)',
+    creditColumn: 'Kolom uang masuk (kredit)',
+    amountMode: {
+      signed: 'Satu kolom nominal, negatif atau DB = uang keluar',
+      inverted: 'Satu kolom nominal, positif = uang keluar',
+      debitCredit: 'Kolom debit dan kredit terpisah',
+    },
+    dateFormat: {
+      dmy: 'Hari / Bulan / Tahun',
+      mdy: 'Bulan / Hari / Tahun',
+      ymd: 'Tahun / Bulan / Hari',
+    },
+    preview: 'Pratinjau',
+    previewTitle: 'Transaksi',
+    found: 'Tidak ada transaksi | 1 transaksi ditemukan | {count} transaksi ditemukan',
+    duplicatesFound: '1 transaksi sudah ada di Pocket ini dan tidak dicentang. | {count} transaksi sudah ada di Pocket ini dan tidak dicentang.',
+    skippedRows: '1 baris dilewati (tanpa tanggal atau nominal). | {count} baris dilewati (tanpa tanggal atau nominal).',
+    duplicate: 'Sudah ada',
+    selectAll: 'Semua',
+    selectNone: 'Tidak ada',
+    noDescription: 'Transaksi impor',
+    categoryHint: 'Kategori diambil dari aturan kategori; baris yang tidak cocok dengan aturan mana pun masuk "Lainnya".',
+    importCount: 'Impor | Impor 1 transaksi | Impor {count} transaksi',
+    imported: 'Tidak ada transaksi diimpor | 1 transaksi diimpor | {count} transaksi diimpor',
+    importFailed: 'Gagal mengimpor mutasi. Silakan coba lagi.',
+  },
+  categoryRules: {
+    title: 'Aturan Kategori',
+    subtitle: 'Kategorikan transaksi secara otomatis',
+    createTitle: 'Aturan Baru',
+    editTitle: 'Ubah Aturan',
+    createDesc: 'Jika semua kondisi cocok, transaksi mendapat kategori ini. Berlaku untuk formulir, input teks, scan struk, dan impor mutasi.',
+    createSuccess: 'Aturan untuk {category} dibuat.',
+    updateSuccess: 'Aturan diperbarui.',
+    deleteTitle: 'Hapus aturan?',
+    deleteMessage: 'Aturan yang mengatur {category} akan dihapus. Kategori yang sudah tercatat tidak berubah.',
+    deleteSuccess: 'Aturan dihapus.',
+    appliesTo: 'Berlaku untuk',
+    typeAny: 'Pemasukan dan pengeluaran',
+    typeIncome: 'Pemasukan',
+    typeExpense: 'Pengeluaran',
+    conditions: 'Kondisi',
+    conditionsHint: 'Pencocokan teks tidak membedakan huruf besar dan kecil. Merchant memakai nama merchant dari struk, atau deskripsi jika tidak ada.',
+    addCondition: 'Tambah kondisi',
+    fieldDescription: 'Deskripsi',
+    fieldMerchant: 'Merchant',
+    fieldAmount: 'Nominal',
+    op: {
+      contains: 'Mengandung',
+      equals: 'Sama persis',
+      startsWith: 'Diawali',
+      regex: 'Cocok dengan pola',
+      gt: 'Lebih dari',
+      gte: 'Minimal',
+      lt: 'Kurang dari',
+      lte: 'Maksimal',
+    },
+    valuePlaceholder: 'contoh: grab',
+    patternPlaceholder: 'contoh: ^(gojek|grab)',
+    setCategory: 'Atur kategori menjadi',
+    enabled: 'Aktif',
+    conditionRequired: 'Tambahkan minimal satu kondisi.',
+    valueRequired: 'Isi teks untuk setiap kondisi.',
+    amountRequired: 'Kondisi nominal harus lebih dari 0.',
+    invalidPattern: '"{pattern}" bukan pola yang valid.',
+    conditionSummary: '{field} {operator} {value}',
+    and: 'dan',
+    orderHint: 'Aturan dicek dari atas ke bawah; aturan pertama yang cocok menentukan kategori.',
+    moveUp: 'Naikkan',
+    moveDown: 'Turunkan',
+    reapply: 'Terapkan ulang ke riwayat',
+    reapplyTitle: 'Terapkan ulang aturan',
+    reapplyDesc: '{count} transaksi akan berganti kategori.',
+    reapplyNone: 'Transaksi yang tercatat sudah sesuai dengan aturan.',
+    reapplyConfirm: 'Perbarui {count}',
+    reapplySuccess: '{count} transaksi dikategorikan ulang.',
+    emptyTitle: 'Belum ada aturan',
+    emptyDesc: 'Beri tahu aplikasi bahwa "Grab" itu Transportasi atau "Indomaret" itu Belanja, dan transaksi baru langsung mendapat kategori yang tepat.',
+  },
+  categories: {
+    title: 'Kategori',
+    subtitle: 'Ubah nama, warna, dan kelompokkan kategori',
+    createTitle: 'Kategori baru',
+    editTitle: 'Ubah kategori',
+    createDesc: 'Sub-kategori ikut dihitung ke induknya di anggaran dan filter.',
+    name: 'Nama',
+    namePlaceholder: 'mis. Hewan peliharaan',
+    nameRequired: 'Masukkan nama kategori.',
+    nameTaken: 'Sudah ada kategori dengan nama ini di sini.',
+    type: 'Digunakan untuk',
+    typeBoth: 'Pemasukan dan pengeluaran',
+    typeIncome: 'Hanya pemasukan',
+    typeExpense: 'Hanya pengeluaran',
+    parent: 'Kategori induk',
+    noParent: 'Tidak ada (level atas)',
+    hasChildrenHint: 'Kategori ini punya sub-kategori, jadi tetap di level atas.',
+    icon: 'Ikon',
+    color: 'Warna',
+    createSuccess: 'Kategori "{name}" dibuat',
+    updateSuccess: 'Kategori diperbarui',
+    archive: 'Arsipkan',
+    archiveTitle: 'Arsipkan kategori?',
+    archiveMessage: '"{name}" tidak akan ditawarkan lagi untuk transaksi baru. Transaksi yang sudah ada tetap memakainya.',
+    archiveMessageWithChildren: '"{name}" dan sub-kategorinya tidak akan ditawarkan lagi untuk transaksi baru. Transaksi yang sudah ada tetap memakainya.',
+    archiveSuccess: 'Kategori diarsipkan',
+    restore: 'Pulihkan',
+    restoreSuccess: 'Kategori "{name}" dipulihkan',
+    archivedTitle: 'Diarsipkan',
+    archivedDesc: 'Disembunyikan dari pilihan, tetap tampil di transaksi lama.',
+  },
+  savedFilters: {
+    saveView: 'Simpan tampilan',
+    saveTitle: 'Simpan tampilan ini',
+    saveDesc: 'Simpan filter saat ini dengan sebuah nama dan buka kembali dengan sekali ketuk.',
+    name: 'Nama',
+    namePlaceholder: 'mis. Makan besar',
+    nameRequired: 'Masukkan nama tampilan.',
+    nameTaken: 'Sudah ada tampilan dengan nama ini.',
+    query: 'Filter',
+    pinToHome: 'Sematkan di beranda',
+    pin: 'Sematkan di beranda',
+    unpin: 'Lepas dari beranda',
+    saveSuccess: 'Tampilan "{name}" disimpan',
+    deleteTitle: 'Hapus tampilan tersimpan?',
+    deleteMessage: 'Tampilan "{name}" akan dihapus. Transaksi Anda tidak terpengaruh.',
+    deleteSuccess: 'Tampilan tersimpan dihapus',
+    homeTitle: 'Tampilan tersimpan',
+    matchCount: '{count} transaksi | {count} transaksi',
+  },
+  tags: {
+    label: 'Tag',
+    placeholder: 'Tambah tag, mis. liburan-bali',
+    remove: 'Hapus tag {tag}',
+    totalsTitle: 'Total per Tag',
+    totalsDesc: 'Pemasukan dan pengeluaran dari transaksi bertag',
+    transactionCount: '{count} transaksi | {count} transaksi',
+  },
+  merchants: {
+    totalsTitle: 'Merchant Teratas',
+    totalsDesc: 'Ke mana pengeluaranmu pergi, per toko',
+    transactionCount: '{count} pembelian | {count} pembelian',
+    share: '{percent}% dari belanja di merchant',
+    title: 'Merchant',
+    subtitle: 'Toko dari riwayatmu dan isian awal untuk transaksi barunya',
+    manage: 'Kelola',
+    category: 'Kategori',
+    pocket: 'Kantong',
+    automatic: 'Otomatis ({value})',
+    automaticNone: 'Otomatis',
+    lastUsed: 'Pembelian terakhir {date}',
+    updateSuccess: 'Preferensi {name} disimpan',
+    emptyTitle: 'Belum ada merchant',
+    emptyDesc: 'Pindai struk atau ketik transaksi seperti "Indomaret 25rb" dan tokonya muncul di sini.',
+  },
+  attachments: {
+    title: 'Struk',
+    deviceOnly: 'Gambar tersimpan di perangkat ini saja dan tidak disinkronkan',
+    none: 'Belum ada gambar yang dilampirkan ke transaksi ini.',
+    imageAlt: 'Gambar struk',
+    showText: 'Teks hasil scan',
+    hideText: 'Sembunyikan teks',
+    remove: 'Lepas',
+    attach: 'Lampirkan gambar',
+    attachReceipt: 'Lampirkan struk',
+    viewReceipt: 'Lihat struk',
+    keepWithTransaction: 'Simpan gambar struk bersama transaksi',
+    storageFull: 'Penyimpanan struk penuh. Hapus gambar lama di Profil → Gambar struk.',
+    storageFullSkipped: 'Penyimpanan struk penuh, jadi gambar tidak disimpan. Transaksi tetap tersimpan.',
+    unavailable: 'Browser ini tidak dapat menyimpan gambar (mode privat mungkin memblokirnya).',
+    saveFailed: 'Gagal menyimpan gambar.',
+    manageTitle: 'Gambar struk',
+    manageSubtitle: 'Gambar yang dilampirkan ke transaksi di perangkat ini',
+    storageUsed: 'Penyimpanan terpakai',
+    limitHint: 'Gambar dikompres dan tidak dihitung dalam kuota paket. Kosongkan ruang di bawah saat hampir penuh.',
+    cleanUnlinked: 'Hapus yang tak terhubung',
+    cleanOld: 'Lebih dari {months} bulan',
+    cleanMessage: 'Hapus {count} gambar? Tindakan ini tidak dapat dibatalkan.',
+    deleteTitle: 'Hapus gambar',
+    deleteMessage: 'Gambar dihapus dari semua transaksi yang memakainya. Tindakan ini tidak dapat dibatalkan.',
+    deleted: '{count} gambar dihapus',
+    notLinked: 'Tidak terhubung ke transaksi',
+    emptyTitle: 'Belum ada gambar struk',
+    emptyDesc: 'Struk hasil scan yang disimpan dan gambar yang dilampirkan ke transaksi akan muncul di sini.',
+    includeInExport: 'Sertakan gambar struk',
+    includeInExportHint: 'Membuat file backup lebih besar.',
+    imported: '{count} gambar struk dipulihkan.',
+  },
+  bills: {
+    title: 'Tagihan',
+    subtitle: 'Pembayaran mendatang dan jatuh tempo',
+    createTitle: 'Tagihan baru',
+    editTitle: 'Ubah tagihan',
+    createDesc: 'Dapatkan pengingat sebelum jatuh tempo dan catat pembayaran dengan sekali ketuk',
+    name: 'Nama',
+    namePlaceholder: 'mis. Listrik, Internet, Sewa',
+    nameRequired: 'Nama wajib diisi',
+    payFrom: 'Bayar dari kantong',
+    repeat: 'Berulang',
+    repeatOnce: 'Sekali',
+    dueDate: 'Jatuh tempo',
+    nextDueDate: 'Jatuh tempo berikutnya',
+    reminder: 'Pengingat',
+    reminderNone: 'Tanpa pengingat',
+    reminderOnDay: 'Pada hari jatuh tempo',
+    reminderDaysBefore: '{n} hari sebelumnya',
+    reminderSoon: '{name} ({amount}) jatuh tempo besok | {name} ({amount}) jatuh tempo dalam {days} hari',
+    reminderToday: '{name} ({amount}) jatuh tempo hari ini',
+    reminderOverdue: '{name} ({amount}) sudah lewat jatuh tempo',
+    enableReminders: 'Aktifkan',
+    enableRemindersDesc: 'Izinkan notifikasi agar diingatkan sebelum tagihan jatuh tempo.',
+    tabUpcoming: 'Mendatang',
+    tabCalendar: 'Kalender',
+    dueToday: 'Jatuh tempo hari ini',
+    dueIn: 'Jatuh tempo besok | Jatuh tempo {n} hari lagi',
+    overdueBy: 'Telat {n} hari',
+    markPaid: 'Tandai lunas',
+    payTitle: 'Bayar {name}',
+    payDesc: 'Mencatat pengeluaran dari {pocket}',
+    paidOn: 'Dibayar pada',
+    paidOnDate: 'Dibayar {date}',
+    paidSuccess: '{name} ditandai lunas',
+    payFailed: 'Gagal mencatat pembayaran.',
+    paidSection: 'Lunas',
+    createSuccess: 'Tagihan "{name}" ditambahkan',
+    updateSuccess: 'Tagihan diperbarui',
+    deleteTitle: 'Hapus tagihan',
+    deleteMessage: 'Hapus "{name}"? Pembayaran yang sudah dicatat tetap ada di transaksi.',
+    deleteSuccess: 'Tagihan dihapus',
+    emptyTitle: 'Belum ada tagihan',
+    emptyDesc: 'Tambahkan sewa, listrik, atau langganan untuk melihat yang jatuh tempo dan diingatkan tepat waktu.',
+    previousMonth: 'Bulan sebelumnya',
+    nextMonth: 'Bulan berikutnya',
+    legendDue: 'Jatuh tempo',
+    legendOverdue: 'Telat',
+    legendPaid: 'Lunas',
+    legendSpending: 'pengeluaran',
+    monthSpending: 'Pengeluaran bulan ini',
+    monthBillsDue: 'Tagihan belum dibayar',
+    nothingOnDay: 'Tidak ada tagihan atau pengeluaran di hari ini.',
+  },
+
+  // Cash-flow forecast (dashboard)
+  forecast: {
+    title: 'Proyeksi arus kas',
+    subtitle: 'Diproyeksikan dari transaksi berulang, aturan berulang, tagihan, dan setoran goal',
+    account: 'Tampilkan',
+    netWorth: 'Kekayaan bersih (semua kantong & goal)',
+    goalPrefix: 'Goal:',
+    horizon: 'Periode',
+    months: '{count} bulan | {count} bulan',
+    includeEveryday: 'Sertakan rata-rata pengeluaran harian',
+    balance: 'Saldo',
+    endBalance: 'Perkiraan pada {date}',
+    negativeWarning: '{name} diperkirakan minus pada {date}',
+    lowestBalance: 'Saldo terendah {amount} pada {date}',
+    basedOn: 'Belum ada transaksi berulang di riwayat Anda | Berdasarkan {count} transaksi berulang dari riwayat Anda | Berdasarkan {count} transaksi berulang dari riwayat Anda',
+  },
+
+  // Liabilities & net worth
+  liabilities: {
+    title: 'Utang',
+    subtitle: 'Kartu kredit, pinjaman, dan paylater',
+    createTitle: 'Utang baru',
+    editTitle: 'Ubah utang',
+    createDesc: 'Pembayaran dicatat sebagai transfer dari kantong',
+    name: 'Nama',
+    namePlaceholder: 'mis. Kartu kredit BCA, Cicilan motor',
+    nameRequired: 'Nama wajib diisi',
+    kind: 'Jenis',
+    kindCreditCard: 'Kartu kredit',
+    kindLoan: 'Pinjaman',
+    kindPaylater: 'Paylater',
+    currency: 'Mata uang',
+    balance: 'Sisa utang saat ini',
+    interestRate: 'Bunga (% per tahun)',
+    interestInvalid: 'Bunga harus antara 0 dan 100%',
+    dueDay: 'Tanggal jatuh tempo',
+    dueDayPlaceholder: '1–31',
+    dueDayInvalid: 'Tanggal jatuh tempo harus antara 1 dan 31',
+    minimumPayment: 'Pembayaran minimum per bulan',
+    minimumPaymentValue: 'Minimum {amount} / bulan',
+    apr: 'Bunga {rate}% / tahun',
+    dueOnDay: 'jatuh tempo tgl {day}',
+    paidOff: 'Lunas',
+    pay: 'Bayar',
+    payTitle: 'Bayar {name}',
+    payDesc: 'Sisa utang {amount}',
+    payFrom: 'Bayar dari kantong',
+    paidSuccess: 'Pembayaran {name} dicatat',
+    payFailed: 'Gagal mencatat pembayaran',
+    createSuccess: 'Utang "{name}" ditambahkan',
+    updateSuccess: 'Utang diperbarui',
+    deleteTitle: 'Hapus utang?',
+    deleteMessage: 'Hapus "{name}"? Pembayaran yang sudah dilakukan tetap ada di riwayat transaksi.',
+    deleteSuccess: 'Utang dihapus',
+    emptyTitle: 'Belum ada utang',
+    emptyDesc: 'Tambahkan kartu kredit, pinjaman, atau paylater untuk melihat kekayaan bersih sebenarnya: yang kamu miliki dikurangi utang.',
+    netWorth: 'Kekayaan bersih',
+    assets: 'Aset',
+    debts: 'Utang',
+    monthlyInterest: 'Sekitar {amount} bunga per bulan dengan saldo saat ini',
+    historyTitle: 'Riwayat kekayaan bersih',
+    historyDesc: 'Aset dikurangi utang, dicatat setiap bulan',
+    historyEmpty: 'Riwayat dimulai bulan ini. Kembali bulan depan untuk melihat perkembangannya.',
+    homeSummary: 'Utang {debts} · Kekayaan bersih {netWorth}',
+  },
+
+  // Debt payoff planner
+  debtPayoff: {
+    title: 'Rencana pelunasan utang',
+    subtitle: 'Snowball vs. avalanche',
+    linkDesc: 'Bandingkan snowball dan avalanche dengan anggaran bulanan kamu',
+    addDebt: 'Tambah utang',
+    debtsTitle: 'Utang yang dilunasi',
+    debtsDesc: 'Hilangkan centang untuk mengeluarkan utang dari rencana',
+    budget: 'Anggaran bulanan untuk utang',
+    budgetHint: 'Pembayaran minimum {minimums} · Total utang {total}',
+    snowball: 'Snowball',
+    snowballDesc: 'Saldo terkecil dulu',
+    avalanche: 'Avalanche',
+    avalancheDesc: 'Bunga tertinggi dulu',
+    debtFreeIn: 'Bebas utang {date} ({count} bulan) | Bebas utang {date} ({count} bulan)',
+    totalInterest: 'Bunga {amount}',
+    belowMinimums: 'Anggaran di bawah pembayaran minimum',
+    neverPaidOff: 'Bunga tumbuh lebih cepat dari anggaran ini',
+    avalancheSaves: 'Avalanche menghemat {amount} bunga dibanding snowball.',
+    scheduleTitle: 'Per bulan',
+    order: 'Pembayaran tambahan ke: {names}',
+    colMonth: 'Bulan',
+    colPayment: 'Bayar',
+    colInterest: 'Bunga',
+    colBalance: 'Sisa',
+    paidOff: 'Lunas: {names}',
+    showAll: 'Tampilkan semua {count} bulan',
+    showLess: 'Tampilkan lebih sedikit',
+    emptyTitle: 'Belum ada utang',
+    emptyDesc: 'Tambahkan kartu kredit, pinjaman, atau paylater beserta bunga dan pembayaran minimumnya untuk melihat kapan kamu bebas utang.',
+  },
+  goalPlan: {
+    title: 'Rencana',
+    status: {
+      completed: 'Tercapai',
+      on_track: 'Sesuai jadwal',
+      behind: 'Tertinggal',
+      overdue: 'Lewat target',
+    },
+    deadline: 'Tanggal target',
+    requiredMonthly: 'Perlu per bulan',
+    requiredWeekly: 'Perlu per minggu',
+    expectedBalance: 'Seharusnya saat ini',
+    projectionOnTime: 'Dengan laju ini target tercapai pada {date}.',
+    projectionLate: 'Dengan laju ini target tercapai pada {date}, setelah tanggal target.',
+    projectionNever: 'Dengan laju ini target tidak tercapai.',
+    projectionNoPace: 'Belum ada setoran terbaru. Tambah uang atau buat tabungan otomatis untuk melihat kapan target tercapai.',
+    paceAutoSave: 'Berdasarkan tabungan otomatis {amount} per bulan.',
+    paceHistory: 'Berdasarkan rata-rata {amount} per bulan dalam beberapa bulan terakhir.',
+    includesReturns: 'Sudah termasuk perkiraan imbal hasil {percent}% per tahun.',
+    autoSaves: 'Tabungan otomatis',
+    noAutoSaves: 'Pindahkan uang dari kantong ke Goal ini secara otomatis setiap minggu atau bulan.',
+    addAutoSave: 'Tambah tabungan otomatis',
+    editAutoSave: 'Ubah tabungan otomatis',
+    autoSaveDesc: 'Transfer terjadwal ke "{name}"',
+    fromPocket: 'Dari kantong',
+    fromPocketValue: 'Dari {pocket}',
+    unknownPocket: 'Kantong terhapus',
+    useSuggested: 'Pakai jumlah agar sesuai jadwal ({amount})',
+    firstTransfer: 'Transfer pertama',
+    scheduleFrom: 'Jadwal mulai',
+    skipNote: 'Transfer dilewati jika saldo kantong kurang atau Goal sudah tercapai.',
+    nextTransfer: 'Transfer berikutnya {date}',
+    lastSkipped: 'Dilewati pada {date}: saldo kantong kurang.',
+    autoSaveCreated: 'Tabungan otomatis untuk "{name}" dibuat.',
+    autoSaveUpdated: 'Tabungan otomatis diperbarui.',
+    autoSavePaused: 'Tabungan otomatis dijeda.',
+    autoSaveResumed: 'Tabungan otomatis dilanjutkan. Transfer yang terlewat tidak dijalankan.',
+    autoSaveDeleted: 'Tabungan otomatis dihapus.',
+  },
 }
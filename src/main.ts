@@ -15,10 +15,19 @@ import {
 } from './utils/pwaDataSync'
 import { useTokenStore } from './stores/token'
 import { usePocketStore } from './stores/pocket'
-import { transactionService } from './services/transactionService'
-import { MAIN_POCKET_ID } from './services/pocketService'
+import { useRecurringStore } from './stores/recurring'
+import { useGoalPlanStore } from './stores/goalPlan'
+import { useBudgetStore } from './stores/budget'
+import { runStorageMigrations } from './services/storageMigrations'
+import { initLocalDatabase } from './services/localDatabase'
+import { isSupabaseBackend } from './services/dataBackend'
+import { runSync } from './services/syncService'
+import { useCloudSyncStore } from './stores/cloudSync'
 
 async function bootstrap() {
+  // Load the on-device database (moving data over from localStorage on first run)
+  await initLocalDatabase()
+
   // PWA standalone: restore data + license from Cache (shared with Safari) before any store reads
   const syncResult = await syncCacheToLocalStorage()
   if (syncResult.fullRestore) {
@@ -27,6 +36,13 @@ async function bootstrap() {
   }
   await requestPersistentStorage()
 
+  // Upgrade stored data to the current schema before anything reads it
+  try {
+    await runStorageMigrations()
+  } catch (err) {
+    console.error('Error migrating stored data:', err)
+  }
+
   const app = createApp(App)
   const pinia = createPinia()
   app.use(pinia)
@@ -40,14 +56,41 @@ async function bootstrap() {
 
   // Initialize token store to ensure device UUID is generated on first load
   const tokenStore = useTokenStore()
-  tokenStore.getOrCreateDeviceId()
+  const deviceId = tokenStore.getOrCreateDeviceId()
+
+  // Supabase backend: push offline changes and pull other devices' before the stores read
+  // (offline keeps the device copy; the queue is sent once the connection is back)
+  if (isSupabaseBackend() && navigator.onLine) {
+    try {
+      await runSync(deviceId)
+    } catch (err) {
+      console.error('Error syncing with Supabase:', err)
+    }
+  }
 
   const pocketStore = usePocketStore()
   pocketStore.init()
-  transactionService.migratePocketIds(MAIN_POCKET_ID)
+  useBudgetStore().init()
+
+  // Post recurring transactions that fell due since the last visit
+  const recurringStore = useRecurringStore()
+  try {
+    await recurringStore.runDueRules()
+  } catch (err) {
+    console.error('Error running recurring rules:', err)
+  }
+
+  // Move money into goals for auto-saves that fell due
+  const goalPlanStore = useGoalPlanStore()
+  try {
+    await goalPlanStore.runDueAutoSaves()
+  } catch (err) {
+    console.error('Error running goal auto-saves:', err)
+  }
 
   app.mount('#app')
   startPwaSyncToCache()
+  useCloudSyncStore().startAutoSync()
 }
 
 bootstrap()
@@ -11,6 +11,7 @@ import {
   faArrowUp,
   faArrowUpFromBracket,
   faArrowDown,
+  faArrowRight,
   faArrowRightArrowLeft,
   faBell,
   faBolt,
@@ -80,6 +81,28 @@ import {
   faBuildingColumns,
   faBagShopping,
   faMobileButton,
+  faRepeat,
+  faPause,
+  faPlay,
+  faCodeBranch,
+  faCloud,
+  faCloudArrowUp,
+  faRightFromBracket,
+  faArrowsRotate,
+  faCodeMerge,
+  faWandMagicSparkles,
+  faTags,
+  faBoxArchive,
+  faRotateLeft,
+  faThumbtack,
+  faBookmark,
+  faPaperclip,
+  faFileInvoice,
+  faCircleCheck,
+  faClock,
+  faMoneyBillTransfer,
+  faScaleBalanced,
+  faStore,
 } from '@fortawesome/free-solid-svg-icons'
 import { faVuejs, faWhatsapp } from '@fortawesome/free-brands-svg-icons'
 
@@ -94,6 +117,7 @@ const icons = [
   faArrowUp,
   faArrowUpFromBracket,
   faArrowDown,
+  faArrowRight,
   faArrowRightArrowLeft,
   faBell,
   faBolt,
@@ -162,6 +186,28 @@ const icons = [
   faBuildingColumns,
   faBagShopping,
   faMobileButton,
+  faRepeat,
+  faPause,
+  faPlay,
+  faCodeBranch,
+  faCloud,
+  faCloudArrowUp,
+  faRightFromBracket,
+  faArrowsRotate,
+  faCodeMerge,
+  faWandMagicSparkles,
+  faTags,
+  faBoxArchive,
+  faRotateLeft,
+  faThumbtack,
+  faBookmark,
+  faPaperclip,
+  faFileInvoice,
+  faCircleCheck,
+  faClock,
+  faMoneyBillTransfer,
+  faScaleBalanced,
+  faStore,
   faVuejs,
   faWhatsapp,
 ]
@@ -53,6 +53,66 @@ const router = createRouter({
       component: () => import('../views/GoalDetailView.vue'),
       props: true,
     },
+    {
+      path: '/recurring',
+      name: 'recurring',
+      component: () => import('../views/RecurringView.vue'),
+    },
+    {
+      path: '/budgets',
+      name: 'budgets',
+      component: () => import('../views/BudgetsView.vue'),
+    },
+    {
+      path: '/exchange-rates',
+      name: 'exchange-rates',
+      component: () => import('../views/ExchangeRatesView.vue'),
+    },
+    {
+      path: '/cloud-sync',
+      name: 'cloud-sync',
+      component: () => import('../views/CloudSyncView.vue'),
+    },
+    {
+      path: '/import-statement',
+      name: 'statement-import',
+      component: () => import('../views/StatementImportView.vue'),
+    },
+    {
+      path: '/category-rules',
+      name: 'category-rules',
+      component: () => import('../views/CategoryRulesView.vue'),
+    },
+    {
+      path: '/merchants',
+      name: 'merchants',
+      component: () => import('../views/MerchantsView.vue'),
+    },
+    {
+      path: '/categories',
+      name: 'categories',
+      component: () => import('../views/CategoriesView.vue'),
+    },
+    {
+      path: '/attachments',
+      name: 'attachments',
+      component: () => import('../views/AttachmentsView.vue'),
+    },
+    {
+      path: '/bills',
+      name: 'bills',
+      component: () => import('../views/BillsView.vue'),
+    },
+    {
+      path: '/liabilities',
+      name: 'liabilities',
+      component: () => import('../views/LiabilitiesView.vue'),
+    },
+    {
+      path: '/debt-payoff',
+      name: 'debt-payoff',
+      component: () => import('../views/DebtPayoffView.vue'),
+    },
     // Admin routes
     {
       path: '/admin/login',
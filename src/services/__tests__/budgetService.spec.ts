@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { getPeriodRange } from '@/services/budgetService'
+
+describe('getPeriodRange', () => {
+  it('starts weeks on Monday', () => {
+    expect(getPeriodRange('weekly', new Date('2026-10-21T12:00:00.000Z'))).toEqual({
+      start: '2026-10-19',
+      end: '2026-10-25',
+    })
+  })
+
+  it('keeps a Sunday in the week that started the Monday before', () => {
+    expect(getPeriodRange('weekly', new Date('2026-03-01T12:00:00.000Z'))).toEqual({
+      start: '2026-02-23',
+      end: '2026-03-01',
+    })
+  })
+
+  it('uses calendar months, including leap days', () => {
+    expect(getPeriodRange('monthly', new Date('2024-02-10T12:00:00.000Z'))).toEqual({
+      start: '2024-02-01',
+      end: '2024-02-29',
+    })
+  })
+
+  it('uses calendar years', () => {
+    expect(getPeriodRange('yearly', new Date('2026-06-15T12:00:00.000Z'))).toEqual({
+      start: '2026-01-01',
+      end: '2026-12-31',
+    })
+  })
+
+  // Transaction dates are UTC days, so the period must not shift with the device's time zone
+  it('takes the period from the UTC day near midnight', () => {
+    const lastMinuteOfYear = new Date('2026-12-31T23:59:00.000Z')
+    expect(getPeriodRange('monthly', lastMinuteOfYear)).toEqual({ start: '2026-12-01', end: '2026-12-31' })
+    expect(getPeriodRange('yearly', lastMinuteOfYear)).toEqual({ start: '2026-01-01', end: '2026-12-31' })
+    expect(getPeriodRange('weekly', new Date('2026-10-19T00:01:00.000Z'))).toEqual({
+      start: '2026-10-19',
+      end: '2026-10-25',
+    })
+  })
+})
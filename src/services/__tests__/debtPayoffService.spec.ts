@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { comparePayoffStrategies, payoffOrder, simulatePayoff } from '@/services/debtPayoffService'
+import type { PayoffDebt } from '@/types/debtPayoff'
+
+const card: PayoffDebt = { id: 'card', name: 'Credit card', balance: 1200, interestRate: 20, minimumPayment: 50 }
+const loan: PayoffDebt = { id: 'loan', name: 'Loan', balance: 800, interestRate: 5, minimumPayment: 50 }
+
+describe('payoffOrder', () => {
+  it('puts the smallest balance first for snowball and the highest rate first for avalanche', () => {
+    expect(payoffOrder([card, loan], 'snowball')).toEqual(['loan', 'card'])
+    expect(payoffOrder([card, loan], 'avalanche')).toEqual(['card', 'loan'])
+  })
+
+  it('breaks ties with the other measure', () => {
+    const sameBalance = { ...loan, id: 'same', balance: 1200 }
+    const sameRate = { ...loan, id: 'cheap', interestRate: 20, balance: 300 }
+
+    expect(payoffOrder([sameBalance, card], 'snowball')).toEqual(['card', 'same'])
+    expect(payoffOrder([card, sameRate], 'avalanche')).toEqual(['cheap', 'card'])
+  })
+})
+
+describe('simulatePayoff', () => {
+  it('pays minimums and sends the rest of the budget to the first debt, rolling it over once paid', () => {
+    const small = { id: 'small', name: 'Small', balance: 1000, interestRate: 0, minimumPayment: 100 }
+    const large = { id: 'large', name: 'Large', balance: 3000, interestRate: 0, minimumPayment: 100 }
+    const plan = simulatePayoff([large, small], 500, 'snowball', '2026-01')
+
+    expect(plan.months[0]?.payments).toEqual({ small: 400, large: 100 })
+    expect(plan.months[2]).toMatchObject({ payments: { small: 200, large: 300 }, paidOff: ['small'] })
+    expect(plan.months[3]?.payments).toEqual({ large: 500 })
+    expect(plan).toMatchObject({ payoffMonth: '2026-08', totalPaid: 4000, totalInterest: 0 })
+    expect(plan.months).toHaveLength(8)
+  })
+
+  it('adds a month of interest before each payment', () => {
+    const [first] = simulatePayoff([card, loan], 300, 'avalanche', '2026-01').months
+
+    expect(first?.interest).toEqual({ card: 20, loan: 3.33 })
+    expect(first?.payments).toEqual({ card: 250, loan: 50 })
+    expect(first?.balances).toEqual({ card: 970, loan: 753.33 })
+  })
+
+  it('pays back the balances plus the interest charged', () => {
+    const plan = simulatePayoff([card, loan], 300, 'snowball', '2026-01')
+    const paid = plan.months.reduce((sum, m) => sum + m.totalPayment, 0)
+
+    expect(plan.problem).toBeUndefined()
+    expect(plan.totalPaid).toBeCloseTo(paid, 2)
+    expect(plan.totalPaid - plan.totalInterest).toBeCloseTo(card.balance + loan.balance, 2)
+    expect(plan.months[plan.months.length - 1]?.totalBalance).toBe(0)
+  })
+
+  it('reports a budget below the minimum payments', () => {
+    expect(simulatePayoff([card, loan], 99, 'snowball')).toMatchObject({ problem: 'budget_below_minimums', months: [] })
+  })
+
+  it('reports debts the budget never pays off', () => {
+    const growing = { id: 'growing', name: 'Growing', balance: 10000, interestRate: 24, minimumPayment: 150 }
+
+    const plan = simulatePayoff([growing], 150, 'avalanche')
+
+    expect(plan.problem).toBe('never_paid_off')
+    expect(plan.payoffMonth).toBeUndefined()
+  })
+
+  it('has nothing to do without a balance', () => {
+    expect(simulatePayoff([{ ...loan, balance: 0 }], 100, 'snowball')).toMatchObject({ months: [], totalPaid: 0 })
+  })
+})
+
+describe('comparePayoffStrategies', () => {
+  it('charges less interest with avalanche when the larger debt has the higher rate', () => {
+    const { snowball, avalanche } = comparePayoffStrategies([card, loan], 300, '2026-01')
+
+    expect(snowball.months[0]?.payments).toEqual({ loan: 250, card: 50 })
+    expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest)
+    expect(avalanche.months.length).toBeLessThanOrEqual(snowball.months.length)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildGoalPlan,
+  goalDeadline,
+  monthlyEquivalent,
+  nextAutoSaveDate,
+  projectCompletionDate,
+  requiredContribution,
+} from '@/services/goalPlanService'
+import type { Goal } from '@/types/goal'
+import type { Transaction } from '@/types/transaction'
+
+function goal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: 'goal-1',
+    name: 'Laptop',
+    icon: '💻',
+    targetAmount: 12_000_000,
+    durationMonths: 12,
+    currentBalance: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    type: 'saving',
+    ...overrides,
+  }
+}
+
+/** Balance after `periods` contributions at the end of each period */
+function grow(balance: number, contribution: number, periods: number, rate: number): number {
+  let value = balance
+  for (let i = 0; i < periods; i++) value = value * (1 + rate) + contribution
+  return value
+}
+
+describe('requiredContribution', () => {
+  it('splits what is left evenly without returns', () => {
+    expect(requiredContribution(12_000_000, 0, 12, 0)).toBe(1_000_000)
+    expect(requiredContribution(12_000_000, 3_000_000, 6, 0)).toBe(1_500_000)
+  })
+
+  it('reaches the target exactly with returns', () => {
+    const contribution = requiredContribution(12_000_000, 2_000_000, 24, 0.01)
+
+    expect(contribution).toBeLessThan(10_000_000 / 24)
+    expect(grow(2_000_000, contribution, 24, 0.01)).toBeCloseTo(12_000_000, 2)
+  })
+
+  it('needs nothing once the balance, or its growth, covers the target', () => {
+    expect(requiredContribution(1000, 1000, 12, 0)).toBe(0)
+    expect(requiredContribution(1000, 950, 12, 0.01)).toBe(0)
+  })
+
+  it('asks for the whole gap in the last period', () => {
+    expect(requiredContribution(1000, 400, 1, 0)).toBe(600)
+    expect(requiredContribution(1000, 400, 0.5, 0.02)).toBeCloseTo(596, 6)
+    expect(requiredContribution(1000, 400, 0, 0.02)).toBe(600)
+  })
+})
+
+describe('schedule helpers', () => {
+  it('sets the deadline the duration after creation, clamped to the month end', () => {
+    expect(goalDeadline(goal())).toBe('2027-01-01')
+    expect(goalDeadline(goal({ createdAt: '2026-01-31T09:00:00.000Z', durationMonths: 1 }))).toBe('2026-02-28')
+  })
+
+  it('keeps monthly auto-saves on the start day and weekly ones seven days apart', () => {
+    expect(nextAutoSaveDate('2026-01-31', 'monthly', '2026-01-31')).toBe('2026-02-28')
+    expect(nextAutoSaveDate('2026-02-28', 'monthly', '2026-01-31')).toBe('2026-03-31')
+    expect(nextAutoSaveDate('2026-12-29', 'weekly', '2026-12-01')).toBe('2027-01-05')
+  })
+
+  it('counts weekly auto-saves 52 times a year', () => {
+    expect(monthlyEquivalent({ amount: 120_000, frequency: 'weekly' })).toBeCloseTo(520_000, 6)
+    expect(monthlyEquivalent({ amount: 500_000, frequency: 'monthly' })).toBe(500_000)
+  })
+
+  it('projects the month the target is reached', () => {
+    expect(projectCompletionDate(1200, 0, 100, 0, '2026-01-15')).toBe('2027-01-15')
+    expect(projectCompletionDate(1200, 1200, 0, 0, '2026-01-15')).toBe('2026-01-15')
+    expect(projectCompletionDate(1200, 0, 0, 0, '2026-01-15')).toBeUndefined()
+  })
+
+  it('keeps today\'s day of the month in the projection, clamped to the month end', () => {
+    expect(projectCompletionDate(300, 0, 100, 0, '2026-05-20')).toBe('2026-08-20')
+    expect(projectCompletionDate(100, 0, 100, 0, '2026-01-31')).toBe('2026-02-28')
+  })
+})
+
+describe('buildGoalPlan', () => {
+  const today = '2026-07-02'
+
+  function plan(balance: number, overrides: Partial<Parameters<typeof buildGoalPlan>[0]> = {}) {
+    return buildGoalPlan({ goal: goal(), balance, transactions: [], autoSaveMonthly: 0, today, ...overrides })
+  }
+
+  it('is on track with about half saved halfway through', () => {
+    const result = plan(6_000_000)
+
+    expect(result).toMatchObject({ deadline: '2027-01-01', status: 'on_track', paceSource: 'none' })
+    expect(result.expectedBalance).toBeCloseTo(5_980_000, -4)
+    expect(result.requiredMonthly * result.monthsLeft).toBeCloseTo(6_000_000, 2)
+    expect(result.projectedCompletionDate).toBeUndefined()
+  })
+
+  it('is behind well under the expected balance, and overdue or completed at the end', () => {
+    expect(plan(3_000_000).status).toBe('behind')
+    expect(plan(11_000_000, { today: '2027-02-01' }).status).toBe('overdue')
+    expect(plan(12_000_000, { today: '2027-02-01' })).toMatchObject({ status: 'completed', requiredMonthly: 0 })
+  })
+
+  it('projects completion from auto-saves first', () => {
+    expect(plan(6_000_000, { autoSaveMonthly: 1_000_000 })).toMatchObject({
+      monthlyPace: 1_000_000,
+      paceSource: 'auto_save',
+      projectedCompletionDate: '2027-01-02',
+    })
+  })
+
+  it('falls back to the pace of recent contributions', () => {
+    const contribution = (id: string, date: string, amount: number): Transaction => ({
+      id,
+      type: 'income',
+      amount,
+      description: 'Save',
+      category: 'salary',
+      date,
+      pocketId: 'main',
+      goalId: 'goal-1',
+      createdAt: `${date}T00:00:00.000Z`,
+      updatedAt: `${date}T00:00:00.000Z`,
+    })
+    const result = plan(6_000_000, {
+      transactions: [contribution('old', '2026-02-01', 5_000_000), contribution('1', '2026-05-10', 900_000), contribution('2', '2026-06-10', 900_000)],
+    })
+
+    expect(result.paceSource).toBe('history')
+    // 1.8M over the last 90 days
+    expect(result.monthlyPace).toBeCloseTo(1_800_000 / (90 / (365.25 / 12)), 2)
+  })
+
+  it('asks investment goals for less because returns do part of the work', () => {
+    const investment = goal({ type: 'investment', annualReturnPercentage: 12, compounding: 'monthly' })
+
+    expect(plan(6_000_000, { goal: investment }).requiredMonthly).toBeLessThan(plan(6_000_000).requiredMonthly)
+  })
+})
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { changeReturnRate, createGoal, replaceAllGoals } from '@/services/goalService'
+
+describe('changeReturnRate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T08:00:00.000Z'))
+    replaceAllGoals([])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function investmentGoal() {
+    return createGoal({
+      name: 'Index fund',
+      icon: '📈',
+      targetAmount: 50000000,
+      durationMonths: 24,
+      type: 'investment',
+      annualReturnPercentage: 6,
+    })
+  }
+
+  it('records the original rate from creation on the first change', () => {
+    const goal = changeReturnRate(investmentGoal().id, 8, '2026-03-01')
+
+    expect(goal.annualReturnPercentage).toBe(8)
+    expect(goal.returnRateChanges).toEqual([
+      { effectiveDate: '2026-01-01', annualReturnPercentage: 6 },
+      { effectiveDate: '2026-03-01', annualReturnPercentage: 8 },
+    ])
+  })
+
+  it('keeps the rate of the latest change when an earlier one is added afterwards', () => {
+    const { id } = investmentGoal()
+    changeReturnRate(id, 8, '2026-06-01')
+    const goal = changeReturnRate(id, 5, '2026-03-01')
+
+    expect(goal.annualReturnPercentage).toBe(8)
+    expect(goal.returnRateChanges?.map((c) => c.effectiveDate)).toEqual(['2026-01-01', '2026-03-01', '2026-06-01'])
+  })
+
+  it('replaces a change on the same date and moves earlier dates to the creation date', () => {
+    const { id } = investmentGoal()
+    changeReturnRate(id, 8, '2026-03-01')
+    changeReturnRate(id, 9, '2026-03-01')
+    const goal = changeReturnRate(id, 4, '2025-06-01')
+
+    expect(goal.annualReturnPercentage).toBe(9)
+    expect(goal.returnRateChanges).toEqual([
+      { effectiveDate: '2026-01-01', annualReturnPercentage: 4 },
+      { effectiveDate: '2026-03-01', annualReturnPercentage: 9 },
+    ])
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { getReturnRateOn, projectInvestmentScenarios, simulateReturns } from '@/services/investmentGoalService'
+import type { Goal } from '@/types/goal'
+
+/** 36.5% a year is 0.1% a day, which keeps the expected returns round. */
+function goal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: 'goal-1',
+    name: 'Index fund',
+    icon: '📈',
+    targetAmount: 50000000,
+    durationMonths: 24,
+    currentBalance: 0,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    type: 'investment',
+    annualReturnPercentage: 36.5,
+    compounding: 'daily',
+    ...overrides,
+  }
+}
+
+const deposit = { type: 'income', amount: 1000000, date: '2026-01-01', goalId: 'goal-1' }
+
+describe('getReturnRateOn', () => {
+  const changes = [
+    { effectiveDate: '2026-01-01', annualReturnPercentage: 6 },
+    { effectiveDate: '2026-03-01', annualReturnPercentage: 8 },
+    { effectiveDate: '2026-06-01', annualReturnPercentage: 4 },
+  ]
+
+  it('uses the goal rate when it was never changed', () => {
+    expect(getReturnRateOn(goal({ annualReturnPercentage: 7 }), '2026-05-01')).toBe(7)
+    expect(getReturnRateOn(goal({ annualReturnPercentage: undefined }), '2026-05-01')).toBe(0)
+  })
+
+  it('uses the latest change on or before the date', () => {
+    const g = goal({ annualReturnPercentage: 4, returnRateChanges: changes })
+    expect(getReturnRateOn(g, '2026-02-28')).toBe(6)
+    expect(getReturnRateOn(g, '2026-03-01')).toBe(8)
+    expect(getReturnRateOn(g, '2026-05-31')).toBe(8)
+    expect(getReturnRateOn(g, '2026-06-01')).toBe(4)
+  })
+
+  it('uses the first rate for dates before the history starts', () => {
+    expect(getReturnRateOn(goal({ returnRateChanges: changes }), '2025-12-31')).toBe(6)
+  })
+})
+
+describe('simulateReturns', () => {
+  it('compounds daily returns from the day after a deposit', () => {
+    const { credits, history } = simulateReturns(goal(), [deposit], '2026-01-03')
+
+    expect(credits).toEqual([
+      { date: '2026-01-02', amount: 1000 },
+      { date: '2026-01-03', amount: 1001 },
+    ])
+    expect(history).toEqual([
+      { date: '2026-01-01', principal: 1000000, simulatedReturn: 0 },
+      { date: '2026-01-02', principal: 1000000, simulatedReturn: 1000 },
+      { date: '2026-01-03', principal: 1000000, simulatedReturn: 2001 },
+    ])
+  })
+
+  it('credits monthly compounding on the last day of each month', () => {
+    const { credits } = simulateReturns(goal({ compounding: 'monthly' }), [deposit], '2026-02-28')
+
+    // 30 days of 1,000 in January, then 28 days on the credited 1,030,000
+    expect(credits).toEqual([
+      { date: '2026-01-31', amount: 30000 },
+      { date: '2026-02-28', amount: 28840 },
+    ])
+  })
+
+  it('applies a rate change from its effective date', () => {
+    const g = goal({
+      annualReturnPercentage: 73,
+      returnRateChanges: [
+        { effectiveDate: '2026-01-01', annualReturnPercentage: 36.5 },
+        { effectiveDate: '2026-01-03', annualReturnPercentage: 73 },
+      ],
+    })
+
+    expect(simulateReturns(g, [deposit], '2026-01-03').credits).toEqual([
+      { date: '2026-01-02', amount: 1000 },
+      { date: '2026-01-03', amount: 2002 },
+    ])
+  })
+
+  it('takes withdrawals from principal before returns', () => {
+    const withdrawal = { type: 'transfer', amount: 400000, date: '2026-01-02', goalId: 'goal-1', transferToPocketId: 'main' }
+    const { history } = simulateReturns(goal(), [deposit, withdrawal], '2026-01-03')
+
+    expect(history.slice(1)).toEqual([
+      { date: '2026-01-02', principal: 600000, simulatedReturn: 1000 },
+      { date: '2026-01-03', principal: 600000, simulatedReturn: 1601 },
+    ])
+  })
+})
+
+describe('projectInvestmentScenarios', () => {
+  const current = { principal: 1000000, balance: 1100000 }
+
+  it('grows each scenario monthly with the contribution added', () => {
+    const g = goal({ annualReturnPercentage: 12, compounding: 'monthly', volatilityPercentage: 4 })
+    const points = projectInvestmentScenarios(g, current, 100000, 2, '2026-01-31')
+
+    expect(points.map((p) => p.date)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+    expect(points[0]).toEqual({ date: '2026-01-31', principal: 1000000, pessimistic: 1100000, base: 1100000, optimistic: 1100000 })
+    expect(points[2]!.principal).toBe(1200000)
+    // 12% compounded monthly is 1% a month; the bands use 8% and 16%
+    expect(points[1]!.base).toBeCloseTo(1100000 * 1.01 + 100000)
+    expect(points[2]!.base).toBeCloseTo((1100000 * 1.01 + 100000) * 1.01 + 100000)
+    expect(points[1]!.pessimistic).toBeCloseTo(1100000 * (1 + 0.08 / 12) + 100000)
+    expect(points[1]!.optimistic).toBeCloseTo(1100000 * (1 + 0.16 / 12) + 100000)
+  })
+
+  it('uses the rate in effect on the projection start', () => {
+    const g = goal({
+      annualReturnPercentage: 24,
+      compounding: 'monthly',
+      returnRateChanges: [
+        { effectiveDate: '2026-01-01', annualReturnPercentage: 12 },
+        { effectiveDate: '2026-06-01', annualReturnPercentage: 24 },
+      ],
+    })
+    const [, first] = projectInvestmentScenarios(g, current, 0, 1, '2026-02-01')
+
+    expect(first!.base).toBeCloseTo(1100000 * 1.01)
+  })
+
+  it('gives equal scenarios without a volatility setting', () => {
+    const points = projectInvestmentScenarios(goal(), current, 100000, 12, '2026-01-31')
+
+    expect(points).toHaveLength(13)
+    for (const p of points) {
+      expect(p.pessimistic).toBe(p.base)
+      expect(p.optimistic).toBe(p.base)
+    }
+  })
+})
@@ -0,0 +1,59 @@
+import { beforeEach, describe, it, expect } from 'vitest'
+import {
+  findMerchant,
+  getMerchantCategory,
+  learnMerchants,
+  updateMerchantPreferences,
+} from '@/services/merchantService'
+import type { Transaction } from '@/types/transaction'
+
+function expense(id: string, merchant: string, category: string, date: string, pocketId = 'main'): Transaction {
+  return {
+    id,
+    type: 'expense',
+    amount: 10000,
+    description: merchant,
+    category,
+    date,
+    pocketId,
+    merchant,
+    createdAt: `${date}T10:00:00.000Z`,
+    updatedAt: `${date}T10:00:00.000Z`,
+  }
+}
+
+describe('learnMerchants', () => {
+  beforeEach(() => localStorage.clear())
+
+  const history = [
+    expense('1', 'WARUNG SATE PAK KUMIS 02', 'shopping', '2026-10-01', 'cash'),
+    expense('2', 'Warung Sate Pak Kumis', 'food', '2026-10-02', 'cash'),
+    expense('3', 'warung sate pak kumis', 'food', '2026-10-03', 'main'),
+  ]
+
+  it('learns the most used category and pocket per merchant', () => {
+    expect(learnMerchants(history)).toMatchObject([
+      { name: 'Warung Sate Pak Kumis', category: 'food', pocketId: 'cash', transactionCount: 3, lastUsed: '2026-10-03' },
+    ])
+  })
+
+  it('keeps the user\'s preferences across rebuilds and uses them first', () => {
+    const [merchant] = learnMerchants(history)
+    updateMerchantPreferences(merchant!.id, { preferredCategory: 'coffee', preferredPocketId: 'main' })
+
+    const [rebuilt] = learnMerchants([...history, expense('4', 'Warung Sate Pak Kumis', 'food', '2026-10-04')])
+
+    expect(rebuilt).toMatchObject({ id: merchant!.id, preferredCategory: 'coffee', preferredPocketId: 'main', transactionCount: 4 })
+    expect(getMerchantCategory(findMerchant('WARUNG SATE PAK KUMIS')!)).toBe('coffee')
+  })
+
+  it('drops merchants that left the history unless the user set a preference', () => {
+    const [merchant] = learnMerchants(history)
+    updateMerchantPreferences(merchant!.id, { preferredCategory: 'coffee' })
+
+    expect(learnMerchants([])).toMatchObject([{ id: merchant!.id, transactionCount: 0 }])
+
+    updateMerchantPreferences(merchant!.id, { preferredCategory: '' })
+    expect(learnMerchants([])).toEqual([])
+  })
+})
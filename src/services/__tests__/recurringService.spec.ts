@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { addPeriod, findNextOnOrAfter, runDueRecurringRules } from '@/services/recurringService'
+import type { RecurringRule } from '@/types/recurring'
+
+function rule(overrides: Partial<RecurringRule> = {}): RecurringRule {
+  return {
+    id: 'rule-1',
+    type: 'expense',
+    amount: 100000,
+    description: 'Internet',
+    category: 'bills',
+    pocketId: 'main',
+    frequency: 'monthly',
+    interval: 1,
+    startDate: '2026-01-31',
+    occurrenceCount: 0,
+    nextDueDate: '2026-01-31',
+    paused: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+/** Post every due occurrence and return the dates posted and the last progress saved */
+async function run(rules: RecurringRule[], today: string) {
+  const dates: string[] = []
+  const progress: Array<Pick<RecurringRule, 'occurrenceCount' | 'nextDueDate' | 'lastPostedDate'>> = []
+  const posted = await runDueRecurringRules(
+    rules,
+    async (_, date) => {
+      dates.push(date)
+    },
+    (_, data) => progress.push(data),
+    today,
+  )
+  return { posted, dates, last: progress[progress.length - 1] }
+}
+
+describe('addPeriod', () => {
+  it.each([
+    ['2026-03-10', 'daily', 1, '2026-03-11'],
+    ['2026-02-27', 'daily', 3, '2026-03-02'],
+    ['2026-12-28', 'weekly', 1, '2027-01-04'],
+    ['2026-03-10', 'weekly', 2, '2026-03-24'],
+    ['2026-11-15', 'monthly', 3, '2027-02-15'],
+    ['2028-02-29', 'yearly', 1, '2029-02-28'],
+  ] as const)('moves %s on by %s × %i to %s', (date, frequency, interval, expected) => {
+    expect(addPeriod(date, frequency, interval, Number(date.slice(8)))).toBe(expected)
+  })
+
+  it('clamps to the month length and returns to the anchor day', () => {
+    const feb = addPeriod('2026-01-31', 'monthly', 1, 31)
+    expect(feb).toBe('2026-02-28')
+    expect(addPeriod(feb, 'monthly', 1, 31)).toBe('2026-03-31')
+    expect(addPeriod('2028-01-31', 'monthly', 1, 31)).toBe('2028-02-29')
+  })
+
+  it('treats a missing or fractional interval as whole periods of at least one', () => {
+    expect(addPeriod('2026-03-10', 'daily', 0, 10)).toBe('2026-03-11')
+    expect(addPeriod('2026-03-10', 'daily', 2.7, 10)).toBe('2026-03-12')
+  })
+})
+
+describe('findNextOnOrAfter', () => {
+  it('finds the first occurrence on or after a date, or strictly after it', () => {
+    const weekly = rule({ frequency: 'weekly', startDate: '2026-03-02' })
+    expect(findNextOnOrAfter(weekly, '2026-03-09')).toBe('2026-03-09')
+    expect(findNextOnOrAfter(weekly, '2026-03-09', true)).toBe('2026-03-16')
+  })
+
+  it('returns nothing once the end date has passed', () => {
+    expect(findNextOnOrAfter(rule({ endDate: '2026-03-15' }), '2026-03-20')).toBeUndefined()
+  })
+})
+
+describe('runDueRecurringRules', () => {
+  it('catches up every missed occurrence up to today', async () => {
+    const result = await run([rule()], '2026-04-29')
+
+    expect(result.dates).toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+    expect(result.last).toEqual({ occurrenceCount: 3, nextDueDate: '2026-04-30', lastPostedDate: '2026-03-31' })
+  })
+
+  it('posts an occurrence due today', async () => {
+    expect((await run([rule({ nextDueDate: '2026-04-30' })], '2026-04-30')).dates).toEqual(['2026-04-30'])
+  })
+
+  it('stops at the maximum number of occurrences', async () => {
+    const result = await run([rule({ maxOccurrences: 2 })], '2026-12-31')
+
+    expect(result.dates).toEqual(['2026-01-31', '2026-02-28'])
+    expect(result.last?.nextDueDate).toBeUndefined()
+  })
+
+  it('stops at the end date', async () => {
+    const result = await run([rule({ endDate: '2026-03-15' })], '2026-12-31')
+
+    expect(result.dates).toEqual(['2026-01-31', '2026-02-28'])
+    expect(result.last?.nextDueDate).toBeUndefined()
+  })
+
+  it('skips paused and finished rules', async () => {
+    const result = await run([rule({ paused: true }), rule({ id: 'done', nextDueDate: undefined })], '2026-12-31')
+
+    expect(result.posted).toBe(0)
+  })
+
+  it('caps how far one rule catches up at once', async () => {
+    const daily = rule({ frequency: 'daily', startDate: '2020-01-01', nextDueDate: '2020-01-01' })
+
+    expect((await run([daily], '2026-01-01')).posted).toBe(366)
+  })
+})
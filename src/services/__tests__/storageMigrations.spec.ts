@@ -0,0 +1,208 @@
+import { beforeEach, describe, it, expect } from 'vitest'
+import {
+  CURRENT_SCHEMA_VERSION,
+  getMigrationBackup,
+  getSchemaVersion,
+  migrateSnapshot,
+  runStorageMigrations,
+  type StorageSnapshot,
+} from '@/services/storageMigrations'
+import { getTablesByLegacyKey, replaceTableByLegacyKey } from '@/services/localDatabase'
+import { getAllCategories, invalidateCategoryCache, DEFAULT_CATEGORY_COLOR } from '@/services/categoryService'
+import { MAIN_POCKET_ID } from '@/services/pocketService'
+import { DEFAULT_POCKET_COLOR } from '@/utils/pocketColors'
+import { encryptData } from '@/utils/encryption'
+import { importData } from '@/utils/dataExport'
+
+const TRANSACTIONS_KEY = 'financial_tracker_transactions'
+const POCKETS_KEY = 'financial_tracker_pockets'
+const GOALS_KEY = 'financial_tracker_goals'
+const CATEGORIES_KEY = 'financial_tracker_categories'
+const BUDGETS_KEY = 'financial_tracker_budgets'
+const VERSION_KEY = 'financial_tracker_schema_version'
+const TABLE_KEYS = [TRANSACTIONS_KEY, POCKETS_KEY, GOALS_KEY, 'financial_tracker_goal_investment_activity']
+
+/** Storage as a version 0 install left it: no pockets on transactions, no colors, category names. */
+function v0Snapshot(): StorageSnapshot {
+  return {
+    [TRANSACTIONS_KEY]: [
+      { id: 'tx-1', type: 'expense', amount: 50000, description: 'Nasi goreng', category: 'Makanan', date: '2024-01-05' },
+      {
+        id: 'tx-2',
+        type: 'expense',
+        amount: 80000,
+        description: 'Ojek and coffee',
+        category: 'Kopi Susu',
+        date: '2024-01-06',
+        splits: [
+          { amount: 30000, category: 'Transportasi' },
+          { amount: 50000, category: 'kopi susu' },
+        ],
+      },
+    ],
+    [POCKETS_KEY]: [{ id: MAIN_POCKET_ID, name: 'Main Pocket', type: 'main', balance: 0 }],
+    [GOALS_KEY]: [{ id: 'goal-1', name: 'Laptop', targetAmount: 15000000, currentAmount: 0 }],
+    [BUDGETS_KEY]: [{ id: 'budget-1', category: 'makanan', amount: 2000000, period: 'monthly' }],
+  }
+}
+
+/** The snapshot after every migration step, minus the generated id of the custom category. */
+function expectFullyMigrated(data: StorageSnapshot): string {
+  const categories = data[CATEGORIES_KEY] as Record<string, unknown>[]
+  expect(categories).toMatchObject([{ name: 'Kopi Susu', color: DEFAULT_CATEGORY_COLOR, builtIn: false }])
+  const kopiSusu = categories[0]!.id as string
+
+  expect(data[TRANSACTIONS_KEY]).toMatchObject([
+    { id: 'tx-1', pocketId: MAIN_POCKET_ID, category: 'food' },
+    {
+      id: 'tx-2',
+      pocketId: MAIN_POCKET_ID,
+      category: kopiSusu,
+      splits: [{ category: 'transport' }, { category: kopiSusu }],
+    },
+  ])
+  expect(data[POCKETS_KEY]).toMatchObject([{ color: DEFAULT_POCKET_COLOR }])
+  expect(data[GOALS_KEY]).toMatchObject([{ color: DEFAULT_POCKET_COLOR }])
+  expect(data[BUDGETS_KEY]).toMatchObject([{ category: 'food' }])
+  return kopiSusu
+}
+
+function seedStorage(snapshot: StorageSnapshot): void {
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (TABLE_KEYS.includes(key)) replaceTableByLegacyKey(key, value as { id: string }[])
+    else localStorage.setItem(key, JSON.stringify(value))
+  }
+}
+
+function storedList(key: string): unknown[] {
+  return JSON.parse(localStorage.getItem(key) ?? '[]')
+}
+
+beforeEach(() => {
+  for (const key of TABLE_KEYS) replaceTableByLegacyKey(key, [])
+  localStorage.clear()
+  invalidateCategoryCache()
+})
+
+describe('migrateSnapshot', () => {
+  it('upgrades version 0 data through every step', () => {
+    const data = v0Snapshot()
+    expect(migrateSnapshot(data, 0)).toBe(CURRENT_SCHEMA_VERSION)
+    expectFullyMigrated(data)
+  })
+
+  it('runs only the steps after the given version', () => {
+    const data = v0Snapshot()
+    expect(migrateSnapshot(data, 1)).toBe(CURRENT_SCHEMA_VERSION)
+
+    // Step 1 already ran on this data, so a missing pocket is left alone
+    expect(data[TRANSACTIONS_KEY]).toMatchObject([{ id: 'tx-1', category: 'food' }, { id: 'tx-2' }])
+    expect((data[TRANSACTIONS_KEY] as Record<string, unknown>[])[0]).not.toHaveProperty('pocketId')
+    expect(data[POCKETS_KEY]).toMatchObject([{ color: DEFAULT_POCKET_COLOR }])
+  })
+
+  it('leaves data that is already on the current version untouched', () => {
+    const data = v0Snapshot()
+    expect(migrateSnapshot(data, CURRENT_SCHEMA_VERSION)).toBe(CURRENT_SCHEMA_VERSION)
+    expect(data).toEqual(v0Snapshot())
+  })
+
+  it('reuses a custom category with the same name instead of creating another', () => {
+    const data = v0Snapshot()
+    data[CATEGORIES_KEY] = [{ id: 'cat-kopi', name: 'kopi susu', icon: '🥤', color: '#123456' }]
+    migrateSnapshot(data, 2)
+
+    expect(data[CATEGORIES_KEY]).toHaveLength(1)
+    expect(data[TRANSACTIONS_KEY]).toMatchObject([
+      { category: 'food' },
+      { category: 'cat-kopi', splits: [{ category: 'transport' }, { category: 'cat-kopi' }] },
+    ])
+  })
+})
+
+describe('runStorageMigrations', () => {
+  it('only records the version on a fresh install', async () => {
+    expect(await runStorageMigrations()).toEqual({ from: 0, to: CURRENT_SCHEMA_VERSION })
+    expect(getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION)
+    expect(await getMigrationBackup()).toBeNull()
+  })
+
+  it('upgrades stored data and backs up the old values first', async () => {
+    const old = v0Snapshot()
+    seedStorage(old)
+
+    expect(await runStorageMigrations()).toEqual({ from: 0, to: CURRENT_SCHEMA_VERSION })
+
+    const tables = getTablesByLegacyKey()
+    const kopiSusu = expectFullyMigrated({
+      ...tables,
+      [BUDGETS_KEY]: storedList(BUDGETS_KEY),
+      [CATEGORIES_KEY]: storedList(CATEGORIES_KEY),
+    })
+    expect(getAllCategories().find((c) => c.id === kopiSusu)?.name).toBe('Kopi Susu')
+    expect(getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION)
+
+    const backup = await getMigrationBackup()
+    expect(backup?.version).toBe(0)
+    expect(JSON.parse(backup!.data[TRANSACTIONS_KEY]!)).toEqual(old[TRANSACTIONS_KEY])
+    expect(JSON.parse(backup!.data[BUDGETS_KEY]!)).toEqual(old[BUDGETS_KEY])
+  })
+
+  it('does nothing when storage is already on the current version', async () => {
+    const data = v0Snapshot()
+    seedStorage(data)
+    localStorage.setItem(VERSION_KEY, String(CURRENT_SCHEMA_VERSION))
+
+    expect(await runStorageMigrations()).toEqual({ from: CURRENT_SCHEMA_VERSION, to: CURRENT_SCHEMA_VERSION })
+    expect(getTablesByLegacyKey()[TRANSACTIONS_KEY]).toEqual(data[TRANSACTIONS_KEY])
+    expect(storedList(BUDGETS_KEY)).toEqual(data[BUDGETS_KEY])
+    expect(await getMigrationBackup()).toBeNull()
+  })
+})
+
+describe('importData', () => {
+  const PASSPHRASE = 'secret'
+
+  /** An export file written before versioning: no schemaVersion and version 0 shapes. */
+  async function v0ExportFile(): Promise<File> {
+    const data = v0Snapshot()
+    const payload = {
+      version: '1.0.0',
+      exportedAt: '2024-01-07T00:00:00.000Z',
+      transactions: data[TRANSACTIONS_KEY],
+      pockets: data[POCKETS_KEY],
+      goals: data[GOALS_KEY],
+      profile: { name: 'Sari' },
+      theme: null,
+    }
+    const encrypted = await encryptData(JSON.stringify(payload), PASSPHRASE)
+    const content = JSON.stringify({ encrypted: true, version: '1.0.0', data: encrypted })
+    // jsdom's File has no text()
+    return { name: 'backup.json', type: 'application/json', text: async () => content } as unknown as File
+  }
+
+  it('upgrades an old export file before appending it', async () => {
+    localStorage.setItem(VERSION_KEY, String(CURRENT_SCHEMA_VERSION))
+
+    expect(await importData(await v0ExportFile(), PASSPHRASE)).toMatchObject({
+      transactionCount: 2,
+      pocketCount: 1,
+      goalCount: 1,
+    })
+
+    const kopiSusu = getAllCategories().find((c) => c.name === 'Kopi Susu')
+    expect(kopiSusu).toMatchObject({ builtIn: false, color: DEFAULT_CATEGORY_COLOR })
+    const tables = getTablesByLegacyKey()
+    const [pocket] = tables[POCKETS_KEY] as Record<string, unknown>[]
+    expect(tables[TRANSACTIONS_KEY]).toMatchObject([
+      { description: 'Nasi goreng', category: 'food', pocketId: pocket!.id },
+      {
+        description: 'Ojek and coffee',
+        category: kopiSusu!.id,
+        pocketId: pocket!.id,
+        splits: [{ category: 'transport' }, { category: kopiSusu!.id }],
+      },
+    ])
+    expect(tables[GOALS_KEY]).toMatchObject([{ name: 'Laptop', color: DEFAULT_POCKET_COLOR }])
+  })
+})
@@ -0,0 +1,342 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import type { Transaction } from '@/types/transaction'
+import { setDataBackend } from '@/services/dataBackend'
+import { getOutbox, recordChanges } from '@/services/syncOutbox'
+import { getConflicts, getSyncState, runSync } from '@/services/syncService'
+import {
+  fromTransactionRow,
+  getLocalTransactions,
+  replaceLocalTransactions,
+  toTransactionRow,
+  type TransactionRow,
+} from '@/services/transactionService'
+
+type Row = Record<string, unknown> & { id: string }
+
+/** In-memory stand-in for the Supabase tables the sync engine reads and writes. */
+const server = vi.hoisted(() => {
+  const tables = new Map<string, Map<string, Row>>()
+  const state = { beforePull: null as (() => void) | null }
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T
+
+  function table(name: string): Map<string, Row> {
+    if (!tables.has(name)) tables.set(name, new Map())
+    return tables.get(name)!
+  }
+
+  class Query {
+    private filters: ((row: Row) => boolean)[] = []
+    private window: [number, number] | null = null
+
+    constructor(
+      private readonly name: string,
+      private readonly op: 'select' | 'insert' | 'update',
+      private readonly payload: Record<string, unknown> = {},
+    ) {}
+
+    select() {
+      return this
+    }
+    eq(column: string, value: unknown) {
+      this.filters.push((row) => row[column] === value)
+      return this
+    }
+    gt(column: string, value: string) {
+      this.filters.push((row) => String(row[column]) > value)
+      return this
+    }
+    is(column: string, value: null) {
+      this.filters.push((row) => (row[column] ?? null) === value)
+      return this
+    }
+    order() {
+      return this
+    }
+    range(from: number, to: number) {
+      this.window = [from, to + 1]
+      return this
+    }
+    maybeSingle() {
+      return Promise.resolve({ data: this.matching()[0] ?? null, error: null })
+    }
+    then<T>(resolve: (result: { data: Row[] | null; error: null }) => T, reject?: (err: unknown) => T) {
+      return Promise.resolve(this.run()).then(resolve, reject)
+    }
+
+    private matching(): Row[] {
+      return Array.from(table(this.name).values())
+        .filter((row) => this.filters.every((f) => f(row)))
+        .sort((a, b) => String(a.updated_at).localeCompare(String(b.updated_at)) || a.id.localeCompare(b.id))
+        .map((row) => clone(row))
+    }
+
+    private run(): { data: Row[] | null; error: null } {
+      // updated_at comes from the server clock, like the set_updated_at trigger
+      const updatedAt = new Date().toISOString()
+      if (this.op === 'insert') {
+        const row = { ...clone(this.payload), updated_at: updatedAt } as unknown as Row
+        table(this.name).set(row.id, row)
+        return { data: null, error: null }
+      }
+      if (this.op === 'update') {
+        for (const row of this.matching()) {
+          table(this.name).set(row.id, { ...row, ...clone(this.payload), updated_at: updatedAt })
+        }
+        return { data: null, error: null }
+      }
+      if (this.window && this.window[0] === 0) state.beforePull?.()
+      const rows = this.matching()
+      return { data: this.window ? rows.slice(...this.window) : rows, error: null }
+    }
+  }
+
+  return {
+    state,
+    table,
+    reset() {
+      tables.clear()
+      state.beforePull = null
+    },
+    client: {
+      from: (name: string) => ({
+        select: () => new Query(name, 'select'),
+        insert: (row: Record<string, unknown>) => new Query(name, 'insert', row),
+        update: (patch: Record<string, unknown>) => new Query(name, 'update', patch),
+      }),
+    },
+  }
+})
+
+vi.mock('@/services/supabase', () => ({ supabase: server.client }))
+
+const THIS_DEVICE = 'device-a'
+const OTHER_DEVICE = 'device-b'
+
+const lunch: Transaction = {
+  id: 'tx-1',
+  type: 'expense',
+  amount: 50000,
+  description: 'Lunch',
+  category: 'food',
+  date: '2026-10-01',
+  pocketId: 'main',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  updatedAt: '2026-10-01T09:00:00.000Z',
+}
+
+function at(time: string): string {
+  vi.setSystemTime(new Date(`2026-10-01T${time}.000Z`))
+  return new Date().toISOString()
+}
+
+/** A save on this device, the way the services make one. */
+function saveLocal(next: Transaction[]): void {
+  const before = getLocalTransactions()
+  replaceLocalTransactions(next)
+  recordChanges('transaction', before, next)
+}
+
+function editLocal(id: string, fields: Partial<Transaction>): void {
+  saveLocal(getLocalTransactions().map((t) => (t.id === id ? { ...t, ...fields } : t)))
+}
+
+function serverRow(id: string): Row {
+  return server.table('transactions').get(id)!
+}
+
+/** Another device inserts a transaction. */
+function insertRemote(tx: Transaction): void {
+  const changedAt = new Date().toISOString()
+  const row = toTransactionRow(tx)
+  const stamps = Object.fromEntries(Object.keys(tx).map((field) => [field, changedAt]))
+  server.table('transactions').set(tx.id, {
+    ...row,
+    field_updated_at: stamps,
+    updated_by: OTHER_DEVICE,
+    deleted_at: null,
+    updated_at: changedAt,
+  })
+}
+
+/** Another device edits fields of a transaction and pushes them. */
+function editRemote(id: string, fields: Partial<Transaction>): void {
+  const changedAt = new Date().toISOString()
+  const row = serverRow(id)
+  const next = toTransactionRow({ ...fromTransactionRow(row as unknown as TransactionRow), ...fields })
+  const stamps = Object.fromEntries(Object.keys(fields).map((field) => [field, changedAt]))
+  server.table('transactions').set(id, {
+    ...row,
+    ...next,
+    field_updated_at: { ...(row.field_updated_at as Record<string, string>), ...stamps },
+    updated_by: OTHER_DEVICE,
+    updated_at: changedAt,
+  })
+}
+
+function deleteRemote(id: string): void {
+  const deletedAt = new Date().toISOString()
+  server.table('transactions').set(id, { ...serverRow(id), deleted_at: deletedAt, updated_by: OTHER_DEVICE, updated_at: deletedAt })
+}
+
+function local(id: string): Transaction | undefined {
+  return getLocalTransactions().find((t) => t.id === id)
+}
+
+describe('runSync', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    localStorage.clear()
+    server.reset()
+    replaceLocalTransactions([])
+    setDataBackend('supabase')
+    // Both devices start from the same copy of the lunch
+    at('09:00:00')
+    insertRemote(lunch)
+    at('09:01:00')
+    await runSync(THIS_DEVICE)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('pulls rows from other devices and moves the cursor to the last one', () => {
+    expect(local('tx-1')).toMatchObject({ description: 'Lunch', amount: 50000 })
+    expect(getSyncState().cursors.transaction).toBe('2026-10-01T09:00:00.000Z')
+  })
+
+  it('merges edits to different fields from both sides without a conflict', async () => {
+    at('10:00:00')
+    editLocal('tx-1', { description: 'Team lunch' })
+    at('10:05:00')
+    editRemote('tx-1', { amount: 65000 })
+    at('10:10:00')
+
+    expect(await runSync(THIS_DEVICE)).toMatchObject({ pushed: 1, conflicts: 0 })
+    expect(serverRow('tx-1')).toMatchObject({
+      description: 'Team lunch',
+      amount: 65000,
+      updated_by: THIS_DEVICE,
+      field_updated_at: { description: '2026-10-01T10:00:00.000Z', amount: '2026-10-01T10:05:00.000Z' },
+    })
+    expect(local('tx-1')).toMatchObject({ description: 'Team lunch', amount: 65000 })
+    expect(getOutbox()).toEqual([])
+  })
+
+  it('keeps the later edit when both sides changed the same field', async () => {
+    at('10:00:00')
+    editRemote('tx-1', { description: 'Dinner' })
+    at('10:05:00')
+    editLocal('tx-1', { description: 'Team lunch' })
+    at('10:10:00')
+
+    expect(await runSync(THIS_DEVICE)).toMatchObject({ conflicts: 1 })
+    expect(serverRow('tx-1').description).toBe('Team lunch')
+    expect(getConflicts()).toMatchObject([
+      { recordId: 'tx-1', field: 'description', localValue: 'Team lunch', remoteValue: 'Dinner', winner: 'local' },
+    ])
+  })
+
+  it('takes the other device\'s value when its edit of the same field is later', async () => {
+    at('10:00:00')
+    editLocal('tx-1', { description: 'Team lunch' })
+    at('10:05:00')
+    editRemote('tx-1', { description: 'Dinner' })
+    at('10:10:00')
+
+    await runSync(THIS_DEVICE)
+
+    expect(serverRow('tx-1').description).toBe('Dinner')
+    expect(local('tx-1')?.description).toBe('Dinner')
+    expect(getConflicts()).toMatchObject([{ field: 'description', winner: 'remote' }])
+  })
+
+  describe('a delete racing an edit', () => {
+    it('keeps the record when the other device edited it after it was deleted here', async () => {
+      at('10:00:00')
+      saveLocal([])
+      at('10:05:00')
+      editRemote('tx-1', { amount: 65000 })
+      at('10:10:00')
+
+      await runSync(THIS_DEVICE)
+
+      expect(serverRow('tx-1').deleted_at).toBeNull()
+      expect(local('tx-1')).toMatchObject({ amount: 65000 })
+      expect(getConflicts()).toMatchObject([{ field: '*', localValue: 'deleted', winner: 'remote' }])
+    })
+
+    it('deletes the record when the delete here is later than the other device\'s edit', async () => {
+      at('10:00:00')
+      editRemote('tx-1', { amount: 65000 })
+      at('10:05:00')
+      saveLocal([])
+      at('10:10:00')
+
+      await runSync(THIS_DEVICE)
+
+      expect(serverRow('tx-1').deleted_at).toBe('2026-10-01T10:05:00.000Z')
+      expect(local('tx-1')).toBeUndefined()
+      expect(getConflicts()).toMatchObject([{ field: '*', localValue: 'deleted', winner: 'local' }])
+    })
+
+    it('drops an edit made here before the other device deleted the record', async () => {
+      at('10:00:00')
+      editLocal('tx-1', { description: 'Team lunch' })
+      at('10:05:00')
+      deleteRemote('tx-1')
+      at('10:10:00')
+
+      await runSync(THIS_DEVICE)
+
+      expect(serverRow('tx-1').deleted_at).toBe('2026-10-01T10:05:00.000Z')
+      expect(local('tx-1')).toBeUndefined()
+      expect(getConflicts()).toMatchObject([{ field: '*', remoteValue: 'deleted', winner: 'remote' }])
+    })
+
+    it('restores the record when it was edited here after the other device deleted it', async () => {
+      at('10:00:00')
+      deleteRemote('tx-1')
+      at('10:05:00')
+      editLocal('tx-1', { description: 'Team lunch' })
+      at('10:10:00')
+
+      await runSync(THIS_DEVICE)
+
+      expect(serverRow('tx-1')).toMatchObject({ deleted_at: null, description: 'Team lunch' })
+      expect(local('tx-1')?.description).toBe('Team lunch')
+      expect(getConflicts()).toMatchObject([{ field: '*', remoteValue: 'deleted', winner: 'local' }])
+    })
+  })
+
+  describe('pull cursor', () => {
+    it('stays put when nothing changed', async () => {
+      at('10:00:00')
+      expect(await runSync(THIS_DEVICE)).toMatchObject({ pulled: 0 })
+      expect(getSyncState().cursors.transaction).toBe('2026-10-01T09:00:00.000Z')
+    })
+
+    it('stops before a row it could not apply, so the row is pulled again', async () => {
+      at('10:00:00')
+      editRemote('tx-1', { description: 'Dinner' })
+      at('10:05:00')
+      insertRemote({ ...lunch, id: 'tx-2', description: 'Coffee', amount: 25000 })
+      at('10:10:00')
+      // Edited here while the sync is running, after the push
+      server.state.beforePull = () => editLocal('tx-1', { description: 'Team lunch' })
+
+      expect(await runSync(THIS_DEVICE)).toMatchObject({ pulled: 1 })
+      expect(local('tx-1')?.description).toBe('Team lunch')
+      expect(local('tx-2')?.description).toBe('Coffee')
+      expect(getSyncState().cursors.transaction).toBe('2026-10-01T09:00:00.000Z')
+
+      // The next run still sees the other device's edit as concurrent
+      server.state.beforePull = null
+      at('10:15:00')
+      expect(await runSync(THIS_DEVICE)).toMatchObject({ pushed: 1, conflicts: 1 })
+      expect(serverRow('tx-1').description).toBe('Team lunch')
+      expect(getSyncState().cursors.transaction).toBe('2026-10-01T10:15:00.000Z')
+    })
+  })
+})
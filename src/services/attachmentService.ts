@@ -0,0 +1,127 @@
+import type { ExportedAttachment, TransactionAttachment } from '@/types/attachment'
+import {
+  deleteAttachmentRecords,
+  getAllAttachmentRecords,
+  hasAttachmentStorage,
+  putAttachmentRecords,
+} from '@/services/localDatabase'
+
+/**
+ * Receipt images kept with transactions. They live on this device only (the sync backend
+ * carries transactions, not files) and are capped by total size instead of plan quotas.
+ */
+export const MAX_ATTACHMENT_STORAGE_BYTES = 50 * 1024 * 1024
+
+/** Loaded on first read; kept in memory so list filters can check for receipts synchronously. */
+let cache: TransactionAttachment[] | null = null
+
+function generateId(): string {
+  return `attachment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function isAttachmentStorageAvailable(): boolean {
+  return hasAttachmentStorage()
+}
+
+export async function getAllAttachments(): Promise<TransactionAttachment[]> {
+  if (!cache) cache = await getAllAttachmentRecords()
+  return [...cache]
+}
+
+/** True when a loaded attachment is linked to the transaction (false before the first load). */
+export function hasAttachment(transactionId: string): boolean {
+  return !!cache?.some((a) => a.transactionIds.includes(transactionId))
+}
+
+export async function createAttachment(data: {
+  image: Blob
+  transactionIds: string[]
+  ocrText?: string
+}): Promise<TransactionAttachment> {
+  const all = await getAllAttachments()
+  const attachment: TransactionAttachment = {
+    id: generateId(),
+    transactionIds: [...new Set(data.transactionIds)],
+    image: data.image,
+    size: data.image.size,
+    ...(data.ocrText?.trim() && { ocrText: data.ocrText.trim() }),
+    createdAt: new Date().toISOString(),
+  }
+  await putAttachmentRecords([attachment])
+  cache = [...all, attachment]
+  return attachment
+}
+
+/** Replace the transactions an attachment belongs to; with none left it is deleted. */
+export async function setAttachmentTransactions(id: string, transactionIds: string[]): Promise<void> {
+  const all = await getAllAttachments()
+  const existing = all.find((a) => a.id === id)
+  if (!existing) return
+  if (transactionIds.length === 0) {
+    await deleteAttachments([id])
+    return
+  }
+  const updated = { ...existing, transactionIds: [...new Set(transactionIds)] }
+  await putAttachmentRecords([updated])
+  cache = all.map((a) => (a.id === id ? updated : a))
+}
+
+export async function deleteAttachments(ids: string[]): Promise<void> {
+  const all = await getAllAttachments()
+  await deleteAttachmentRecords(ids)
+  cache = all.filter((a) => !ids.includes(a.id))
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/** Attachments linked to the given transactions, with images inlined for the export file. */
+export async function getAttachmentsForExport(transactionIds: Set<string>): Promise<ExportedAttachment[]> {
+  const all = await getAllAttachments()
+  const linked = all.filter((a) => a.transactionIds.some((id) => transactionIds.has(id)))
+  return Promise.all(linked.map(async (a) => ({ ...a, image: await blobToDataUrl(a.image) })))
+}
+
+/**
+ * Add attachments from an export file. Transaction ids are mapped to the ids the imported
+ * transactions got; attachments whose transactions were not imported are skipped, as are
+ * attachments that would go over the storage limit. Returns how many were added.
+ */
+export async function importAttachments(list: unknown[], transactionIdMap: Map<string, string>): Promise<number> {
+  if (!isAttachmentStorageAvailable()) return 0
+  const all = await getAllAttachments()
+  let used = all.reduce((sum, a) => sum + a.size, 0)
+  const added: TransactionAttachment[] = []
+  for (const item of list) {
+    const x = item as Partial<ExportedAttachment>
+    if (!x || typeof x.image !== 'string' || !Array.isArray(x.transactionIds)) continue
+    const transactionIds = x.transactionIds.map((id) => transactionIdMap.get(id)).filter((id): id is string => !!id)
+    if (transactionIds.length === 0) continue
+    let image: Blob
+    try {
+      image = await (await fetch(x.image)).blob()
+    } catch {
+      continue
+    }
+    if (used + image.size > MAX_ATTACHMENT_STORAGE_BYTES) continue
+    used += image.size
+    added.push({
+      id: generateId(),
+      transactionIds,
+      image,
+      size: image.size,
+      ...(typeof x.ocrText === 'string' && { ocrText: x.ocrText }),
+      createdAt: typeof x.createdAt === 'string' ? x.createdAt : new Date().toISOString(),
+    })
+  }
+  if (added.length === 0) return 0
+  await putAttachmentRecords(added)
+  cache = [...all, ...added]
+  return added.length
+}
@@ -0,0 +1,190 @@
+import type { Bill, BillFormData, BillOccurrence, BillPayment } from '@/types/bill'
+import { addPeriod } from '@/services/recurringService'
+
+const STORAGE_KEY = 'financial_tracker_bills'
+
+/** Safety cap on schedule steps when listing occurrences for a date range. */
+const MAX_OCCURRENCES = 400
+
+function generateId(): string {
+  return `bill-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getBills(): Bill[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveBills(bills: Bill[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bills))
+}
+
+function todayString(): string {
+  return new Date().toISOString().split('T')[0]!
+}
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number)
+  return new Date(Date.UTC(y!, m! - 1, d! + days)).toISOString().split('T')[0]!
+}
+
+/** Due date after `dateStr` on the bill's schedule; undefined for one-off bills. */
+export function nextDueAfter(bill: Pick<Bill, 'repeat' | 'interval' | 'startDate'>, dateStr: string): string | undefined {
+  if (bill.repeat === 'once') return undefined
+  const anchorDay = Number(bill.startDate.split('-')[2]) || 1
+  return addPeriod(dateStr, bill.repeat, bill.interval, anchorDay)
+}
+
+function normalizeReminder(days: number | undefined): number | undefined {
+  return days != null && days >= 0 ? Math.floor(days) : undefined
+}
+
+export function getAllBills(): Bill[] {
+  return getBills()
+}
+
+export function getBillById(id: string): Bill | null {
+  return getBills().find((b) => b.id === id) ?? null
+}
+
+export function createBill(data: BillFormData): Bill {
+  const bills = getBills()
+  const now = new Date().toISOString()
+  const dueDate = data.dueDate || todayString()
+  const bill: Bill = {
+    id: generateId(),
+    name: data.name.trim(),
+    amount: data.amount,
+    category: data.category,
+    pocketId: data.pocketId,
+    repeat: data.repeat,
+    interval: Math.max(1, Math.floor(data.interval || 1)),
+    startDate: dueDate,
+    dueDate,
+    reminderDays: normalizeReminder(data.reminderDays),
+    payments: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+  bills.push(bill)
+  saveBills(bills)
+  return bill
+}
+
+/**
+ * Update a bill. A new due date or repeat rule restarts the schedule from that due date;
+ * payments already made are kept.
+ */
+export function updateBill(id: string, data: Partial<BillFormData>): Bill {
+  const bills = getBills()
+  const idx = bills.findIndex((b) => b.id === id)
+  if (idx === -1) throw new Error(`Bill ${id} not found`)
+  const current = bills[idx]!
+  const merged: Bill = {
+    ...current,
+    ...(data.name !== undefined && { name: data.name.trim() || current.name }),
+    ...(data.amount !== undefined && { amount: data.amount }),
+    ...(data.category !== undefined && { category: data.category }),
+    ...(data.pocketId !== undefined && { pocketId: data.pocketId }),
+    ...(data.repeat !== undefined && { repeat: data.repeat }),
+    ...(data.interval !== undefined && { interval: Math.max(1, Math.floor(data.interval || 1)) }),
+    ...('reminderDays' in data && { reminderDays: normalizeReminder(data.reminderDays) }),
+    updatedAt: new Date().toISOString(),
+  }
+  const scheduleChanged =
+    (data.dueDate !== undefined && data.dueDate !== current.dueDate) ||
+    merged.repeat !== current.repeat ||
+    merged.interval !== current.interval
+  if (scheduleChanged && data.dueDate) {
+    merged.startDate = data.dueDate
+    merged.dueDate = data.dueDate
+    merged.remindedFor = undefined
+  }
+  bills[idx] = merged
+  saveBills(bills)
+  return merged
+}
+
+export function deleteBill(id: string): void {
+  saveBills(getBills().filter((b) => b.id !== id))
+}
+
+/** Remove bills paid from a pocket that is being deleted. */
+export function deleteBillsByPocketId(pocketId: string): void {
+  saveBills(getBills().filter((b) => b.pocketId !== pocketId))
+}
+
+/** Record the payment of the current due date and move the bill to its next due date. */
+export function recordPayment(id: string, payment: Omit<BillPayment, 'dueDate'>): Bill {
+  const bills = getBills()
+  const idx = bills.findIndex((b) => b.id === id)
+  if (idx === -1) throw new Error(`Bill ${id} not found`)
+  const current = bills[idx]!
+  if (!current.dueDate) throw new Error(`Bill ${id} has nothing due`)
+  const updated: Bill = {
+    ...current,
+    payments: [...current.payments, { ...payment, dueDate: current.dueDate }],
+    dueDate: nextDueAfter(current, current.dueDate),
+    updatedAt: new Date().toISOString(),
+  }
+  bills[idx] = updated
+  saveBills(bills)
+  return updated
+}
+
+/** Remember that reminders were shown for the bills' current due dates. */
+export function markReminded(ids: string[]): void {
+  const bills = getBills().map((b) => (ids.includes(b.id) && b.dueDate ? { ...b, remindedFor: b.dueDate } : b))
+  saveBills(bills)
+}
+
+/** Bills whose reminder window has opened for their current due date and that were not reminded yet. */
+export function getBillsToRemind(bills: Bill[], today: string = todayString()): Bill[] {
+  return bills.filter(
+    (b) =>
+      b.dueDate &&
+      b.reminderDays != null &&
+      b.remindedFor !== b.dueDate &&
+      addDays(b.dueDate, -b.reminderDays) <= today,
+  )
+}
+
+/** Whole days from today until the due date (negative when overdue). */
+export function daysUntil(dateStr: string, today: string = todayString()): number {
+  const [y1, m1, d1] = today.split('-').map(Number)
+  const [y2, m2, d2] = dateStr.split('-').map(Number)
+  return Math.round((Date.UTC(y2!, m2! - 1, d2!) - Date.UTC(y1!, m1! - 1, d1!)) / 86_400_000)
+}
+
+/**
+ * Paid and upcoming bill dates between start and end (inclusive, YYYY-MM-DD). Payments are
+ * placed on the day they were paid; unpaid due dates follow the schedule from the next due date.
+ */
+export function getBillOccurrences(
+  bills: Bill[],
+  start: string,
+  end: string,
+  today: string = todayString(),
+): BillOccurrence[] {
+  const occurrences: BillOccurrence[] = []
+  for (const bill of bills) {
+    for (const payment of bill.payments) {
+      if (payment.paidDate >= start && payment.paidDate <= end) {
+        occurrences.push({ bill, date: payment.paidDate, payment, overdue: false })
+      }
+    }
+    let next = bill.dueDate
+    let steps = 0
+    while (next && next <= end && steps < MAX_OCCURRENCES) {
+      if (next >= start) occurrences.push({ bill, date: next, overdue: next < today })
+      next = nextDueAfter(bill, next)
+      steps += 1
+    }
+  }
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -0,0 +1,143 @@
+import type { Budget, BudgetPeriod, BudgetProgress, CreateBudgetData } from '@/types/budget'
+import type { TransactionSplit } from '@/types/transaction'
+import { getCategoryLines } from '@/utils/transactionSplits'
+import { isInCategory } from '@/services/categoryService'
+
+const STORAGE_KEY = 'financial_tracker_budgets'
+
+function generateId(): string {
+  return `budget-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getBudgets(): Budget[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveBudgets(budgets: Budget[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(budgets))
+}
+
+/** YYYY-MM-DD in UTC, the form transaction dates are stored in. */
+function toDateString(d: Date): string {
+  return d.toISOString().split('T')[0]!
+}
+
+export function getAllBudgets(): Budget[] {
+  return getBudgets()
+}
+
+export function getBudgetById(id: string): Budget | null {
+  return getBudgets().find((b) => b.id === id) ?? null
+}
+
+export function createBudget(data: CreateBudgetData): Budget {
+  const budgets = getBudgets()
+  const now = new Date().toISOString()
+  const budget: Budget = {
+    id: generateId(),
+    category: data.category,
+    period: data.period,
+    amount: data.amount,
+    pocketId: data.pocketId || undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+  budgets.push(budget)
+  saveBudgets(budgets)
+  return budget
+}
+
+export function updateBudget(id: string, data: Partial<CreateBudgetData>): Budget {
+  const budgets = getBudgets()
+  const idx = budgets.findIndex((b) => b.id === id)
+  if (idx === -1) throw new Error(`Budget ${id} not found`)
+  const current = budgets[idx]!
+  const updated: Budget = {
+    ...current,
+    ...(data.category !== undefined && { category: data.category }),
+    ...(data.period !== undefined && { period: data.period }),
+    ...(data.amount !== undefined && { amount: data.amount }),
+    ...('pocketId' in data && { pocketId: data.pocketId || undefined }),
+    updatedAt: new Date().toISOString(),
+  }
+  budgets[idx] = updated
+  saveBudgets(budgets)
+  return updated
+}
+
+export function deleteBudget(id: string): void {
+  saveBudgets(getBudgets().filter((b) => b.id !== id))
+}
+
+/** Remove budgets scoped to a pocket that is being deleted. */
+export function deleteBudgetsByPocketId(pocketId: string): void {
+  saveBudgets(getBudgets().filter((b) => b.pocketId !== pocketId))
+}
+
+/**
+ * Current period range (inclusive, YYYY-MM-DD) containing `now`, in UTC like transaction dates.
+ * Weeks start on Monday; months and years are calendar periods.
+ */
+export function getPeriodRange(period: BudgetPeriod, now: Date = new Date()): { start: string; end: string } {
+  if (period === 'weekly') {
+    const offset = (now.getUTCDay() + 6) % 7
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - offset))
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 6))
+    return { start: toDateString(start), end: toDateString(end) }
+  }
+  if (period === 'yearly') {
+    return { start: `${now.getUTCFullYear()}-01-01`, end: `${now.getUTCFullYear()}-12-31` }
+  }
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0))
+  return { start: toDateString(start), end: toDateString(end) }
+}
+
+/**
+ * Compute spent vs. limit for each budget in its current period.
+ * Only expenses count; a budget with a pocket scope only counts expenses from that pocket.
+ * Split expenses count only the lines in the budget's category; sub-categories count toward their parent.
+ */
+export function computeBudgetProgress(
+  budgets: Budget[],
+  transactions: Array<{
+    type: string
+    amount: number
+    category: string
+    date: string
+    pocketId: string
+    splits?: TransactionSplit[]
+  }>,
+  now: Date = new Date(),
+): BudgetProgress[] {
+  return budgets.map((budget) => {
+    const { start, end } = getPeriodRange(budget.period, now)
+    let spent = 0
+    for (const t of transactions) {
+      if (t.type !== 'expense') continue
+      if (budget.pocketId && t.pocketId !== budget.pocketId) continue
+      const day = t.date.split('T')[0]!
+      if (day < start || day > end) continue
+      for (const line of getCategoryLines(t)) {
+        if (isInCategory(line.category, budget.category)) spent += line.amount
+      }
+    }
+    const excess = Math.max(0, spent - budget.amount)
+    return {
+      budget,
+      periodStart: start,
+      periodEnd: end,
+      spent,
+      remaining: Math.max(0, budget.amount - spent),
+      percentUsed: budget.amount > 0 ? (spent / budget.amount) * 100 : 0,
+      overspent: spent > budget.amount,
+      excess,
+    }
+  })
+}
@@ -0,0 +1,155 @@
+import type {
+  CategoryRule,
+  CategoryRuleChange,
+  CategoryRuleCondition,
+  CategoryRuleFormData,
+  CategoryRuleInput,
+} from '@/types/categoryRule'
+import type { Transaction } from '@/types/transaction'
+
+const STORAGE_KEY = 'financial_tracker_category_rules'
+
+function generateId(): string {
+  return `catrule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getRules(): CategoryRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveRules(rules: CategoryRule[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules))
+}
+
+/** Rules in the order they are applied. */
+export function getAllCategoryRules(): CategoryRule[] {
+  return getRules().sort((a, b) => a.priority - b.priority)
+}
+
+export function createCategoryRule(data: CategoryRuleFormData): CategoryRule {
+  const rules = getRules()
+  const now = new Date().toISOString()
+  const rule: CategoryRule = {
+    id: generateId(),
+    type: data.type || undefined,
+    conditions: data.conditions,
+    category: data.category,
+    // New rules go last, so they never override an existing one
+    priority: rules.reduce((max, r) => Math.max(max, r.priority + 1), 0),
+    enabled: data.enabled,
+    createdAt: now,
+    updatedAt: now,
+  }
+  rules.push(rule)
+  saveRules(rules)
+  return rule
+}
+
+export function updateCategoryRule(id: string, data: Partial<CategoryRuleFormData>): CategoryRule {
+  const rules = getRules()
+  const idx = rules.findIndex((r) => r.id === id)
+  if (idx === -1) throw new Error(`Category rule ${id} not found`)
+  const updated: CategoryRule = {
+    ...rules[idx]!,
+    ...('type' in data && { type: data.type || undefined }),
+    ...(data.conditions !== undefined && { conditions: data.conditions }),
+    ...(data.category !== undefined && { category: data.category }),
+    ...(data.enabled !== undefined && { enabled: data.enabled }),
+    updatedAt: new Date().toISOString(),
+  }
+  rules[idx] = updated
+  saveRules(rules)
+  return updated
+}
+
+export function deleteCategoryRule(id: string): void {
+  saveRules(getRules().filter((r) => r.id !== id))
+}
+
+/** Set the application order; `ids` lists every rule, first applied first. */
+export function reorderCategoryRules(ids: string[]): void {
+  const order = new Map(ids.map((id, i) => [id, i]))
+  saveRules(getRules().map((r) => ({ ...r, priority: order.get(r.id) ?? r.priority })))
+}
+
+/** Null for patterns that do not compile, so a bad rule matches nothing instead of throwing. */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+export function isValidRulePattern(pattern: string): boolean {
+  return compilePattern(pattern) != null
+}
+
+function matchesCondition(condition: CategoryRuleCondition, input: CategoryRuleInput): boolean {
+  if (condition.field === 'amount') {
+    const { operator, value } = condition
+    if (operator === 'gt') return input.amount > value
+    if (operator === 'gte') return input.amount >= value
+    if (operator === 'lt') return input.amount < value
+    return input.amount <= value
+  }
+  const text = (condition.field === 'merchant' ? input.merchant || input.description : input.description)
+    .trim()
+    .toLowerCase()
+  const value = condition.value.trim().toLowerCase()
+  if (!value) return false
+  switch (condition.operator) {
+    case 'contains':
+      return text.includes(value)
+    case 'equals':
+      return text === value
+    case 'startsWith':
+      return text.startsWith(value)
+    case 'regex':
+      return compilePattern(condition.value)?.test(text) ?? false
+  }
+}
+
+export function matchesCategoryRule(rule: CategoryRule, input: CategoryRuleInput): boolean {
+  if (!rule.enabled || rule.conditions.length === 0) return false
+  if (rule.type && rule.type !== input.type) return false
+  return rule.conditions.every((c) => matchesCondition(c, input))
+}
+
+/** First enabled rule matching the input, in priority order. */
+export function findMatchingRule(
+  input: CategoryRuleInput,
+  rules: CategoryRule[] = getAllCategoryRules(),
+): CategoryRule | null {
+  return rules.find((r) => matchesCategoryRule(r, input)) ?? null
+}
+
+/** Category from the user's rules, or null when none matches (callers fall back to their own guess). */
+export function applyCategoryRules(input: CategoryRuleInput): string | null {
+  return findMatchingRule(input)?.category ?? null
+}
+
+/**
+ * Recorded income and expenses whose category would change if the rules were applied
+ * now. Transfers and split transactions are left alone.
+ */
+export function previewCategoryRuleChanges(
+  transactions: Transaction[],
+  rules: CategoryRule[] = getAllCategoryRules(),
+): CategoryRuleChange[] {
+  const changes: CategoryRuleChange[] = []
+  for (const t of transactions) {
+    if (t.type === 'transfer' || t.splits?.length) continue
+    const rule = findMatchingRule({ type: t.type, amount: t.amount, description: t.description, merchant: t.merchant }, rules)
+    if (rule && rule.category !== t.category) {
+      changes.push({ transaction: t, from: t.category, to: rule.category, ruleId: rule.id })
+    }
+  }
+  return changes
+}
@@ -0,0 +1,270 @@
+import type { Category, CategoryFormData, CategoryType } from '@/types/category'
+
+const STORAGE_KEY = 'financial_tracker_categories'
+
+/** Fallback when nothing better is known (unparsed receipts, unmatched statement rows). */
+export const OTHER_CATEGORY_ID = 'other'
+/** Default for new income. */
+export const SALARY_CATEGORY_ID = 'salary'
+/** Default for new expenses. */
+export const FOOD_CATEGORY_ID = 'food'
+
+export const DEFAULT_CATEGORY_COLOR = '#94a3b8'
+export const DEFAULT_CATEGORY_ICON = '🏷️'
+
+type BuiltInCategory = Pick<Category, 'id' | 'icon' | 'color' | 'type'> & { nameKey: string }
+
+/** Shipped categories, in picker order. Their names come from i18n until the user renames them. */
+const BUILT_IN_CATEGORIES: BuiltInCategory[] = [
+  { id: 'food', nameKey: 'transaction.categoryFood', icon: '🍽️', color: '#f97316', type: 'expense' },
+  { id: 'transport', nameKey: 'transaction.categoryTransport', icon: '🚗', color: '#22d3ee', type: 'expense' },
+  { id: 'shopping', nameKey: 'transaction.categoryShopping', icon: '🛍️', color: '#fb7185', type: 'expense' },
+  { id: 'bills', nameKey: 'transaction.categoryBills', icon: '📋', color: '#fbbf24', type: 'expense' },
+  { id: 'entertainment', nameKey: 'transaction.categoryEntertainment', icon: '🎮', color: '#d8b4fe', type: 'expense' },
+  { id: 'health', nameKey: 'transaction.categoryHealth', icon: '🏥', color: '#4ade80', type: 'expense' },
+  { id: 'coffee', nameKey: 'transaction.categoryCoffee', icon: '☕', color: '#ea580c', type: 'expense' },
+  { id: 'salary', nameKey: 'transaction.categorySalary', icon: '💵', color: '#22c55e', type: 'income' },
+  { id: 'freelance', nameKey: 'transaction.categoryFreelance', icon: '💼', color: '#67e8f9', type: 'income' },
+  { id: 'gift', nameKey: 'transaction.categoryGift', icon: '🎁', color: '#fda4af', type: 'income' },
+  { id: 'investment', nameKey: 'transaction.categoryInvestment', icon: '📈', color: '#86efac' },
+  { id: OTHER_CATEGORY_ID, nameKey: 'transaction.categoryOther', icon: '📦', color: DEFAULT_CATEGORY_COLOR },
+]
+
+export const BUILT_IN_CATEGORY_IDS = BUILT_IN_CATEGORIES.map((c) => c.id)
+
+/**
+ * Names transactions were saved with before categories had ids (Indonesian and English
+ * labels plus spellings the parsers and older versions produced), lowercased.
+ */
+const LEGACY_CATEGORY_NAMES: Record<string, string> = {
+  makanan: 'food',
+  food: 'food',
+  transportasi: 'transport',
+  transportation: 'transport',
+  transport: 'transport',
+  belanja: 'shopping',
+  shopping: 'shopping',
+  'e-commerce': 'shopping',
+  tagihan: 'bills',
+  bills: 'bills',
+  hiburan: 'entertainment',
+  entertainment: 'entertainment',
+  kesehatan: 'health',
+  health: 'health',
+  'coffee/minuman': 'coffee',
+  'coffee/beverages': 'coffee',
+  coffee: 'coffee',
+  minuman: 'coffee',
+  beverages: 'coffee',
+  gaji: 'salary',
+  salary: 'salary',
+  freelance: 'freelance',
+  hadiah: 'gift',
+  gift: 'gift',
+  investasi: 'investment',
+  invest: 'investment',
+  investment: 'investment',
+  lainnya: 'other',
+  'lain-lain': 'other',
+  'lain lain': 'other',
+  other: 'other',
+}
+
+/** i18n key of a built-in category's name, or null for custom categories. */
+export function builtInCategoryNameKey(id: string): string | null {
+  return BUILT_IN_CATEGORIES.find((c) => c.id === id)?.nameKey ?? null
+}
+
+/** Built-in id for a name saved before categories had ids, or null when it has none. */
+export function legacyCategoryId(name: string): string | null {
+  return LEGACY_CATEGORY_NAMES[name.trim().toLowerCase()] ?? null
+}
+
+function generateId(): string {
+  return `cat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Category names are looked up for every rendered transaction, so parsed storage is kept
+let cache: Category[] | null = null
+
+/** Custom categories and edited built-ins, as stored. */
+function getStoredCategories(): Category[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveCategories(categories: Category[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(categories))
+  cache = null
+}
+
+function builtInDefaults(): Category[] {
+  const epoch = new Date(0).toISOString()
+  return BUILT_IN_CATEGORIES.map((c) => ({
+    id: c.id,
+    name: '',
+    icon: c.icon,
+    color: c.color,
+    type: c.type,
+    archived: false,
+    builtIn: true,
+    createdAt: epoch,
+    updatedAt: epoch,
+  }))
+}
+
+/** Every category including archived ones: built-ins first (with any edits), then custom ones by creation. */
+export function getAllCategories(): Category[] {
+  if (cache) return cache
+  const stored = getStoredCategories()
+  const storedById = new Map(stored.map((c) => [c.id, c]))
+  const builtIns = builtInDefaults().map((c) => {
+    const edited = storedById.get(c.id)
+    return edited ? { ...c, ...edited, builtIn: true } : c
+  })
+  const custom = stored
+    .filter((c) => !BUILT_IN_CATEGORY_IDS.includes(c.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  cache = [...builtIns, ...custom]
+  return cache
+}
+
+export function getCategoryById(id: string): Category | null {
+  return getAllCategories().find((c) => c.id === id) ?? null
+}
+
+/** Categories a new transaction of this type can use (not archived), parents before their children. */
+export function getActiveCategories(type?: CategoryType): Category[] {
+  const active = getAllCategories().filter((c) => !c.archived && (!type || !c.type || c.type === type))
+  const ordered: Category[] = []
+  for (const parent of active.filter((c) => !c.parentId)) {
+    ordered.push(parent, ...active.filter((c) => c.parentId === parent.id))
+  }
+  // Sub-categories whose parent is archived or for the other type still appear, at the end
+  return [...ordered, ...active.filter((c) => !ordered.includes(c))]
+}
+
+/**
+ * Id for a category reference that may still be a name (parser output, old rules, remote
+ * rows written by older versions): an existing id, a custom category's name, or a
+ * built-in's name in either language. Null when nothing matches.
+ */
+export function resolveCategoryId(value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  const categories = getAllCategories()
+  if (categories.some((c) => c.id === trimmed)) return trimmed
+  const lower = trimmed.toLowerCase()
+  return categories.find((c) => c.name.toLowerCase() === lower)?.id ?? legacyCategoryId(trimmed)
+}
+
+/** True when `categoryId` is `targetId` or one of its sub-categories. */
+export function isInCategory(categoryId: string, targetId: string): boolean {
+  if (categoryId === targetId) return true
+  return getCategoryById(categoryId)?.parentId === targetId
+}
+
+function upsert(category: Category): void {
+  const stored = getStoredCategories()
+  const idx = stored.findIndex((c) => c.id === category.id)
+  if (idx === -1) stored.push(category)
+  else stored[idx] = category
+  saveCategories(stored)
+}
+
+export function createCategory(data: CategoryFormData): Category {
+  const now = new Date().toISOString()
+  const category: Category = {
+    id: generateId(),
+    name: data.name.trim(),
+    icon: data.icon,
+    color: data.color,
+    type: data.type || undefined,
+    parentId: data.parentId || undefined,
+    archived: false,
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now,
+  }
+  upsert(category)
+  return category
+}
+
+export function updateCategory(id: string, data: Partial<CategoryFormData>): Category {
+  const existing = getCategoryById(id)
+  if (!existing) throw new Error(`Category ${id} not found`)
+  const updated: Category = {
+    ...existing,
+    ...(data.name !== undefined && { name: data.name.trim() }),
+    ...(data.icon !== undefined && { icon: data.icon }),
+    ...(data.color !== undefined && { color: data.color }),
+    ...('type' in data && { type: data.type || undefined }),
+    ...('parentId' in data && { parentId: data.parentId || undefined }),
+    updatedAt: new Date().toISOString(),
+  }
+  upsert(updated)
+  return updated
+}
+
+/**
+ * Archive or restore a category. Archiving a parent archives its sub-categories too.
+ * Transactions keep the id, so their history still shows the name and icon.
+ */
+export function setCategoryArchived(id: string, archived: boolean): void {
+  const targets = getAllCategories().filter((c) => c.id === id || (archived && c.parentId === id))
+  const now = new Date().toISOString()
+  for (const c of targets) upsert({ ...c, archived, updatedAt: now })
+}
+
+/** Forget the cached list, e.g. after a backup import rewrote storage. */
+export function invalidateCategoryCache(): void {
+  cache = null
+}
+
+/** Custom categories and edited built-ins, for backups. */
+export function getCategoriesForExport(): Category[] {
+  return getStoredCategories()
+}
+
+/**
+ * Add the categories from a backup. Ones this device already has (same id, or same name
+ * under the same parent) are reused; edits to built-ins in the backup are ignored.
+ * Returns backup id → id on this device, for the ids that differ.
+ */
+export function mergeImportedCategories(imported: unknown[]): Map<string, string> {
+  const idMap = new Map<string, string>()
+  const stored = getStoredCategories()
+  const known = [...getAllCategories()]
+  const items = imported.filter(
+    (item): item is Category => !!item && typeof (item as Category).id === 'string',
+  )
+  // Parents first, so sub-categories can point at the parent's id on this device
+  items.sort((a, b) => Number(!!a.parentId) - Number(!!b.parentId))
+  for (const item of items) {
+    if (known.some((c) => c.id === item.id)) continue
+    const parentId = item.parentId ? (idMap.get(item.parentId) ?? item.parentId) : undefined
+    const name = (item.name ?? '').trim().toLowerCase()
+    const same = known.find((c) => name && c.name.toLowerCase() === name && c.parentId === parentId)
+    if (same) {
+      idMap.set(item.id, same.id)
+      continue
+    }
+    const category: Category = {
+      ...item,
+      icon: item.icon || DEFAULT_CATEGORY_ICON,
+      color: item.color || DEFAULT_CATEGORY_COLOR,
+      parentId,
+      archived: !!item.archived,
+      builtIn: false,
+    }
+    stored.push(category)
+    known.push(category)
+  }
+  saveCategories(stored)
+  return idMap
+}
@@ -1,5 +1,6 @@
 import type { ChatContext } from '@/types/chat'
 import { LocalFinancialAI, type FinancialAnalysis } from './financialAI'
+import { DEFAULT_CURRENCY, formatMoney } from '@/utils/currency'
 
 /**
  * Chat Service Interface
@@ -72,32 +73,34 @@ class OpenAIChatService implements IChatService {
 
   private buildSystemPrompt(context?: ChatContext): string {
     const lang = context?.locale === 'en' ? 'English' : 'Indonesian'
+    const currency = context?.currency ?? DEFAULT_CURRENCY
+    const money = (amount: number) => formatMoney(amount, currency)
     const tone = context?.locale === 'en'
       ? 'Write like a real person: casual, warm, and helpful. Avoid corporate or robotic phrases. Use "you" and contractions (e.g. "you\'re", "here\'s"). Keep it concise and practical.'
       : 'Tulis seperti orang beneran: santai, ramah, dan helpful. Jangan pakai bahasa kaku atau kayak bot. Pakai "kamu" dan bahasa sehari-hari yang tetap sopan. Singkat dan to the point.'
     let prompt = `You are Minfan, a friendly finance buddy for a personal finance app. You help users understand their money, give practical tips, and answer questions about transactions and savings goals.
 
-IMPORTANT: Respond in ${lang} only. Use Indonesian Rupiah (IDR) for amounts when in Indonesian.
+IMPORTANT: Respond in ${lang} only. All amounts are in ${currency}.
 ${tone}`
 
     if (context?.transactions) {
       const { totalIncome, totalExpenses, balance, incomeCount, expenseCount } =
         context.transactions
       prompt += `\n\nCurrent financial summary:
-- Total Income: Rp ${totalIncome.toLocaleString('id-ID')}
-- Total Expenses: Rp ${totalExpenses.toLocaleString('id-ID')}
-- Balance: Rp ${balance.toLocaleString('id-ID')}
+- Total Income: ${money(totalIncome)}
+- Total Expenses: ${money(totalExpenses)}
+- Balance: ${money(balance)}
 - Income transactions: ${incomeCount}
 - Expense transactions: ${expenseCount}
 
-Use Indonesian Rupiah (IDR) format when mentioning amounts.`
+Use ${currency} when mentioning amounts.`
     }
 
     if (context?.goals && context.goals.length > 0) {
       prompt += `\n\nUser's savings goals (for goal-related questions):
 `
       context.goals.forEach((g) => {
-        prompt += `- "${g.name}": current Rp ${g.currentBalance.toLocaleString('id-ID')}, target Rp ${g.targetAmount.toLocaleString('id-ID')}, progress ${g.progressPercent}%\n`
+        prompt += `- "${g.name}": current ${money(g.currentBalance)}, target ${money(g.targetAmount)}, progress ${g.progressPercent}%\n`
       })
       prompt += `\nWhen asked about goals, list or summarize these goals with balance and progress. Give tips to reach targets if relevant.`
     } else {
@@ -132,9 +135,12 @@ class LocalAIChatService implements IChatService {
           averageDailyExpense: tx.averageDailyExpense || 0,
           savingsRate: tx.savingsRate || 0,
           overspendingCategories: tx.overspendingCategories || [],
+          hasBudgets: tx.hasBudgets,
           goals: context.goals,
           totalAssets: context.totalAssets,
+          totalLiabilities: context.totalLiabilities,
           pockets: context.pockets,
+          currency: context.currency,
         }
       : {
           totalIncome: 0,
@@ -151,7 +157,9 @@ class LocalAIChatService implements IChatService {
           overspendingCategories: [],
           goals: context?.goals,
           totalAssets: context?.totalAssets,
+          totalLiabilities: context?.totalLiabilities,
           pockets: context?.pockets,
+          currency: context?.currency,
         }
 
     const ai = new LocalFinancialAI(analysis)
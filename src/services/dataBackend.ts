@@ -0,0 +1,26 @@
+/**
+ * Where transactions, pockets and goals are stored.
+ * - local: this device only (localStorage)
+ * - supabase: this device plus the signed-in user's Supabase tables, kept in sync by syncService
+ *
+ * The choice is read once at startup; switching reloads the app.
+ */
+export type DataBackend = 'local' | 'supabase'
+
+const STORAGE_KEY = 'financial_tracker_data_backend'
+
+export function getDataBackend(): DataBackend {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'supabase' ? 'supabase' : 'local'
+  } catch {
+    return 'local'
+  }
+}
+
+export function setDataBackend(backend: DataBackend): void {
+  localStorage.setItem(STORAGE_KEY, backend)
+}
+
+export function isSupabaseBackend(): boolean {
+  return getDataBackend() === 'supabase'
+}
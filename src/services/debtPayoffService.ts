@@ -0,0 +1,113 @@
+import type { PayoffDebt, PayoffMonth, PayoffPlan, PayoffStrategy } from '@/types/debtPayoff'
+
+/** Simulations stop after 50 years; a budget that has not cleared the debts by then never will. */
+const MAX_MONTHS = 600
+
+/** Monthly Interest Rate = (Annual Interest %) / 12 */
+export function getMonthlyRate(annualPercent: number): number {
+  return annualPercent / 100 / 12
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function addMonths(month: string, n: number): string {
+  const [y, m] = month.split('-').map(Number)
+  const d = new Date(Date.UTC(y!, m! - 1 + n, 1))
+  return d.toISOString().slice(0, 7)
+}
+
+/** Order extra payments go in: snowball by smallest balance, avalanche by highest rate (then smallest balance). */
+export function payoffOrder(debts: PayoffDebt[], strategy: PayoffStrategy): string[] {
+  return [...debts]
+    .sort((a, b) =>
+      strategy === 'snowball'
+        ? a.balance - b.balance || b.interestRate - a.interestRate
+        : b.interestRate - a.interestRate || a.balance - b.balance,
+    )
+    .map((d) => d.id)
+}
+
+/**
+ * Simulate paying the debts month by month with a fixed monthly budget: interest is added,
+ * every debt gets its minimum payment, and what is left of the budget goes to the first unpaid
+ * debt in strategy order. Money freed by a paid-off debt rolls over to the next one.
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  startMonth: string = new Date().toISOString().slice(0, 7),
+): PayoffPlan {
+  const order = payoffOrder(debts, strategy)
+  const plan: PayoffPlan = { strategy, order, months: [], totalInterest: 0, totalPaid: 0 }
+  const active = debts.filter((d) => d.balance > 0)
+  if (active.length === 0) return plan
+
+  const minimums = active.reduce((s, d) => s + Math.min(d.minimumPayment, d.balance), 0)
+  if (monthlyBudget < minimums) return { ...plan, problem: 'budget_below_minimums' }
+
+  const balances: Record<string, number> = Object.fromEntries(debts.map((d) => [d.id, Math.max(0, d.balance)]))
+  const byId = new Map(debts.map((d) => [d.id, d]))
+
+  for (let index = 1; index <= MAX_MONTHS; index++) {
+    const interest: Record<string, number> = {}
+    const payments: Record<string, number> = {}
+    for (const id of order) {
+      if (balances[id]! <= 0) continue
+      interest[id] = round(balances[id]! * getMonthlyRate(byId.get(id)!.interestRate))
+      balances[id] = balances[id]! + interest[id]!
+    }
+
+    let left = monthlyBudget
+    for (const id of order) {
+      if (balances[id]! <= 0) continue
+      const pay = Math.min(byId.get(id)!.minimumPayment, balances[id]!, left)
+      payments[id] = pay
+      balances[id] = round(balances[id]! - pay)
+      left -= pay
+    }
+    for (const id of order) {
+      if (left <= 0) break
+      if (balances[id]! <= 0) continue
+      const pay = Math.min(balances[id]!, left)
+      payments[id] = (payments[id] ?? 0) + pay
+      balances[id] = round(balances[id]! - pay)
+      left -= pay
+    }
+
+    const paidOff = order.filter((id) => payments[id] && balances[id]! <= 0)
+    const month: PayoffMonth = {
+      index,
+      month: addMonths(startMonth, index - 1),
+      payments,
+      interest,
+      balances: { ...balances },
+      totalPayment: round(Object.values(payments).reduce((s, n) => s + n, 0)),
+      totalInterest: round(Object.values(interest).reduce((s, n) => s + n, 0)),
+      totalBalance: round(Object.values(balances).reduce((s, n) => s + n, 0)),
+      paidOff,
+    }
+    plan.months.push(month)
+    plan.totalInterest = round(plan.totalInterest + month.totalInterest)
+    plan.totalPaid = round(plan.totalPaid + month.totalPayment)
+
+    if (month.totalBalance <= 0) return { ...plan, payoffMonth: month.month }
+    // Interest grows faster than the budget pays it down
+    const previous = plan.months[plan.months.length - 2]
+    if (previous && month.totalBalance >= previous.totalBalance) return { ...plan, problem: 'never_paid_off' }
+  }
+  return { ...plan, problem: 'never_paid_off' }
+}
+
+export function comparePayoffStrategies(
+  debts: PayoffDebt[],
+  monthlyBudget: number,
+  startMonth?: string,
+): Record<PayoffStrategy, PayoffPlan> {
+  return {
+    snowball: simulatePayoff(debts, monthlyBudget, 'snowball', startMonth),
+    avalanche: simulatePayoff(debts, monthlyBudget, 'avalanche', startMonth),
+  }
+}
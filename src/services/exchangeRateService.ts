@@ -0,0 +1,92 @@
+import type { ExchangeRateSettings } from '@/types/currency'
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, type CurrencyCode } from '@/utils/currency'
+
+const STORAGE_KEY = 'financial_tracker_exchange_rates'
+
+function isSupported(code: unknown): code is CurrencyCode {
+  return typeof code === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(code)
+}
+
+function defaultSettings(): ExchangeRateSettings {
+  return { baseCurrency: DEFAULT_CURRENCY, rates: {} }
+}
+
+function getSettings(): ExchangeRateSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : null
+    if (!raw || typeof raw !== 'object') return defaultSettings()
+    const rates: ExchangeRateSettings['rates'] = {}
+    for (const [code, rate] of Object.entries(raw.rates ?? {})) {
+      if (isSupported(code) && typeof rate === 'number' && rate > 0) rates[code] = rate
+    }
+    return {
+      baseCurrency: isSupported(raw.baseCurrency) ? raw.baseCurrency : DEFAULT_CURRENCY,
+      rates,
+      updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : undefined,
+    }
+  } catch {
+    return defaultSettings()
+  }
+}
+
+function saveSettings(settings: ExchangeRateSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+export function getExchangeRateSettings(): ExchangeRateSettings {
+  return getSettings()
+}
+
+export function setBaseCurrency(currency: CurrencyCode): ExchangeRateSettings {
+  const settings = { ...getSettings(), baseCurrency: currency }
+  saveSettings(settings)
+  return settings
+}
+
+/** Set "1 {currency} = rate IDR". Rates for IDR are ignored (always 1). */
+export function setRate(currency: CurrencyCode, rate: number): ExchangeRateSettings {
+  if (!(rate > 0)) throw new Error('Exchange rate must be greater than 0')
+  const settings = getSettings()
+  if (currency !== DEFAULT_CURRENCY) {
+    settings.rates = { ...settings.rates, [currency]: rate }
+    settings.updatedAt = new Date().toISOString()
+  }
+  saveSettings(settings)
+  return settings
+}
+
+export function removeRate(currency: CurrencyCode): ExchangeRateSettings {
+  const settings = getSettings()
+  const rates = { ...settings.rates }
+  delete rates[currency]
+  const updated = { ...settings, rates, updatedAt: new Date().toISOString() }
+  saveSettings(updated)
+  return updated
+}
+
+/** Value of 1 unit of `currency` in IDR, or null when no rate has been entered. */
+export function getRateToDefault(
+  currency: CurrencyCode,
+  rates: ExchangeRateSettings['rates'],
+): number | null {
+  if (currency === DEFAULT_CURRENCY) return 1
+  return rates[currency] ?? null
+}
+
+/**
+ * Convert an amount between currencies via IDR.
+ * Returns null when a rate is missing so callers can decide how to surface it.
+ */
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: ExchangeRateSettings['rates'],
+): number | null {
+  if (from === to) return amount
+  const fromRate = getRateToDefault(from, rates)
+  const toRate = getRateToDefault(to, rates)
+  if (fromRate == null || toRate == null) return null
+  return (amount * fromRate) / toRate
+}
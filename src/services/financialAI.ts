@@ -1,5 +1,9 @@
 import type { Transaction } from '@/types/transaction'
-import { formatIDR } from '@/utils/currency'
+import type { Budget } from '@/types/budget'
+import { computeBudgetProgress } from '@/services/budgetService'
+import { getCategoryLines } from '@/utils/transactionSplits'
+import { DEFAULT_CURRENCY, formatMoney, type CurrencyCode } from '@/utils/currency'
+import { getCategoryName } from '@/utils/categoryIcons'
 
 /**
  * Financial Analysis Data Structure
@@ -36,12 +40,15 @@ export interface FinancialAnalysis {
   }>
   averageDailyExpense: number
   savingsRate: number // percentage of income saved
+  /** Categories over the user's budget limit in the current budget period */
   overspendingCategories: Array<{
     category: string
     total: number
     threshold: number
     excess: number
   }>
+  /** Whether the user has set any budgets (overspending is only detected against budgets) */
+  hasBudgets?: boolean
   /** Optional: user's savings goals for goal-related answers */
   goals?: Array<{
     name: string
@@ -54,14 +61,19 @@ export interface FinancialAnalysis {
   }>
   /** Total assets (pockets + goals) for "total aset" questions */
   totalAssets?: number
+  /** Outstanding debts; net worth = totalAssets - totalLiabilities */
+  totalLiabilities?: number
   /** Pockets with balance for "kantong/dompet" questions */
   pockets?: Array<{ name: string; balance: number }>
+  /** Currency of every amount above (the user's base currency). Default IDR. */
+  currency?: CurrencyCode
 }
 
 /**
- * Analyze transactions and generate financial insights
+ * Analyze transactions and generate financial insights.
+ * Overspending is measured against the user's budgets (spent in the current period vs. limit).
  */
-export function analyzeFinancialData(transactions: Transaction[]): FinancialAnalysis {
+export function analyzeFinancialData(transactions: Transaction[], budgets: Budget[] = []): FinancialAnalysis {
   const now = new Date()
   const income = transactions.filter((t) => t.type === 'income')
   const expenses = transactions.filter((t) => t.type === 'expense')
@@ -70,19 +82,21 @@ export function analyzeFinancialData(transactions: Transaction[]): FinancialAnal
   const totalExpenses = expenses.reduce((sum, t) => sum + t.amount, 0)
   const balance = totalIncome - totalExpenses
 
-  // Category breakdown for expenses
+  // Category breakdown for expenses (split transactions count per line)
   const categoryMap = new Map<string, { total: number; count: number }>()
   expenses.forEach((t) => {
-    const existing = categoryMap.get(t.category) || { total: 0, count: 0 }
-    categoryMap.set(t.category, {
-      total: existing.total + t.amount,
-      count: existing.count + 1,
+    getCategoryLines(t).forEach((line) => {
+      const existing = categoryMap.get(line.category) || { total: 0, count: 0 }
+      categoryMap.set(line.category, {
+        total: existing.total + line.amount,
+        count: existing.count + 1,
+      })
     })
   })
 
   const categoryBreakdown = Array.from(categoryMap.entries())
     .map(([category, data]) => ({
-      category,
+      category: getCategoryName(category),
       total: data.total,
       count: data.count,
       percentage: totalExpenses > 0 ? (data.total / totalExpenses) * 100 : 0,
@@ -155,16 +169,16 @@ export function analyzeFinancialData(transactions: Transaction[]): FinancialAnal
   // Savings rate
   const savingsRate = totalIncome > 0 ? ((totalIncome - totalExpenses) / totalIncome) * 100 : 0
 
-  // Detect overspending (categories exceeding 30% of total expenses are flagged)
-  const overspendingThreshold = totalExpenses * 0.3
-  const overspendingCategories = categoryBreakdown
-    .filter((cat) => cat.total > overspendingThreshold)
-    .map((cat) => ({
-      category: cat.category,
-      total: cat.total,
-      threshold: overspendingThreshold,
-      excess: cat.total - overspendingThreshold,
+  // Detect overspending (budgets whose spending this period exceeds the limit)
+  const overspendingCategories = computeBudgetProgress(budgets, transactions, now)
+    .filter((p) => p.overspent)
+    .map((p) => ({
+      category: getCategoryName(p.budget.category),
+      total: p.spent,
+      threshold: p.budget.amount,
+      excess: p.excess,
     }))
+    .sort((a, b) => b.excess - a.excess)
 
   return {
     totalIncome,
@@ -179,6 +193,7 @@ export function analyzeFinancialData(transactions: Transaction[]): FinancialAnal
     averageDailyExpense,
     savingsRate,
     overspendingCategories,
+    hasBudgets: budgets.length > 0,
   }
 }
 
@@ -197,6 +212,10 @@ export class LocalFinancialAI {
     }
   }
 
+  private formatAmount(amount: number): string {
+    return formatMoney(amount, this.analysis.currency ?? DEFAULT_CURRENCY)
+  }
+
   /**
    * Process user message and generate intelligent response.
    * @param message User message
@@ -408,7 +427,7 @@ export class LocalFinancialAI {
     const [start, good, bad, neutral, help, question] = locale === 'en'
       ? [
           'Hey! 👋 I\'m Minfan, your finance buddy. ',
-          `Looks like you\'re in good shape—positive balance ${formatIDR(balance)}. `,
+          `Looks like you\'re in good shape—positive balance ${this.formatAmount(balance)}. `,
           'Your expenses are a bit over your income right now—we can look at that. ',
           'Ready to get a clearer picture of your money. ',
           'I can help with spending, goals, summaries, and tips. ',
@@ -416,7 +435,7 @@ export class LocalFinancialAI {
         ]
       : [
           'Halo! 👋 Aku MinFan, teman keuangan kamu. ',
-          `Keuangan kamu oke—saldo positif ${formatIDR(balance)}. `,
+          `Keuangan kamu oke—saldo positif ${this.formatAmount(balance)}. `,
           'Pengeluaran kamu lagi di atas pendapatan nih—bisa kita cek bareng. ',
           'Siap bantu kamu lacak keuangan dengan lebih jelas. ',
           'Aku bisa bantu soal pengeluaran, goal, ringkasan, sama tips. ',
@@ -450,21 +469,21 @@ export class LocalFinancialAI {
       const percentage = (balance / totalIncome) * 100
       if (percentage >= 20) {
         response += locale === 'en'
-          ? `✅ **Looking good!** You\'ve got a positive balance of ${formatIDR(balance)} (${percentage.toFixed(1)}% of income). That\'s solid. 👍\n\n`
-          : `✅ **Oke banget!** Kamu punya saldo positif ${formatIDR(balance)} (${percentage.toFixed(1)}% dari pendapatan). Pengelolaan keuangan kamu bagus. 👍\n\n`
+          ? `✅ **Looking good!** You\'ve got a positive balance of ${this.formatAmount(balance)} (${percentage.toFixed(1)}% of income). That\'s solid. 👍\n\n`
+          : `✅ **Oke banget!** Kamu punya saldo positif ${this.formatAmount(balance)} (${percentage.toFixed(1)}% dari pendapatan). Pengelolaan keuangan kamu bagus. 👍\n\n`
       } else if (percentage >= 10) {
         response += locale === 'en'
-          ? `✅ **Good** — Positive balance ${formatIDR(balance)} (${percentage.toFixed(1)}% of income). Keep it up! 💪\n\n`
-          : `✅ **Bagus** — Saldo positif ${formatIDR(balance)} (${percentage.toFixed(1)}% dari pendapatan). Pertahankan ya! 💪\n\n`
+          ? `✅ **Good** — Positive balance ${this.formatAmount(balance)} (${percentage.toFixed(1)}% of income). Keep it up! 💪\n\n`
+          : `✅ **Bagus** — Saldo positif ${this.formatAmount(balance)} (${percentage.toFixed(1)}% dari pendapatan). Pertahankan ya! 💪\n\n`
       } else {
         response += locale === 'en'
-          ? `⚠️ **Heads up** — Balance is positive (${formatIDR(balance)}) but only ${percentage.toFixed(1)}% of income. Try to bump savings a bit.\n\n`
-          : `⚠️ **Perhatian** — Saldo positif ${formatIDR(balance)}, tapi cuma ${percentage.toFixed(1)}% dari pendapatan. Coba tingkatkan tabungan sedikit.\n\n`
+          ? `⚠️ **Heads up** — Balance is positive (${this.formatAmount(balance)}) but only ${percentage.toFixed(1)}% of income. Try to bump savings a bit.\n\n`
+          : `⚠️ **Perhatian** — Saldo positif ${this.formatAmount(balance)}, tapi cuma ${percentage.toFixed(1)}% dari pendapatan. Coba tingkatkan tabungan sedikit.\n\n`
       }
     } else if (balance < 0) {
       response += locale === 'en'
-        ? `❌ **Heads up** — Expenses are over income by ${formatIDR(Math.abs(balance))}. Worth looking at so it doesn\'t pile up.\n\n`
-        : `❌ **Perhatian** — Pengeluaran kamu lewat pendapatan ${formatIDR(Math.abs(balance))}. Perlu dicek biar nggak numpuk.\n\n`
+        ? `❌ **Heads up** — Expenses are over income by ${this.formatAmount(Math.abs(balance))}. Worth looking at so it doesn\'t pile up.\n\n`
+        : `❌ **Perhatian** — Pengeluaran kamu lewat pendapatan ${this.formatAmount(Math.abs(balance))}. Perlu dicek biar nggak numpuk.\n\n`
     } else {
       response += this.msg(
         '⚖️ **Seimbang** - Pendapatan dan pengeluaran Anda seimbang. Pertimbangkan untuk mulai menabung.\n\n',
@@ -502,30 +521,30 @@ export class LocalFinancialAI {
     const { balance, totalIncome, totalExpenses } = this.analysis
 
     const header = this.msg('💰 **Saldo Keuangan Anda:**\n\n', '💰 **Your Financial Balance:**\n\n', locale)
-    const currBalance = locale === 'en' ? `Current balance: **${formatIDR(balance)}**\n\n` : `Saldo saat ini: **${formatIDR(balance)}**\n\n`
+    const currBalance = locale === 'en' ? `Current balance: **${this.formatAmount(balance)}**\n\n` : `Saldo saat ini: **${this.formatAmount(balance)}**\n\n`
     let response = header + currBalance
 
     if (balance > 0) {
       response += locale === 'en'
-        ? `✅ Positive balance! You have ${formatIDR(balance)} left after all expenses.\n\n`
-        : `✅ Saldo positif! Anda memiliki sisa ${formatIDR(balance)} setelah semua pengeluaran.\n\n`
+        ? `✅ Positive balance! You have ${this.formatAmount(balance)} left after all expenses.\n\n`
+        : `✅ Saldo positif! Anda memiliki sisa ${this.formatAmount(balance)} setelah semua pengeluaran.\n\n`
       response += locale === 'en'
-        ? `From total income ${formatIDR(totalIncome)}, you've spent ${formatIDR(totalExpenses)}.\n\n`
-        : `Dari total pendapatan ${formatIDR(totalIncome)}, Anda telah mengeluarkan ${formatIDR(totalExpenses)}.\n\n`
+        ? `From total income ${this.formatAmount(totalIncome)}, you've spent ${this.formatAmount(totalExpenses)}.\n\n`
+        : `Dari total pendapatan ${this.formatAmount(totalIncome)}, Anda telah mengeluarkan ${this.formatAmount(totalExpenses)}.\n\n`
       const daysLeft = Math.ceil(balance / this.analysis.averageDailyExpense)
       if (this.analysis.averageDailyExpense > 0 && daysLeft > 0) {
         response += locale === 'en'
-          ? `💡 With average daily expense of ${formatIDR(this.analysis.averageDailyExpense)}, this balance could last about ${daysLeft} days.`
-          : `💡 Dengan rata-rata pengeluaran harian ${formatIDR(this.analysis.averageDailyExpense)}, saldo ini bisa bertahan sekitar ${daysLeft} hari.`
+          ? `💡 With average daily expense of ${this.formatAmount(this.analysis.averageDailyExpense)}, this balance could last about ${daysLeft} days.`
+          : `💡 Dengan rata-rata pengeluaran harian ${this.formatAmount(this.analysis.averageDailyExpense)}, saldo ini bisa bertahan sekitar ${daysLeft} hari.`
       }
     } else if (balance < 0) {
       response += locale === 'en'
-        ? `⚠️ Negative balance! Expenses exceed income by ${formatIDR(Math.abs(balance))}.\n\n`
-        : `⚠️ Saldo negatif! Pengeluaran melebihi pendapatan sebesar ${formatIDR(Math.abs(balance))}.\n\n`
+        ? `⚠️ Negative balance! Expenses exceed income by ${this.formatAmount(Math.abs(balance))}.\n\n`
+        : `⚠️ Saldo negatif! Pengeluaran melebihi pendapatan sebesar ${this.formatAmount(Math.abs(balance))}.\n\n`
       response += locale === 'en' ? `This means you need to:\n` : `Ini berarti Anda perlu:\n`
       response += locale === 'en'
-        ? `• Reduce expenses by ${formatIDR(Math.abs(balance))}\n• Or increase income\n\n`
-        : `• Mengurangi pengeluaran sebesar ${formatIDR(Math.abs(balance))}\n• Atau menambah pendapatan\n\n`
+        ? `• Reduce expenses by ${this.formatAmount(Math.abs(balance))}\n• Or increase income\n\n`
+        : `• Mengurangi pengeluaran sebesar ${this.formatAmount(Math.abs(balance))}\n• Atau menambah pendapatan\n\n`
       response += this.msg('Mari kita lihat kategori mana yang bisa dikurangi.', 'Let\'s see which categories can be reduced.', locale)
     } else {
       response += this.msg('⚖️ Saldo nol - Pendapatan dan pengeluaran seimbang.\n\n', '⚖️ Zero balance - Income and expenses are balanced.\n\n', locale)
@@ -547,9 +566,9 @@ export class LocalFinancialAI {
 
     const title = locale === 'en' ? '📊 **Income vs Expense Comparison:**\n\n' : '📊 **Perbandingan Pendapatan vs Pengeluaran:**\n\n'
     let response = title
-    response += locale === 'en' ? `💰 Total Income: ${formatIDR(totalIncome)}\n` : `💰 Total Pendapatan: ${formatIDR(totalIncome)}\n`
-    response += locale === 'en' ? `💸 Total Expenses: ${formatIDR(totalExpenses)}\n` : `💸 Total Pengeluaran: ${formatIDR(totalExpenses)}\n`
-    response += locale === 'en' ? `⚖️ Balance: ${formatIDR(balance)}\n\n` : `⚖️ Saldo: ${formatIDR(balance)}\n\n`
+    response += locale === 'en' ? `💰 Total Income: ${this.formatAmount(totalIncome)}\n` : `💰 Total Pendapatan: ${this.formatAmount(totalIncome)}\n`
+    response += locale === 'en' ? `💸 Total Expenses: ${this.formatAmount(totalExpenses)}\n` : `💸 Total Pengeluaran: ${this.formatAmount(totalExpenses)}\n`
+    response += locale === 'en' ? `⚖️ Balance: ${this.formatAmount(balance)}\n\n` : `⚖️ Saldo: ${this.formatAmount(balance)}\n\n`
 
     const ratio = (totalExpenses / totalIncome) * 100
     response += locale === 'en' ? `**Ratio:** Expenses are ${ratio.toFixed(1)}% of income\n\n` : `**Rasio:** Pengeluaran adalah ${ratio.toFixed(1)}% dari pendapatan\n\n`
@@ -560,7 +579,7 @@ export class LocalFinancialAI {
         '✅ **Excellent!** You manage finances well. Expenses are controlled and there\'s room for savings.\n\n',
         locale,
       )
-      response += locale === 'en' ? `💡 With this ratio, you could save around ${formatIDR(balance)} or more.` : `💡 Dengan rasio ini, Anda bisa menabung sekitar ${formatIDR(balance)} atau lebih.`
+      response += locale === 'en' ? `💡 With this ratio, you could save around ${this.formatAmount(balance)} or more.` : `💡 Dengan rasio ini, Anda bisa menabung sekitar ${this.formatAmount(balance)} atau lebih.`
     } else if (ratio <= 90) {
       response += this.msg(
         '⚠️ **Hati-hati** - Pengeluaran cukup tinggi. Coba kurangi beberapa pengeluaran tidak penting.\n\n',
@@ -584,7 +603,7 @@ export class LocalFinancialAI {
         '• Identify expenses that can be reduced\n• Prioritize needs vs wants\n',
         locale,
       )
-      response += locale === 'en' ? `• Target: Reduce expenses by at least ${formatIDR(Math.abs(balance))}` : `• Target: Kurangi pengeluaran minimal ${formatIDR(Math.abs(balance))}`
+      response += locale === 'en' ? `• Target: Reduce expenses by at least ${this.formatAmount(Math.abs(balance))}` : `• Target: Kurangi pengeluaran minimal ${this.formatAmount(Math.abs(balance))}`
     }
     return response
   }
@@ -604,22 +623,22 @@ export class LocalFinancialAI {
     let response = title
 
     if (balance > 0) {
-      response += `✅ Saat ini Anda sudah menabung ${formatIDR(balance)} (${savingsRate.toFixed(1)}% dari pendapatan)\n\n`
+      response += `✅ Saat ini Anda sudah menabung ${this.formatAmount(balance)} (${savingsRate.toFixed(1)}% dari pendapatan)\n\n`
     } else {
-      response += `⚠️ Saat ini pengeluaran melebihi pendapatan sebesar ${formatIDR(Math.abs(balance))}\n\n`
+      response += `⚠️ Saat ini pengeluaran melebihi pendapatan sebesar ${this.formatAmount(Math.abs(balance))}\n\n`
     }
 
     // Calculate potential savings from overspending
     if (overspendingCategories.length > 0) {
       const totalOverspending = overspendingCategories.reduce((sum, cat) => sum + cat.excess, 0)
       response += `💡 **Potensi Penghematan:**\n\n`
-      response += `Dari kategori yang berlebihan, Anda bisa menghemat sekitar ${formatIDR(totalOverspending)}:\n\n`
+      response += `Dari kategori yang berlebihan, Anda bisa menghemat sekitar ${this.formatAmount(totalOverspending)}:\n\n`
       
       overspendingCategories.forEach((cat) => {
-        response += `• ${cat.category}: ${formatIDR(cat.excess)} (dari total ${formatIDR(cat.total)})\n`
+        response += `• ${cat.category}: ${this.formatAmount(cat.excess)} (dari total ${this.formatAmount(cat.total)})\n`
       })
       
-      response += `\nJika berhasil menghemat, saldo baru Anda bisa menjadi ${formatIDR(balance + totalOverspending)}! 🎯`
+      response += `\nJika berhasil menghemat, saldo baru Anda bisa menjadi ${this.formatAmount(balance + totalOverspending)}! 🎯`
     } else {
       response += `💡 **Tips Meningkatkan Tabungan:**\n\n`
       response += `• Target tabungan ideal: 20-30% dari pendapatan\n`
@@ -628,7 +647,7 @@ export class LocalFinancialAI {
       if (savingsRate < 20) {
         const target = totalIncome * 0.2
         const needed = target - balance
-        response += `• Untuk mencapai 20%, coba hemat ${formatIDR(needed)} per bulan\n`
+        response += `• Untuk mencapai 20%, coba hemat ${this.formatAmount(needed)} per bulan\n`
       }
       
       response += `\n💪 Mulai dari hal kecil: kurangi pengeluaran tidak penting, bandingkan harga sebelum beli, dan buat anggaran harian.`
@@ -653,7 +672,7 @@ export class LocalFinancialAI {
 
     topSpendingCategories.forEach((cat, index) => {
       const emoji = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : '•'
-      response += `${emoji} **${cat.category}**: ${formatIDR(cat.total)} (${cat.percentage.toFixed(1)}%)\n`
+      response += `${emoji} **${cat.category}**: ${this.formatAmount(cat.total)} (${cat.percentage.toFixed(1)}%)\n`
     })
 
     response += `\n💡 **Insight:**\n`
@@ -672,32 +691,53 @@ export class LocalFinancialAI {
   }
 
   private detectOverspending(locale: 'id' | 'en' = 'id'): string {
-    const { overspendingCategories, categoryBreakdown } = this.analysis
+    const { overspendingCategories, hasBudgets } = this.analysis
+
+    if (!hasBudgets) {
+      return this.msg(
+        '📋 Anda belum mengatur anggaran. Buat anggaran per kategori di Profil → Anggaran, lalu saya bisa memberi tahu kategori mana yang melebihi batas! 💡',
+        '📋 You haven\'t set any budgets yet. Create per-category budgets in Profile → Budgets and I can tell you which categories go over the limit! 💡',
+        locale,
+      )
+    }
 
     if (overspendingCategories.length === 0) {
       return this.msg(
-        '✅ Bagus! Saya tidak mendeteksi pengeluaran berlebihan di kategori manapun. Pengeluaran Anda terdistribusi dengan baik! 💪',
-        '✅ Great! I didn\'t detect overspending in any category. Your expenses are well distributed! 💪',
+        '✅ Bagus! Semua kategori masih dalam batas anggaran periode ini. Pertahankan! 💪',
+        '✅ Great! Every category is within its budget for this period. Keep it up! 💪',
         locale,
       )
     }
 
     const title = locale === 'en' ? '⚠️ **Overspending Detection:**\n\n' : '⚠️ **Deteksi Pengeluaran Berlebihan:**\n\n'
     let response = title
-    response += `Saya menemukan ${overspendingCategories.length} kategori yang melebihi 30% dari total pengeluaran:\n\n`
+    response += locale === 'en'
+      ? `${overspendingCategories.length} ${overspendingCategories.length > 1 ? 'categories are' : 'category is'} over budget:\n\n`
+      : `Saya menemukan ${overspendingCategories.length} kategori yang melebihi anggaran:\n\n`
 
     overspendingCategories.forEach((cat) => {
-      const percentage = (cat.total / this.analysis.totalExpenses) * 100
+      const percentage = cat.threshold > 0 ? (cat.total / cat.threshold) * 100 : 0
       response += `🔴 **${cat.category}**:\n`
-      response += `   • Total: ${formatIDR(cat.total)} (${percentage.toFixed(1)}%)\n`
-      response += `   • Berlebihan: ${formatIDR(cat.excess)}\n\n`
+      if (locale === 'en') {
+        response += `   • Spent: ${this.formatAmount(cat.total)} of ${this.formatAmount(cat.threshold)} (${percentage.toFixed(0)}%)\n`
+        response += `   • Over by: ${this.formatAmount(cat.excess)}\n\n`
+      } else {
+        response += `   • Terpakai: ${this.formatAmount(cat.total)} dari ${this.formatAmount(cat.threshold)} (${percentage.toFixed(0)}%)\n`
+        response += `   • Berlebihan: ${this.formatAmount(cat.excess)}\n\n`
+      }
     })
 
-    response += `💡 **Rekomendasi:**\n`
-    response += `• Evaluasi setiap transaksi di kategori tersebut\n`
-    response += `• Identifikasi pengeluaran yang bisa dikurangi atau ditunda\n`
-    response += `• Buat anggaran khusus untuk kategori tersebut\n`
-    response += `• Target: Kurangi ${overspendingCategories.length > 1 ? 'masing-masing kategori' : 'kategori ini'} menjadi maksimal 25% dari total pengeluaran`
+    if (locale === 'en') {
+      response += `💡 **Recommendations:**\n`
+      response += `• Review each transaction in these categories\n`
+      response += `• Postpone non-urgent purchases until the next period\n`
+      response += `• If the limit is unrealistic, adjust the budget so it reflects your real needs`
+    } else {
+      response += `💡 **Rekomendasi:**\n`
+      response += `• Evaluasi setiap transaksi di kategori tersebut\n`
+      response += `• Tunda pembelian yang tidak mendesak sampai periode berikutnya\n`
+      response += `• Jika batasnya tidak realistis, sesuaikan anggaran dengan kebutuhan sebenarnya`
+    }
 
     return response
   }
@@ -720,18 +760,18 @@ export class LocalFinancialAI {
       const monthName = this.formatMonth(trend.month)
       const trendEmoji = trend.balance > 0 ? '✅' : trend.balance < 0 ? '❌' : '⚖️'
       response += `${trendEmoji} **${monthName}**:\n`
-      response += `   • Pendapatan: ${formatIDR(trend.income)}\n`
-      response += `   • Pengeluaran: ${formatIDR(trend.expenses)}\n`
-      response += `   • Saldo: ${formatIDR(trend.balance)}\n\n`
+      response += `   • Pendapatan: ${this.formatAmount(trend.income)}\n`
+      response += `   • Pengeluaran: ${this.formatAmount(trend.expenses)}\n`
+      response += `   • Saldo: ${this.formatAmount(trend.balance)}\n\n`
     })
 
     // Current month summary
     const currentMonth = monthlyTrends[monthlyTrends.length - 1]
     if (currentMonth) {
       response += `📊 **Bulan Ini:**\n`
-      response += `Pendapatan: ${formatIDR(currentMonth.income)}\n`
-      response += `Pengeluaran: ${formatIDR(currentMonth.expenses)}\n`
-      response += `Saldo: ${formatIDR(currentMonth.balance)}\n\n`
+      response += `Pendapatan: ${this.formatAmount(currentMonth.income)}\n`
+      response += `Pengeluaran: ${this.formatAmount(currentMonth.expenses)}\n`
+      response += `Saldo: ${this.formatAmount(currentMonth.balance)}\n\n`
 
       if (currentMonth.balance > 0) {
         response += `✅ Bulan ini berjalan baik dengan saldo positif!`
@@ -761,9 +801,9 @@ export class LocalFinancialAI {
       const weekLabel = index === weeklyTrends.length - 1 ? 'Minggu Ini' : `Minggu ${index + 1}`
       const trendEmoji = trend.balance > 0 ? '✅' : trend.balance < 0 ? '❌' : '⚖️'
       response += `${trendEmoji} **${weekLabel}**:\n`
-      response += `   • Pendapatan: ${formatIDR(trend.income)}\n`
-      response += `   • Pengeluaran: ${formatIDR(trend.expenses)}\n`
-      response += `   • Saldo: ${formatIDR(trend.balance)}\n\n`
+      response += `   • Pendapatan: ${this.formatAmount(trend.income)}\n`
+      response += `   • Pengeluaran: ${this.formatAmount(trend.expenses)}\n`
+      response += `   • Saldo: ${this.formatAmount(trend.balance)}\n\n`
     })
 
     const thisWeek = weeklyTrends[weeklyTrends.length - 1]
@@ -788,7 +828,7 @@ export class LocalFinancialAI {
     if (overspendingCategories.length > 0) {
       response += `🎯 **Prioritas Utama:**\n\n`
       overspendingCategories.forEach((cat) => {
-        response += `• **${cat.category}**: Hemat ${formatIDR(cat.excess)} dengan:\n`
+        response += `• **${cat.category}**: Hemat ${this.formatAmount(cat.excess)} dengan:\n`
         response += `  - Evaluasi setiap pembelian\n`
         response += `  - Cari alternatif yang lebih murah\n`
         response += `  - Tunda pembelian tidak urgent\n\n`
@@ -799,12 +839,12 @@ export class LocalFinancialAI {
       response += `📋 **Kategori dengan Potensi Hemat:**\n\n`
       topSpendingCategories.slice(0, 3).forEach((cat) => {
         const potential = cat.total * 0.1 // 10% reduction
-        response += `• **${cat.category}**: Coba hemat 10% = ${formatIDR(potential)}\n`
+        response += `• **${cat.category}**: Coba hemat 10% = ${this.formatAmount(potential)}\n`
       })
     }
 
     response += `\n💰 **Tips Umum:**\n`
-    response += `• Buat anggaran harian: ${formatIDR(averageDailyExpense * 1.1)} (10% buffer)\n`
+    response += `• Buat anggaran harian: ${this.formatAmount(averageDailyExpense * 1.1)} (10% buffer)\n`
     response += `• Bandingkan harga sebelum beli\n`
     response += `• Gunakan cashback atau diskon jika tersedia\n`
     response += `• Prioritaskan kebutuhan vs keinginan\n`
@@ -901,12 +941,18 @@ export class LocalFinancialAI {
     }
     const title = locale === 'en' ? '💰 **Your Total Assets:**\n\n' : '💰 **Total Aset Anda:**\n\n'
     const desc = locale === 'en'
-      ? `Total aset Anda (saldo semua kantong + semua goal) saat ini: **${formatIDR(total)}**.\n\n`
-      : `Total aset Anda (saldo semua kantong + semua goal) saat ini: **${formatIDR(total)}**.\n\n`
+      ? `Total aset Anda (saldo semua kantong + semua goal) saat ini: **${this.formatAmount(total)}**.\n\n`
+      : `Total aset Anda (saldo semua kantong + semua goal) saat ini: **${this.formatAmount(total)}**.\n\n`
+    const debts = this.analysis.totalLiabilities
+    const netWorth = debts
+      ? locale === 'en'
+        ? `Debts: **${this.formatAmount(debts)}**, so your net worth is **${this.formatAmount(total - debts)}**.\n\n`
+        : `Utang: **${this.formatAmount(debts)}**, jadi kekayaan bersih Anda **${this.formatAmount(total - debts)}**.\n\n`
+      : ''
     const tip = locale === 'en'
       ? '💡 You can see the breakdown in the app under Pockets (tab Kantong vs Goal).'
       : '💡 Rincian bisa dilihat di aplikasi di halaman Kantong (tab Kantong vs Goal).'
-    return title + desc + tip
+    return title + desc + netWorth + tip
   }
 
   private getPocketsSummary(locale: 'id' | 'en' = 'id'): string {
@@ -919,10 +965,10 @@ export class LocalFinancialAI {
     const title = locale === 'en' ? '💼 **Your Pockets:**\n\n' : '💼 **Kantong Anda:**\n\n'
     let response = title
     pockets.forEach((p) => {
-      response += `• **${p.name}**: ${formatIDR(p.balance)}\n`
+      response += `• **${p.name}**: ${this.formatAmount(p.balance)}\n`
     })
     const total = pockets.reduce((s, p) => s + p.balance, 0)
-    response += '\n' + (locale === 'en' ? `**Total:** ${formatIDR(total)}` : `**Total:** ${formatIDR(total)}`)
+    response += '\n' + (locale === 'en' ? `**Total:** ${this.formatAmount(total)}` : `**Total:** ${this.formatAmount(total)}`)
     response += '\n\n' + (locale === 'en'
       ? '💡 Goals (tabungan/investasi) ada di tab Goal di halaman yang sama.'
       : '💡 Goal (tabungan/investasi) ada di tab Goal di halaman yang sama.')
@@ -942,7 +988,7 @@ export class LocalFinancialAI {
       : `📈 **Goal investasi Anda (${investmentGoals.length}):**\n\n`
     let response = title
     investmentGoals.forEach((g) => {
-      response += `• **${g.name}**: ${formatIDR(g.currentBalance)}`
+      response += `• **${g.name}**: ${this.formatAmount(g.currentBalance)}`
       if ((g.annualReturnPercentage ?? 0) > 0) {
         response += locale === 'en'
           ? ` — estimated return ${g.annualReturnPercentage}%/year\n`
@@ -1006,22 +1052,22 @@ export class LocalFinancialAI {
       response += `**${i + 1}. ${g.name}**\n`
       response +=
         locale === 'en'
-          ? `   • Current: ${formatIDR(g.currentBalance)} / ${formatIDR(g.targetAmount)} (${g.progressPercent}%)\n`
-          : `   • Saat ini: ${formatIDR(g.currentBalance)} / ${formatIDR(g.targetAmount)} (${g.progressPercent}%)\n`
+          ? `   • Current: ${this.formatAmount(g.currentBalance)} / ${this.formatAmount(g.targetAmount)} (${g.progressPercent}%)\n`
+          : `   • Saat ini: ${this.formatAmount(g.currentBalance)} / ${this.formatAmount(g.targetAmount)} (${g.progressPercent}%)\n`
       if (g.progressPercent >= 100) {
         response += this.msg('   ✅ Target tercapai!\n\n', '   ✅ Target reached!\n\n', locale)
       } else if (left > 0) {
         response +=
           locale === 'en'
-            ? `   • Left to save: ${formatIDR(left)}\n\n`
-            : `   • Sisa untuk ditabung: ${formatIDR(left)}\n\n`
+            ? `   • Left to save: ${this.formatAmount(left)}\n\n`
+            : `   • Sisa untuk ditabung: ${this.formatAmount(left)}\n\n`
       }
     })
 
     response +=
       locale === 'en'
-        ? `📊 **Overall:** ${formatIDR(totalCurrent)} of ${formatIDR(totalTarget)} (${overallPercent}%)\n\n`
-        : `📊 **Total:** ${formatIDR(totalCurrent)} dari ${formatIDR(totalTarget)} (${overallPercent}%)\n\n`
+        ? `📊 **Overall:** ${this.formatAmount(totalCurrent)} of ${this.formatAmount(totalTarget)} (${overallPercent}%)\n\n`
+        : `📊 **Total:** ${this.formatAmount(totalCurrent)} dari ${this.formatAmount(totalTarget)} (${overallPercent}%)\n\n`
 
     if (goals.some((g) => g.progressPercent > 0 && g.progressPercent < 100)) {
       response += this.msg(
@@ -0,0 +1,360 @@
+import type { Transaction } from '@/types/transaction'
+import type { RecurringRule } from '@/types/recurring'
+import type { Bill } from '@/types/bill'
+import type {
+  AccountForecast,
+  CashFlowForecast,
+  ForecastCadence,
+  ForecastEvent,
+  ForecastPoint,
+  RecurringPattern,
+} from '@/types/forecast'
+import { addPeriod } from '@/services/recurringService'
+import { getBillOccurrences } from '@/services/billService'
+
+/**
+ * Cash-flow forecast: projects pocket and goal balances forward from today using
+ * repeating transactions detected in the history, active recurring rules, unpaid bills
+ * and (optionally) the average of everyday spending that does not repeat.
+ * Everything here is pure; useCashFlowForecast gathers the inputs from the stores.
+ */
+
+/** History looked at for repeating transactions. */
+const PATTERN_LOOKBACK_DAYS = 365
+/** History averaged for everyday spending. */
+const EVERYDAY_LOOKBACK_DAYS = 90
+
+interface CadenceSpec {
+  cadence: ForecastCadence
+  /** Nominal gap in days, used to match intervals */
+  days: number
+  /** Schedule step: whole months keep the day of month */
+  step: { frequency: 'weekly' | 'monthly'; interval: number }
+  minOccurrences: number
+}
+
+const CADENCES: CadenceSpec[] = [
+  { cadence: 'weekly', days: 7, step: { frequency: 'weekly', interval: 1 }, minOccurrences: 4 },
+  { cadence: 'biweekly', days: 14, step: { frequency: 'weekly', interval: 2 }, minOccurrences: 3 },
+  { cadence: 'monthly', days: 30.4, step: { frequency: 'monthly', interval: 1 }, minOccurrences: 3 },
+  { cadence: 'quarterly', days: 91, step: { frequency: 'monthly', interval: 3 }, minOccurrences: 3 },
+  { cadence: 'yearly', days: 365, step: { frequency: 'monthly', interval: 12 }, minOccurrences: 2 },
+]
+
+/** An interval matches a cadence when it is within this share of the nominal gap. */
+const CADENCE_TOLERANCE = 0.2
+
+export interface ForecastAccount {
+  /** Pocket id, or `goal:<id>` for goals */
+  account: string
+  name: string
+  /** Current balance in the account's currency */
+  balance: number
+}
+
+export interface ForecastInput {
+  transactions: Transaction[]
+  accounts: ForecastAccount[]
+  rules: RecurringRule[]
+  bills: Bill[]
+  /** Horizon, 1–12 months */
+  months: number
+  /** Convert an amount in an account's currency to the base currency */
+  toBase: (amount: number, account: string) => number
+  /** Spread the average of non-repeating expenses over the forecast (default true) */
+  includeEveryday?: boolean
+  today?: string
+}
+
+function todayString(): string {
+  return new Date().toISOString().split('T')[0]!
+}
+
+function toUtc(dateStr: string): number {
+  const [y, m, d] = dateStr.slice(0, 10).split('-').map(Number)
+  return Date.UTC(y!, m! - 1, d!)
+}
+
+function addDays(dateStr: string, days: number): string {
+  return new Date(toUtc(dateStr) + days * 86_400_000).toISOString().split('T')[0]!
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / 86_400_000)
+}
+
+function addMonths(dateStr: string, months: number): string {
+  return addPeriod(dateStr, 'monthly', months, Number(dateStr.slice(8, 10)))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2
+}
+
+/** Description without numbers and case, so "Salary March" and "salary april" group together. */
+function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\d+/g, ' ')
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function patternKey(t: Transaction): string {
+  return [
+    t.type,
+    t.pocketId,
+    t.goalId ?? '',
+    t.transferToPocketId ?? '',
+    t.transferToGoalId ?? '',
+    t.transferToLiabilityId ?? '',
+    normalizeDescription(t.description),
+  ].join('|')
+}
+
+function matchCadence(intervals: number[]): CadenceSpec | null {
+  if (intervals.length === 0) return null
+  const typical = median(intervals)
+  const spec = CADENCES.find((c) => Math.abs(typical - c.days) <= c.days * CADENCE_TOLERANCE)
+  if (!spec || intervals.length + 1 < spec.minOccurrences) return null
+  // Most gaps must fit the cadence; one missed or late occurrence is tolerated
+  const fitting = intervals.filter((n) => Math.abs(n - spec.days) <= spec.days * CADENCE_TOLERANCE).length
+  return fitting / intervals.length >= 0.75 ? spec : null
+}
+
+function stepDate(dateStr: string, spec: CadenceSpec, anchorDay: number): string {
+  return addPeriod(dateStr, spec.step.frequency, spec.step.interval, anchorDay)
+}
+
+/**
+ * Find transactions that repeat on a weekly to yearly rhythm with the same type, accounts
+ * and description. Transactions posted by recurring rules or bill payments are skipped by
+ * the caller since those schedules are known. Patterns that stopped (two steps missed) are dropped.
+ */
+export function detectRecurringPatterns(transactions: Transaction[], today: string = todayString()): RecurringPattern[] {
+  const since = addDays(today, -PATTERN_LOOKBACK_DAYS)
+  const groups = new Map<string, Transaction[]>()
+  for (const t of transactions) {
+    const day = t.date.slice(0, 10)
+    if (day < since || day > today) continue
+    const key = patternKey(t)
+    groups.set(key, [...(groups.get(key) ?? []), t])
+  }
+
+  const patterns: RecurringPattern[] = []
+  for (const [key, list] of groups) {
+    // One occurrence per day: split payments on the same day count once
+    const byDay = new Map<string, Transaction[]>()
+    for (const t of list) byDay.set(t.date.slice(0, 10), [...(byDay.get(t.date.slice(0, 10)) ?? []), t])
+    const days = [...byDay.keys()].sort()
+    if (days.length < 2) continue
+    const intervals = days.slice(1).map((d, i) => daysBetween(days[i]!, d))
+    const spec = matchCadence(intervals)
+    if (!spec) continue
+
+    const lastDate = days[days.length - 1]!
+    const anchorDay = Number(lastDate.slice(8, 10))
+    let nextDate = stepDate(lastDate, spec, anchorDay)
+    let missed = 0
+    while (nextDate <= today) {
+      nextDate = stepDate(nextDate, spec, anchorDay)
+      missed += 1
+    }
+    if (missed >= 2) continue
+
+    const dayTotals = [...byDay.values()].map((txs) => txs.reduce((s, t) => s + t.amount, 0))
+    const creditedTotals = [...byDay.values()].map((txs) => txs.reduce((s, t) => s + (t.transferToAmount ?? t.amount), 0))
+    const sample = list[list.length - 1]!
+    patterns.push({
+      key,
+      type: sample.type,
+      description: sample.description,
+      pocketId: sample.pocketId,
+      ...(sample.goalId && { goalId: sample.goalId }),
+      ...(sample.transferToPocketId && { transferToPocketId: sample.transferToPocketId }),
+      ...(sample.transferToGoalId && { transferToGoalId: sample.transferToGoalId }),
+      ...(sample.transferToLiabilityId && { transferToLiabilityId: sample.transferToLiabilityId }),
+      cadence: spec.cadence,
+      amount: median(dayTotals),
+      ...(sample.type === 'transfer' && { creditedAmount: median(creditedTotals) }),
+      occurrences: days.length,
+      lastDate,
+      nextDate,
+    })
+  }
+  return patterns.sort((a, b) => a.nextDate.localeCompare(b.nextDate))
+}
+
+/** Account movements of one occurrence of a pattern or rule, like computePocketBalances and goalBalances book them. */
+function movements(
+  p: Pick<
+    RecurringPattern,
+    'type' | 'pocketId' | 'goalId' | 'transferToPocketId' | 'transferToGoalId' | 'transferToLiabilityId' | 'amount' | 'creditedAmount'
+  >,
+): Array<{ account: string; amount: number }> {
+  const credited = p.creditedAmount ?? p.amount
+  if (p.type === 'income') return [{ account: p.goalId ? `goal:${p.goalId}` : p.pocketId, amount: p.amount }]
+  if (p.type === 'expense') return [{ account: p.pocketId, amount: -p.amount }]
+  if (p.goalId && p.transferToPocketId) {
+    return [
+      { account: `goal:${p.goalId}`, amount: -p.amount },
+      { account: p.transferToPocketId, amount: credited },
+    ]
+  }
+  if (p.transferToGoalId) {
+    return [
+      { account: p.pocketId, amount: -p.amount },
+      { account: `goal:${p.transferToGoalId}`, amount: credited },
+    ]
+  }
+  if (p.transferToPocketId) {
+    return [
+      { account: p.pocketId, amount: -p.amount },
+      { account: p.transferToPocketId, amount: credited },
+    ]
+  }
+  // Debt payments leave the pocket; debts are not part of the forecast accounts
+  if (p.transferToLiabilityId) return [{ account: p.pocketId, amount: -p.amount }]
+  return []
+}
+
+function patternEvents(patterns: RecurringPattern[], end: string): ForecastEvent[] {
+  const events: ForecastEvent[] = []
+  for (const p of patterns) {
+    const spec = CADENCES.find((c) => c.cadence === p.cadence)!
+    const anchorDay = Number(p.lastDate.slice(8, 10))
+    for (let date = p.nextDate; date <= end; date = stepDate(date, spec, anchorDay)) {
+      for (const m of movements(p)) events.push({ date, ...m, label: p.description, source: 'pattern' })
+    }
+  }
+  return events
+}
+
+function ruleEvents(rules: RecurringRule[], today: string, end: string): ForecastEvent[] {
+  const events: ForecastEvent[] = []
+  for (const rule of rules) {
+    if (rule.paused || !rule.nextDueDate) continue
+    const anchorDay = Number(rule.startDate.slice(8, 10))
+    let count = rule.occurrenceCount
+    for (
+      let date: string = rule.nextDueDate;
+      date <= end && (!rule.endDate || date <= rule.endDate) && (rule.maxOccurrences == null || count < rule.maxOccurrences);
+      date = addPeriod(date, rule.frequency, rule.interval, anchorDay)
+    ) {
+      count += 1
+      // Due today or earlier is posted on the next app start, so it lands on the first forecast day
+      const day = date <= today ? addDays(today, 1) : date
+      const amount = rule.type === 'income' ? rule.amount : -rule.amount
+      events.push({ date: day, account: rule.pocketId, amount, label: rule.description, source: 'recurring' })
+    }
+  }
+  return events
+}
+
+function billEvents(bills: Bill[], today: string, end: string): ForecastEvent[] {
+  const first = addDays(today, 1)
+  // Overdue bills still have to be paid: they are booked on the first forecast day
+  return getBillOccurrences(bills, '0000-01-01', end, today)
+    .filter((o) => !o.payment)
+    .map((o) => ({
+      date: o.date < first ? first : o.date,
+      account: o.bill.pocketId,
+      amount: -o.bill.amount,
+      label: o.bill.name,
+      source: 'bill' as const,
+    }))
+}
+
+/** Average daily non-repeating spending per pocket over the recent past. */
+function everydayRates(transactions: Transaction[], today: string): Record<string, number> {
+  const since = addDays(today, -EVERYDAY_LOOKBACK_DAYS)
+  const recent = transactions.filter((t) => t.type === 'expense' && t.date.slice(0, 10) > since && t.date.slice(0, 10) <= today)
+  if (recent.length === 0) return {}
+  // Short histories are averaged over the days they cover
+  const firstDay = recent.reduce((min, t) => (t.date.slice(0, 10) < min ? t.date.slice(0, 10) : min), today)
+  const span = Math.max(30, daysBetween(firstDay, today) + 1)
+  const rates: Record<string, number> = {}
+  for (const t of recent) rates[t.pocketId] = (rates[t.pocketId] ?? 0) + t.amount / span
+  return rates
+}
+
+function lowestOf(series: ForecastPoint[]): ForecastPoint {
+  return series.reduce((low, p) => (p.balance < low.balance ? p : low), series[0]!)
+}
+
+export function buildCashFlowForecast(input: ForecastInput): CashFlowForecast {
+  const today = input.today ?? todayString()
+  const months = Math.min(12, Math.max(1, Math.round(input.months)))
+  const end = addMonths(today, months)
+
+  // Known schedules are projected from their own rules, not guessed from history
+  const billTxIds = new Set(input.bills.flatMap((b) => b.payments.map((p) => p.transactionId)))
+  const history = input.transactions.filter((t) => !t.recurringRuleId && !billTxIds.has(t.id))
+  const patterns = detectRecurringPatterns(history, today)
+  const patternKeys = new Set(patterns.map((p) => p.key))
+
+  const events = [
+    ...patternEvents(patterns, end),
+    ...ruleEvents(input.rules, today, end),
+    ...billEvents(input.bills, today, end),
+  ].sort((a, b) => a.date.localeCompare(b.date))
+
+  const rates =
+    input.includeEveryday === false ? {} : everydayRates(history.filter((t) => !patternKeys.has(patternKey(t))), today)
+
+  const byDate = new Map<string, ForecastEvent[]>()
+  for (const e of events) byDate.set(e.date, [...(byDate.get(e.date) ?? []), e])
+
+  const balances = new Map(input.accounts.map((a) => [a.account, a.balance]))
+  const seriesByAccount = new Map<string, ForecastPoint[]>(input.accounts.map((a) => [a.account, []]))
+  const total: ForecastPoint[] = []
+
+  for (let date = today; date <= end; date = addDays(date, 1)) {
+    if (date > today) {
+      for (const e of byDate.get(date) ?? []) {
+        if (balances.has(e.account)) balances.set(e.account, balances.get(e.account)! + e.amount)
+      }
+      for (const [account, rate] of Object.entries(rates)) {
+        if (balances.has(account)) balances.set(account, balances.get(account)! - rate)
+      }
+    }
+    let sum = 0
+    for (const [account, balance] of balances) {
+      seriesByAccount.get(account)!.push({ date, balance })
+      sum += input.toBase(balance, account)
+    }
+    total.push({ date, balance: sum })
+  }
+
+  const accounts: AccountForecast[] = input.accounts.map((a) => {
+    const series = seriesByAccount.get(a.account)!
+    const firstNegative = a.account.startsWith('goal:') ? undefined : series.find((p) => p.balance < 0)
+    return {
+      account: a.account,
+      name: a.name,
+      series,
+      lowest: lowestOf(series),
+      ...(firstNegative && { firstNegativeDate: firstNegative.date }),
+    }
+  })
+
+  const everydayEvents: ForecastEvent[] = Object.entries(rates).map(([account, rate]) => ({
+    date: end,
+    account,
+    amount: -rate * daysBetween(today, end),
+    label: '',
+    source: 'everyday',
+  }))
+
+  return {
+    months,
+    accounts,
+    total,
+    totalLowest: lowestOf(total),
+    patterns,
+    events: [...events, ...everydayEvents],
+  }
+}
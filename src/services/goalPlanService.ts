@@ -0,0 +1,346 @@
+import type { Goal } from '@/types/goal'
+import type { Transaction } from '@/types/transaction'
+import { getMonthlyGrowthRate, getReturnRateOn } from '@/services/investmentGoalService'
+import type {
+  ContributionFrequency,
+  GoalAutoSave,
+  GoalAutoSaveFormData,
+  GoalPlan,
+  GoalPlanStatus,
+} from '@/types/goalPlan'
+
+const STORAGE_KEY = 'financial_tracker_goal_auto_saves'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_MONTH = 365.25 / 12
+const WEEKS_PER_MONTH = 52 / 12
+
+/** Contributions over this window give the "recent pace" when no auto-save is set. */
+const PACE_WINDOW_DAYS = 90
+
+/** A goal counts as behind once it is more than this share under the expected balance. */
+const BEHIND_TOLERANCE = 0.05
+
+/** Projection stops after 50 years. */
+const MAX_PROJECTION_MONTHS = 600
+
+/** Safety cap so a very old weekly auto-save cannot freeze app start. */
+const MAX_CATCH_UP_PER_AUTO_SAVE = 104
+
+function generateId(): string {
+  return `gas-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getAutoSaves(): GoalAutoSave[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveAutoSaves(list: GoalAutoSave[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list))
+}
+
+function todayString(): string {
+  return new Date().toISOString().split('T')[0]!
+}
+
+function toDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('T')[0]!.split('-').map(Number)
+  return new Date(Date.UTC(y ?? 1970, (m ?? 1) - 1, d ?? 1))
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]!
+}
+
+function addMonths(dateStr: string, months: number): string {
+  const date = toDate(dateStr)
+  const day = date.getUTCDate()
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1))
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  target.setUTCDate(Math.min(day, lastDay))
+  return toDateString(target)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS)
+}
+
+/** Next transfer date after `dateStr`; monthly auto-saves keep the start date's day of month. */
+export function nextAutoSaveDate(dateStr: string, frequency: ContributionFrequency, startDate: string): string {
+  if (frequency === 'weekly') return toDateString(new Date(toDate(dateStr).getTime() + 7 * DAY_MS))
+  const anchorDay = toDate(startDate).getUTCDate()
+  const next = toDate(addMonths(dateStr, 1))
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate()
+  next.setUTCDate(Math.min(anchorDay, lastDay))
+  return toDateString(next)
+}
+
+/** Amount an auto-save moves per month on average (weekly ones run 52 times a year). */
+export function monthlyEquivalent(autoSave: Pick<GoalAutoSave, 'amount' | 'frequency'>): number {
+  return autoSave.frequency === 'weekly' ? autoSave.amount * WEEKS_PER_MONTH : autoSave.amount
+}
+
+// --- Plan math ---
+
+/** Target date of a goal: creation date plus its duration. */
+export function goalDeadline(goal: Pick<Goal, 'createdAt' | 'durationMonths'>): string {
+  return addMonths(goal.createdAt, Math.max(0, goal.durationMonths))
+}
+
+/** Monthly growth of investment goals at today's rate and compounding, 0 for saving goals. */
+export function goalMonthlyRate(goal: Goal, today: string): number {
+  if (goal.type !== 'investment') return 0
+  return Math.max(0, getMonthlyGrowthRate(getReturnRateOn(goal, today), goal.compounding))
+}
+
+/**
+ * Equal contribution per period that grows `balance` to `target` in `periods`
+ * periods at `rate` per period (contributions at the end of each period).
+ */
+export function requiredContribution(target: number, balance: number, periods: number, rate: number): number {
+  const remaining = target - balance
+  if (remaining <= 0) return 0
+  if (periods <= 1) return Math.max(0, target - balance * (1 + rate * Math.max(0, periods)))
+  if (rate <= 0) return remaining / periods
+  const growth = Math.pow(1 + rate, periods)
+  return Math.max(0, ((target - balance * growth) * rate) / (growth - 1))
+}
+
+/** Balance after `periods` equal contributions at `rate` per period, starting from 0. */
+function futureValueOfContributions(contribution: number, periods: number, rate: number): number {
+  if (periods <= 0) return 0
+  if (rate <= 0) return contribution * periods
+  return (contribution * (Math.pow(1 + rate, periods) - 1)) / rate
+}
+
+/** Money put into a goal by a transaction, in IDR. */
+function contributionAmount(tx: Transaction, goalId: string): number {
+  if (tx.type === 'income' && tx.goalId === goalId) return tx.amount
+  if (tx.type === 'transfer' && tx.transferToGoalId === goalId) return tx.transferToAmount ?? tx.amount
+  return 0
+}
+
+/** Average monthly contribution over the last PACE_WINDOW_DAYS (shorter for new goals). */
+export function recentMonthlyPace(goal: Pick<Goal, 'id' | 'createdAt'>, transactions: Transaction[], today: string): number {
+  const windowDays = Math.min(PACE_WINDOW_DAYS, Math.max(DAYS_PER_MONTH, daysBetween(goal.createdAt, today)))
+  const from = toDateString(new Date(toDate(today).getTime() - windowDays * DAY_MS))
+  let total = 0
+  for (const tx of transactions) {
+    const date = tx.date.split('T')[0]!
+    if (date < from || date > today) continue
+    total += contributionAmount(tx, goal.id)
+  }
+  return total / (windowDays / DAYS_PER_MONTH)
+}
+
+/** First monthly step from `today` (same day of month) at which adding `monthly` with returns reaches the target. */
+export function projectCompletionDate(
+  target: number,
+  balance: number,
+  monthly: number,
+  rate: number,
+  today: string,
+): string | undefined {
+  if (balance >= target) return today
+  if (monthly <= 0 && (rate <= 0 || balance <= 0)) return undefined
+  let value = balance
+  for (let month = 1; month <= MAX_PROJECTION_MONTHS; month++) {
+    value = value * (1 + rate) + monthly
+    // Tolerate float drift so an exact required contribution lands on the deadline month
+    if (value >= target - 0.01) return addMonths(today, month)
+  }
+  return undefined
+}
+
+export interface GoalPlanInput {
+  goal: Goal
+  /** Current balance in IDR (including simulated returns for investment goals). */
+  balance: number
+  transactions: Transaction[]
+  /** Monthly equivalent of the goal's active auto-saves, in IDR. */
+  autoSaveMonthly: number
+  today?: string
+}
+
+/**
+ * Required contribution, schedule check and projected completion for one goal.
+ * The schedule assumes equal contributions from the creation date, so the
+ * expected balance of an investment goal includes the returns on them.
+ */
+export function buildGoalPlan(input: GoalPlanInput): GoalPlan {
+  const { goal, balance, transactions, autoSaveMonthly } = input
+  const today = input.today ?? todayString()
+  const deadline = goalDeadline(goal)
+  const target = goal.targetAmount
+  const rate = goalMonthlyRate(goal, today)
+
+  const daysLeft = Math.max(0, daysBetween(today, deadline))
+  const monthsLeft = daysLeft / DAYS_PER_MONTH
+  const requiredMonthly = requiredContribution(target, balance, monthsLeft, rate)
+  const weeklyRate = rate > 0 ? Math.pow(1 + rate, 1 / WEEKS_PER_MONTH) - 1 : 0
+  const requiredWeekly = requiredContribution(target, balance, daysLeft / 7, weeklyRate)
+
+  const duration = Math.max(1, goal.durationMonths)
+  const elapsed = Math.min(duration, Math.max(0, daysBetween(goal.createdAt, today)) / DAYS_PER_MONTH)
+  const plannedMonthly = requiredContribution(target, 0, duration, rate)
+  const expectedBalance = Math.min(target, futureValueOfContributions(plannedMonthly, elapsed, rate))
+
+  let status: GoalPlanStatus
+  if (target > 0 && balance >= target) status = 'completed'
+  else if (today > deadline) status = 'overdue'
+  else if (balance < expectedBalance * (1 - BEHIND_TOLERANCE)) status = 'behind'
+  else status = 'on_track'
+
+  const historyPace = autoSaveMonthly > 0 ? 0 : recentMonthlyPace(goal, transactions, today)
+  const monthlyPace = autoSaveMonthly > 0 ? autoSaveMonthly : historyPace
+  const paceSource = autoSaveMonthly > 0 ? 'auto_save' : historyPace > 0 ? 'history' : 'none'
+
+  return {
+    goalId: goal.id,
+    deadline,
+    monthsLeft,
+    requiredMonthly,
+    requiredWeekly,
+    expectedBalance,
+    status,
+    monthlyPace,
+    paceSource,
+    projectedCompletionDate: projectCompletionDate(target, balance, monthlyPace, rate, today),
+  }
+}
+
+// --- Auto-saves ---
+
+export function getAllAutoSaves(): GoalAutoSave[] {
+  return getAutoSaves()
+}
+
+export function createAutoSave(goalId: string, data: GoalAutoSaveFormData): GoalAutoSave {
+  const list = getAutoSaves()
+  const now = new Date().toISOString()
+  const startDate = data.startDate || todayString()
+  const autoSave: GoalAutoSave = {
+    id: generateId(),
+    goalId,
+    pocketId: data.pocketId,
+    amount: data.amount,
+    frequency: data.frequency,
+    startDate,
+    nextDueDate: startDate,
+    paused: false,
+    createdAt: now,
+    updatedAt: now,
+  }
+  list.push(autoSave)
+  saveAutoSaves(list)
+  return autoSave
+}
+
+/**
+ * Update an auto-save. Schedule changes re-derive nextDueDate from the new
+ * schedule, continuing after the last transfer so nothing runs twice.
+ */
+export function updateAutoSave(id: string, data: Partial<GoalAutoSaveFormData>): GoalAutoSave {
+  const list = getAutoSaves()
+  const idx = list.findIndex((a) => a.id === id)
+  if (idx === -1) throw new Error(`Goal auto-save ${id} not found`)
+  const current = list[idx]!
+  const merged: GoalAutoSave = {
+    ...current,
+    ...(data.pocketId !== undefined && { pocketId: data.pocketId }),
+    ...(data.amount !== undefined && { amount: data.amount }),
+    ...(data.frequency !== undefined && { frequency: data.frequency }),
+    ...(data.startDate && { startDate: data.startDate }),
+    updatedAt: new Date().toISOString(),
+  }
+  if (merged.startDate !== current.startDate || merged.frequency !== current.frequency) {
+    let next = merged.startDate
+    while (current.lastPostedDate && next <= current.lastPostedDate) {
+      next = nextAutoSaveDate(next, merged.frequency, merged.startDate)
+    }
+    merged.nextDueDate = next
+  }
+  list[idx] = merged
+  saveAutoSaves(list)
+  return merged
+}
+
+/** Internal: persist schedule progress after running transfers. */
+export function updateAutoSaveProgress(
+  id: string,
+  data: Pick<GoalAutoSave, 'nextDueDate'> & Partial<Pick<GoalAutoSave, 'lastPostedDate' | 'lastSkippedDate'>>,
+): void {
+  const list = getAutoSaves()
+  const idx = list.findIndex((a) => a.id === id)
+  if (idx === -1) return
+  list[idx] = { ...list[idx]!, ...data, updatedAt: new Date().toISOString() }
+  saveAutoSaves(list)
+}
+
+export function setAutoSavePaused(id: string, paused: boolean): GoalAutoSave {
+  const list = getAutoSaves()
+  const idx = list.findIndex((a) => a.id === id)
+  if (idx === -1) throw new Error(`Goal auto-save ${id} not found`)
+  const current = list[idx]!
+  // Resuming continues from today instead of catching up on the paused period
+  let nextDueDate = current.nextDueDate
+  const today = todayString()
+  while (!paused && nextDueDate < today) {
+    nextDueDate = nextAutoSaveDate(nextDueDate, current.frequency, current.startDate)
+  }
+  list[idx] = { ...current, paused, nextDueDate, updatedAt: new Date().toISOString() }
+  saveAutoSaves(list)
+  return list[idx]!
+}
+
+export function deleteAutoSave(id: string): void {
+  saveAutoSaves(getAutoSaves().filter((a) => a.id !== id))
+}
+
+export function deleteAutoSavesByGoalId(goalId: string): void {
+  saveAutoSaves(getAutoSaves().filter((a) => a.goalId !== goalId))
+}
+
+export function deleteAutoSavesByPocketId(pocketId: string): void {
+  saveAutoSaves(getAutoSaves().filter((a) => a.pocketId !== pocketId))
+}
+
+/**
+ * Run every transfer that is due up to and including today, like
+ * recurringService.runDueRecurringRules. `transferFn` returns false when the
+ * transfer was skipped (pocket too low or goal already reached); the schedule
+ * still moves on so a skipped week is not retried later.
+ * Returns the number of transfers made.
+ */
+export async function runDueAutoSaves(
+  list: GoalAutoSave[],
+  transferFn: (autoSave: GoalAutoSave, date: string) => Promise<boolean>,
+  updateProgressFn: typeof updateAutoSaveProgress,
+  today: string = todayString(),
+): Promise<number> {
+  let posted = 0
+  for (const autoSave of list) {
+    if (autoSave.paused) continue
+    let next = autoSave.nextDueDate
+    let steps = 0
+    while (next <= today && steps < MAX_CATCH_UP_PER_AUTO_SAVE) {
+      const done = await transferFn(autoSave, next)
+      const date = next
+      steps += 1
+      next = nextAutoSaveDate(next, autoSave.frequency, autoSave.startDate)
+      if (done) {
+        posted += 1
+        updateProgressFn(autoSave.id, { nextDueDate: next, lastPostedDate: date })
+      } else {
+        updateProgressFn(autoSave.id, { nextDueDate: next, lastSkippedDate: date })
+      }
+    }
+  }
+  return posted
+}
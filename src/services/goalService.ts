@@ -1,30 +1,29 @@
 import type { Goal, CreateGoalData } from '@/types/goal'
 import { DEFAULT_POCKET_COLOR } from '@/utils/pocketColors'
-
-const STORAGE_KEY = 'financial_tracker_goals'
+import { recordChanges } from '@/services/syncOutbox'
+import { goalsTable } from '@/services/localDatabase'
 
 function generateId(): string {
   return `goal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-function ensureColor(g: Goal): Goal {
-  if (g.color) return g
-  return { ...g, color: DEFAULT_POCKET_COLOR }
+function getGoals(): Goal[] {
+  return goalsTable.all()
 }
 
-function getGoals(): Goal[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    const raw = stored ? JSON.parse(stored) : []
-    const list = Array.isArray(raw) ? raw : []
-    return list.map((g: Goal) => ensureColor(g))
-  } catch {
-    return []
-  }
+function writeStorage(goals: Goal[]): void {
+  goalsTable.replaceAll(goals)
 }
 
 function saveGoals(goals: Goal[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(goals))
+  const before = getGoals()
+  writeStorage(goals)
+  recordChanges('goal', before, goals)
+}
+
+/** Replace the device copy without queueing sync changes (data that came from Supabase). */
+export function replaceAllGoals(goals: Goal[]): void {
+  writeStorage(goals)
 }
 
 export function getAllGoals(): Goal[] {
@@ -50,6 +49,10 @@ export function createGoal(data: CreateGoalData): Goal {
     color: data.color ?? DEFAULT_POCKET_COLOR,
     type: data.type ?? 'saving',
     annualReturnPercentage: data.annualReturnPercentage,
+    ...(data.type === 'investment' && {
+      compounding: data.compounding ?? 'daily',
+      ...(data.volatilityPercentage && { volatilityPercentage: data.volatilityPercentage }),
+    }),
     lastReturnCalculationDate: data.type === 'investment' ? today : undefined,
   }
   goals.push(goal)
@@ -59,7 +62,19 @@ export function createGoal(data: CreateGoalData): Goal {
 
 export function updateGoal(
   id: string,
-  data: Partial<Pick<Goal, 'name' | 'icon' | 'targetAmount' | 'durationMonths' | 'color' | 'lastReturnCalculationDate'>>,
+  data: Partial<
+    Pick<
+      Goal,
+      | 'name'
+      | 'icon'
+      | 'targetAmount'
+      | 'durationMonths'
+      | 'color'
+      | 'compounding'
+      | 'volatilityPercentage'
+      | 'lastReturnCalculationDate'
+    >
+  >,
 ): Goal {
   const goals = getGoals()
   const idx = goals.findIndex((g) => g.id === id)
@@ -72,6 +87,8 @@ export function updateGoal(
     ...(data.targetAmount !== undefined && { targetAmount: data.targetAmount }),
     ...(data.durationMonths !== undefined && { durationMonths: data.durationMonths }),
     ...(data.color !== undefined && { color: data.color || DEFAULT_POCKET_COLOR }),
+    ...(data.compounding !== undefined && { compounding: data.compounding }),
+    ...('volatilityPercentage' in data && { volatilityPercentage: data.volatilityPercentage || undefined }),
     ...(data.lastReturnCalculationDate !== undefined && { lastReturnCalculationDate: data.lastReturnCalculationDate }),
   }
   goals[idx] = updated
@@ -79,6 +96,34 @@ export function updateGoal(
   return updated
 }
 
+/**
+ * Change an investment goal's annual return from `effectiveDate` (YYYY-MM-DD).
+ * The first change records the original rate from the creation date, so the
+ * history always covers the whole goal; a change on an existing date replaces it.
+ * `annualReturnPercentage` follows the change with the latest effective date.
+ */
+export function changeReturnRate(id: string, annualReturnPercentage: number, effectiveDate: string): Goal {
+  const goals = getGoals()
+  const idx = goals.findIndex((g) => g.id === id)
+  if (idx === -1) throw new Error(`Goal ${id} not found`)
+  const current = goals[idx]!
+  const createdDate = current.createdAt.split('T')[0]!
+  const date = effectiveDate < createdDate ? createdDate : effectiveDate
+  const history = current.returnRateChanges?.length
+    ? current.returnRateChanges
+    : [{ effectiveDate: createdDate, annualReturnPercentage: current.annualReturnPercentage ?? 0 }]
+  const returnRateChanges = [
+    ...history.filter((c) => c.effectiveDate !== date),
+    { effectiveDate: date, annualReturnPercentage },
+  ].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+  // Backdating a change must not replace the rate of a later one
+  const latest = returnRateChanges[returnRateChanges.length - 1]!
+  const updated: Goal = { ...current, annualReturnPercentage: latest.annualReturnPercentage, returnRateChanges }
+  goals[idx] = updated
+  saveGoals(goals)
+  return updated
+}
+
 export function deleteGoal(id: string): void {
   const goals = getGoals().filter((g) => g.id !== id)
   saveGoals(goals)
@@ -1,53 +1,44 @@
-import type { Goal, InvestmentActivityEntry } from '@/types/goal'
-
-const ACTIVITY_STORAGE_KEY = 'financial_tracker_goal_investment_activity'
+import type {
+  CompoundingFrequency,
+  Goal,
+  InvestmentActivityEntry,
+  InvestmentHistoryPoint,
+  InvestmentScenarioPoint,
+} from '@/types/goal'
+import { investmentActivityTable } from '@/services/localDatabase'
 
 function generateId(): string {
   return `inv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-function getActivityMap(): Record<string, InvestmentActivityEntry[]> {
-  try {
-    const stored = localStorage.getItem(ACTIVITY_STORAGE_KEY)
-    const raw = stored ? JSON.parse(stored) : {}
-    return typeof raw === 'object' && raw !== null ? raw : {}
-  } catch {
-    return {}
-  }
-}
-
-function saveActivityMap(map: Record<string, InvestmentActivityEntry[]>): void {
-  localStorage.setItem(ACTIVITY_STORAGE_KEY, JSON.stringify(map))
-}
-
 export function getActivityEntries(goalId: string): InvestmentActivityEntry[] {
-  const map = getActivityMap()
-  return (map[goalId] ?? []).sort((a, b) => b.date.localeCompare(a.date))
+  return investmentActivityTable
+    .all()
+    .filter((e) => e.goalId === goalId)
+    .sort((a, b) => b.date.localeCompare(a.date))
 }
 
-export function appendActivityEntry(
+/** Replace a goal's activity with a freshly simulated list. */
+export function replaceActivityForGoal(
   goalId: string,
-  date: string,
-  amount: number,
-  label: string,
+  entries: Array<Pick<InvestmentActivityEntry, 'date' | 'amount' | 'label'>>,
 ): void {
-  const map = getActivityMap()
-  const list = map[goalId] ?? []
-  list.push({
-    id: generateId(),
-    goalId,
-    date,
-    amount,
-    label,
-  })
-  map[goalId] = list
-  saveActivityMap(map)
+  const others = investmentActivityTable.all().filter((e) => e.goalId !== goalId)
+  investmentActivityTable.replaceAll([...others, ...entries.map((e) => ({ id: generateId(), goalId, ...e }))])
 }
 
 export function deleteActivityForGoal(goalId: string): void {
-  const map = getActivityMap()
-  delete map[goalId]
-  saveActivityMap(map)
+  investmentActivityTable.replaceAll(investmentActivityTable.all().filter((e) => e.goalId !== goalId))
+}
+
+type GoalTransaction = {
+  type: string
+  amount: number
+  date: string
+  goalId?: string
+  transferToGoalId?: string
+  transferToPocketId?: string
+  transferToAmount?: number
 }
 
 type TimelineEvent =
@@ -61,29 +52,10 @@ type TimelineEvent =
  */
 export function computeInvestmentState(
   goalId: string,
-  transactions: Array<{
-    type: string
-    amount: number
-    date: string
-    goalId?: string
-    transferToGoalId?: string
-    transferToPocketId?: string
-  }>,
+  transactions: GoalTransaction[],
   activityEntries: InvestmentActivityEntry[],
 ): { principal: number; simulatedReturn: number } {
-  const events: TimelineEvent[] = []
-
-  for (const tx of transactions) {
-    if (tx.goalId === goalId && tx.type === 'income') {
-      events.push({ type: 'deposit', date: tx.date.split('T')[0], amount: tx.amount })
-    }
-    if (tx.transferToGoalId === goalId && tx.type === 'transfer') {
-      events.push({ type: 'deposit', date: tx.date.split('T')[0], amount: tx.amount })
-    }
-    if (tx.goalId === goalId && tx.transferToPocketId && tx.type === 'transfer') {
-      events.push({ type: 'withdrawal', date: tx.date.split('T')[0], amount: tx.amount })
-    }
-  }
+  const events = toTimelineEvents(goalId, transactions)
 
   for (const a of activityEntries) {
     events.push({ type: 'daily_return', date: a.date, amount: a.amount })
@@ -116,85 +88,202 @@ export function getDailyRate(annualPercent: number): number {
   return annualPercent / 100 / 365
 }
 
-/**
- * Run daily simulation from day after lastReturnCalculationDate through today.
- * Uses transactions and existing activities to get state at last date, then runs forward.
- */
-export function runDailySimulation(
-  goal: Goal,
-  goalTransactions: Array<{
-    type: string
-    amount: number
-    date: string
-    goalId?: string
-    transferToGoalId?: string
-    transferToPocketId?: string
-  }>,
-  getActivityEntriesFn: (goalId: string) => InvestmentActivityEntry[],
-  appendActivityFn: (goalId: string, date: string, amount: number, label: string) => void,
-  updateGoalLastDateFn: (goalId: string, date: string) => void,
-): number {
-  if (goal.type !== 'investment' || goal.annualReturnPercentage == null) {
-    return 0
+const ACTIVITY_LABELS: Record<CompoundingFrequency, string> = {
+  daily: 'Daily Investment Return',
+  monthly: 'Monthly Investment Return',
+  yearly: 'Yearly Investment Return',
+}
+
+/** Longest projection a chart asks for (50 years). */
+const MAX_SCENARIO_MONTHS = 600
+
+function todayString(): string {
+  return new Date().toISOString().split('T')[0]!
+}
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number)
+  return new Date(Date.UTC(y!, m! - 1, d! + days)).toISOString().split('T')[0]!
+}
+
+function addMonths(dateStr: string, months: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(y!, m! - 1 + months + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(y!, m! - 1 + months, Math.min(d!, lastDay))).toISOString().split('T')[0]!
+}
+
+/** Annual return (%) in effect on `date`: the latest change on or before it. */
+export function getReturnRateOn(goal: Pick<Goal, 'annualReturnPercentage' | 'returnRateChanges'>, date: string): number {
+  const changes = goal.returnRateChanges
+  if (!changes?.length) return goal.annualReturnPercentage ?? 0
+  let rate = changes[0]!.annualReturnPercentage
+  for (const change of changes) {
+    if (change.effectiveDate > date) break
+    rate = change.annualReturnPercentage
   }
-  const rate = getDailyRate(goal.annualReturnPercentage)
-  if (rate <= 0) return 0
+  return rate
+}
 
-  const today = new Date().toISOString().split('T')[0]
-  const last = goal.lastReturnCalculationDate ?? goal.createdAt.split('T')[0]
+/** Yearly growth of a nominal annual rate once compounding is applied (6% monthly ≈ 6.17%). */
+export function getEffectiveAnnualRate(annualPercent: number, compounding: CompoundingFrequency = 'daily'): number {
+  const periods = compounding === 'daily' ? 365 : compounding === 'monthly' ? 12 : 1
+  return Math.pow(1 + annualPercent / 100 / periods, periods) - 1
+}
 
-  const allActivities = getActivityEntriesFn(goal.id)
-  const activitiesUpToLast = allActivities.filter((a) => a.date <= last)
+/** Average monthly growth for a nominal annual rate and compounding, used by projections. */
+export function getMonthlyGrowthRate(annualPercent: number, compounding: CompoundingFrequency = 'daily'): number {
+  return Math.pow(1 + getEffectiveAnnualRate(annualPercent, compounding), 1 / 12) - 1
+}
 
-  let principal = 0
-  let simulated = 0
+/** Return is credited on the last day of each compounding period. */
+function isCreditDay(date: string, compounding: CompoundingFrequency): boolean {
+  if (compounding === 'daily') return true
+  const next = addDays(date, 1)
+  return compounding === 'monthly' ? next.endsWith('-01') : next.endsWith('-01-01')
+}
 
+function toTimelineEvents(goalId: string, transactions: GoalTransaction[]): TimelineEvent[] {
   const events: TimelineEvent[] = []
-  for (const tx of goalTransactions) {
-    if (tx.goalId === goal.id && tx.type === 'income') {
-      events.push({ type: 'deposit', date: tx.date.split('T')[0], amount: tx.amount })
+  for (const tx of transactions) {
+    if (tx.goalId === goalId && tx.type === 'income') {
+      events.push({ type: 'deposit', date: tx.date.split('T')[0]!, amount: tx.amount })
     }
-    if (tx.transferToGoalId === goal.id && tx.type === 'transfer') {
-      events.push({ type: 'deposit', date: tx.date.split('T')[0], amount: tx.amount })
+    if (tx.transferToGoalId === goalId && tx.type === 'transfer') {
+      events.push({ type: 'deposit', date: tx.date.split('T')[0]!, amount: tx.transferToAmount ?? tx.amount })
     }
-    if (tx.goalId === goal.id && tx.transferToPocketId && tx.type === 'transfer') {
-      events.push({ type: 'withdrawal', date: tx.date.split('T')[0], amount: tx.amount })
+    if (tx.goalId === goalId && tx.transferToPocketId && tx.type === 'transfer') {
+      events.push({ type: 'withdrawal', date: tx.date.split('T')[0]!, amount: tx.amount })
     }
   }
-  for (const a of activitiesUpToLast) {
-    events.push({ type: 'daily_return', date: a.date, amount: a.amount })
-  }
-  events.sort((a, b) => a.date.localeCompare(b.date))
+  return events.sort((a, b) => a.date.localeCompare(b.date))
+}
 
-  for (const e of events) {
-    if (e.type === 'deposit') principal += e.amount
-    else if (e.type === 'daily_return') simulated += e.amount
-    else {
-      const w = e.amount
-      const fromP = Math.min(w, principal)
-      principal -= fromP
-      simulated = Math.max(0, simulated - (w - fromP))
+/**
+ * Replay an investment goal from its creation date through `until`.
+ * Each day accrues getDailyRate of principal + credited return at the rate in
+ * effect that day; the accrued amount is credited (rounded, remainder carried)
+ * at the end of each compounding period. Money moved on a day earns from the
+ * next day. Returns the credits and the end-of-day history for charts.
+ */
+export function simulateReturns(
+  goal: Goal,
+  goalTransactions: GoalTransaction[],
+  until: string = todayString(),
+): { credits: Array<{ date: string; amount: number }>; history: InvestmentHistoryPoint[] } {
+  const compounding = goal.compounding ?? 'daily'
+  const events = toTimelineEvents(goal.id, goalTransactions)
+  const start = goal.createdAt.split('T')[0]!
+  const credits: Array<{ date: string; amount: number }> = []
+  const history: InvestmentHistoryPoint[] = []
+
+  let principal = 0
+  let simulated = 0
+  let accrued = 0
+  let next = 0
+
+  for (let date = start; date <= until; date = addDays(date, 1)) {
+    if (date > start) {
+      accrued += (principal + simulated) * getDailyRate(getReturnRateOn(goal, date))
+    }
+    while (next < events.length && events[next]!.date <= date) {
+      const e = events[next]!
+      if (e.type === 'deposit') principal += e.amount
+      else {
+        const fromPrincipal = Math.min(e.amount, principal)
+        principal -= fromPrincipal
+        simulated = Math.max(0, simulated - (e.amount - fromPrincipal))
+      }
+      next += 1
+    }
+    if (date > start && isCreditDay(date, compounding)) {
+      const amount = Math.round(accrued)
+      accrued -= amount
+      if (amount > 0) {
+        credits.push({ date, amount })
+        simulated += amount
+      }
     }
+    history.push({ date, principal, simulatedReturn: simulated })
   }
 
-  let totalAdded = 0
-  const currentDate = new Date(last)
-  currentDate.setDate(currentDate.getDate() + 1)
+  return { credits, history }
+}
+
+/**
+ * Bring a goal's simulated return up to today. The whole timeline is replayed
+ * so rate changes with past effective dates and compounding changes apply
+ * retroactively; the stored activity is only rewritten when it differs.
+ * Returns the change in total simulated return.
+ */
+export function runDailySimulation(
+  goal: Goal,
+  goalTransactions: GoalTransaction[],
+  getActivityEntriesFn: (goalId: string) => InvestmentActivityEntry[],
+  replaceActivityFn: typeof replaceActivityForGoal,
+  updateGoalLastDateFn: (goalId: string, date: string) => void,
+): number {
+  if (goal.type !== 'investment') return 0
 
-  const todayDate = new Date(today)
+  const today = todayString()
+  const { credits } = simulateReturns(goal, goalTransactions, today)
+  const existing = getActivityEntriesFn(goal.id)
 
-  while (currentDate <= todayDate) {
-    const dateStr = currentDate.toISOString().split('T')[0]
-    const balance = principal + simulated
-    const dailyGrowth = Math.round(balance * rate)
-    if (dailyGrowth > 0) {
-      appendActivityFn(goal.id, dateStr, dailyGrowth, 'Daily Investment Return')
-      simulated += dailyGrowth
-      totalAdded += dailyGrowth
-    }
-    updateGoalLastDateFn(goal.id, dateStr)
-    currentDate.setDate(currentDate.getDate() + 1)
+  const key = (list: Array<{ date: string; amount: number }>) =>
+    list
+      .map((e) => `${e.date}:${e.amount}`)
+      .sort()
+      .join('|')
+  const label = ACTIVITY_LABELS[goal.compounding ?? 'daily']
+  const changed = key(credits) !== key(existing) || existing.some((e) => e.label !== label)
+  if (changed) {
+    replaceActivityFn(goal.id, credits.map((c) => ({ ...c, label })))
   }
+  if (goal.lastReturnCalculationDate !== today) {
+    updateGoalLastDateFn(goal.id, today)
+  }
+
+  const sum = (list: Array<{ amount: number }>) => list.reduce((s, e) => s + e.amount, 0)
+  return sum(credits) - sum(existing)
+}
 
-  return totalAdded
+/**
+ * Month-by-month projection from `today` with `monthlyContribution` added each
+ * month, at the current rate (base) and at the rate minus / plus the goal's
+ * volatility. Without a volatility setting all three scenarios are equal.
+ */
+export function projectInvestmentScenarios(
+  goal: Goal,
+  current: { principal: number; balance: number },
+  monthlyContribution: number,
+  months: number,
+  today: string = todayString(),
+): InvestmentScenarioPoint[] {
+  const rate = getReturnRateOn(goal, today)
+  const volatility = Math.max(0, goal.volatilityPercentage ?? 0)
+  const compounding = goal.compounding ?? 'daily'
+  const growth = {
+    pessimistic: getMonthlyGrowthRate(Math.max(-99, rate - volatility), compounding),
+    base: getMonthlyGrowthRate(rate, compounding),
+    optimistic: getMonthlyGrowthRate(rate + volatility, compounding),
+  }
+
+  const points: InvestmentScenarioPoint[] = [
+    {
+      date: today,
+      principal: current.principal,
+      pessimistic: current.balance,
+      base: current.balance,
+      optimistic: current.balance,
+    },
+  ]
+  let { principal } = current
+  let { pessimistic, base, optimistic } = points[0]!
+  for (let month = 1; month <= Math.min(months, MAX_SCENARIO_MONTHS); month++) {
+    principal += monthlyContribution
+    pessimistic = Math.max(0, pessimistic * (1 + growth.pessimistic) + monthlyContribution)
+    base = base * (1 + growth.base) + monthlyContribution
+    optimistic = optimistic * (1 + growth.optimistic) + monthlyContribution
+    points.push({ date: addMonths(today, month), principal, pessimistic, base, optimistic })
+  }
+  return points
 }
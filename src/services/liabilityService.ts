@@ -0,0 +1,127 @@
+import type { Liability, LiabilityFormData, NetWorthSnapshot } from '@/types/liability'
+import type { Transaction } from '@/types/transaction'
+import type { CurrencyCode } from '@/utils/currency'
+
+const STORAGE_KEY = 'financial_tracker_liabilities'
+const HISTORY_KEY = 'financial_tracker_net_worth_history'
+
+/** Monthly snapshots kept (ten years). */
+const MAX_SNAPSHOTS = 120
+
+function generateId(): string {
+  return `liability-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function readList<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveLiabilities(liabilities: Liability[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(liabilities))
+}
+
+function normalizeDueDay(day: number | undefined): number | undefined {
+  return day != null && day >= 1 ? Math.min(31, Math.floor(day)) : undefined
+}
+
+export function getAllLiabilities(): Liability[] {
+  return readList<Liability>(STORAGE_KEY)
+}
+
+export function getLiabilityById(id: string): Liability | null {
+  return getAllLiabilities().find((l) => l.id === id) ?? null
+}
+
+export function createLiability(data: LiabilityFormData): Liability {
+  const liabilities = getAllLiabilities()
+  const now = new Date().toISOString()
+  const liability: Liability = {
+    id: generateId(),
+    name: data.name.trim(),
+    kind: data.kind,
+    openingBalance: Math.max(0, data.balance),
+    interestRate: Math.max(0, data.interestRate),
+    minimumPayment: Math.max(0, data.minimumPayment),
+    dueDay: normalizeDueDay(data.dueDay),
+    ...(data.currency && { currency: data.currency }),
+    createdAt: now,
+    updatedAt: now,
+  }
+  liabilities.push(liability)
+  saveLiabilities(liabilities)
+  return liability
+}
+
+/**
+ * Update a liability. A new `balance` is the amount owed today: the opening balance is
+ * moved so that, after the payments already recorded (`paid`), the debt shows that amount.
+ */
+export function updateLiability(id: string, data: Partial<LiabilityFormData>, paid = 0): Liability {
+  const liabilities = getAllLiabilities()
+  const idx = liabilities.findIndex((l) => l.id === id)
+  if (idx === -1) throw new Error(`Liability ${id} not found`)
+  const current = liabilities[idx]!
+  const updated: Liability = {
+    ...current,
+    ...(data.name !== undefined && { name: data.name.trim() || current.name }),
+    ...(data.kind !== undefined && { kind: data.kind }),
+    ...(data.balance !== undefined && { openingBalance: Math.max(0, data.balance) + paid }),
+    ...(data.interestRate !== undefined && { interestRate: Math.max(0, data.interestRate) }),
+    ...(data.minimumPayment !== undefined && { minimumPayment: Math.max(0, data.minimumPayment) }),
+    ...('dueDay' in data && { dueDay: normalizeDueDay(data.dueDay) }),
+    updatedAt: new Date().toISOString(),
+  }
+  liabilities[idx] = updated
+  saveLiabilities(liabilities)
+  return updated
+}
+
+export function deleteLiability(id: string): void {
+  saveLiabilities(getAllLiabilities().filter((l) => l.id !== id))
+}
+
+/** Amount paid towards each liability, in the liability's currency. */
+export function computeLiabilityPayments(transactions: Transaction[]): Record<string, number> {
+  const paid: Record<string, number> = {}
+  for (const t of transactions) {
+    if (t.type === 'transfer' && t.transferToLiabilityId) {
+      paid[t.transferToLiabilityId] = (paid[t.transferToLiabilityId] ?? 0) + (t.transferToAmount ?? t.amount)
+    }
+  }
+  return paid
+}
+
+/** Outstanding balance per liability (never below zero; overpayments are not credit). */
+export function computeLiabilityBalances(liabilities: Liability[], transactions: Transaction[]): Record<string, number> {
+  const paid = computeLiabilityPayments(transactions)
+  const balances: Record<string, number> = {}
+  for (const l of liabilities) balances[l.id] = Math.max(0, l.openingBalance - (paid[l.id] ?? 0))
+  return balances
+}
+
+export function getNetWorthHistory(): NetWorthSnapshot[] {
+  return readList<NetWorthSnapshot>(HISTORY_KEY).sort((a, b) => a.month.localeCompare(b.month))
+}
+
+/**
+ * Record the running month's totals. The snapshot of a month is overwritten until the
+ * month ends, so each past month keeps the last values seen in it.
+ */
+export function recordNetWorthSnapshot(
+  totals: { assets: number; liabilities: number; currency: CurrencyCode },
+  today: string = new Date().toISOString().split('T')[0]!,
+): NetWorthSnapshot[] {
+  const month = today.slice(0, 7)
+  const snapshot: NetWorthSnapshot = { month, ...totals, updatedAt: new Date().toISOString() }
+  const history = [...getNetWorthHistory().filter((s) => s.month !== month), snapshot]
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .slice(-MAX_SNAPSHOTS)
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history))
+  return history
+}
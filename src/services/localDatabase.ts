@@ -0,0 +1,327 @@
+import type { Transaction } from '@/types/transaction'
+import type { Pocket } from '@/types/pocket'
+import type { Goal, InvestmentActivityEntry } from '@/types/goal'
+import type { TransactionAttachment } from '@/types/attachment'
+
+/**
+ * On-device database (IndexedDB) for transactions, pockets, goals and investment activity.
+ *
+ * Each table is loaded into memory once at startup (initLocalDatabase), so services keep
+ * their synchronous reads. Saves compare against that copy and write only the records
+ * that changed, instead of re-serializing whole arrays into localStorage.
+ * Without IndexedDB (e.g. some private browsing modes) tables fall back to their old
+ * localStorage keys.
+ *
+ * Attachments (receipt images) are too large to keep in memory or in localStorage, so they
+ * have their own store that is read on demand and is unavailable without IndexedDB.
+ */
+
+const DB_NAME = 'fanplanner'
+const DB_VERSION = 2
+const META_STORE = 'meta'
+const ATTACHMENT_STORE = 'attachments'
+
+type TableName = 'transactions' | 'pockets' | 'goals' | 'investmentActivity'
+
+interface TableConfig {
+  /** localStorage key the table replaced; read once to move the data over. */
+  legacyKey: string
+  indexes: string[]
+}
+
+const TABLES: Record<TableName, TableConfig> = {
+  transactions: {
+    legacyKey: 'financial_tracker_transactions',
+    indexes: ['date', 'pocketId', 'category', 'goalId'],
+  },
+  pockets: { legacyKey: 'financial_tracker_pockets', indexes: [] },
+  goals: { legacyKey: 'financial_tracker_goals', indexes: [] },
+  investmentActivity: { legacyKey: 'financial_tracker_goal_investment_activity', indexes: ['goalId'] },
+}
+
+let db: IDBDatabase | null = null
+
+type WriteErrorListener = (table: TableName, error: unknown) => void
+const writeErrorListeners = new Set<WriteErrorListener>()
+
+/** Called when a save could not be written to IndexedDB (the in-memory copy already has it). */
+export function onWriteError(listener: WriteErrorListener): () => void {
+  writeErrorListeners.add(listener)
+  return () => writeErrorListeners.delete(listener)
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const database = req.result
+      for (const [name, config] of Object.entries(TABLES)) {
+        if (database.objectStoreNames.contains(name)) continue
+        const store = database.createObjectStore(name, { keyPath: 'id' })
+        for (const index of config.indexes) store.createIndex(index, index)
+      }
+      if (!database.objectStoreNames.contains(META_STORE)) database.createObjectStore(META_STORE)
+      if (!database.objectStoreNames.contains(ATTACHMENT_STORE)) {
+        database.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' })
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/** Drops proxies and undefined fields, like the JSON round-trip localStorage used to do. */
+function toPlain<T>(record: T): T {
+  return JSON.parse(JSON.stringify(record)) as T
+}
+
+function sameRecord(a: object, b: object): boolean {
+  const x = a as Record<string, unknown>
+  const y = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(x), ...Object.keys(y)])
+  for (const key of keys) {
+    const u = x[key]
+    const v = y[key]
+    if (u === v) continue
+    if (typeof u !== 'object' || typeof v !== 'object' || JSON.stringify(u) !== JSON.stringify(v)) return false
+  }
+  return true
+}
+
+export class LocalTable<T extends { id: string }> {
+  private records: T[] = []
+  private pending: Promise<void> = Promise.resolve()
+  /** First write that failed since the last flush; flush rejects with it. */
+  private failure: unknown = null
+
+  constructor(
+    readonly name: TableName,
+    /** IndexedDB returns records by id; this restores a meaningful order on load. */
+    private readonly order: (a: T, b: T) => number,
+  ) {}
+
+  get size(): number {
+    return this.records.length
+  }
+
+  /** Shallow copies, so callers can edit the list and save it without touching the cache. */
+  all(): T[] {
+    return this.records.map((r) => ({ ...r }))
+  }
+
+  /** Replace the table's contents; only added, changed and removed records are written. */
+  replaceAll(next: T[]): void {
+    const prevById = new Map(this.records.map((r) => [r.id, r]))
+    const nextIds = new Set<string>()
+    const changed: T[] = []
+    const records = next.map((r) => {
+      nextIds.add(r.id)
+      const prev = prevById.get(r.id)
+      if (prev && sameRecord(prev, r)) return prev
+      const plain = toPlain(r)
+      changed.push(plain)
+      return plain
+    })
+    const removed = this.records.filter((r) => !nextIds.has(r.id)).map((r) => r.id)
+    this.records = records
+    if (changed.length === 0 && removed.length === 0) return
+    this.persist(changed, removed)
+  }
+
+  /**
+   * Records whose `index` value is between `lower` and `upper` (inclusive; either may be
+   * omitted), read from IndexedDB. Returns null without IndexedDB so callers can filter
+   * the in-memory copy instead.
+   */
+  async queryRange(index: string, lower?: string, upper?: string): Promise<T[] | null> {
+    if (!db) return null
+    const range =
+      lower && upper
+        ? IDBKeyRange.bound(lower, upper)
+        : lower
+          ? IDBKeyRange.lowerBound(lower)
+          : upper
+            ? IDBKeyRange.upperBound(upper)
+            : undefined
+    await this.pending
+    const store = db.transaction(this.name).objectStore(this.name)
+    return promisify(store.index(index).getAll(range) as IDBRequest<T[]>)
+  }
+
+  /** Resolves once every write so far has been committed; rejects if one of them failed. */
+  async flush(): Promise<void> {
+    await this.pending
+    const failure = this.failure
+    this.failure = null
+    if (failure) throw failure
+  }
+
+  /** @internal Used by initLocalDatabase. */
+  load(records: T[]): void {
+    this.records = [...records].sort(this.order)
+  }
+
+  private persist(changed: T[], removed: string[]): void {
+    if (!db) {
+      localStorage.setItem(TABLES[this.name].legacyKey, JSON.stringify(this.records))
+      return
+    }
+    // Transactions on the same store run in the order they are created
+    const tx = db.transaction(this.name, 'readwrite')
+    const store = tx.objectStore(this.name)
+    for (const record of changed) store.put(record)
+    for (const id of removed) store.delete(id)
+    // The chain itself never rejects, so later writes and range reads still run
+    this.pending = completion(tx).catch((err) => {
+      console.error(`Error saving ${this.name}:`, err)
+      this.failure ??= err ?? new Error(`Error saving ${this.name}`)
+      writeErrorListeners.forEach((listener) => listener(this.name, err))
+    })
+  }
+}
+
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) =>
+  (a.createdAt ?? '').localeCompare(b.createdAt ?? '')
+
+export const transactionsTable = new LocalTable<Transaction>('transactions', byCreatedAt)
+export const pocketsTable = new LocalTable<Pocket>(
+  'pockets',
+  // Main pocket first, like ensureMainPocket keeps it
+  (a, b) => Number(b.type === 'main') - Number(a.type === 'main') || byCreatedAt(a, b),
+)
+export const goalsTable = new LocalTable<Goal>('goals', byCreatedAt)
+export const investmentActivityTable = new LocalTable<InvestmentActivityEntry>('investmentActivity', (a, b) =>
+  (a.date ?? '').localeCompare(b.date ?? ''),
+)
+
+const ALL_TABLES = [transactionsTable, pocketsTable, goalsTable, investmentActivityTable] as unknown as LocalTable<{
+  id: string
+}>[]
+
+/** Parse a legacy localStorage value; investment activity used to be a map of goal id -> entries. */
+function readLegacy(name: TableName): { id: string }[] | null {
+  const stored = localStorage.getItem(TABLES[name].legacyKey)
+  if (stored == null) return null
+  try {
+    const raw = JSON.parse(stored)
+    const list: unknown[] = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? Object.values(raw).flat() : []
+    // IndexedDB rejects records without a key
+    return list.filter((r): r is { id: string } => typeof (r as { id?: unknown })?.id === 'string')
+  } catch {
+    // unreadable: treat as empty
+  }
+  return []
+}
+
+/**
+ * Open the database and load every table. Call once at startup before any service reads.
+ * Data still under the old localStorage keys (first run after the upgrade, or restored
+ * by pwaDataSync) replaces the table's contents and the key is removed.
+ */
+export async function initLocalDatabase(): Promise<void> {
+  try {
+    db = await openDatabase()
+  } catch (err) {
+    console.error('IndexedDB unavailable, keeping data in localStorage:', err)
+    db = null
+  }
+  for (const table of ALL_TABLES) {
+    const legacy = readLegacy(table.name)
+    if (!db) {
+      table.load(legacy ?? [])
+      continue
+    }
+    if (legacy) {
+      const tx = db.transaction(table.name, 'readwrite')
+      const store = tx.objectStore(table.name)
+      store.clear()
+      for (const record of legacy) store.put(record)
+      await completion(tx)
+      localStorage.removeItem(TABLES[table.name].legacyKey)
+      table.load(legacy)
+    } else {
+      table.load(await promisify(db.transaction(table.name).objectStore(table.name).getAll()))
+    }
+  }
+}
+
+/** Wait for pending writes, e.g. before reloading the page; rejects if any of them failed. */
+export async function flushLocalDatabase(): Promise<void> {
+  await Promise.all(ALL_TABLES.map((t) => t.flush()))
+}
+
+/** Every table's records keyed by the localStorage key it replaced (for PWA cache copies and migrations). */
+export function getTablesByLegacyKey(): Record<string, { id: string }[]> {
+  return Object.fromEntries(ALL_TABLES.map((t) => [TABLES[t.name].legacyKey, t.all()]))
+}
+
+/** Counterpart of getTablesByLegacyKey. Unknown keys are ignored. */
+export function replaceTableByLegacyKey(legacyKey: string, records: { id: string }[]): void {
+  ALL_TABLES.find((t) => TABLES[t.name].legacyKey === legacyKey)?.replaceAll(records)
+}
+
+/** Small values kept next to the tables (e.g. the migration backup); `fallbackKey` is used without IndexedDB. */
+export async function getMeta<T>(key: string, fallbackKey: string): Promise<T | null> {
+  try {
+    if (!db) {
+      const stored = localStorage.getItem(fallbackKey)
+      return stored ? (JSON.parse(stored) as T) : null
+    }
+    const value = await promisify(db.transaction(META_STORE).objectStore(META_STORE).get(key))
+    return (value as T | undefined) ?? null
+  } catch {
+    return null
+  }
+}
+
+export async function setMeta(key: string, value: unknown, fallbackKey: string): Promise<void> {
+  if (!db) {
+    localStorage.setItem(fallbackKey, JSON.stringify(value))
+    return
+  }
+  const tx = db.transaction(META_STORE, 'readwrite')
+  tx.objectStore(META_STORE).put(toPlain(value), key)
+  await completion(tx)
+}
+
+/** False without IndexedDB; attachments can then not be stored. */
+export function hasAttachmentStorage(): boolean {
+  return db !== null
+}
+
+export async function getAllAttachmentRecords(): Promise<TransactionAttachment[]> {
+  if (!db) return []
+  return promisify(db.transaction(ATTACHMENT_STORE).objectStore(ATTACHMENT_STORE).getAll())
+}
+
+/** Insert or replace attachments. Records are stored as-is: image Blobs can't take the JSON round-trip. */
+export async function putAttachmentRecords(records: TransactionAttachment[]): Promise<void> {
+  if (!db) throw new Error('IndexedDB unavailable')
+  const tx = db.transaction(ATTACHMENT_STORE, 'readwrite')
+  const store = tx.objectStore(ATTACHMENT_STORE)
+  for (const record of records) store.put(record)
+  await completion(tx)
+}
+
+export async function deleteAttachmentRecords(ids: string[]): Promise<void> {
+  if (!db || ids.length === 0) return
+  const tx = db.transaction(ATTACHMENT_STORE, 'readwrite')
+  const store = tx.objectStore(ATTACHMENT_STORE)
+  for (const id of ids) store.delete(id)
+  await completion(tx)
+}
@@ -0,0 +1,152 @@
+import type { Merchant, MerchantPreferences } from '@/types/merchant'
+import type { Transaction } from '@/types/transaction'
+import { findKnownMerchant, merchantKey, normalizeMerchantName } from '@/utils/merchants'
+
+const STORAGE_KEY = 'financial_tracker_merchants'
+
+function generateId(): string {
+  return `merchant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getMerchants(): Merchant[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveMerchants(merchants: Merchant[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(merchants))
+}
+
+/** Known merchants, most used first. */
+export function getAllMerchants(): Merchant[] {
+  return getMerchants().sort((a, b) => b.transactionCount - a.transactionCount || a.name.localeCompare(b.name))
+}
+
+/** The directory entry for a merchant name as read or typed ("INDOMARET 123 JKT"), if any. */
+export function findMerchant(name: string): Merchant | null {
+  const key = merchantKey(name)
+  if (!key) return null
+  return getMerchants().find((m) => m.name.toLowerCase() === key) ?? null
+}
+
+/** Category new entries from the merchant start with: the user's choice, else the learned one. */
+export function getMerchantCategory(merchant: Merchant): string | undefined {
+  return merchant.preferredCategory ?? merchant.category
+}
+
+/** Pocket new entries from the merchant start in: the user's choice, else the learned one. */
+export function getMerchantPocketId(merchant: Merchant): string | undefined {
+  return merchant.preferredPocketId ?? merchant.pocketId
+}
+
+/** Set or clear (empty value) the merchant's preferred category and pocket. */
+export function updateMerchantPreferences(id: string, data: MerchantPreferences): Merchant {
+  const merchants = getMerchants()
+  const idx = merchants.findIndex((m) => m.id === id)
+  if (idx === -1) throw new Error(`Merchant ${id} not found`)
+  const updated: Merchant = {
+    ...merchants[idx]!,
+    ...('preferredCategory' in data && { preferredCategory: data.preferredCategory || undefined }),
+    ...('preferredPocketId' in data && { preferredPocketId: data.preferredPocketId || undefined }),
+    updatedAt: new Date().toISOString(),
+  }
+  merchants[idx] = updated
+  saveMerchants(merchants)
+  return updated
+}
+
+/**
+ * Merchant named in free text ("kopi kenangan 25rb", "lunch at Shake Shack $18"):
+ * a known chain, or a directory merchant whose name appears as whole words.
+ * Returns the normalized name; longer directory names win ("Bakmi GM Senayan" over "Bakmi GM").
+ */
+export function findMerchantInText(text: string): string | undefined {
+  const known = findKnownMerchant(text)
+  if (known) return known
+  const lower = text.toLowerCase()
+  return getMerchants()
+    .filter((m) => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(m.name.toLowerCase())}($|[^\\p{L}\\p{N}])`, 'u').test(lower))
+    .sort((a, b) => b.name.length - a.name.length)[0]?.name
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Value used most often; ties go to the most recent use. Transactions come oldest first. */
+function mostUsed(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>()
+  let best: string | undefined
+  for (const value of values) {
+    if (!value) continue
+    const count = (counts.get(value) ?? 0) + 1
+    counts.set(value, count)
+    if (!best || count >= (counts.get(best) ?? 0)) best = value
+  }
+  return best
+}
+
+/**
+ * Rebuild the directory from the transaction history: one entry per merchant
+ * recorded on an expense, with its most used category and pocket.
+ * Entries keep their id, creation time and the user's preferences; merchants no longer
+ * in the history are dropped unless the user set a preference for them.
+ */
+export function learnMerchants(transactions: Transaction[]): Merchant[] {
+  const byKey = new Map<string, Transaction[]>()
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+  for (const t of sorted) {
+    if (t.type !== 'expense' || !t.merchant) continue
+    const key = merchantKey(t.merchant)
+    if (!key) continue
+    const list = byKey.get(key)
+    if (list) list.push(t)
+    else byKey.set(key, [t])
+  }
+
+  const existing = new Map(getMerchants().map((m) => [m.name.toLowerCase(), m]))
+  const now = new Date().toISOString()
+  const merchants: Merchant[] = []
+  for (const [key, list] of byKey) {
+    const previous = existing.get(key)
+    const latest = list[list.length - 1]!
+    existing.delete(key)
+    const learned = {
+      name: normalizeMerchantName(latest.merchant!),
+      category: mostUsed(list.map((t) => t.category)),
+      pocketId: mostUsed(list.map((t) => t.pocketId)),
+      transactionCount: list.length,
+      lastUsed: latest.date.split('T')[0]!,
+    }
+    const unchanged =
+      previous &&
+      previous.category === learned.category &&
+      previous.pocketId === learned.pocketId &&
+      previous.transactionCount === learned.transactionCount &&
+      previous.lastUsed === learned.lastUsed
+    merchants.push(
+      unchanged
+        ? previous
+        : {
+            id: previous?.id ?? generateId(),
+            ...learned,
+            preferredCategory: previous?.preferredCategory,
+            preferredPocketId: previous?.preferredPocketId,
+            createdAt: previous?.createdAt ?? now,
+            updatedAt: now,
+          },
+    )
+  }
+  // A merchant whose transactions were all deleted keeps its entry while the user's choices matter
+  for (const previous of existing.values()) {
+    if (!previous.preferredCategory && !previous.preferredPocketId) continue
+    merchants.push(previous.transactionCount === 0 ? previous : { ...previous, transactionCount: 0, updatedAt: now })
+  }
+  saveMerchants(merchants)
+  return getAllMerchants()
+}
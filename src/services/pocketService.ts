@@ -1,31 +1,27 @@
 import type { Pocket, CreatePocketData } from '@/types/pocket'
 import { DEFAULT_POCKET_COLOR } from '@/utils/pocketColors'
+import { DEFAULT_CURRENCY } from '@/utils/currency'
+import { recordChanges } from '@/services/syncOutbox'
+import { pocketsTable } from '@/services/localDatabase'
 
-const STORAGE_KEY = 'financial_tracker_pockets'
 export const MAIN_POCKET_ID = 'main-pocket'
 
 function generateId(): string {
   return `pocket-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-function ensureColor(p: Pocket): Pocket {
-  if (p.color) return p
-  return { ...p, color: DEFAULT_POCKET_COLOR }
+function getPockets(): Pocket[] {
+  return pocketsTable.all()
 }
 
-function getPockets(): Pocket[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    const raw = stored ? JSON.parse(stored) : []
-    const list = Array.isArray(raw) ? raw : []
-    return list.map((p: Pocket) => ensureColor(p))
-  } catch {
-    return []
-  }
+function writeStorage(pockets: Pocket[]): void {
+  pocketsTable.replaceAll(pockets)
 }
 
 function savePockets(pockets: Pocket[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(pockets))
+  const before = getPockets()
+  writeStorage(pockets)
+  recordChanges('pocket', before, pockets)
 }
 
 /**
@@ -47,12 +43,18 @@ export function ensureMainPocket(): Pocket {
     balance: 0,
     createdAt: now,
     color: DEFAULT_POCKET_COLOR,
+    currency: DEFAULT_CURRENCY,
   }
   pockets.unshift(mainPocket)
   savePockets(pockets)
   return mainPocket
 }
 
+/** Replace the device copy without queueing sync changes (data that came from Supabase). */
+export function replaceAllPockets(pockets: Pocket[]): void {
+  writeStorage(pockets)
+}
+
 export function getAllPockets(): Pocket[] {
   return getPockets()
 }
@@ -72,6 +74,7 @@ export function createPocket(data: CreatePocketData): Pocket {
     balance: 0,
     createdAt: now,
     color: data.color ?? DEFAULT_POCKET_COLOR,
+    currency: data.currency ?? DEFAULT_CURRENCY,
   }
   pockets.push(pocket)
   savePockets(pockets)
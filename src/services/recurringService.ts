@@ -0,0 +1,241 @@
+import type { RecurringFrequency, RecurringRule, RecurringRuleFormData } from '@/types/recurring'
+
+const STORAGE_KEY = 'financial_tracker_recurring_rules'
+
+/** Safety cap so a very old daily rule cannot freeze app start. */
+const MAX_CATCH_UP_PER_RULE = 366
+
+function generateId(): string {
+  return `rec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getRules(): RecurringRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveRules(rules: RecurringRule[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules))
+}
+
+function todayString(): string {
+  return new Date().toISOString().split('T')[0]!
+}
+
+function parseDate(dateStr: string): { y: number; m: number; d: number } {
+  const [y, m, d] = dateStr.split('T')[0]!.split('-').map(Number)
+  return { y: y ?? 1970, m: m ?? 1, d: d ?? 1 }
+}
+
+function toDateString(y: number, m: number, d: number): string {
+  return new Date(Date.UTC(y, m - 1, d)).toISOString().split('T')[0]!
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate()
+}
+
+/**
+ * Advance a date by one schedule step. Monthly/yearly steps keep the anchor day
+ * (day of month of the start date) and clamp to the month length, so a rule
+ * starting on the 31st posts on Feb 28/29 and back on Mar 31.
+ */
+export function addPeriod(
+  dateStr: string,
+  frequency: RecurringFrequency,
+  interval: number,
+  anchorDay: number,
+): string {
+  const step = Math.max(1, Math.floor(interval || 1))
+  const { y, m, d } = parseDate(dateStr)
+  if (frequency === 'daily') return toDateString(y, m, d + step)
+  if (frequency === 'weekly') return toDateString(y, m, d + step * 7)
+  const monthsToAdd = frequency === 'monthly' ? step : step * 12
+  const total = y * 12 + (m - 1) + monthsToAdd
+  const ny = Math.floor(total / 12)
+  const nm = (total % 12) + 1
+  return toDateString(ny, nm, Math.min(anchorDay, daysInMonth(ny, nm)))
+}
+
+function isFinished(rule: Pick<RecurringRule, 'endDate' | 'maxOccurrences' | 'occurrenceCount'>, next: string): boolean {
+  if (rule.endDate && next > rule.endDate) return true
+  if (rule.maxOccurrences != null && rule.occurrenceCount >= rule.maxOccurrences) return true
+  return false
+}
+
+/**
+ * First scheduled date on or after `from` (or strictly after when `exclusive`).
+ * Returns undefined when the schedule ends before that.
+ */
+export function findNextOnOrAfter(
+  rule: Pick<RecurringRule, 'frequency' | 'interval' | 'startDate' | 'endDate' | 'maxOccurrences' | 'occurrenceCount'>,
+  from: string,
+  exclusive = false,
+): string | undefined {
+  const anchorDay = parseDate(rule.startDate).d
+  let next = rule.startDate
+  while (exclusive ? next <= from : next < from) {
+    next = addPeriod(next, rule.frequency, rule.interval, anchorDay)
+  }
+  return isFinished(rule, next) ? undefined : next
+}
+
+export function getAllRules(): RecurringRule[] {
+  return getRules()
+}
+
+export function getRuleById(id: string): RecurringRule | null {
+  return getRules().find((r) => r.id === id) ?? null
+}
+
+export function createRule(data: RecurringRuleFormData): RecurringRule {
+  const rules = getRules()
+  const now = new Date().toISOString()
+  const base = {
+    frequency: data.frequency,
+    interval: Math.max(1, Math.floor(data.interval || 1)),
+    startDate: data.startDate || todayString(),
+    endDate: data.endDate || undefined,
+    maxOccurrences: data.maxOccurrences && data.maxOccurrences > 0 ? data.maxOccurrences : undefined,
+    occurrenceCount: 0,
+  }
+  const rule: RecurringRule = {
+    id: generateId(),
+    type: data.type,
+    amount: data.amount,
+    description: data.description.trim(),
+    category: data.category,
+    pocketId: data.pocketId,
+    ...base,
+    nextDueDate: isFinished(base, base.startDate) ? undefined : base.startDate,
+    paused: false,
+    createdAt: now,
+    updatedAt: now,
+  }
+  rules.push(rule)
+  saveRules(rules)
+  return rule
+}
+
+/**
+ * Update a rule. Schedule changes re-derive nextDueDate from the new schedule,
+ * continuing after the last posted occurrence so nothing is posted twice.
+ */
+export function updateRule(id: string, data: Partial<RecurringRuleFormData>): RecurringRule {
+  const rules = getRules()
+  const idx = rules.findIndex((r) => r.id === id)
+  if (idx === -1) throw new Error(`Recurring rule ${id} not found`)
+  const current = rules[idx]!
+  const merged: RecurringRule = {
+    ...current,
+    ...(data.type !== undefined && { type: data.type }),
+    ...(data.amount !== undefined && { amount: data.amount }),
+    ...(data.description !== undefined && { description: data.description.trim() || current.description }),
+    ...(data.category !== undefined && { category: data.category }),
+    ...(data.pocketId !== undefined && { pocketId: data.pocketId }),
+    ...(data.frequency !== undefined && { frequency: data.frequency }),
+    ...(data.interval !== undefined && { interval: Math.max(1, Math.floor(data.interval || 1)) }),
+    ...(data.startDate !== undefined && { startDate: data.startDate || current.startDate }),
+    ...('endDate' in data && { endDate: data.endDate || undefined }),
+    ...('maxOccurrences' in data && {
+      maxOccurrences: data.maxOccurrences && data.maxOccurrences > 0 ? data.maxOccurrences : undefined,
+    }),
+    updatedAt: new Date().toISOString(),
+  }
+  merged.nextDueDate = merged.lastPostedDate
+    ? findNextOnOrAfter(merged, merged.lastPostedDate, true)
+    : findNextOnOrAfter(merged, merged.startDate)
+  rules[idx] = merged
+  saveRules(rules)
+  return merged
+}
+
+/** Internal: persist schedule progress after posting occurrences. */
+export function updateRuleProgress(
+  id: string,
+  data: Pick<RecurringRule, 'occurrenceCount' | 'nextDueDate' | 'lastPostedDate'>,
+): void {
+  const rules = getRules()
+  const idx = rules.findIndex((r) => r.id === id)
+  if (idx === -1) return
+  rules[idx] = { ...rules[idx]!, ...data, updatedAt: new Date().toISOString() }
+  saveRules(rules)
+}
+
+export function pauseRule(id: string): RecurringRule {
+  const rules = getRules()
+  const idx = rules.findIndex((r) => r.id === id)
+  if (idx === -1) throw new Error(`Recurring rule ${id} not found`)
+  rules[idx] = { ...rules[idx]!, paused: true, updatedAt: new Date().toISOString() }
+  saveRules(rules)
+  return rules[idx]!
+}
+
+/**
+ * Resume a paused rule. Occurrences that fell due while paused are skipped:
+ * the schedule continues from today instead of catching up.
+ */
+export function resumeRule(id: string): RecurringRule {
+  const rules = getRules()
+  const idx = rules.findIndex((r) => r.id === id)
+  if (idx === -1) throw new Error(`Recurring rule ${id} not found`)
+  const current = rules[idx]!
+  const today = todayString()
+  const nextDueDate =
+    current.nextDueDate && current.nextDueDate < today
+      ? findNextOnOrAfter(current, today)
+      : current.nextDueDate
+  rules[idx] = { ...current, paused: false, nextDueDate, updatedAt: new Date().toISOString() }
+  saveRules(rules)
+  return rules[idx]!
+}
+
+export function deleteRule(id: string): void {
+  saveRules(getRules().filter((r) => r.id !== id))
+}
+
+/** Remove rules that post into a pocket that is being deleted. */
+export function deleteRulesByPocketId(pocketId: string): void {
+  saveRules(getRules().filter((r) => r.pocketId !== pocketId))
+}
+
+/**
+ * Post every occurrence that is due up to and including today, for each active rule.
+ * Catches up missed days the same way investmentGoalService.runDailySimulation does:
+ * walk forward from the stored nextDueDate until today, persisting progress per step.
+ * Returns the number of transactions posted.
+ */
+export async function runDueRecurringRules(
+  rules: RecurringRule[],
+  postOccurrenceFn: (rule: RecurringRule, date: string) => Promise<void>,
+  updateProgressFn: (
+    id: string,
+    data: Pick<RecurringRule, 'occurrenceCount' | 'nextDueDate' | 'lastPostedDate'>,
+  ) => void,
+  today: string = todayString(),
+): Promise<number> {
+  let posted = 0
+  for (const rule of rules) {
+    if (rule.paused || !rule.nextDueDate) continue
+    const anchorDay = parseDate(rule.startDate).d
+    let next: string | undefined = rule.nextDueDate
+    let count = rule.occurrenceCount
+    let steps = 0
+    while (next && next <= today && steps < MAX_CATCH_UP_PER_RULE) {
+      await postOccurrenceFn(rule, next)
+      count += 1
+      posted += 1
+      steps += 1
+      const lastPostedDate: string = next
+      const candidate = addPeriod(next, rule.frequency, rule.interval, anchorDay)
+      next = isFinished({ ...rule, occurrenceCount: count }, candidate) ? undefined : candidate
+      updateProgressFn(rule.id, { occurrenceCount: count, nextDueDate: next, lastPostedDate })
+    }
+  }
+  return posted
+}
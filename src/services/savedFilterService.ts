@@ -0,0 +1,62 @@
+import type { SavedFilter, SavedFilterFormData } from '@/types/savedFilter'
+
+const STORAGE_KEY = 'financial_tracker_saved_filters'
+
+function generateId(): string {
+  return `filter-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function getSavedFilters(): SavedFilter[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveSavedFilters(filters: SavedFilter[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(filters))
+}
+
+/** Saved filters in the order they were created. */
+export function getAllSavedFilters(): SavedFilter[] {
+  return getSavedFilters().sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export function createSavedFilter(data: SavedFilterFormData): SavedFilter {
+  const filters = getSavedFilters()
+  const now = new Date().toISOString()
+  const filter: SavedFilter = {
+    id: generateId(),
+    name: data.name.trim(),
+    query: data.query.trim(),
+    pinned: data.pinned,
+    createdAt: now,
+    updatedAt: now,
+  }
+  filters.push(filter)
+  saveSavedFilters(filters)
+  return filter
+}
+
+export function updateSavedFilter(id: string, data: Partial<SavedFilterFormData>): SavedFilter {
+  const filters = getSavedFilters()
+  const idx = filters.findIndex((f) => f.id === id)
+  if (idx === -1) throw new Error(`Saved filter ${id} not found`)
+  const updated: SavedFilter = {
+    ...filters[idx]!,
+    ...(data.name !== undefined && { name: data.name.trim() }),
+    ...(data.query !== undefined && { query: data.query.trim() }),
+    ...(data.pinned !== undefined && { pinned: data.pinned }),
+    updatedAt: new Date().toISOString(),
+  }
+  filters[idx] = updated
+  saveSavedFilters(filters)
+  return updated
+}
+
+export function deleteSavedFilter(id: string): void {
+  saveSavedFilters(getSavedFilters().filter((f) => f.id !== id))
+}
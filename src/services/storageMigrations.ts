@@ -0,0 +1,204 @@
+import { MAIN_POCKET_ID } from '@/services/pocketService'
+import { DEFAULT_POCKET_COLOR } from '@/utils/pocketColors'
+import {
+  BUILT_IN_CATEGORY_IDS,
+  DEFAULT_CATEGORY_COLOR,
+  DEFAULT_CATEGORY_ICON,
+  invalidateCategoryCache,
+  legacyCategoryId,
+} from '@/services/categoryService'
+import { getMeta, getTablesByLegacyKey, replaceTableByLegacyKey, setMeta } from '@/services/localDatabase'
+
+/**
+ * Versioned migrations for everything stored under `financial_tracker_*`.
+ *
+ * Each migration edits a snapshot of the parsed values (keyed by storage key), so the
+ * same steps upgrade this device's storage at boot and old export files before import.
+ * Lists that moved to the on-device database (localDatabase) appear under the
+ * localStorage key they replaced, always as arrays of records.
+ * To change a stored shape, append a migration with the next version; never edit or
+ * reorder shipped ones.
+ */
+
+const KEY_PREFIX = 'financial_tracker_'
+const VERSION_KEY = 'financial_tracker_schema_version'
+/** Kept in the database's meta store; the localStorage fallback key is outside the data prefix. */
+const BACKUP_KEY = 'migrationBackup'
+const BACKUP_FALLBACK_KEY = 'storage_migration_backup'
+
+const TRANSACTIONS_KEY = 'financial_tracker_transactions'
+const POCKETS_KEY = 'financial_tracker_pockets'
+const GOALS_KEY = 'financial_tracker_goals'
+const CATEGORIES_KEY = 'financial_tracker_categories'
+const BUDGETS_KEY = 'financial_tracker_budgets'
+const RECURRING_RULES_KEY = 'financial_tracker_recurring_rules'
+const CATEGORY_RULES_KEY = 'financial_tracker_category_rules'
+
+/** Parsed values keyed by storage key; migrations edit it in place. */
+export type StorageSnapshot = Record<string, unknown>
+
+interface StorageMigration {
+  version: number
+  description: string
+  migrate(data: StorageSnapshot): void
+}
+
+export interface MigrationBackup {
+  /** Schema version the backed-up data was in. */
+  version: number
+  createdAt: string
+  /** Serialized values by storage key. */
+  data: Record<string, string>
+}
+
+function records(data: StorageSnapshot, key: string): Record<string, unknown>[] {
+  const value = data[key]
+  return Array.isArray(value) ? value : []
+}
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Transactions from before pockets belong to the main pocket',
+    migrate(data) {
+      for (const t of records(data, TRANSACTIONS_KEY)) {
+        if (!t.pocketId) t.pocketId = MAIN_POCKET_ID
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Pockets and goals from before colors get the default color',
+    migrate(data) {
+      for (const item of [...records(data, POCKETS_KEY), ...records(data, GOALS_KEY)]) {
+        if (!item.color) item.color = DEFAULT_POCKET_COLOR
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Categories are stored by id; names without a built-in match become custom categories',
+    migrate(data) {
+      const categories = records(data, CATEGORIES_KEY)
+      const idsByName = new Map<string, string>()
+      for (const c of categories) {
+        if (typeof c.name === 'string' && c.name) idsByName.set(c.name.toLowerCase(), c.id as string)
+      }
+      const now = new Date().toISOString()
+      const toId = (value: unknown): unknown => {
+        if (typeof value !== 'string' || !value.trim()) return value
+        if (BUILT_IN_CATEGORY_IDS.includes(value) || categories.some((c) => c.id === value)) return value
+        const builtIn = legacyCategoryId(value)
+        if (builtIn) return builtIn
+        const name = value.trim()
+        let id = idsByName.get(name.toLowerCase())
+        if (!id) {
+          id = `cat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+          categories.push({
+            id,
+            name,
+            icon: DEFAULT_CATEGORY_ICON,
+            color: DEFAULT_CATEGORY_COLOR,
+            archived: false,
+            builtIn: false,
+            createdAt: now,
+            updatedAt: now,
+          })
+          idsByName.set(name.toLowerCase(), id)
+        }
+        return id
+      }
+
+      for (const t of records(data, TRANSACTIONS_KEY)) {
+        t.category = toId(t.category)
+        if (!Array.isArray(t.splits)) continue
+        for (const line of t.splits as Record<string, unknown>[]) line.category = toId(line.category)
+      }
+      for (const key of [BUDGETS_KEY, RECURRING_RULES_KEY, CATEGORY_RULES_KEY]) {
+        for (const item of records(data, key)) item.category = toId(item.category)
+      }
+      if (categories.length > 0) data[CATEGORIES_KEY] = categories
+    },
+  },
+]
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0
+
+/** Stored schema version; 0 means data from before versioning. */
+export function getSchemaVersion(): number {
+  const stored = Number(localStorage.getItem(VERSION_KEY))
+  return Number.isInteger(stored) && stored > 0 ? stored : 0
+}
+
+/** Run every migration newer than `fromVersion` on the snapshot, in order. Returns the new version. */
+export function migrateSnapshot(data: StorageSnapshot, fromVersion: number): number {
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue
+    migration.migrate(data)
+  }
+  return Math.max(fromVersion, CURRENT_SCHEMA_VERSION)
+}
+
+function parse(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    // Some keys hold plain strings (e.g. the theme)
+    return raw
+  }
+}
+
+function readDataKeys(): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || !key.startsWith(KEY_PREFIX) || key === VERSION_KEY) continue
+    const value = localStorage.getItem(key)
+    if (value != null) out[key] = value
+  }
+  return out
+}
+
+export function getMigrationBackup(): Promise<MigrationBackup | null> {
+  return getMeta<MigrationBackup>(BACKUP_KEY, BACKUP_FALLBACK_KEY)
+}
+
+/**
+ * Upgrade this device's storage to CURRENT_SCHEMA_VERSION. Call at boot, after
+ * initLocalDatabase and before any store reads. The pre-migration values are backed up
+ * first (one backup, replaced on the next upgrade). A fresh install only records the version.
+ */
+export async function runStorageMigrations(): Promise<{ from: number; to: number }> {
+  const from = getSchemaVersion()
+  if (from >= CURRENT_SCHEMA_VERSION) return { from, to: from }
+
+  const tables = getTablesByLegacyKey()
+  const raw: Record<string, string> = { ...readDataKeys() }
+  for (const [key, records] of Object.entries(tables)) {
+    if (records.length > 0) raw[key] = JSON.stringify(records)
+  }
+  if (Object.keys(raw).length > 0) {
+    const backup: MigrationBackup = { version: from, createdAt: new Date().toISOString(), data: raw }
+    try {
+      await setMeta(BACKUP_KEY, backup, BACKUP_FALLBACK_KEY)
+    } catch (err) {
+      // Storage full: migrate anyway, the app cannot read the old shapes
+      console.error('Could not back up storage before migrating:', err)
+    }
+
+    const data: StorageSnapshot = Object.fromEntries(Object.entries(raw).map(([k, v]) => [k, parse(v)]))
+    const before = Object.fromEntries(Object.entries(data).map(([k, v]) => [k, JSON.stringify(v)]))
+    migrateSnapshot(data, from)
+    // Only keys a migration touched are written back
+    for (const [key, value] of Object.entries(data)) {
+      const next = JSON.stringify(value)
+      if (next === before[key]) continue
+      if (key in tables) replaceTableByLegacyKey(key, value as { id: string }[])
+      else localStorage.setItem(key, next)
+    }
+    invalidateCategoryCache()
+  }
+
+  localStorage.setItem(VERSION_KEY, String(CURRENT_SCHEMA_VERSION))
+  return { from, to: CURRENT_SCHEMA_VERSION }
+}
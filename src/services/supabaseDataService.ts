@@ -0,0 +1,175 @@
+import type { Pocket } from '@/types/pocket'
+import type { CompoundingFrequency, Goal, ReturnRateChange } from '@/types/goal'
+import { supabase } from '@/services/supabase'
+import * as pocketService from '@/services/pocketService'
+import * as goalService from '@/services/goalService'
+import {
+  fetchRemoteTransactions,
+  getLocalTransactions,
+  replaceLocalTransactions,
+  toTransactionRow,
+  TRANSACTIONS_TABLE,
+} from '@/services/transactionService'
+import { DEFAULT_CURRENCY } from '@/utils/currency'
+
+/**
+ * Supabase tables for pockets and goals, plus the bulk copies used when switching backends.
+ * Day-to-day changes are not written here: the device copy is the working copy and
+ * syncService pushes the outbox and pulls other devices' changes.
+ */
+
+export const POCKETS_TABLE = 'pockets'
+export const GOALS_TABLE = 'goals'
+const UPSERT_CHUNK_SIZE = 500
+/** Rows are unique per user, not globally (e.g. every user has "main-pocket"). */
+const ON_CONFLICT = 'user_id,id'
+
+export interface PocketRow {
+  id: string
+  name: string
+  icon: string
+  type: Pocket['type']
+  color: string | null
+  currency: string
+  created_at: string
+  updated_at: string
+}
+
+export interface GoalRow {
+  id: string
+  name: string
+  icon: string
+  target_amount: number
+  duration_months: number
+  color: string | null
+  type: NonNullable<Goal['type']>
+  annual_return_percentage: number | null
+  return_rate_changes: ReturnRateChange[] | null
+  compounding: CompoundingFrequency | null
+  volatility_percentage: number | null
+  last_return_calculation_date: string | null
+  created_at: string
+  updated_at: string
+}
+
+export function toPocketRow(p: Pocket): PocketRow {
+  return {
+    id: p.id,
+    name: p.name,
+    icon: p.icon,
+    type: p.type,
+    color: p.color ?? null,
+    currency: p.currency ?? DEFAULT_CURRENCY,
+    created_at: p.createdAt,
+    updated_at: new Date().toISOString(),
+  }
+}
+
+export function fromPocketRow(row: PocketRow): Pocket {
+  return {
+    id: row.id,
+    name: row.name,
+    icon: row.icon,
+    type: row.type,
+    // Balances are always derived from transactions
+    balance: 0,
+    createdAt: row.created_at,
+    ...(row.color && { color: row.color }),
+    currency: row.currency as Pocket['currency'],
+  }
+}
+
+export function toGoalRow(g: Goal): GoalRow {
+  return {
+    id: g.id,
+    name: g.name,
+    icon: g.icon,
+    target_amount: g.targetAmount,
+    duration_months: g.durationMonths,
+    color: g.color ?? null,
+    type: g.type ?? 'saving',
+    annual_return_percentage: g.annualReturnPercentage ?? null,
+    return_rate_changes: g.returnRateChanges ?? null,
+    compounding: g.compounding ?? null,
+    volatility_percentage: g.volatilityPercentage ?? null,
+    last_return_calculation_date: g.lastReturnCalculationDate ?? null,
+    created_at: g.createdAt,
+    updated_at: new Date().toISOString(),
+  }
+}
+
+export function fromGoalRow(row: GoalRow): Goal {
+  return {
+    id: row.id,
+    name: row.name,
+    icon: row.icon,
+    targetAmount: Number(row.target_amount),
+    durationMonths: row.duration_months,
+    currentBalance: 0,
+    createdAt: row.created_at,
+    ...(row.color && { color: row.color }),
+    type: row.type,
+    ...(row.annual_return_percentage != null && { annualReturnPercentage: Number(row.annual_return_percentage) }),
+    ...(row.return_rate_changes?.length && { returnRateChanges: row.return_rate_changes }),
+    ...(row.compounding && { compounding: row.compounding }),
+    ...(row.volatility_percentage != null && { volatilityPercentage: Number(row.volatility_percentage) }),
+    ...(row.last_return_calculation_date && { lastReturnCalculationDate: row.last_return_calculation_date }),
+  }
+}
+
+async function upsertRows(table: string, rows: object[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: ON_CONFLICT })
+    if (error) throw new Error(error.message)
+  }
+}
+
+export async function fetchRemotePockets(): Promise<Pocket[]> {
+  const { data, error } = await supabase
+    .from(POCKETS_TABLE)
+    .select('*')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return ((data ?? []) as PocketRow[]).map(fromPocketRow)
+}
+
+export async function fetchRemoteGoals(): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from(GOALS_TABLE)
+    .select('*')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return ((data ?? []) as GoalRow[]).map(fromGoalRow)
+}
+
+/**
+ * Copy everything on this device to the signed-in account (when turning the Supabase backend on).
+ * Upserts by id, so running it twice, or from a second device, does not duplicate rows.
+ * Uploaded rows carry no field timestamps, so any later edit on another device wins over them.
+ */
+export async function uploadLocalData(deviceId: string): Promise<void> {
+  const syncColumns = { field_updated_at: {}, updated_by: deviceId, deleted_at: null }
+  pocketService.ensureMainPocket()
+  await upsertRows(POCKETS_TABLE, pocketService.getAllPockets().map((p) => ({ ...toPocketRow(p), ...syncColumns })))
+  await upsertRows(GOALS_TABLE, goalService.getAllGoals().map((g) => ({ ...toGoalRow(g), ...syncColumns })))
+  await upsertRows(
+    TRANSACTIONS_TABLE,
+    getLocalTransactions().map((t) => ({ ...toTransactionRow(t), ...syncColumns })),
+  )
+}
+
+/** Copy the account's data onto this device (when turning the Supabase backend off). */
+export async function downloadRemoteData(): Promise<void> {
+  const [pockets, goals, transactions] = await Promise.all([
+    fetchRemotePockets(),
+    fetchRemoteGoals(),
+    fetchRemoteTransactions(),
+  ])
+  if (pockets.length > 0) pocketService.replaceAllPockets(pockets)
+  goalService.replaceAllGoals(goals)
+  replaceLocalTransactions(transactions)
+}
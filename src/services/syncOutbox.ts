@@ -0,0 +1,113 @@
+import type { SyncEntity, SyncMutation } from '@/types/sync'
+import { isSupabaseBackend } from '@/services/dataBackend'
+
+const OUTBOX_KEY = 'financial_tracker_sync_outbox'
+
+/** Derived or bookkeeping fields that are never synced. */
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'balance', 'currentBalance'])
+
+type Listener = () => void
+const listeners = new Set<Listener>()
+
+function generateId(): string {
+  return `sync-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function getOutbox(): SyncMutation[] {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+function saveOutbox(outbox: SyncMutation[]): void {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox))
+}
+
+/**
+ * Drop a pushed mutation. Kept when the record changed again while it was being
+ * pushed (changedAt moved on), so that newer edit goes out on the next sync.
+ */
+export function removeMutation(pushed: SyncMutation): void {
+  saveOutbox(getOutbox().filter((m) => m.id !== pushed.id || m.changedAt !== pushed.changedAt))
+}
+
+export function clearOutbox(): void {
+  localStorage.removeItem(OUTBOX_KEY)
+}
+
+/** Record ids with unsent changes; pulls leave those records alone. */
+export function pendingRecordIds(entity: SyncEntity): Set<string> {
+  return new Set(getOutbox().filter((m) => m.entity === entity).map((m) => m.recordId))
+}
+
+/** Called after new mutations are queued (the sync engine schedules a push). */
+export function onOutboxChange(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+function changedFields(prev: object | undefined, next: object): string[] {
+  const a = (prev ?? {}) as Record<string, unknown>
+  const b = next as Record<string, unknown>
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(keys).filter(
+    (k) => !IGNORED_FIELDS.has(k) && JSON.stringify(a[k]) !== JSON.stringify(b[k]),
+  )
+}
+
+function queueUpsert(outbox: SyncMutation[], entity: SyncEntity, recordId: string, fields: string[], now: string) {
+  const existing = outbox.find((m) => m.entity === entity && m.recordId === recordId)
+  const stamps = Object.fromEntries(fields.map((f) => [f, now]))
+  if (!existing) {
+    outbox.push({ id: generateId(), entity, recordId, op: 'upsert', fieldChangedAt: stamps, changedAt: now })
+    return
+  }
+  // A record re-created after a pending delete is sent as a fresh upsert
+  existing.fieldChangedAt = existing.op === 'delete' ? stamps : { ...existing.fieldChangedAt, ...stamps }
+  existing.op = 'upsert'
+  existing.changedAt = now
+}
+
+function queueDelete(outbox: SyncMutation[], entity: SyncEntity, recordId: string, now: string) {
+  const existing = outbox.find((m) => m.entity === entity && m.recordId === recordId)
+  if (!existing) {
+    outbox.push({ id: generateId(), entity, recordId, op: 'delete', fieldChangedAt: {}, changedAt: now })
+    return
+  }
+  existing.op = 'delete'
+  existing.fieldChangedAt = {}
+  existing.changedAt = now
+}
+
+/**
+ * Queue the difference between two versions of a stored list.
+ * Called from each service's save function, so every mutation path is covered.
+ * No-op unless the Supabase backend is on.
+ */
+export function recordChanges<T extends { id: string }>(entity: SyncEntity, before: T[], after: T[]): void {
+  if (!isSupabaseBackend()) return
+  const now = new Date().toISOString()
+  const prevById = new Map(before.map((r) => [r.id, r]))
+  const nextIds = new Set<string>()
+  const outbox = getOutbox()
+  let changed = false
+  for (const record of after) {
+    nextIds.add(record.id)
+    const fields = changedFields(prevById.get(record.id), record)
+    if (fields.length === 0) continue
+    queueUpsert(outbox, entity, record.id, fields, now)
+    changed = true
+  }
+  for (const record of before) {
+    if (nextIds.has(record.id)) continue
+    queueDelete(outbox, entity, record.id, now)
+    changed = true
+  }
+  if (!changed) return
+  saveOutbox(outbox)
+  listeners.forEach((listener) => listener())
+}
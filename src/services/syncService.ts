@@ -0,0 +1,374 @@
+import type { SyncConflict, SyncEntity, SyncMutation, SyncResult, SyncState } from '@/types/sync'
+import type { Transaction } from '@/types/transaction'
+import type { Pocket } from '@/types/pocket'
+import type { Goal } from '@/types/goal'
+import { supabase } from '@/services/supabase'
+import * as pocketService from '@/services/pocketService'
+import * as goalService from '@/services/goalService'
+import {
+  fromTransactionRow,
+  getLocalTransactions,
+  replaceLocalTransactions,
+  toTransactionRow,
+  TRANSACTIONS_TABLE,
+  type TransactionRow,
+} from '@/services/transactionService'
+import {
+  fromGoalRow,
+  fromPocketRow,
+  GOALS_TABLE,
+  POCKETS_TABLE,
+  toGoalRow,
+  toPocketRow,
+  type GoalRow,
+  type PocketRow,
+} from '@/services/supabaseDataService'
+import { clearOutbox, getOutbox, pendingRecordIds, removeMutation } from '@/services/syncOutbox'
+
+/**
+ * Offline-first sync for transactions, pockets and goals (Supabase backend).
+ *
+ * Every save on the device queues its field changes in the outbox (syncOutbox).
+ * A sync pushes the outbox oldest first, then pulls rows other devices changed
+ * since the last pull. When both sides changed a field since then, the later
+ * change wins (last-writer-wins per field) and the conflict is logged.
+ */
+
+const STATE_KEY = 'financial_tracker_sync_state'
+const CONFLICTS_KEY = 'financial_tracker_sync_conflicts'
+const MAX_CONFLICTS = 200
+const PAGE_SIZE = 1000
+
+/** Columns the sync queue keeps next to each row (supabase/migrations/update_user_data_tables_for_sync.sql). */
+interface SyncColumns {
+  field_updated_at?: Record<string, string> | null
+  updated_by?: string | null
+  deleted_at?: string | null
+  updated_at: string
+}
+
+type SyncRecord = { id: string } & Record<string, unknown>
+
+interface EntityAdapter {
+  table: string
+  getLocal(): SyncRecord[]
+  replaceLocal(records: SyncRecord[]): void
+  toRow(record: SyncRecord): object
+  fromRow(row: object): SyncRecord
+  label(record: SyncRecord): string
+}
+
+function adapter<T extends { id: string }, R>(config: {
+  table: string
+  getLocal(): T[]
+  replaceLocal(records: T[]): void
+  toRow(record: T): R
+  fromRow(row: R): T
+  label(record: T): string
+}): EntityAdapter {
+  return config as unknown as EntityAdapter
+}
+
+const ADAPTERS: Record<SyncEntity, EntityAdapter> = {
+  transaction: adapter<Transaction, TransactionRow>({
+    table: TRANSACTIONS_TABLE,
+    getLocal: getLocalTransactions,
+    replaceLocal: replaceLocalTransactions,
+    toRow: toTransactionRow,
+    fromRow: fromTransactionRow,
+    label: (t) => t.description,
+  }),
+  pocket: adapter<Pocket, PocketRow>({
+    table: POCKETS_TABLE,
+    getLocal: pocketService.getAllPockets,
+    replaceLocal: pocketService.replaceAllPockets,
+    toRow: toPocketRow,
+    fromRow: fromPocketRow,
+    label: (p) => `${p.icon} ${p.name}`,
+  }),
+  goal: adapter<Goal, GoalRow>({
+    table: GOALS_TABLE,
+    getLocal: goalService.getAllGoals,
+    replaceLocal: goalService.replaceAllGoals,
+    toRow: toGoalRow,
+    fromRow: fromGoalRow,
+    label: (g) => `${g.icon} ${g.name}`,
+  }),
+}
+
+const ENTITIES: SyncEntity[] = ['pocket', 'goal', 'transaction']
+
+function generateId(): string {
+  return `conflict-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function getSyncState(): SyncState {
+  try {
+    const stored = localStorage.getItem(STATE_KEY)
+    const raw = stored ? JSON.parse(stored) : null
+    return raw && typeof raw === 'object' ? { cursors: {}, ...raw } : { cursors: {} }
+  } catch {
+    return { cursors: {} }
+  }
+}
+
+function saveSyncState(state: SyncState): void {
+  localStorage.setItem(STATE_KEY, JSON.stringify(state))
+}
+
+export function getConflicts(): SyncConflict[] {
+  try {
+    const stored = localStorage.getItem(CONFLICTS_KEY)
+    const raw = stored ? JSON.parse(stored) : []
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+export function clearConflicts(): void {
+  localStorage.removeItem(CONFLICTS_KEY)
+}
+
+/** Newest first, capped so the log cannot grow without bound. Returns how many were logged. */
+function logConflicts(conflicts: Omit<SyncConflict, 'id' | 'resolvedAt'>[]): number {
+  if (conflicts.length === 0) return 0
+  const resolvedAt = new Date().toISOString()
+  const entries = conflicts.map((c) => ({ ...c, id: generateId(), resolvedAt }))
+  localStorage.setItem(CONFLICTS_KEY, JSON.stringify([...entries, ...getConflicts()].slice(0, MAX_CONFLICTS)))
+  return entries.length
+}
+
+/** Forget the outbox and pull cursors (when the Supabase backend is turned on or off). */
+export function resetSync(): void {
+  clearOutbox()
+  localStorage.removeItem(STATE_KEY)
+}
+
+function time(iso: string | null | undefined): number {
+  return iso ? new Date(iso).getTime() : 0
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function putLocal(entity: SyncEntity, record: SyncRecord): void {
+  const { getLocal, replaceLocal } = ADAPTERS[entity]
+  const list = getLocal()
+  const index = list.findIndex((r) => r.id === record.id)
+  if (index === -1) list.push(record)
+  else list[index] = record
+  replaceLocal(list)
+}
+
+function removeLocal(entity: SyncEntity, id: string): void {
+  const { getLocal, replaceLocal } = ADAPTERS[entity]
+  replaceLocal(getLocal().filter((r) => r.id !== id))
+}
+
+/**
+ * Another device wrote the row after our last pull. Only then can a field
+ * have changed on both sides; otherwise the remote values are ones we already had.
+ */
+function changedElsewhere(row: SyncColumns, entity: SyncEntity, state: SyncState, deviceId: string): boolean {
+  return row.updated_by !== deviceId && time(row.updated_at) > time(state.cursors[entity])
+}
+
+async function fetchRow(table: string, id: string): Promise<(SyncColumns & object) | null> {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle()
+  if (error) throw new Error(error.message)
+  return data as (SyncColumns & object) | null
+}
+
+async function writeRow(table: string, id: string, row: object, exists: boolean): Promise<void> {
+  const { error } = exists
+    ? await supabase.from(table).update(row).eq('id', id)
+    : await supabase.from(table).insert(row)
+  if (error) throw new Error(error.message)
+}
+
+/** Returns the number of conflicts logged. */
+async function pushUpsert(m: SyncMutation, state: SyncState, deviceId: string): Promise<number> {
+  const { table, getLocal, toRow, fromRow, label } = ADAPTERS[m.entity]
+  const current = getLocal().find((r) => r.id === m.recordId)
+  // Deleted on this device since; the delete is queued under the same record
+  if (!current) return 0
+  // Round-trip so values compare the way they are stored (e.g. dates without time)
+  const local = fromRow(toRow(current))
+  const row = await fetchRow(table, m.recordId)
+  const syncColumns = { updated_by: deviceId, deleted_at: null }
+
+  if (!row) {
+    await writeRow(table, m.recordId, { ...toRow(local), ...syncColumns, field_updated_at: m.fieldChangedAt }, false)
+    return 0
+  }
+
+  const remote = fromRow(row)
+  const concurrent = changedElsewhere(row, m.entity, state, deviceId)
+  const lastLocalChange = Object.values(m.fieldChangedAt).sort().pop() ?? m.changedAt
+
+  if (row.deleted_at) {
+    if (concurrent && time(row.deleted_at) > time(lastLocalChange)) {
+      // Deleted on another device after our edit: the delete wins
+      removeLocal(m.entity, m.recordId)
+      return logConflicts([{
+        entity: m.entity, recordId: m.recordId, label: label(local), field: '*',
+        localValue: null, remoteValue: 'deleted', localChangedAt: lastLocalChange,
+        remoteChangedAt: row.deleted_at, winner: 'remote',
+      }])
+    }
+    // Edited here after it was deleted elsewhere: restore it with our copy
+    const stamps = { ...(row.field_updated_at ?? {}), ...m.fieldChangedAt }
+    await writeRow(table, m.recordId, { ...toRow(local), ...syncColumns, field_updated_at: stamps }, true)
+    if (!concurrent) return 0
+    return logConflicts([{
+      entity: m.entity, recordId: m.recordId, label: label(local), field: '*',
+      localValue: null, remoteValue: 'deleted', localChangedAt: lastLocalChange,
+      remoteChangedAt: row.deleted_at, winner: 'local',
+    }])
+  }
+
+  const remoteStamps = row.field_updated_at ?? {}
+  const pulledAt = time(state.cursors[m.entity])
+  const merged: SyncRecord = { ...remote }
+  const mergedStamps = { ...remoteStamps }
+  const conflicts: Omit<SyncConflict, 'id' | 'resolvedAt'>[] = []
+  for (const [field, localAt] of Object.entries(m.fieldChangedAt)) {
+    const remoteAt = remoteStamps[field]
+    // Equal timestamps: the higher device id wins, so every device settles on the same value
+    const localWins =
+      !remoteAt || time(localAt) > time(remoteAt) || (localAt === remoteAt && deviceId > (row.updated_by ?? ''))
+    if (localWins) {
+      if (local[field] === undefined) delete merged[field]
+      else merged[field] = local[field]
+      mergedStamps[field] = localAt
+    }
+    // Only fields the other device changed since our last pull were edited on both sides
+    if (concurrent && remoteAt && time(remoteAt) > pulledAt && !sameValue(local[field], remote[field])) {
+      conflicts.push({
+        entity: m.entity, recordId: m.recordId, label: label(local), field,
+        localValue: local[field] ?? null, remoteValue: remote[field] ?? null,
+        localChangedAt: localAt, remoteChangedAt: remoteAt, winner: localWins ? 'local' : 'remote',
+      })
+    }
+  }
+
+  await writeRow(table, m.recordId, { ...toRow(merged), ...syncColumns, field_updated_at: mergedStamps }, true)
+  // The merged row is the latest version of the record, including fields another device changed
+  if (!sameValue(merged, current)) putLocal(m.entity, merged)
+  return logConflicts(conflicts)
+}
+
+async function pushDelete(m: SyncMutation, state: SyncState, deviceId: string): Promise<number> {
+  const { table, fromRow, label } = ADAPTERS[m.entity]
+  const row = await fetchRow(table, m.recordId)
+  if (!row || row.deleted_at) return 0
+
+  const lastRemoteChange = Object.values(row.field_updated_at ?? {}).sort().pop()
+  let logged = 0
+  if (changedElsewhere(row, m.entity, state, deviceId) && lastRemoteChange) {
+    const remote = fromRow(row)
+    const remoteWins = time(lastRemoteChange) > time(m.changedAt)
+    logged = logConflicts([{
+      entity: m.entity, recordId: m.recordId, label: label(remote), field: '*',
+      localValue: 'deleted', remoteValue: null, localChangedAt: m.changedAt,
+      remoteChangedAt: lastRemoteChange, winner: remoteWins ? 'remote' : 'local',
+    }])
+    // Edited on another device after our delete: keep the record
+    if (remoteWins) {
+      putLocal(m.entity, remote)
+      return logged
+    }
+  }
+
+  const { error } = await supabase
+    .from(table)
+    .update({ deleted_at: m.changedAt, updated_by: deviceId })
+    .eq('id', m.recordId)
+  if (error) throw new Error(error.message)
+  return logged
+}
+
+/** Apply rows changed since the entity's cursor; records with unsent changes are left alone. */
+async function pullEntity(entity: SyncEntity, state: SyncState): Promise<number> {
+  const { table, getLocal, replaceLocal, fromRow } = ADAPTERS[entity]
+  const cursor = state.cursors[entity]
+  const rows: (SyncColumns & { id: string })[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select('*')
+    if (cursor) query = query.gt('updated_at', cursor)
+    const { data, error } = await query
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    const page = (data ?? []) as (SyncColumns & { id: string })[]
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) break
+  }
+  if (rows.length === 0) return 0
+
+  const pending = pendingRecordIds(entity)
+  const byId = new Map(getLocal().map((r) => [r.id, r]))
+  let applied = 0
+  for (const row of rows) {
+    if (pending.has(row.id)) continue
+    if (row.deleted_at) {
+      if (byId.delete(row.id)) applied++
+      continue
+    }
+    const remote = fromRow(row)
+    const existing = byId.get(row.id)
+    if (existing && sameValue(remote, existing)) continue
+    byId.set(row.id, remote)
+    applied++
+  }
+  if (applied > 0) replaceLocal(Array.from(byId.values()))
+  // The cursor stops before the first skipped row, so it is pulled again after our push and
+  // another device's change to it still counts as concurrent
+  const skipped = rows.find((row) => pending.has(row.id))
+  const last = skipped ? rows.filter((row) => row.updated_at < skipped.updated_at).pop() : rows[rows.length - 1]
+  if (last) state.cursors[entity] = last.updated_at
+  return applied
+}
+
+let running: Promise<SyncResult> | null = null
+
+/**
+ * Push the outbox, then pull. Concurrent calls share one run.
+ * Stops at the first failed push (e.g. offline) and keeps the rest queued.
+ */
+export function runSync(deviceId: string): Promise<SyncResult> {
+  if (!running) {
+    running = sync(deviceId).finally(() => {
+      running = null
+    })
+  }
+  return running
+}
+
+async function sync(deviceId: string): Promise<SyncResult> {
+  const state = getSyncState()
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0 }
+  try {
+    const outbox = [...getOutbox()].sort((a, b) => a.changedAt.localeCompare(b.changedAt))
+    for (const m of outbox) {
+      result.conflicts +=
+        m.op === 'delete' ? await pushDelete(m, state, deviceId) : await pushUpsert(m, state, deviceId)
+      removeMutation(m)
+      result.pushed++
+    }
+    for (const entity of ENTITIES) {
+      result.pulled += await pullEntity(entity, state)
+    }
+    state.lastSyncedAt = new Date().toISOString()
+    delete state.lastError
+  } catch (err) {
+    state.lastError = err instanceof Error ? err.message : String(err)
+    throw err
+  } finally {
+    saveSyncState(state)
+  }
+  return result
+}
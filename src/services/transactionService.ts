@@ -1,5 +1,15 @@
 import type { Transaction, TransactionFormData, TransactionFilters } from '@/types/transaction'
 import { getPocketById, MAIN_POCKET_ID } from '@/services/pocketService'
+import { pendingRecordIds, recordChanges } from '@/services/syncOutbox'
+import { isSupabaseBackend } from '@/services/dataBackend'
+import { transactionsTable } from '@/services/localDatabase'
+import { supabase } from '@/services/supabase'
+import { resolveCategoryId } from '@/services/categoryService'
+import { hasAttachment } from '@/services/attachmentService'
+import { getCategoryLines, hasCategory, normalizeSplits, primaryCategory, validateSplits } from '@/utils/transactionSplits'
+import { getCategoryName } from '@/utils/categoryIcons'
+import { hasAnyTag, normalizeTags } from '@/utils/tags'
+import { normalizeMerchantName } from '@/utils/merchants'
 
 /** Prefix in description for income created from transfer when source pocket was deleted. UI shows i18n with pocket name. */
 export const DESC_PREFIX_TRANSFER_FROM_DELETED = '__transfer_from_deleted__:'
@@ -15,18 +25,18 @@ export interface ITransactionService {
   getAll(): Promise<Transaction[]>
   getById(id: string): Promise<Transaction | null>
   create(data: TransactionFormData): Promise<Transaction>
-  createTransfer(fromPocketId: string, toPocketId: string, amount: number): Promise<Transaction>
-  createTransferToGoal(fromPocketId: string, toGoalId: string, amount: number): Promise<Transaction>
-  createWithdrawalFromGoal(fromGoalId: string, toPocketId: string, amount: number): Promise<Transaction>
+  /** Create several transactions in one write (statement import). */
+  createMany(data: TransactionFormData[]): Promise<Transaction[]>
+  createTransfer(fromPocketId: string, toPocketId: string, amount: number, toAmount?: number): Promise<Transaction>
+  createTransferToGoal(fromPocketId: string, toGoalId: string, amount: number, toAmount?: number): Promise<Transaction>
+  createWithdrawalFromGoal(fromGoalId: string, toPocketId: string, amount: number, toAmount?: number): Promise<Transaction>
+  createLiabilityPayment(fromPocketId: string, liabilityId: string, amount: number, toAmount?: number): Promise<Transaction>
   update(id: string, data: Partial<TransactionFormData>): Promise<Transaction>
   delete(id: string): Promise<void>
   deleteByPocketId(pocketId: string): Promise<void>
   getByFilters(filters: TransactionFilters): Promise<Transaction[]>
-  migratePocketIds(mainPocketId: string): void
 }
 
-const STORAGE_KEY = 'financial_tracker_transactions'
-
 /**
  * Generates a unique ID for transactions
  */
@@ -35,35 +45,275 @@ function generateId(): string {
 }
 
 /**
- * LocalStorage Transaction Service
- * Implements ITransactionService using localStorage
- * Can be easily replaced with an API service
+ * Validate that date is not in the future
  */
-class LocalStorageTransactionService implements ITransactionService {
-  private getTransactions(): Transaction[] {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      const parsed = stored ? JSON.parse(stored) : []
-      return Array.isArray(parsed) ? parsed : []
-    } catch {
-      return []
+function validateDate(dateString: string): string {
+  if (!dateString) {
+    return new Date().toISOString().split('T')[0]
+  }
+  const date = new Date(dateString)
+  const today = new Date()
+  today.setHours(23, 59, 59, 999) // End of today
+  if (date > today) {
+    // Return today's date if future date is provided
+    return new Date().toISOString().split('T')[0]
+  }
+  return dateString
+}
+
+/**
+ * Split lines only apply to income/expense and must sum to the amount.
+ * Throws with the SplitValidationError code when they don't.
+ */
+function prepareSplits(
+  type: Transaction['type'],
+  amount: number,
+  splits: TransactionFormData['splits'],
+): Transaction['splits'] {
+  if (type === 'transfer') return undefined
+  const normalized = normalizeSplits(splits)
+  if (!normalized) return undefined
+  const error = validateSplits(amount, normalized)
+  if (error) throw new Error(error)
+  return normalized
+}
+
+/** Build a new income/expense transaction from form data. */
+function buildTransaction(data: TransactionFormData): Transaction {
+  const validatedDate = validateDate(data.date)
+  if (validatedDate !== data.date) {
+    console.warn(`Future date detected and corrected: ${data.date} -> ${validatedDate}`)
+  }
+  // Goals can only receive income transactions
+  if (data.goalId && data.type !== 'income') {
+    throw new Error('Goals can only receive income transactions')
+  }
+  const splits = prepareSplits(data.type, data.amount, data.splits)
+  const now = new Date().toISOString()
+  return {
+    id: generateId(),
+    type: data.type,
+    amount: data.amount,
+    description: data.description,
+    category: splits ? primaryCategory(splits) : data.category,
+    date: validatedDate,
+    pocketId: data.pocketId,
+    goalId: data.goalId,
+    recurringRuleId: data.recurringRuleId,
+    splits,
+    tags: normalizeTags(data.tags),
+    merchant: normalizeMerchantName(data.merchant ?? '') || undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/** Apply a partial update to an existing transaction. Transfer links are never changed here. */
+function applyUpdate(existing: Transaction, data: Partial<TransactionFormData>): Transaction {
+  // Validate and fix date if provided
+  const dateToUse = data.date ?? existing.date
+  const validatedDate = validateDate(dateToUse)
+  if (validatedDate !== dateToUse) {
+    console.warn(`Future date detected and corrected: ${dateToUse} -> ${validatedDate}`)
+  }
+
+  const type = (data.type ?? existing.type) as Transaction['type']
+  const amount = data.amount ?? existing.amount
+  const splits = prepareSplits(type, amount, 'splits' in data ? data.splits : existing.splits)
+
+  return {
+    id: existing.id,
+    type,
+    amount,
+    description: data.description ?? existing.description,
+    category: splits ? primaryCategory(splits) : (data.category ?? existing.category),
+    date: validatedDate,
+    pocketId: data.pocketId ?? existing.pocketId,
+    transferToPocketId: existing.transferToPocketId,
+    goalId: data.goalId ?? existing.goalId,
+    transferToGoalId: existing.transferToGoalId,
+    transferToAmount: existing.transferToAmount,
+    recurringRuleId: existing.recurringRuleId,
+    splits,
+    tags: 'tags' in data ? normalizeTags(data.tags) : existing.tags,
+    merchant: 'merchant' in data ? normalizeMerchantName(data.merchant ?? '') || undefined : existing.merchant,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+type TransferKind = 'pocket' | 'goal' | 'withdrawal' | 'liability'
+
+const TRANSFER_DESCRIPTIONS: Record<TransferKind, string> = {
+  pocket: 'Transfer to pocket',
+  goal: 'Allocation to goal',
+  withdrawal: 'Withdrawal from goal',
+  liability: 'Debt payment',
+}
+
+/**
+ * Build a transfer transaction. For withdrawals `sourceId` is the goal and the
+ * money lands in `targetId` (stored as both pocketId and transferToPocketId).
+ */
+function buildTransfer(
+  kind: TransferKind,
+  sourceId: string,
+  targetId: string,
+  amount: number,
+  toAmount?: number,
+): Transaction {
+  const now = new Date().toISOString()
+  const today = new Date().toISOString().split('T')[0]
+  const links =
+    kind === 'pocket'
+      ? { pocketId: sourceId, transferToPocketId: targetId }
+      : kind === 'goal'
+        ? { pocketId: sourceId, transferToGoalId: targetId }
+        : kind === 'liability'
+          ? { pocketId: sourceId, transferToLiabilityId: targetId }
+          : { pocketId: targetId, goalId: sourceId, transferToPocketId: targetId }
+  return {
+    id: generateId(),
+    type: 'transfer',
+    amount,
+    description: TRANSFER_DESCRIPTIONS[kind],
+    category: '',
+    date: today,
+    ...links,
+    ...(toAmount !== undefined && toAmount !== amount && { transferToAmount: toAmount }),
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/** Goal balance from deposits, allocations and withdrawals (used to guard withdrawals). */
+function computeGoalBalance(transactions: Transaction[], goalId: string): number {
+  let goalBalance = 0
+  for (const tx of transactions) {
+    if (tx.type === 'income' && tx.goalId === goalId) {
+      goalBalance += tx.amount
+    }
+    if (tx.type === 'transfer' && tx.transferToGoalId === goalId) {
+      goalBalance += tx.transferToAmount ?? tx.amount
+    }
+    if (tx.type === 'transfer' && tx.goalId === goalId && tx.transferToPocketId) {
+      goalBalance -= tx.amount
     }
   }
+  return goalBalance
+}
 
-  private saveTransactions(transactions: Transaction[]): void {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+/**
+ * When deleting a pocket, preserve balances that were transferred out:
+ * - Transfer FROM deleted pocket TO another: convert to income in target pocket so balance stays.
+ * - Transfer TO deleted pocket FROM another: convert to expense in source pocket (revert), then remove.
+ * - Other transactions in this pocket: remove.
+ */
+function planPocketDeletion(
+  transactions: Transaction[],
+  pocketId: string,
+): { idsToRemove: Set<string>; toAdd: Transaction[] } {
+  const idsToRemove = new Set<string>()
+  const toAdd: Transaction[] = []
+  const now = new Date().toISOString()
+  const deletedPocketName = getPocketById(pocketId)?.name ?? 'Pocket'
+
+  for (const t of transactions) {
+    if (t.pocketId === pocketId) {
+      if (t.type === 'transfer' && t.transferToPocketId && t.transferToPocketId !== pocketId) {
+        toAdd.push({
+          id: generateId(),
+          type: 'income',
+          amount: t.transferToAmount ?? t.amount,
+          description: `${DESC_PREFIX_TRANSFER_FROM_DELETED}${deletedPocketName}`,
+          category: '',
+          date: t.date,
+          pocketId: t.transferToPocketId,
+          createdAt: now,
+          updatedAt: now,
+        })
+      }
+      idsToRemove.add(t.id)
+    } else if (t.transferToPocketId === pocketId) {
+      toAdd.push({
+        id: generateId(),
+        type: 'expense',
+        amount: t.amount,
+        description: `${DESC_PREFIX_TRANSFER_REVERTED_DELETED}${deletedPocketName}`,
+        category: '',
+        date: t.date,
+        pocketId: t.pocketId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      idsToRemove.add(t.id)
+    }
   }
+  return { idsToRemove, toAdd }
+}
+
+/** Device copy of transactions, regardless of the active backend (used when switching backends and syncing). */
+export function getLocalTransactions(): Transaction[] {
+  return transactionsTable.all()
+}
+
+/** Writes without queueing sync changes (for data that came from Supabase). */
+export function replaceLocalTransactions(transactions: Transaction[]): void {
+  transactionsTable.replaceAll(transactions)
+}
 
-  migratePocketIds(mainPocketId: string): void {
-    const list = this.getTransactions()
-    let changed = false
-    const migrated = list.map((t) => {
-      const tx = t as Transaction & { pocketId?: string }
-      if (tx.pocketId) return t
-      changed = true
-      return { ...t, pocketId: mainPocketId } as Transaction
-    })
-    if (changed) this.saveTransactions(migrated)
+function matchesPocket(t: Transaction, value: string): boolean {
+  if (value.startsWith('goal:')) {
+    const goalId = value.slice(5)
+    return t.goalId === goalId || t.transferToGoalId === goalId
+  }
+  // Goal allocations and transfers into goals are listed under the goal
+  if (t.type === 'income' && t.goalId) return false
+  if (t.type === 'transfer' && t.transferToGoalId && t.pocketId === value) return false
+  return t.pocketId === value || t.transferToPocketId === value
+}
+
+/**
+ * Transactions matching every filter. Shared by both backends after their own indexed
+ * or server-side narrowing, so results are the same whichever runs the query.
+ */
+export function filterTransactions(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+  const words = (filters.text ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+  return transactions.filter((t) => {
+    const day = t.date.split('T')[0]!
+    if (filters.type && t.type !== filters.type) return false
+    if (filters.category && !hasCategory(t, filters.category)) return false
+    if (filters.categories?.length && !filters.categories.some((c) => hasCategory(t, c))) return false
+    if (filters.startDate && day < filters.startDate) return false
+    if (filters.endDate && day > filters.endDate) return false
+    if (filters.pocketId && t.pocketId !== filters.pocketId && t.transferToPocketId !== filters.pocketId) return false
+    if (filters.pocketIds?.length && !filters.pocketIds.some((p) => matchesPocket(t, p))) return false
+    if (filters.minAmount != null && t.amount < filters.minAmount) return false
+    if (filters.maxAmount != null && t.amount > filters.maxAmount) return false
+    if (filters.tags?.length && !hasAnyTag(t, filters.tags)) return false
+    if (filters.hasAttachment != null && hasAttachment(t.id) !== filters.hasAttachment) return false
+    if (words.length) {
+      const categories = getCategoryLines(t).map((line) => getCategoryName(line.category))
+      const haystack = [t.description, t.merchant ?? '', ...categories, ...(t.tags ?? [])].join(' ').toLowerCase()
+      if (!words.every((w) => haystack.includes(w))) return false
+    }
+    return true
+  })
+}
+
+/**
+ * Local Transaction Service
+ * Implements ITransactionService on the on-device database (see localDatabase)
+ */
+class LocalTransactionService implements ITransactionService {
+  private getTransactions(): Transaction[] {
+    return getLocalTransactions()
+  }
+
+  private saveTransactions(transactions: Transaction[]): void {
+    const before = this.getTransactions()
+    replaceLocalTransactions(transactions)
+    recordChanges('transaction', before, transactions)
   }
 
   async getAll(): Promise<Transaction[]> {
@@ -75,130 +325,57 @@ class LocalStorageTransactionService implements ITransactionService {
     return transactions.find((t) => t.id === id) || null
   }
 
-  /**
-   * Validate that date is not in the future
-   */
-  private validateDate(dateString: string): string {
-    if (!dateString) {
-      return new Date().toISOString().split('T')[0]
-    }
-    const date = new Date(dateString)
-    const today = new Date()
-    today.setHours(23, 59, 59, 999) // End of today
-    if (date > today) {
-      // Return today's date if future date is provided
-      return new Date().toISOString().split('T')[0]
-    }
-    return dateString
-  }
-
   async create(data: TransactionFormData): Promise<Transaction> {
-    const validatedDate = this.validateDate(data.date)
-    if (validatedDate !== data.date) {
-      console.warn(`Future date detected and corrected: ${data.date} -> ${validatedDate}`)
-    }
-    // Goals can only receive income transactions
-    if (data.goalId && data.type !== 'income') {
-      throw new Error('Goals can only receive income transactions')
-    }
+    const transaction = buildTransaction(data)
     const transactions = this.getTransactions()
-    const now = new Date().toISOString()
-    const transaction: Transaction = {
-      id: generateId(),
-      type: data.type,
-      amount: data.amount,
-      description: data.description,
-      category: data.category,
-      date: validatedDate,
-      pocketId: data.pocketId,
-      goalId: data.goalId,
-      createdAt: now,
-      updatedAt: now,
-    }
     transactions.push(transaction)
     this.saveTransactions(transactions)
     return transaction
   }
 
-  async createTransfer(fromPocketId: string, toPocketId: string, amount: number): Promise<Transaction> {
+  async createMany(data: TransactionFormData[]): Promise<Transaction[]> {
+    const created = data.map(buildTransaction)
+    this.saveTransactions([...this.getTransactions(), ...created])
+    return created
+  }
+
+  /** `toAmount`: amount credited in the target's currency when it differs from the source. */
+  async createTransfer(fromPocketId: string, toPocketId: string, amount: number, toAmount?: number): Promise<Transaction> {
     if (amount <= 0) throw new Error('Transfer amount must be greater than 0')
     if (fromPocketId === toPocketId) throw new Error('Source and target pocket must differ')
     const transactions = this.getTransactions()
-    const now = new Date().toISOString()
-    const today = new Date().toISOString().split('T')[0]
-    const tx: Transaction = {
-      id: generateId(),
-      type: 'transfer',
-      amount,
-      description: `Transfer to pocket`,
-      category: '',
-      date: today,
-      pocketId: fromPocketId,
-      transferToPocketId: toPocketId,
-      createdAt: now,
-      updatedAt: now,
-    }
+    const tx = buildTransfer('pocket', fromPocketId, toPocketId, amount, toAmount)
     transactions.push(tx)
     this.saveTransactions(transactions)
     return tx
   }
 
-  async createTransferToGoal(fromPocketId: string, toGoalId: string, amount: number): Promise<Transaction> {
+  async createTransferToGoal(fromPocketId: string, toGoalId: string, amount: number, toAmount?: number): Promise<Transaction> {
     if (amount <= 0) throw new Error('Transfer amount must be greater than 0')
     const transactions = this.getTransactions()
-    const now = new Date().toISOString()
-    const today = new Date().toISOString().split('T')[0]
-    const tx: Transaction = {
-      id: generateId(),
-      type: 'transfer',
-      amount,
-      description: `Allocation to goal`,
-      category: '',
-      date: today,
-      pocketId: fromPocketId,
-      transferToGoalId: toGoalId,
-      createdAt: now,
-      updatedAt: now,
-    }
+    const tx = buildTransfer('goal', fromPocketId, toGoalId, amount, toAmount)
     transactions.push(tx)
     this.saveTransactions(transactions)
     return tx
   }
 
-  async createWithdrawalFromGoal(fromGoalId: string, toPocketId: string, amount: number): Promise<Transaction> {
+  async createWithdrawalFromGoal(fromGoalId: string, toPocketId: string, amount: number, toAmount?: number): Promise<Transaction> {
     if (amount <= 0) throw new Error('Withdrawal amount must be greater than 0')
     const transactions = this.getTransactions()
     // Check current goal balance
-    let goalBalance = 0
-    for (const tx of transactions) {
-      if (tx.type === 'income' && tx.goalId === fromGoalId) {
-        goalBalance += tx.amount
-      }
-      if (tx.type === 'transfer' && tx.transferToGoalId === fromGoalId) {
-        goalBalance += tx.amount
-      }
-      if (tx.type === 'transfer' && tx.goalId === fromGoalId && tx.transferToPocketId) {
-        goalBalance -= tx.amount
-      }
-    }
-    if (amount > goalBalance) {
+    if (amount > computeGoalBalance(transactions, fromGoalId)) {
       throw new Error('Withdrawal amount exceeds goal balance')
     }
-    const now = new Date().toISOString()
-    const today = new Date().toISOString().split('T')[0]
-    const tx: Transaction = {
-      id: generateId(),
-      type: 'transfer',
-      amount,
-      description: `Withdrawal from goal`,
-      category: '',
-      date: today,
-      pocketId: toPocketId,
-      goalId: fromGoalId,
-      transferToPocketId: toPocketId,
-      createdAt: now,
-      updatedAt: now,
-    }
+    const tx = buildTransfer('withdrawal', fromGoalId, toPocketId, amount, toAmount)
+    transactions.push(tx)
+    this.saveTransactions(transactions)
+    return tx
+  }
+
+  async createLiabilityPayment(fromPocketId: string, liabilityId: string, amount: number, toAmount?: number): Promise<Transaction> {
+    if (amount <= 0) throw new Error('Payment amount must be greater than 0')
+    const transactions = this.getTransactions()
+    const tx = buildTransfer('liability', fromPocketId, liabilityId, amount, toAmount)
     transactions.push(tx)
     this.saveTransactions(transactions)
     return tx
@@ -210,29 +387,7 @@ class LocalStorageTransactionService implements ITransactionService {
     if (index === -1) {
       throw new Error(`Transaksi dengan id ${id} tidak ditemukan`)
     }
-    const existing = transactions[index]!
-
-    // Validate and fix date if provided
-    const dateToUse = data.date ?? existing.date
-    const validatedDate = this.validateDate(dateToUse)
-    if (validatedDate !== dateToUse) {
-      console.warn(`Future date detected and corrected: ${dateToUse} -> ${validatedDate}`)
-    }
-
-    const updated: Transaction = {
-      id: existing.id,
-      type: (data.type ?? existing.type) as Transaction['type'],
-      amount: data.amount ?? existing.amount,
-      description: data.description ?? existing.description,
-      category: data.category ?? existing.category,
-      date: validatedDate,
-      pocketId: data.pocketId ?? existing.pocketId,
-      transferToPocketId: existing.transferToPocketId,
-      goalId: data.goalId ?? existing.goalId,
-      transferToGoalId: existing.transferToGoalId,
-      createdAt: existing.createdAt,
-      updatedAt: new Date().toISOString(),
-    }
+    const updated = applyUpdate(transactions[index]!, data)
     transactions[index] = updated
     this.saveTransactions(transactions)
     return updated
@@ -244,84 +399,194 @@ class LocalStorageTransactionService implements ITransactionService {
     this.saveTransactions(filtered)
   }
 
-  /**
-   * When deleting a pocket, preserve balances that were transferred out:
-   * - Transfer FROM deleted pocket TO another: convert to income in target pocket so balance stays.
-   * - Transfer TO deleted pocket FROM another: convert to expense in source pocket (revert), then remove.
-   * - Other transactions in this pocket: remove.
-   */
+  /** See planPocketDeletion: transfers in and out of the pocket keep other balances intact. */
   async deleteByPocketId(pocketId: string): Promise<void> {
     const transactions = this.getTransactions()
-    const idsToRemove = new Set<string>()
-    const toAdd: Transaction[] = []
-    const now = new Date().toISOString()
-    const deletedPocketName = getPocketById(pocketId)?.name ?? 'Pocket'
-
-    for (const t of transactions) {
-      if (t.pocketId === pocketId) {
-        if (t.type === 'transfer' && t.transferToPocketId && t.transferToPocketId !== pocketId) {
-          toAdd.push({
-            id: generateId(),
-            type: 'income',
-            amount: t.amount,
-            description: `${DESC_PREFIX_TRANSFER_FROM_DELETED}${deletedPocketName}`,
-            category: '',
-            date: t.date,
-            pocketId: t.transferToPocketId,
-            createdAt: now,
-            updatedAt: now,
-          })
-        }
-        idsToRemove.add(t.id)
-      } else if (t.transferToPocketId === pocketId) {
-        toAdd.push({
-          id: generateId(),
-          type: 'expense',
-          amount: t.amount,
-          description: `${DESC_PREFIX_TRANSFER_REVERTED_DELETED}${deletedPocketName}`,
-          category: '',
-          date: t.date,
-          pocketId: t.pocketId,
-          createdAt: now,
-          updatedAt: now,
-        })
-        idsToRemove.add(t.id)
-      }
-    }
-
+    const { idsToRemove, toAdd } = planPocketDeletion(transactions, pocketId)
     const filtered = transactions.filter((t) => !idsToRemove.has(t.id))
     this.saveTransactions([...filtered, ...toAdd])
   }
 
   async getByFilters(filters: TransactionFilters): Promise<Transaction[]> {
-    let transactions = this.getTransactions()
+    // Date ranges use the `date` index (the upper bound also takes dates stored with a time);
+    // the remaining filters run on the result
+    const upper = filters.endDate && `${filters.endDate}\uffff`
+    const transactions =
+      filters.startDate || upper
+        ? ((await transactionsTable.queryRange('date', filters.startDate, upper)) ?? this.getTransactions())
+        : this.getTransactions()
+    return filterTransactions(transactions, filters)
+  }
+}
 
-    if (filters.type) {
-      transactions = transactions.filter((t) => t.type === filters.type)
-    }
+export const TRANSACTIONS_TABLE = 'transactions'
+/** Supabase caps each response (1000 rows by default), so reads are paged. */
+const PAGE_SIZE = 1000
+
+/** Row shape of the `transactions` table (supabase/migrations/create_transactions_table.sql). */
+export interface TransactionRow {
+  id: string
+  type: Transaction['type']
+  amount: number
+  description: string
+  category: string
+  date: string
+  pocket_id: string
+  goal_id: string | null
+  transfer_to_pocket_id: string | null
+  transfer_to_goal_id: string | null
+  transfer_to_liability_id: string | null
+  transfer_to_amount: number | null
+  recurring_rule_id: string | null
+  splits: Transaction['splits'] | null
+  tags: string[] | null
+  merchant: string | null
+  created_at: string
+  updated_at: string
+}
 
-    if (filters.category) {
-      transactions = transactions.filter((t) => t.category === filters.category)
-    }
+/** user_id is left out: the column defaults to auth.uid() and RLS checks it. */
+export function toTransactionRow(t: Transaction): TransactionRow {
+  return {
+    id: t.id,
+    type: t.type,
+    amount: t.amount,
+    description: t.description,
+    category: t.category,
+    date: t.date.split('T')[0]!,
+    pocket_id: t.pocketId,
+    goal_id: t.goalId ?? null,
+    transfer_to_pocket_id: t.transferToPocketId ?? null,
+    transfer_to_goal_id: t.transferToGoalId ?? null,
+    transfer_to_liability_id: t.transferToLiabilityId ?? null,
+    transfer_to_amount: t.transferToAmount ?? null,
+    recurring_rule_id: t.recurringRuleId ?? null,
+    splits: t.splits ?? null,
+    tags: t.tags ?? null,
+    merchant: t.merchant ?? null,
+    created_at: t.createdAt,
+    updated_at: t.updatedAt,
+  }
+}
 
-    if (filters.startDate) {
-      transactions = transactions.filter((t) => t.date >= filters.startDate!)
-    }
+export function fromTransactionRow(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    type: row.type,
+    // numeric columns may come back as strings
+    amount: Number(row.amount),
+    description: row.description,
+    // Devices on an older version still push category names
+    category: resolveCategoryId(row.category) ?? row.category,
+    date: row.date,
+    pocketId: row.pocket_id,
+    ...(row.goal_id && { goalId: row.goal_id }),
+    ...(row.transfer_to_pocket_id && { transferToPocketId: row.transfer_to_pocket_id }),
+    ...(row.transfer_to_goal_id && { transferToGoalId: row.transfer_to_goal_id }),
+    ...(row.transfer_to_liability_id && { transferToLiabilityId: row.transfer_to_liability_id }),
+    ...(row.transfer_to_amount != null && { transferToAmount: Number(row.transfer_to_amount) }),
+    ...(row.recurring_rule_id && { recurringRuleId: row.recurring_rule_id }),
+    ...(row.splits?.length && { splits: row.splits.map((s) => ({ ...s, category: resolveCategoryId(s.category) ?? s.category, amount: Number(s.amount) })) }),
+    ...(row.tags?.length && { tags: row.tags }),
+    ...(row.merchant && { merchant: row.merchant }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
 
-    if (filters.endDate) {
-      transactions = transactions.filter((t) => t.date <= filters.endDate!)
-    }
+type TransactionQuery = ReturnType<ReturnType<typeof supabase.from>['select']>
+
+/** The signed-in user's live rows, paged; Row Level Security limits every query to them. */
+async function fetchTransactionRows(
+  applyFilters: (query: TransactionQuery) => TransactionQuery = (q) => q,
+): Promise<Transaction[]> {
+  const result: Transaction[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const query = applyFilters(supabase.from(TRANSACTIONS_TABLE).select('*').is('deleted_at', null))
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    const rows = (data ?? []) as TransactionRow[]
+    result.push(...rows.map(fromTransactionRow))
+    if (rows.length < PAGE_SIZE) return result
+  }
+}
+
+/** The signed-in user's transactions from Supabase (when copying the account onto this device). */
+export function fetchRemoteTransactions(): Promise<Transaction[]> {
+  return fetchTransactionRows()
+}
 
-    if (filters.pocketId) {
-      transactions = transactions.filter((t) => t.pocketId === filters.pocketId || t.transferToPocketId === filters.pocketId)
+/**
+ * Supabase Transaction Service
+ * Implements ITransactionService against the signed-in user's `transactions` table.
+ * Reads come from Supabase, with records that have unsent changes taken from the device
+ * copy; offline (or when the request fails) they fall back to the device copy.
+ * Writes go to the device copy like the local service, which queues each changed field
+ * with its timestamp in the sync outbox; syncService pushes it and resolves conflicts.
+ */
+export class SupabaseTransactionService extends LocalTransactionService {
+  private async readRemote(
+    applyFilters: ((query: TransactionQuery) => TransactionQuery) | undefined,
+    matches: (t: Transaction) => boolean,
+    fallback: () => Promise<Transaction[]>,
+  ): Promise<Transaction[]> {
+    if (!navigator.onLine) return fallback()
+    let remote: Transaction[]
+    try {
+      remote = await fetchTransactionRows(applyFilters)
+    } catch (err) {
+      console.error('Error reading transactions from Supabase:', err)
+      return fallback()
     }
+    const pending = pendingRecordIds('transaction')
+    if (pending.size === 0) return remote
+    // Unsent edits and deletes are only on this device until the next push
+    const unsent = getLocalTransactions().filter((t) => pending.has(t.id) && matches(t))
+    return [...remote.filter((t) => !pending.has(t.id)), ...unsent]
+  }
+
+  async getAll(): Promise<Transaction[]> {
+    return this.readRemote(undefined, () => true, () => super.getAll())
+  }
+
+  async getById(id: string): Promise<Transaction | null> {
+    const found = await this.readRemote(
+      (q) => q.eq('id', id),
+      (t) => t.id === id,
+      async () => getLocalTransactions().filter((t) => t.id === id),
+    )
+    return found[0] ?? null
+  }
 
-    return transactions
+  async getByFilters(filters: TransactionFilters): Promise<Transaction[]> {
+    const transactions = await this.readRemote(
+      (q) => {
+        let query = q
+        if (filters.type) query = query.eq('type', filters.type)
+        if (filters.startDate) query = query.gte('date', filters.startDate)
+        if (filters.endDate) query = query.lte('date', filters.endDate)
+        if (filters.minAmount != null) query = query.gte('amount', filters.minAmount)
+        if (filters.maxAmount != null) query = query.lte('amount', filters.maxAmount)
+        if (filters.pocketId) {
+          query = query.or(`pocket_id.eq."${filters.pocketId}",transfer_to_pocket_id.eq."${filters.pocketId}"`)
+        }
+        return query
+      },
+      () => true,
+      () => super.getByFilters(filters),
+    )
+    // Split lines live in a JSON column, names are resolved locally and tags ignore case, so the rest runs on the client
+    return filterTransactions(transactions, filters)
   }
 }
 
 /**
  * Compute balance per pocket from transactions (income - expense, transfer out/in).
+ * Split transactions move their total once; the split lines only divide it across categories.
+ * Balances are in each pocket's own currency: cross-currency transfers credit `transferToAmount`.
  * Income allocated to a goal (goalId) does not affect pocket balance.
  * Transfer to goal subtracts from source pocket; withdrawal from goal adds to pocket.
  */
@@ -333,13 +598,14 @@ export function computePocketBalances(transactions: Transaction[]): Record<strin
     } else if (t.type === 'expense') {
       bal[t.pocketId] = (bal[t.pocketId] ?? 0) - t.amount
     } else if (t.type === 'transfer') {
+      const credited = t.transferToAmount ?? t.amount
       if (t.goalId && t.transferToPocketId) {
-        bal[t.transferToPocketId] = (bal[t.transferToPocketId] ?? 0) + t.amount
-      } else if (t.transferToGoalId) {
+        bal[t.transferToPocketId] = (bal[t.transferToPocketId] ?? 0) + credited
+      } else if (t.transferToGoalId || t.transferToLiabilityId) {
         bal[t.pocketId] = (bal[t.pocketId] ?? 0) - t.amount
       } else if (t.transferToPocketId) {
         bal[t.pocketId] = (bal[t.pocketId] ?? 0) - t.amount
-        bal[t.transferToPocketId] = (bal[t.transferToPocketId] ?? 0) + t.amount
+        bal[t.transferToPocketId] = (bal[t.transferToPocketId] ?? 0) + credited
       }
     }
   }
@@ -347,58 +613,9 @@ export function computePocketBalances(transactions: Transaction[]): Record<strin
 }
 
 /**
- * Export singleton instance
- * To switch to API: replace this with ApiTransactionService
+ * Export singleton instance, for the backend chosen at startup (see dataBackend).
+ * Either way saves land in the device copy first, so the app keeps working offline.
  */
-export const transactionService: ITransactionService = new LocalStorageTransactionService()
-
-/**
- * Example API Service (commented out - ready to use when needed)
- *
- * class ApiTransactionService implements ITransactionService {
- *   private baseUrl = 'https://api.example.com/transactions'
- *
- *   async getAll(): Promise<Transaction[]> {
- *     const response = await fetch(this.baseUrl)
- *     return response.json()
- *   }
- *
- *   async getById(id: string): Promise<Transaction | null> {
- *     const response = await fetch(`${this.baseUrl}/${id}`)
- *     return response.json()
- *   }
- *
- *   async create(data: TransactionFormData): Promise<Transaction> {
- *     const response = await fetch(this.baseUrl, {
- *       method: 'POST',
- *       headers: { 'Content-Type': 'application/json' },
- *       body: JSON.stringify(data),
- *     })
- *     return response.json()
- *   }
- *
- *   async update(id: string, data: Partial<TransactionFormData>): Promise<Transaction> {
- *     const response = await fetch(`${this.baseUrl}/${id}`, {
- *       method: 'PATCH',
- *       headers: { 'Content-Type': 'application/json' },
- *       body: JSON.stringify(data),
- *     })
- *     return response.json()
- *   }
- *
- *   async delete(id: string): Promise<void> {
- *     await fetch(`${this.baseUrl}/${id}`, { method: 'DELETE' })
- *   }
- *
- *   async getByFilters(filters: TransactionFilters): Promise<Transaction[]> {
- *     const params = new URLSearchParams()
- *     if (filters.type) params.append('type', filters.type)
- *     if (filters.category) params.append('category', filters.category)
- *     if (filters.startDate) params.append('startDate', filters.startDate)
- *     if (filters.endDate) params.append('endDate', filters.endDate)
- *     const response = await fetch(`${this.baseUrl}?${params}`)
- *     return response.json()
- *   }
- * }
- */
-
+export const transactionService: ITransactionService = isSupabaseBackend()
+  ? new SupabaseTransactionService()
+  : new LocalTransactionService()
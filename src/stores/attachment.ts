@@ -0,0 +1,115 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { TransactionAttachment } from '@/types/attachment'
+import * as attachmentService from '@/services/attachmentService'
+import { compressImageForStorage } from '@/utils/imagePreprocessing'
+
+/** Thrown when a new image would take attachments over MAX_ATTACHMENT_STORAGE_BYTES. */
+export const ATTACHMENT_STORAGE_FULL = 'ATTACHMENT_STORAGE_FULL'
+/** Thrown when the browser has no IndexedDB (e.g. some private browsing modes). */
+export const ATTACHMENTS_UNAVAILABLE = 'ATTACHMENTS_UNAVAILABLE'
+
+function codedError(code: string): Error & { code: string } {
+  const err = new Error(code) as Error & { code: string }
+  err.code = code
+  return err
+}
+
+export const useAttachmentStore = defineStore('attachment', () => {
+  const attachments = ref<TransactionAttachment[]>([])
+  const loaded = ref(false)
+
+  const available = computed(() => attachmentService.isAttachmentStorageAvailable())
+  const totalSize = computed(() => attachments.value.reduce((sum, a) => sum + a.size, 0))
+
+  const byTransactionId = computed(() => {
+    const map = new Map<string, TransactionAttachment[]>()
+    for (const a of attachments.value) {
+      for (const id of a.transactionIds) map.set(id, [...(map.get(id) ?? []), a])
+    }
+    return map
+  })
+
+  async function fetchAttachments() {
+    attachments.value = await attachmentService.getAllAttachments()
+    loaded.value = true
+  }
+
+  let loading: Promise<void> | null = null
+
+  /** Load once; every card calls this as it mounts. */
+  async function ensureLoaded() {
+    if (loaded.value) return
+    loading ??= fetchAttachments()
+    await loading
+  }
+
+  function forTransaction(transactionId: string): TransactionAttachment[] {
+    return byTransactionId.value.get(transactionId) ?? []
+  }
+
+  /** Compress and store an image for the given transactions (none yet for a receipt still being reviewed). */
+  async function addImage(image: Blob, transactionIds: string[], ocrText?: string): Promise<TransactionAttachment> {
+    if (!available.value) throw codedError(ATTACHMENTS_UNAVAILABLE)
+    await ensureLoaded()
+    const compressed = await compressImageForStorage(image)
+    if (totalSize.value + compressed.size > attachmentService.MAX_ATTACHMENT_STORAGE_BYTES) {
+      throw codedError(ATTACHMENT_STORAGE_FULL)
+    }
+    const created = await attachmentService.createAttachment({ image: compressed, transactionIds, ocrText })
+    attachments.value = await attachmentService.getAllAttachments()
+    return created
+  }
+
+  async function linkTransaction(attachmentId: string, transactionId: string) {
+    await ensureLoaded()
+    const attachment = attachments.value.find((a) => a.id === attachmentId)
+    if (!attachment) return
+    await attachmentService.setAttachmentTransactions(attachmentId, [...attachment.transactionIds, transactionId])
+    attachments.value = await attachmentService.getAllAttachments()
+  }
+
+  /** Take the attachment off one transaction; it is deleted when no transaction keeps it. */
+  async function unlinkTransaction(attachmentId: string, transactionId: string) {
+    const attachment = attachments.value.find((a) => a.id === attachmentId)
+    if (!attachment) return
+    await attachmentService.setAttachmentTransactions(
+      attachmentId,
+      attachment.transactionIds.filter((id) => id !== transactionId),
+    )
+    attachments.value = await attachmentService.getAllAttachments()
+  }
+
+  /** Called when a transaction is deleted. */
+  async function removeTransaction(transactionId: string) {
+    await ensureLoaded()
+    for (const attachment of forTransaction(transactionId)) {
+      await attachmentService.setAttachmentTransactions(
+        attachment.id,
+        attachment.transactionIds.filter((id) => id !== transactionId),
+      )
+    }
+    attachments.value = await attachmentService.getAllAttachments()
+  }
+
+  async function deleteAttachments(ids: string[]) {
+    await attachmentService.deleteAttachments(ids)
+    attachments.value = await attachmentService.getAllAttachments()
+  }
+
+  return {
+    attachments,
+    loaded,
+    available,
+    totalSize,
+    byTransactionId,
+    fetchAttachments,
+    ensureLoaded,
+    forTransaction,
+    addImage,
+    linkTransaction,
+    unlinkTransaction,
+    removeTransaction,
+    deleteAttachments,
+  }
+})
@@ -0,0 +1,95 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { Bill, BillFormData } from '@/types/bill'
+import * as billService from '@/services/billService'
+import { useTransactionStore } from '@/stores/transaction'
+
+export const useBillStore = defineStore('bill', () => {
+  const bills = ref<Bill[]>([])
+
+  const txStore = useTransactionStore()
+
+  /** Bills with something due, soonest first. */
+  const upcomingBills = computed(() =>
+    bills.value
+      .filter((b): b is Bill & { dueDate: string } => !!b.dueDate)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+  )
+
+  const overdueCount = computed(
+    () => upcomingBills.value.filter((b) => billService.daysUntil(b.dueDate) < 0).length,
+  )
+
+  function fetchBills() {
+    bills.value = billService.getAllBills()
+  }
+
+  function getBillById(id: string): Bill | null {
+    return bills.value.find((b) => b.id === id) ?? null
+  }
+
+  function createBill(data: BillFormData): Bill {
+    const created = billService.createBill(data)
+    bills.value = billService.getAllBills()
+    return created
+  }
+
+  function updateBill(id: string, data: Partial<BillFormData>) {
+    const updated = billService.updateBill(id, data)
+    bills.value = billService.getAllBills()
+    return updated
+  }
+
+  function deleteBill(id: string) {
+    billService.deleteBill(id)
+    bills.value = billService.getAllBills()
+  }
+
+  /**
+   * Pay the bill's current due date: creates the expense transaction (through the store,
+   * so the pocket balance check applies) and moves the bill to its next due date.
+   */
+  async function markPaid(id: string, payment: { amount: number; date: string }) {
+    const bill = getBillById(id)
+    if (!bill?.dueDate) return null
+    const transaction = await txStore.createTransaction({
+      type: 'expense',
+      amount: payment.amount,
+      description: bill.name,
+      category: bill.category,
+      date: payment.date,
+      pocketId: bill.pocketId,
+    })
+    const updated = billService.recordPayment(id, {
+      paidDate: transaction.date,
+      amount: transaction.amount,
+      transactionId: transaction.id,
+    })
+    bills.value = billService.getAllBills()
+    return updated
+  }
+
+  /** Bills to remind about now; each due date is returned once. */
+  function takeDueReminders(): Bill[] {
+    bills.value = billService.getAllBills()
+    const due = billService.getBillsToRemind(bills.value)
+    if (due.length > 0) {
+      billService.markReminded(due.map((b) => b.id))
+      bills.value = billService.getAllBills()
+    }
+    return due
+  }
+
+  return {
+    bills,
+    upcomingBills,
+    overdueCount,
+    fetchBills,
+    getBillById,
+    createBill,
+    updateBill,
+    deleteBill,
+    markPaid,
+    takeDueReminders,
+  }
+})
@@ -0,0 +1,79 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { Budget, CreateBudgetData } from '@/types/budget'
+import * as budgetService from '@/services/budgetService'
+import { useTransactionStore } from '@/stores/transaction'
+
+/** Thrown when a budget for the same category, period and pocket scope already exists. */
+export const BUDGET_ALREADY_EXISTS = 'BUDGET_ALREADY_EXISTS'
+
+export const useBudgetStore = defineStore('budget', () => {
+  const budgets = ref<Budget[]>([])
+
+  const txStore = useTransactionStore()
+
+  // Spent vs. limit per budget for the current period
+  const budgetProgress = computed(() =>
+    budgetService.computeBudgetProgress(budgets.value, txStore.baseTransactions),
+  )
+
+  const overspentBudgets = computed(() => budgetProgress.value.filter((p) => p.overspent))
+
+  function init() {
+    budgets.value = budgetService.getAllBudgets()
+  }
+
+  function fetchBudgets() {
+    budgets.value = budgetService.getAllBudgets()
+  }
+
+  function getBudgetById(id: string): Budget | null {
+    return budgets.value.find((b) => b.id === id) ?? null
+  }
+
+  function assertUnique(data: CreateBudgetData, ignoreId?: string) {
+    const duplicate = budgets.value.some(
+      (b) =>
+        b.id !== ignoreId &&
+        b.category === data.category &&
+        b.period === data.period &&
+        (b.pocketId ?? '') === (data.pocketId ?? ''),
+    )
+    if (duplicate) {
+      const err = new Error('BUDGET_ALREADY_EXISTS') as Error & { code: string }
+      err.code = BUDGET_ALREADY_EXISTS
+      throw err
+    }
+  }
+
+  function createBudget(data: CreateBudgetData): Budget {
+    assertUnique(data)
+    const created = budgetService.createBudget(data)
+    budgets.value = budgetService.getAllBudgets()
+    return created
+  }
+
+  function updateBudget(id: string, data: CreateBudgetData) {
+    assertUnique(data, id)
+    const updated = budgetService.updateBudget(id, data)
+    budgets.value = budgetService.getAllBudgets()
+    return updated
+  }
+
+  function deleteBudget(id: string) {
+    budgetService.deleteBudget(id)
+    budgets.value = budgetService.getAllBudgets()
+  }
+
+  return {
+    budgets,
+    budgetProgress,
+    overspentBudgets,
+    init,
+    fetchBudgets,
+    getBudgetById,
+    createBudget,
+    updateBudget,
+    deleteBudget,
+  }
+})
@@ -0,0 +1,79 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { Category, CategoryFormData } from '@/types/category'
+import * as categoryService from '@/services/categoryService'
+import { getCategoryName } from '@/utils/categoryIcons'
+
+/** Thrown when another active category under the same parent already has the name. */
+export const CATEGORY_NAME_TAKEN = 'CATEGORY_NAME_TAKEN'
+
+export const useCategoryStore = defineStore('category', () => {
+  const categories = ref<Category[]>([])
+
+  const activeCategories = computed(() => categories.value.filter((c) => !c.archived))
+  const archivedCategories = computed(() => categories.value.filter((c) => c.archived))
+
+  function fetchCategories() {
+    categories.value = categoryService.getAllCategories()
+  }
+
+  function getCategoryById(id: string): Category | null {
+    return categories.value.find((c) => c.id === id) ?? null
+  }
+
+  function childrenOf(id: string): Category[] {
+    return categories.value.filter((c) => c.parentId === id)
+  }
+
+  function assertUniqueName(data: CategoryFormData, ignoreId?: string) {
+    const name = data.name.trim().toLowerCase()
+    const duplicate = activeCategories.value.some(
+      (c) =>
+        c.id !== ignoreId &&
+        (c.parentId ?? '') === (data.parentId ?? '') &&
+        getCategoryName(c.id).toLowerCase() === name,
+    )
+    if (duplicate) {
+      const err = new Error('CATEGORY_NAME_TAKEN') as Error & { code: string }
+      err.code = CATEGORY_NAME_TAKEN
+      throw err
+    }
+  }
+
+  function createCategory(data: CategoryFormData): Category {
+    assertUniqueName(data)
+    const created = categoryService.createCategory(data)
+    categories.value = categoryService.getAllCategories()
+    return created
+  }
+
+  function updateCategory(id: string, data: CategoryFormData): Category {
+    assertUniqueName(data, id)
+    const updated = categoryService.updateCategory(id, data)
+    categories.value = categoryService.getAllCategories()
+    return updated
+  }
+
+  function archiveCategory(id: string) {
+    categoryService.setCategoryArchived(id, true)
+    categories.value = categoryService.getAllCategories()
+  }
+
+  function restoreCategory(id: string) {
+    categoryService.setCategoryArchived(id, false)
+    categories.value = categoryService.getAllCategories()
+  }
+
+  return {
+    categories,
+    activeCategories,
+    archivedCategories,
+    fetchCategories,
+    getCategoryById,
+    childrenOf,
+    createCategory,
+    updateCategory,
+    archiveCategory,
+    restoreCategory,
+  }
+})
@@ -0,0 +1,70 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { CategoryRule, CategoryRuleChange, CategoryRuleFormData } from '@/types/categoryRule'
+import * as categoryRuleService from '@/services/categoryRuleService'
+import { useTransactionStore } from '@/stores/transaction'
+
+export const useCategoryRuleStore = defineStore('categoryRule', () => {
+  const rules = ref<CategoryRule[]>([])
+
+  const txStore = useTransactionStore()
+
+  function fetchRules() {
+    rules.value = categoryRuleService.getAllCategoryRules()
+  }
+
+  function createRule(data: CategoryRuleFormData): CategoryRule {
+    const created = categoryRuleService.createCategoryRule(data)
+    rules.value = categoryRuleService.getAllCategoryRules()
+    return created
+  }
+
+  function updateRule(id: string, data: Partial<CategoryRuleFormData>): CategoryRule {
+    const updated = categoryRuleService.updateCategoryRule(id, data)
+    rules.value = categoryRuleService.getAllCategoryRules()
+    return updated
+  }
+
+  function deleteRule(id: string) {
+    categoryRuleService.deleteCategoryRule(id)
+    rules.value = categoryRuleService.getAllCategoryRules()
+  }
+
+  /** Move a rule one place up (-1) or down (1) in the application order. */
+  function moveRule(id: string, direction: -1 | 1) {
+    const ids = rules.value.map((r) => r.id)
+    const from = ids.indexOf(id)
+    const to = from + direction
+    if (from === -1 || to < 0 || to >= ids.length) return
+    ids.splice(from, 1)
+    ids.splice(to, 0, id)
+    categoryRuleService.reorderCategoryRules(ids)
+    rules.value = categoryRuleService.getAllCategoryRules()
+  }
+
+  /** Recorded transactions whose category the current rules would change. */
+  function previewReapply(): CategoryRuleChange[] {
+    return categoryRuleService.previewCategoryRuleChanges(txStore.transactions, rules.value)
+  }
+
+  /** Apply previewed changes; returns how many transactions were updated. */
+  async function reapply(changes: CategoryRuleChange[]): Promise<number> {
+    let updated = 0
+    for (const change of changes) {
+      await txStore.updateTransaction(change.transaction.id, { category: change.to })
+      updated++
+    }
+    return updated
+  }
+
+  return {
+    rules,
+    fetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+    previewReapply,
+    reapply,
+  }
+})
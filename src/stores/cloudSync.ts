@@ -0,0 +1,197 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { User } from '@supabase/supabase-js'
+import { supabase } from '@/services/supabase'
+import { getDataBackend, setDataBackend, type DataBackend } from '@/services/dataBackend'
+import * as supabaseDataService from '@/services/supabaseDataService'
+import * as syncService from '@/services/syncService'
+import { getOutbox, onOutboxChange } from '@/services/syncOutbox'
+import type { SyncConflict, SyncResult } from '@/types/sync'
+import { useTokenStore } from '@/stores/token'
+import { usePocketStore } from '@/stores/pocket'
+import { useGoalStore } from '@/stores/goal'
+import { useTransactionStore } from '@/stores/transaction'
+
+/** Thrown when turning on cloud storage without an active license. */
+export const CLOUD_LICENSE_REQUIRED = 'CLOUD_LICENSE_REQUIRED'
+/** Thrown when a cloud action needs a signed-in account. */
+export const CLOUD_SIGN_IN_REQUIRED = 'CLOUD_SIGN_IN_REQUIRED'
+
+function codedError(code: string): Error & { code: string } {
+  const err = new Error(code) as Error & { code: string }
+  err.code = code
+  return err
+}
+
+/** Wait after a local change before pushing, so a burst of edits goes out together. */
+const PUSH_DELAY_MS = 2000
+const SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * Supabase account + data backend for licensed users.
+ * Switching the backend copies the data first; the caller reloads the app afterwards
+ * so every store starts from the new device copy.
+ * With the backend on, changes sync in the background (see syncService).
+ */
+export const useCloudSyncStore = defineStore('cloudSync', () => {
+  const user = ref<User | null>(null)
+  const backend = ref<DataBackend>(getDataBackend())
+  const loading = ref(false)
+  const syncing = ref(false)
+  const pendingCount = ref(0)
+  const lastSyncedAt = ref<string | null>(null)
+  const lastError = ref<string | null>(null)
+  const conflicts = ref<SyncConflict[]>([])
+
+  const tokenStore = useTokenStore()
+
+  const isSignedIn = computed(() => !!user.value)
+  const isCloudEnabled = computed(() => backend.value === 'supabase')
+  const canUseCloud = computed(() => tokenStore.isLicenseActive)
+
+  let listening = false
+  let autoSyncStarted = false
+  let pushTimer: ReturnType<typeof setTimeout> | null = null
+
+  function refreshSyncStatus() {
+    const state = syncService.getSyncState()
+    pendingCount.value = getOutbox().length
+    lastSyncedAt.value = state.lastSyncedAt ?? null
+    lastError.value = state.lastError ?? null
+    conflicts.value = syncService.getConflicts()
+  }
+
+  /**
+   * Push queued changes and pull other devices' changes. Offline or failed runs
+   * keep the queue for next time; the error is kept in `lastError`.
+   */
+  async function syncNow(): Promise<SyncResult | null> {
+    if (!isCloudEnabled.value) return null
+    syncing.value = true
+    try {
+      const result = await syncService.runSync(tokenStore.getOrCreateDeviceId())
+      // Pushes can bring back merged values too, so reload after any change
+      if (result.pushed > 0 || result.pulled > 0) {
+        usePocketStore().fetchPockets()
+        useGoalStore().fetchGoals()
+        await useTransactionStore().fetchTransactions()
+      }
+      return result
+    } catch (err) {
+      console.error('Sync failed:', err)
+      return null
+    } finally {
+      syncing.value = false
+      refreshSyncStatus()
+    }
+  }
+
+  function syncWhenOnline() {
+    if (navigator.onLine) syncNow()
+  }
+
+  /** Sync on reconnect, on return to the app, shortly after local changes and periodically. Call once after mount. */
+  function startAutoSync() {
+    refreshSyncStatus()
+    if (autoSyncStarted || !isCloudEnabled.value) return
+    autoSyncStarted = true
+    window.addEventListener('online', syncNow)
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') syncWhenOnline()
+    })
+    onOutboxChange(() => {
+      pendingCount.value = getOutbox().length
+      if (pushTimer) clearTimeout(pushTimer)
+      pushTimer = setTimeout(syncWhenOnline, PUSH_DELAY_MS)
+    })
+    setInterval(syncWhenOnline, SYNC_INTERVAL_MS)
+    syncWhenOnline()
+  }
+
+  function clearConflicts() {
+    syncService.clearConflicts()
+    conflicts.value = []
+  }
+
+  async function init() {
+    const { data } = await supabase.auth.getSession()
+    user.value = data.session?.user ?? null
+    if (!listening) {
+      listening = true
+      supabase.auth.onAuthStateChange((_event, session) => {
+        user.value = session?.user ?? null
+      })
+    }
+  }
+
+  /** Passwordless sign-in: Supabase emails a link that returns to `redirectPath`. */
+  async function sendSignInLink(email: string, redirectPath: string) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}${redirectPath}` },
+    })
+    if (error) throw error
+  }
+
+  async function enableCloud() {
+    if (!canUseCloud.value) throw codedError(CLOUD_LICENSE_REQUIRED)
+    if (!user.value) throw codedError(CLOUD_SIGN_IN_REQUIRED)
+    loading.value = true
+    try {
+      await supabaseDataService.uploadLocalData(tokenStore.getOrCreateDeviceId())
+      // Pull everything on the next sync so other devices' data comes down too
+      syncService.resetSync()
+      setDataBackend('supabase')
+      backend.value = 'supabase'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Keeps working offline-only from here: queued changes are pushed, then the account's
+   * data is copied onto this device. Fails (and stays on Supabase) while offline.
+   */
+  async function disableCloud() {
+    if (!user.value) throw codedError(CLOUD_SIGN_IN_REQUIRED)
+    loading.value = true
+    try {
+      await syncService.runSync(tokenStore.getOrCreateDeviceId())
+      await supabaseDataService.downloadRemoteData()
+      syncService.resetSync()
+      setDataBackend('local')
+      backend.value = 'local'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function signOut() {
+    if (isCloudEnabled.value) await disableCloud()
+    await supabase.auth.signOut()
+    user.value = null
+  }
+
+  return {
+    user,
+    backend,
+    loading,
+    syncing,
+    pendingCount,
+    lastSyncedAt,
+    lastError,
+    conflicts,
+    isSignedIn,
+    isCloudEnabled,
+    canUseCloud,
+    init,
+    sendSignInLink,
+    enableCloud,
+    disableCloud,
+    signOut,
+    refreshSyncStatus,
+    syncNow,
+    startAutoSync,
+    clearConflicts,
+  }
+})
@@ -0,0 +1,102 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { Transaction } from '@/types/transaction'
+import type { ExchangeRateSettings } from '@/types/currency'
+import * as exchangeRateService from '@/services/exchangeRateService'
+import { usePocketStore } from '@/stores/pocket'
+import { DEFAULT_CURRENCY, formatMoney, type CurrencyCode } from '@/utils/currency'
+
+export const useCurrencyStore = defineStore('currency', () => {
+  const settings = ref<ExchangeRateSettings>(exchangeRateService.getExchangeRateSettings())
+
+  const pocketStore = usePocketStore()
+
+  const baseCurrency = computed(() => settings.value.baseCurrency)
+  const rates = computed(() => settings.value.rates)
+
+  // Currencies held by pockets, plus IDR (goals) and the base currency
+  const currenciesInUse = computed(() => {
+    const set = new Set<CurrencyCode>([DEFAULT_CURRENCY, baseCurrency.value])
+    for (const p of pocketStore.pockets) set.add(p.currency ?? DEFAULT_CURRENCY)
+    return Array.from(set)
+  })
+
+  const isMultiCurrency = computed(() => currenciesInUse.value.length > 1)
+
+  // Currencies in use without a rate: their amounts are added to totals unconverted
+  const missingRates = computed(() =>
+    currenciesInUse.value.filter((c) => exchangeRateService.getRateToDefault(c, rates.value) == null),
+  )
+
+  function fetchSettings() {
+    settings.value = exchangeRateService.getExchangeRateSettings()
+  }
+
+  function pocketCurrency(pocketId: string): CurrencyCode {
+    return pocketStore.getPocketById(pocketId)?.currency ?? DEFAULT_CURRENCY
+  }
+
+  /**
+   * Currency a transaction's `amount` is in: goals hold IDR, so income into a goal and
+   * withdrawals from a goal are IDR; everything else is in the pocket's currency.
+   */
+  function transactionCurrency(t: Pick<Transaction, 'pocketId' | 'goalId'>): CurrencyCode {
+    return t.goalId ? DEFAULT_CURRENCY : pocketCurrency(t.pocketId)
+  }
+
+  /** Convert between currencies. Falls back to the unconverted amount when a rate is missing. */
+  function convert(amount: number, from: CurrencyCode, to: CurrencyCode = baseCurrency.value): number {
+    return exchangeRateService.convertAmount(amount, from, to, rates.value) ?? amount
+  }
+
+  /** Whether money can move from one currency to another: the same currency, or both have a rate. */
+  function canConvert(from: CurrencyCode, to: CurrencyCode): boolean {
+    return exchangeRateService.convertAmount(1, from, to, rates.value) != null
+  }
+
+  /** Copy of the transaction with `amount` (and split lines) in `to`, the base currency by default. */
+  function toBaseTransaction(t: Transaction, to: CurrencyCode = baseCurrency.value): Transaction {
+    const from = transactionCurrency(t)
+    if (from === to) return t
+    return {
+      ...t,
+      amount: convert(t.amount, from, to),
+      splits: t.splits?.map((s) => ({ ...s, amount: convert(s.amount, from, to) })),
+    }
+  }
+
+  function format(amount: number, currency: CurrencyCode = baseCurrency.value): string {
+    return formatMoney(amount, currency)
+  }
+
+  function setBaseCurrency(currency: CurrencyCode) {
+    settings.value = exchangeRateService.setBaseCurrency(currency)
+  }
+
+  function setRate(currency: CurrencyCode, rate: number) {
+    settings.value = exchangeRateService.setRate(currency, rate)
+  }
+
+  function removeRate(currency: CurrencyCode) {
+    settings.value = exchangeRateService.removeRate(currency)
+  }
+
+  return {
+    settings,
+    baseCurrency,
+    rates,
+    currenciesInUse,
+    isMultiCurrency,
+    missingRates,
+    fetchSettings,
+    pocketCurrency,
+    transactionCurrency,
+    convert,
+    canConvert,
+    toBaseTransaction,
+    format,
+    setBaseCurrency,
+    setRate,
+    removeRate,
+  }
+})
@@ -3,6 +3,7 @@ import { computed, ref } from 'vue'
 import type { Goal, CreateGoalData } from '@/types/goal'
 import * as goalService from '@/services/goalService'
 import * as investmentGoalService from '@/services/investmentGoalService'
+import * as goalPlanService from '@/services/goalPlanService'
 import { useTransactionStore } from '@/stores/transaction'
 import { useTokenStore } from '@/stores/token'
 import { MAX_GOALS_BASIC } from '@/composables/usePocketLimits'
@@ -24,7 +25,8 @@ export const useGoalStore = defineStore('goal', () => {
         balances[tx.goalId] = (balances[tx.goalId] ?? 0) + tx.amount
       }
       if (tx.type === 'transfer' && tx.transferToGoalId) {
-        balances[tx.transferToGoalId] = (balances[tx.transferToGoalId] ?? 0) + tx.amount
+        // Transfers from a foreign-currency pocket credit the converted amount
+        balances[tx.transferToGoalId] = (balances[tx.transferToGoalId] ?? 0) + (tx.transferToAmount ?? tx.amount)
       }
       if (tx.type === 'transfer' && tx.goalId && tx.transferToPocketId) {
         balances[tx.goalId] = (balances[tx.goalId] ?? 0) - tx.amount
@@ -76,7 +78,7 @@ export const useGoalStore = defineStore('goal', () => {
   }
 
   function runInvestmentSimulations() {
-    const list = goals.value.filter((g) => g.type === 'investment' && (g.annualReturnPercentage ?? 0) > 0)
+    const list = goals.value.filter((g) => g.type === 'investment')
     for (const goal of list) {
       const goalTxs = txStore.transactions.filter(
         (tx) => tx.goalId === goal.id || tx.transferToGoalId === goal.id,
@@ -85,7 +87,7 @@ export const useGoalStore = defineStore('goal', () => {
         goal,
         goalTxs,
         investmentGoalService.getActivityEntries,
-        investmentGoalService.appendActivityEntry,
+        investmentGoalService.replaceActivityForGoal,
         (id, date) => goalService.updateGoal(id, { lastReturnCalculationDate: date }),
       )
     }
@@ -108,14 +110,29 @@ export const useGoalStore = defineStore('goal', () => {
     return created
   }
 
-  function updateGoal(id: string, data: Partial<Pick<Goal, 'name' | 'icon' | 'targetAmount' | 'durationMonths' | 'color'>>) {
+  function updateGoal(
+    id: string,
+    data: Partial<
+      Pick<Goal, 'name' | 'icon' | 'targetAmount' | 'durationMonths' | 'color' | 'compounding' | 'volatilityPercentage'>
+    >,
+  ) {
     const updated = goalService.updateGoal(id, data)
     goals.value = goalService.getAllGoals()
+    if (data.compounding !== undefined) runInvestmentSimulations()
+    return updated
+  }
+
+  /** New annual return from `effectiveDate`; simulated return is recomputed from that date on. */
+  function changeReturnRate(id: string, annualReturnPercentage: number, effectiveDate: string) {
+    const updated = goalService.changeReturnRate(id, annualReturnPercentage, effectiveDate)
+    goals.value = goalService.getAllGoals()
+    runInvestmentSimulations()
     return updated
   }
 
   function deleteGoal(id: string) {
     investmentGoalService.deleteActivityForGoal(id)
+    goalPlanService.deleteAutoSavesByGoalId(id)
     goalService.deleteGoal(id)
     goals.value = goalService.getAllGoals()
   }
@@ -130,6 +147,7 @@ export const useGoalStore = defineStore('goal', () => {
     getGoalById,
     createGoal,
     updateGoal,
+    changeReturnRate,
     deleteGoal,
     runInvestmentSimulations,
   }
@@ -0,0 +1,116 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { GoalAutoSave, GoalAutoSaveFormData, GoalPlan } from '@/types/goalPlan'
+import * as goalPlanService from '@/services/goalPlanService'
+import { useTransactionStore } from '@/stores/transaction'
+import { useGoalStore } from '@/stores/goal'
+import { useCurrencyStore } from '@/stores/currency'
+import { DEFAULT_CURRENCY } from '@/utils/currency'
+
+export const useGoalPlanStore = defineStore('goalPlan', () => {
+  const autoSaves = ref<GoalAutoSave[]>([])
+
+  const txStore = useTransactionStore()
+  const goalStore = useGoalStore()
+  const currencyStore = useCurrencyStore()
+
+  function autoSavesForGoal(goalId: string): GoalAutoSave[] {
+    return autoSaves.value.filter((a) => a.goalId === goalId)
+  }
+
+  // Auto-save amounts are in the pocket's currency; goals hold IDR
+  const autoSaveMonthlyByGoal = computed(() => {
+    const totals: Record<string, number> = {}
+    for (const a of autoSaves.value) {
+      if (a.paused) continue
+      const monthly = goalPlanService.monthlyEquivalent(a)
+      totals[a.goalId] =
+        (totals[a.goalId] ?? 0) + currencyStore.convert(monthly, currencyStore.pocketCurrency(a.pocketId), DEFAULT_CURRENCY)
+    }
+    return totals
+  })
+
+  const plansByGoal = computed(() => {
+    const plans: Record<string, GoalPlan> = {}
+    for (const goal of goalStore.goals) {
+      plans[goal.id] = goalPlanService.buildGoalPlan({
+        goal,
+        balance: goalStore.goalDisplayBalances[goal.id] ?? 0,
+        transactions: txStore.transactions,
+        autoSaveMonthly: autoSaveMonthlyByGoal.value[goal.id] ?? 0,
+      })
+    }
+    return plans
+  })
+
+  function fetchAutoSaves() {
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+  }
+
+  function createAutoSave(goalId: string, data: GoalAutoSaveFormData): GoalAutoSave {
+    const created = goalPlanService.createAutoSave(goalId, data)
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+    return created
+  }
+
+  function updateAutoSave(id: string, data: Partial<GoalAutoSaveFormData>) {
+    const updated = goalPlanService.updateAutoSave(id, data)
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+    return updated
+  }
+
+  function pauseAutoSave(id: string) {
+    goalPlanService.setAutoSavePaused(id, true)
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+  }
+
+  function resumeAutoSave(id: string) {
+    goalPlanService.setAutoSavePaused(id, false)
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+  }
+
+  function deleteAutoSave(id: string) {
+    goalPlanService.deleteAutoSave(id)
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+  }
+
+  /**
+   * Make all due transfers (called at app start and after auto-save changes).
+   * A transfer is skipped when its pocket cannot cover it or the goal has
+   * already reached its target, so auto-saving never overdraws a pocket.
+   */
+  async function runDueAutoSaves(): Promise<number> {
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+    if (!autoSaves.value.some((a) => !a.paused)) return 0
+    await txStore.fetchTransactions()
+    goalStore.fetchGoals()
+    const posted = await goalPlanService.runDueAutoSaves(
+      autoSaves.value,
+      async (autoSave) => {
+        const goal = goalStore.getGoalById(autoSave.goalId)
+        if (!goal || (goalStore.goalDisplayBalances[goal.id] ?? 0) >= goal.targetAmount) return false
+        if ((txStore.pocketBalances[autoSave.pocketId] ?? 0) < autoSave.amount) return false
+        if (!currencyStore.canConvert(currencyStore.pocketCurrency(autoSave.pocketId), DEFAULT_CURRENCY)) return false
+        await txStore.createTransferToGoal(autoSave.pocketId, autoSave.goalId, autoSave.amount)
+        return true
+      },
+      goalPlanService.updateAutoSaveProgress,
+    )
+    autoSaves.value = goalPlanService.getAllAutoSaves()
+    return posted
+  }
+
+  return {
+    autoSaves,
+    autoSaveMonthlyByGoal,
+    plansByGoal,
+    autoSavesForGoal,
+    fetchAutoSaves,
+    createAutoSave,
+    updateAutoSave,
+    pauseAutoSave,
+    resumeAutoSave,
+    deleteAutoSave,
+    runDueAutoSaves,
+  }
+})
@@ -0,0 +1,116 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { Liability, LiabilityFormData, NetWorthSnapshot } from '@/types/liability'
+import * as liabilityService from '@/services/liabilityService'
+import { useTransactionStore } from '@/stores/transaction'
+import { useGoalStore } from '@/stores/goal'
+import { useCurrencyStore } from '@/stores/currency'
+import { DEFAULT_CURRENCY, type CurrencyCode } from '@/utils/currency'
+
+export const useLiabilityStore = defineStore('liability', () => {
+  const liabilities = ref<Liability[]>([])
+  const history = ref<NetWorthSnapshot[]>([])
+
+  const txStore = useTransactionStore()
+  const goalStore = useGoalStore()
+  const currencyStore = useCurrencyStore()
+
+  function liabilityCurrency(l: Liability): CurrencyCode {
+    return l.currency ?? DEFAULT_CURRENCY
+  }
+
+  // Outstanding per liability, in each liability's own currency
+  const liabilityBalances = computed(() =>
+    liabilityService.computeLiabilityBalances(liabilities.value, txStore.transactions),
+  )
+
+  const liabilitiesWithBalances = computed(() =>
+    liabilities.value.map((l) => ({ ...l, currentBalance: liabilityBalances.value[l.id] ?? 0 })),
+  )
+
+  // Pocket balances are in each pocket's currency and goals in IDR: all totals are in the base currency
+  const totalAssets = computed(() => {
+    const pocketsTotal = Object.entries(txStore.pocketBalances).reduce(
+      (s, [pocketId, n]) => s + currencyStore.convert(n, currencyStore.pocketCurrency(pocketId)),
+      0,
+    )
+    const goalsTotal = Object.values(goalStore.goalDisplayBalances).reduce(
+      (s, n) => s + currencyStore.convert(n, DEFAULT_CURRENCY),
+      0,
+    )
+    return pocketsTotal + goalsTotal
+  })
+
+  const totalLiabilities = computed(() =>
+    liabilities.value.reduce(
+      (s, l) => s + currencyStore.convert(liabilityBalances.value[l.id] ?? 0, liabilityCurrency(l)),
+      0,
+    ),
+  )
+
+  const netWorth = computed(() => totalAssets.value - totalLiabilities.value)
+
+  function fetchLiabilities() {
+    liabilities.value = liabilityService.getAllLiabilities()
+    history.value = liabilityService.getNetWorthHistory()
+  }
+
+  function getLiabilityById(id: string): Liability | null {
+    return liabilities.value.find((l) => l.id === id) ?? null
+  }
+
+  function createLiability(data: LiabilityFormData): Liability {
+    const created = liabilityService.createLiability(data)
+    liabilities.value = liabilityService.getAllLiabilities()
+    return created
+  }
+
+  function updateLiability(id: string, data: Partial<LiabilityFormData>) {
+    const paid = liabilityService.computeLiabilityPayments(txStore.transactions)[id] ?? 0
+    const updated = liabilityService.updateLiability(id, data, paid)
+    liabilities.value = liabilityService.getAllLiabilities()
+    return updated
+  }
+
+  /** Payments already recorded stay as transfers out of their pockets. */
+  function deleteLiability(id: string) {
+    liabilityService.deleteLiability(id)
+    liabilities.value = liabilityService.getAllLiabilities()
+  }
+
+  /** Record a payment as a transfer from a pocket (throws INSUFFICIENT_POCKET_BALANCE like expenses). */
+  async function payLiability(id: string, fromPocketId: string, amount: number) {
+    const liability = getLiabilityById(id)
+    if (!liability) return null
+    const tx = await txStore.createLiabilityPayment(fromPocketId, id, amount, liabilityCurrency(liability))
+    recordSnapshot()
+    return tx
+  }
+
+  /** Store this month's assets and liabilities in the net worth history. */
+  function recordSnapshot() {
+    history.value = liabilityService.recordNetWorthSnapshot({
+      assets: totalAssets.value,
+      liabilities: totalLiabilities.value,
+      currency: currencyStore.baseCurrency,
+    })
+  }
+
+  return {
+    liabilities,
+    history,
+    liabilityBalances,
+    liabilitiesWithBalances,
+    totalAssets,
+    totalLiabilities,
+    netWorth,
+    liabilityCurrency,
+    fetchLiabilities,
+    getLiabilityById,
+    createLiability,
+    updateLiability,
+    deleteLiability,
+    payLiability,
+    recordSnapshot,
+  }
+})
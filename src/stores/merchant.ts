@@ -0,0 +1,48 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { Merchant, MerchantPreferences } from '@/types/merchant'
+import * as merchantService from '@/services/merchantService'
+import { useTransactionStore } from '@/stores/transaction'
+import { usePocketStore } from '@/stores/pocket'
+
+export const useMerchantStore = defineStore('merchant', () => {
+  const merchants = ref<Merchant[]>([])
+
+  const txStore = useTransactionStore()
+  const pocketStore = usePocketStore()
+
+  function fetchMerchants() {
+    merchants.value = merchantService.getAllMerchants()
+  }
+
+  /** Refresh the directory from the recorded transactions (before parsing new receipts or text). */
+  function learnFromHistory() {
+    merchants.value = merchantService.learnMerchants(txStore.transactions)
+  }
+
+  function getMerchant(name: string): Merchant | null {
+    return merchantService.findMerchant(name)
+  }
+
+  function updatePreferences(id: string, data: MerchantPreferences): Merchant {
+    const updated = merchantService.updateMerchantPreferences(id, data)
+    merchants.value = merchantService.getAllMerchants()
+    return updated
+  }
+
+  /** Pocket new entries from the merchant start in, while that pocket still exists. */
+  function preferredPocketId(name: string | undefined): string | undefined {
+    const merchant = name ? merchantService.findMerchant(name) : null
+    const pocketId = merchant ? merchantService.getMerchantPocketId(merchant) : undefined
+    return pocketId && pocketStore.getPocketById(pocketId) ? pocketId : undefined
+  }
+
+  return {
+    merchants,
+    fetchMerchants,
+    learnFromHistory,
+    getMerchant,
+    updatePreferences,
+    preferredPocketId,
+  }
+})
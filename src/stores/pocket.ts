@@ -2,6 +2,10 @@ import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 import type { Pocket, CreatePocketData } from '@/types/pocket'
 import * as pocketService from '@/services/pocketService'
+import * as recurringService from '@/services/recurringService'
+import * as billService from '@/services/billService'
+import * as goalPlanService from '@/services/goalPlanService'
+import * as budgetService from '@/services/budgetService'
 import { useTokenStore } from '@/stores/token'
 import { isAtPocketLimit } from '@/composables/usePocketLimits'
 
@@ -43,6 +47,10 @@ export const usePocketStore = defineStore('pocket', () => {
 
   function deletePocket(id: string) {
     pocketService.deletePocket(id)
+    recurringService.deleteRulesByPocketId(id)
+    budgetService.deleteBudgetsByPocketId(id)
+    billService.deleteBillsByPocketId(id)
+    goalPlanService.deleteAutoSavesByPocketId(id)
     pockets.value = pocketService.getAllPockets()
   }
 
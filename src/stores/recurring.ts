@@ -0,0 +1,106 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { RecurringRule, RecurringRuleFormData } from '@/types/recurring'
+import * as recurringService from '@/services/recurringService'
+import { transactionService } from '@/services/transactionService'
+import { useTransactionStore } from '@/stores/transaction'
+
+export const useRecurringStore = defineStore('recurring', () => {
+  const rules = ref<RecurringRule[]>([])
+
+  const txStore = useTransactionStore()
+
+  const activeRules = computed(() => rules.value.filter((r) => !r.paused && r.nextDueDate))
+
+  // Number of transactions posted per rule (from current transaction list)
+  const postedCountByRule = computed(() => {
+    const counts: Record<string, number> = {}
+    for (const tx of txStore.transactions) {
+      if (tx.recurringRuleId) counts[tx.recurringRuleId] = (counts[tx.recurringRuleId] ?? 0) + 1
+    }
+    return counts
+  })
+
+  function init() {
+    rules.value = recurringService.getAllRules()
+  }
+
+  function fetchRules() {
+    rules.value = recurringService.getAllRules()
+  }
+
+  function getRuleById(id: string): RecurringRule | null {
+    return rules.value.find((r) => r.id === id) ?? null
+  }
+
+  function createRule(data: RecurringRuleFormData): RecurringRule {
+    const created = recurringService.createRule(data)
+    rules.value = recurringService.getAllRules()
+    return created
+  }
+
+  function updateRule(id: string, data: Partial<RecurringRuleFormData>) {
+    const updated = recurringService.updateRule(id, data)
+    rules.value = recurringService.getAllRules()
+    return updated
+  }
+
+  function pauseRule(id: string) {
+    recurringService.pauseRule(id)
+    rules.value = recurringService.getAllRules()
+  }
+
+  function resumeRule(id: string) {
+    recurringService.resumeRule(id)
+    rules.value = recurringService.getAllRules()
+  }
+
+  function deleteRule(id: string) {
+    recurringService.deleteRule(id)
+    rules.value = recurringService.getAllRules()
+  }
+
+  /**
+   * Materialize all due occurrences (called at app start and after rule changes).
+   * Posts directly through the service: scheduled income/expense are real money
+   * movements, so the store's insufficient-balance guard for manual entry is skipped.
+   */
+  async function runDueRules(): Promise<number> {
+    rules.value = recurringService.getAllRules()
+    const posted = await recurringService.runDueRecurringRules(
+      rules.value,
+      async (rule, date) => {
+        await transactionService.create({
+          type: rule.type,
+          amount: rule.amount,
+          description: rule.description,
+          category: rule.category,
+          date,
+          pocketId: rule.pocketId,
+          recurringRuleId: rule.id,
+        })
+      },
+      recurringService.updateRuleProgress,
+    )
+    rules.value = recurringService.getAllRules()
+    if (posted > 0) {
+      await txStore.fetchTransactions()
+    }
+    return posted
+  }
+
+  return {
+    rules,
+    activeRules,
+    postedCountByRule,
+    init,
+    fetchRules,
+    getRuleById,
+    createRule,
+    updateRule,
+    pauseRule,
+    resumeRule,
+    deleteRule,
+    runDueRules,
+  }
+})
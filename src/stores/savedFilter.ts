@@ -0,0 +1,65 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { SavedFilter, SavedFilterFormData } from '@/types/savedFilter'
+import * as savedFilterService from '@/services/savedFilterService'
+
+/** Thrown when another saved filter already has the name. */
+export const SAVED_FILTER_NAME_TAKEN = 'SAVED_FILTER_NAME_TAKEN'
+
+export const useSavedFilterStore = defineStore('savedFilter', () => {
+  const savedFilters = ref<SavedFilter[]>([])
+
+  const pinnedFilters = computed(() => savedFilters.value.filter((f) => f.pinned))
+
+  function fetchSavedFilters() {
+    savedFilters.value = savedFilterService.getAllSavedFilters()
+  }
+
+  function getSavedFilterById(id: string): SavedFilter | null {
+    return savedFilters.value.find((f) => f.id === id) ?? null
+  }
+
+  function assertUniqueName(name: string, ignoreId?: string) {
+    const lower = name.trim().toLowerCase()
+    if (savedFilters.value.some((f) => f.id !== ignoreId && f.name.toLowerCase() === lower)) {
+      const err = new Error('SAVED_FILTER_NAME_TAKEN') as Error & { code: string }
+      err.code = SAVED_FILTER_NAME_TAKEN
+      throw err
+    }
+  }
+
+  function createSavedFilter(data: SavedFilterFormData): SavedFilter {
+    assertUniqueName(data.name)
+    const created = savedFilterService.createSavedFilter(data)
+    savedFilters.value = savedFilterService.getAllSavedFilters()
+    return created
+  }
+
+  function updateSavedFilter(id: string, data: Partial<SavedFilterFormData>): SavedFilter {
+    if (data.name !== undefined) assertUniqueName(data.name, id)
+    const updated = savedFilterService.updateSavedFilter(id, data)
+    savedFilters.value = savedFilterService.getAllSavedFilters()
+    return updated
+  }
+
+  function togglePinned(id: string) {
+    const filter = getSavedFilterById(id)
+    if (filter) updateSavedFilter(id, { pinned: !filter.pinned })
+  }
+
+  function deleteSavedFilter(id: string) {
+    savedFilterService.deleteSavedFilter(id)
+    savedFilters.value = savedFilterService.getAllSavedFilters()
+  }
+
+  return {
+    savedFilters,
+    pinnedFilters,
+    fetchSavedFilters,
+    getSavedFilterById,
+    createSavedFilter,
+    updateSavedFilter,
+    togglePinned,
+    deleteSavedFilter,
+  }
+})
@@ -2,18 +2,30 @@ import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 import type { Transaction, TransactionFormData, TransactionFilters, TransactionSummary } from '@/types/transaction'
 import { transactionService, computePocketBalances } from '@/services/transactionService'
+import * as exchangeRateService from '@/services/exchangeRateService'
+import { useCurrencyStore } from '@/stores/currency'
+import { useAttachmentStore } from '@/stores/attachment'
+import { DEFAULT_CURRENCY, type CurrencyCode } from '@/utils/currency'
+import { collectTags } from '@/utils/tags'
+import i18n from '@/i18n'
 
 export const useTransactionStore = defineStore('transaction', () => {
   const transactions = ref<Transaction[]>([])
   const loading = ref(false)
   const error = ref<string | null>(null)
 
+  const currencyStore = useCurrencyStore()
+
+  // Per pocket, in each pocket's own currency
   const pocketBalances = computed(() => computePocketBalances(transactions.value))
 
-  // Summary excludes transfers (income/expense only)
+  // All transactions with amounts converted to the base currency (for totals and charts)
+  const baseTransactions = computed(() => transactions.value.map((t) => currencyStore.toBaseTransaction(t)))
+
+  // Summary excludes transfers (income/expense only), in the base currency
   const summary = computed<TransactionSummary>(() => {
-    const income = transactions.value.filter((t) => t.type === 'income')
-    const expenses = transactions.value.filter((t) => t.type === 'expense')
+    const income = baseTransactions.value.filter((t) => t.type === 'income')
+    const expenses = baseTransactions.value.filter((t) => t.type === 'expense')
 
     return {
       totalIncome: income.reduce((sum, t) => sum + t.amount, 0),
@@ -32,6 +44,9 @@ export const useTransactionStore = defineStore('transaction', () => {
     return Array.from(cats).sort()
   })
 
+  // Tags in use, most used first (for autocomplete and filters)
+  const tags = computed(() => collectTags(transactions.value))
+
   // Fetch all transactions
   async function fetchTransactions() {
     loading.value = true
@@ -54,9 +69,11 @@ export const useTransactionStore = defineStore('transaction', () => {
         const err = new Error('INSUFFICIENT_POCKET_BALANCE') as Error & {
           currentBalance: number
           amount: number
+          currency: CurrencyCode
         }
         err.currentBalance = balance
         err.amount = data.amount
+        err.currency = currencyStore.pocketCurrency(data.pocketId)
         throw err
       }
     }
@@ -66,6 +83,7 @@ export const useTransactionStore = defineStore('transaction', () => {
     try {
       const transaction = await transactionService.create(data)
       transactions.value.push(transaction)
+      if (data.attachmentId) await useAttachmentStore().linkTransaction(data.attachmentId, transaction.id)
       try {
         window.dispatchEvent(new CustomEvent('check-transaction-notification'))
       } catch {
@@ -81,11 +99,95 @@ export const useTransactionStore = defineStore('transaction', () => {
     }
   }
 
+  /**
+   * Create several transactions in one batch (multi-entry text input, split receipts).
+   * Like createTransaction, a pocket's expenses may not exceed its balance
+   * plus the income added in the same batch.
+   */
+  async function createTransactions(data: TransactionFormData[]) {
+    const netByPocket: Record<string, { expense: number; income: number }> = {}
+    for (const d of data) {
+      if (!d.pocketId || d.goalId) continue
+      const net = (netByPocket[d.pocketId] ??= { expense: 0, income: 0 })
+      if (d.type === 'expense') net.expense += d.amount
+      else if (d.type === 'income') net.income += d.amount
+    }
+    for (const [pocketId, net] of Object.entries(netByPocket)) {
+      const balance = pocketBalances.value[pocketId] ?? 0
+      if (net.expense > balance + net.income) {
+        const err = new Error('INSUFFICIENT_POCKET_BALANCE') as Error & {
+          currentBalance: number
+          amount: number
+          currency: CurrencyCode
+        }
+        err.currentBalance = balance
+        err.amount = net.expense
+        err.currency = currencyStore.pocketCurrency(pocketId)
+        throw err
+      }
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      const created = await transactionService.createMany(data)
+      transactions.value.push(...created)
+      for (const [index, transaction] of created.entries()) {
+        const attachmentId = data[index]?.attachmentId
+        if (attachmentId) await useAttachmentStore().linkTransaction(attachmentId, transaction.id)
+      }
+      try {
+        window.dispatchEvent(new CustomEvent('check-transaction-notification'))
+      } catch {
+        // ignore
+      }
+      return created
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Gagal membuat transaksi'
+      console.error('Error creating transactions:', err)
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Imported statement rows record what already happened, so pocket balances are not checked
+  async function importTransactions(data: TransactionFormData[]) {
+    loading.value = true
+    error.value = null
+    try {
+      const created = await transactionService.createMany(data)
+      transactions.value.push(...created)
+      return created
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Gagal mengimpor transaksi'
+      console.error('Error importing transactions:', err)
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Amount the destination of a transfer receives. Unlike totals, money must not move
+   * unconverted, so a missing rate is an error the user sees.
+   */
+  function transferAmount(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+    const converted = exchangeRateService.convertAmount(amount, from, to, currencyStore.rates)
+    if (converted == null) throw new Error(i18n.global.t('currency.transferRateMissing', { from, to }))
+    return converted
+  }
+
   async function createTransfer(fromPocketId: string, toPocketId: string, amount: number) {
     loading.value = true
     error.value = null
     try {
-      const tx = await transactionService.createTransfer(fromPocketId, toPocketId, amount)
+      const toAmount = transferAmount(
+        amount,
+        currencyStore.pocketCurrency(fromPocketId),
+        currencyStore.pocketCurrency(toPocketId),
+      )
+      const tx = await transactionService.createTransfer(fromPocketId, toPocketId, amount, toAmount)
       transactions.value.push(tx)
       try {
         window.dispatchEvent(new CustomEvent('check-transaction-notification'))
@@ -106,7 +208,9 @@ export const useTransactionStore = defineStore('transaction', () => {
     loading.value = true
     error.value = null
     try {
-      const tx = await transactionService.createTransferToGoal(fromPocketId, toGoalId, amount)
+      // Goals hold IDR
+      const toAmount = transferAmount(amount, currencyStore.pocketCurrency(fromPocketId), DEFAULT_CURRENCY)
+      const tx = await transactionService.createTransferToGoal(fromPocketId, toGoalId, amount, toAmount)
       transactions.value.push(tx)
       try {
         window.dispatchEvent(new CustomEvent('check-transaction-notification'))
@@ -127,7 +231,8 @@ export const useTransactionStore = defineStore('transaction', () => {
     loading.value = true
     error.value = null
     try {
-      const tx = await transactionService.createWithdrawalFromGoal(fromGoalId, toPocketId, amount)
+      const toAmount = transferAmount(amount, DEFAULT_CURRENCY, currencyStore.pocketCurrency(toPocketId))
+      const tx = await transactionService.createWithdrawalFromGoal(fromGoalId, toPocketId, amount, toAmount)
       transactions.value.push(tx)
       try {
         window.dispatchEvent(new CustomEvent('check-transaction-notification'))
@@ -144,6 +249,42 @@ export const useTransactionStore = defineStore('transaction', () => {
     }
   }
 
+  /** Pay down a liability from a pocket; the pocket must cover the payment, like an expense. */
+  async function createLiabilityPayment(
+    fromPocketId: string,
+    liabilityId: string,
+    amount: number,
+    liabilityCurrency: CurrencyCode = DEFAULT_CURRENCY,
+  ) {
+    const balance = pocketBalances.value[fromPocketId] ?? 0
+    if (amount > balance) {
+      const err = new Error('INSUFFICIENT_POCKET_BALANCE') as Error & {
+        currentBalance: number
+        amount: number
+        currency: CurrencyCode
+      }
+      err.currentBalance = balance
+      err.amount = amount
+      err.currency = currencyStore.pocketCurrency(fromPocketId)
+      throw err
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      const toAmount = transferAmount(amount, currencyStore.pocketCurrency(fromPocketId), liabilityCurrency)
+      const tx = await transactionService.createLiabilityPayment(fromPocketId, liabilityId, amount, toAmount)
+      transactions.value.push(tx)
+      return tx
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Gagal membayar utang'
+      console.error('Error creating liability payment:', err)
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
   // Update transaction
   async function updateTransaction(id: string, data: Partial<TransactionFormData>) {
     loading.value = true
@@ -171,6 +312,7 @@ export const useTransactionStore = defineStore('transaction', () => {
     try {
       await transactionService.delete(id)
       transactions.value = transactions.value.filter((t) => t.id !== id)
+      await useAttachmentStore().removeTransaction(id)
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Gagal menghapus transaksi'
       console.error('Error deleting transaction:', err)
@@ -221,14 +363,19 @@ export const useTransactionStore = defineStore('transaction', () => {
     transactions,
     loading,
     error,
+    baseTransactions,
     summary,
     categories,
+    tags,
     pocketBalances,
     fetchTransactions,
     createTransaction,
+    createTransactions,
+    importTransactions,
     createTransfer,
     createTransferToGoal,
     createWithdrawalFromGoal,
+    createLiabilityPayment,
     updateTransaction,
     deleteTransaction,
     deleteByPocketId,
@@ -0,0 +1,18 @@
+/** An image attached to one or more transactions, usually the scanned receipt. */
+export interface TransactionAttachment {
+  id: string
+  /** One receipt can back several transactions (e.g. a scan split into items) */
+  transactionIds: string[]
+  /** Compressed image (JPEG) */
+  image: Blob
+  /** Bytes of `image`; counts toward the attachment storage limit */
+  size: number
+  /** Raw OCR text, when the image went through the receipt scanner */
+  ocrText?: string
+  createdAt: string
+}
+
+/** Attachment as written to the encrypted export: the image becomes a data URL. */
+export interface ExportedAttachment extends Omit<TransactionAttachment, 'image'> {
+  image: string
+}
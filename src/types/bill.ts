@@ -0,0 +1,59 @@
+import type { RecurringFrequency } from '@/types/recurring'
+
+/** 'once' bills close after the first payment; the others follow the recurring schedule rules. */
+export type BillRepeat = 'once' | RecurringFrequency
+
+export interface BillPayment {
+  /** Due date (YYYY-MM-DD) this payment settled. */
+  dueDate: string
+  /** Date (YYYY-MM-DD) of the expense transaction. */
+  paidDate: string
+  amount: number
+  /** Expense transaction created when the bill was marked as paid. */
+  transactionId: string
+}
+
+export interface Bill {
+  id: string
+  name: string
+  /** Expected amount; the actual payment can differ. */
+  amount: number
+  category: string
+  /** Pocket the payment is taken from. */
+  pocketId: string
+  repeat: BillRepeat
+  /** Repeat every N periods (e.g. every 3 months). Default 1. */
+  interval: number
+  /** First due date (YYYY-MM-DD); its day of month anchors monthly/yearly bills. */
+  startDate: string
+  /** Next unpaid due date (YYYY-MM-DD). Undefined once a one-off bill is paid. */
+  dueDate?: string
+  /** Remind this many days before the due date; undefined = no reminder. */
+  reminderDays?: number
+  /** Due date the last reminder was shown for, so each due date is reminded once. */
+  remindedFor?: string
+  payments: BillPayment[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BillFormData {
+  name: string
+  amount: number
+  category: string
+  pocketId: string
+  repeat: BillRepeat
+  interval: number
+  /** First (or, when editing, next) due date. */
+  dueDate: string
+  reminderDays?: number
+}
+
+/** One bill on one day of the calendar. */
+export interface BillOccurrence {
+  bill: Bill
+  date: string
+  /** Set when this due date has been paid. */
+  payment?: BillPayment
+  overdue: boolean
+}
@@ -0,0 +1,37 @@
+export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly'
+
+export interface Budget {
+  id: string
+  /** Expense category the limit applies to (same value stored on transactions). */
+  category: string
+  period: BudgetPeriod
+  /** Spending limit per period, in the base currency (see Exchange Rates). */
+  amount: number
+  /** Optional: only count expenses from this pocket. Undefined = all pockets. */
+  pocketId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateBudgetData {
+  category: string
+  period: BudgetPeriod
+  amount: number
+  pocketId?: string
+}
+
+/** Spent vs. limit for one budget in its current period. */
+export interface BudgetProgress {
+  budget: Budget
+  /** First day of the current period (YYYY-MM-DD). */
+  periodStart: string
+  /** Last day of the current period (YYYY-MM-DD). */
+  periodEnd: string
+  spent: number
+  remaining: number
+  /** spent / amount * 100 (not capped). */
+  percentUsed: number
+  overspent: boolean
+  /** Amount over the limit; 0 when within budget. */
+  excess: number
+}
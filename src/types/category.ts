@@ -0,0 +1,31 @@
+export type CategoryType = 'income' | 'expense'
+
+/**
+ * A transaction category. Transactions, split lines, budgets and rules store the `id`;
+ * the name is looked up when shown, so renaming a category renames it everywhere.
+ */
+export interface Category {
+  id: string
+  /** Empty for built-in categories that were never renamed; those show in the app language. */
+  name: string
+  /** Emoji */
+  icon: string
+  color: string
+  /** Offered only for this transaction type. Undefined = income and expense. */
+  type?: CategoryType
+  /** Set on sub-categories. Only one level: a parent is always a top-level category. */
+  parentId?: string
+  /** Archived categories are hidden from pickers but still shown on old transactions. */
+  archived: boolean
+  builtIn: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CategoryFormData {
+  name: string
+  icon: string
+  color: string
+  type?: CategoryType
+  parentId?: string
+}
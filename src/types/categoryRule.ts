@@ -0,0 +1,52 @@
+import type { Transaction } from '@/types/transaction'
+
+/**
+ * Text conditions ignore case. `merchant` is the receipt's merchant when one was read,
+ * otherwise the description.
+ */
+export type CategoryRuleTextField = 'description' | 'merchant'
+export type CategoryRuleTextOperator = 'contains' | 'equals' | 'startsWith' | 'regex'
+export type CategoryRuleAmountOperator = 'gt' | 'gte' | 'lt' | 'lte'
+
+export type CategoryRuleCondition =
+  | { field: CategoryRuleTextField; operator: CategoryRuleTextOperator; value: string }
+  /** Amount in the transaction's own currency. */
+  | { field: 'amount'; operator: CategoryRuleAmountOperator; value: number }
+
+export interface CategoryRule {
+  id: string
+  /** Only applies to this transaction type. Undefined = income and expense. */
+  type?: 'income' | 'expense'
+  /** Every condition must match. */
+  conditions: CategoryRuleCondition[]
+  category: string
+  /** Lower runs first; the first matching rule sets the category. */
+  priority: number
+  /** Disabled rules are kept but never applied. */
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CategoryRuleFormData {
+  type?: 'income' | 'expense'
+  conditions: CategoryRuleCondition[]
+  category: string
+  enabled: boolean
+}
+
+/** What rules are matched against: a new transaction, a parsed text/receipt or a statement row. */
+export interface CategoryRuleInput {
+  type: 'income' | 'expense'
+  amount: number
+  description: string
+  merchant?: string
+}
+
+/** A recorded transaction whose category differs from what the rules give now. */
+export interface CategoryRuleChange {
+  transaction: Transaction
+  from: string
+  to: string
+  ruleId: string
+}
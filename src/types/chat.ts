@@ -1,3 +1,5 @@
+import type { CurrencyCode } from '@/utils/currency'
+
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
@@ -20,8 +22,12 @@ export interface ChatContext {
   }>
   /** Total assets (pockets + goals) for "total aset" questions */
   totalAssets?: number
+  /** Outstanding debts (credit cards, loans, paylater); net worth = totalAssets - totalLiabilities */
+  totalLiabilities?: number
   /** Pockets with balance for "kantong/dompet" questions */
   pockets?: Array<{ name: string; balance: number }>
+  /** Currency of every amount in the context: the user's base currency. Default IDR. */
+  currency?: CurrencyCode
   transactions?: {
     totalIncome: number
     totalExpenses: number
@@ -45,6 +51,8 @@ export interface ChatContext {
       threshold: number
       excess: number
     }>
+    /** Whether the user has set any budgets */
+    hasBudgets?: boolean
     averageDailyExpense: number
     savingsRate: number
     monthlyTrends: Array<{
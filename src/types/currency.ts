@@ -0,0 +1,14 @@
+import type { CurrencyCode } from '@/utils/currency'
+
+/**
+ * User-maintained exchange rates (entered manually, no network).
+ * Every rate is the value of 1 unit of that currency in IDR, so changing
+ * the base currency never requires re-entering rates.
+ */
+export interface ExchangeRateSettings {
+  /** Currency that totals (Home, Dashboard, chat) are converted into. */
+  baseCurrency: CurrencyCode
+  /** 1 unit of the currency = rate IDR. IDR itself is always 1. */
+  rates: Partial<Record<CurrencyCode, number>>
+  updatedAt?: string
+}
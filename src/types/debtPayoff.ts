@@ -0,0 +1,41 @@
+/** snowball = smallest balance first, avalanche = highest interest rate first */
+export type PayoffStrategy = 'snowball' | 'avalanche'
+
+export interface PayoffDebt {
+  id: string
+  name: string
+  balance: number
+  /** Annual interest rate in percent (APR). */
+  interestRate: number
+  minimumPayment: number
+}
+
+/** One month of a payoff schedule. Amounts per debt are keyed by debt id. */
+export interface PayoffMonth {
+  /** 1-based month number */
+  index: number
+  /** YYYY-MM */
+  month: string
+  payments: Record<string, number>
+  interest: Record<string, number>
+  /** Balances at the end of the month */
+  balances: Record<string, number>
+  totalPayment: number
+  totalInterest: number
+  totalBalance: number
+  /** Debts whose last payment is in this month */
+  paidOff: string[]
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy
+  /** Order extra money goes to the debts */
+  order: string[]
+  months: PayoffMonth[]
+  totalInterest: number
+  totalPaid: number
+  /** YYYY-MM of the last payment; undefined when the plan does not pay everything off */
+  payoffMonth?: string
+  /** Why the budget cannot pay the debts off, if it cannot */
+  problem?: 'budget_below_minimums' | 'never_paid_off'
+}
@@ -0,0 +1,64 @@
+/** How often a detected pattern repeats. */
+export type ForecastCadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+
+/** Where a projected money movement comes from. */
+export type ForecastSource = 'pattern' | 'recurring' | 'bill' | 'everyday'
+
+/** A repeating transaction found in the history. */
+export interface RecurringPattern {
+  /** Grouping key (type, accounts and description) */
+  key: string
+  type: 'income' | 'expense' | 'transfer'
+  description: string
+  pocketId: string
+  goalId?: string
+  transferToPocketId?: string
+  transferToGoalId?: string
+  transferToLiabilityId?: string
+  cadence: ForecastCadence
+  /** Typical amount in the source account's currency (median of the occurrences) */
+  amount: number
+  /** Typical amount credited to the destination of a transfer */
+  creditedAmount?: number
+  occurrences: number
+  lastDate: string
+  /** First projected date after today */
+  nextDate: string
+}
+
+/** One projected money movement on one account. */
+export interface ForecastEvent {
+  date: string
+  /** Pocket id, or `goal:<id>` for goals */
+  account: string
+  /** Signed, in the account's currency */
+  amount: number
+  label: string
+  source: ForecastSource
+}
+
+export interface ForecastPoint {
+  date: string
+  balance: number
+}
+
+export interface AccountForecast {
+  /** Pocket id, or `goal:<id>` for goals */
+  account: string
+  name: string
+  /** One point per day from today to the end of the horizon, in the account's currency */
+  series: ForecastPoint[]
+  lowest: ForecastPoint
+  /** First day the balance is projected below zero (pockets only) */
+  firstNegativeDate?: string
+}
+
+export interface CashFlowForecast {
+  months: number
+  accounts: AccountForecast[]
+  /** Sum of all accounts per day, in the base currency */
+  total: ForecastPoint[]
+  totalLowest: ForecastPoint
+  patterns: RecurringPattern[]
+  events: ForecastEvent[]
+}
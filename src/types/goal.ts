@@ -1,5 +1,14 @@
 export type GoalType = 'saving' | 'investment'
 
+/** How often simulated return is credited to an investment goal. */
+export type CompoundingFrequency = 'daily' | 'monthly' | 'yearly'
+
+/** Annual return that applies from `effectiveDate` (YYYY-MM-DD) until the next change. */
+export interface ReturnRateChange {
+  effectiveDate: string
+  annualReturnPercentage: number
+}
+
 export interface Goal {
   id: string
   name: string
@@ -12,9 +21,15 @@ export interface Goal {
   color?: string
   /** Default 'saving'. Only 'investment' uses return simulation. */
   type?: GoalType
-  /** Estimated annual return (%). Only for investment goals. Not editable after creation (v1). */
+  /** Estimated annual return (%), the rate of the latest change by effective date. Only for investment goals. */
   annualReturnPercentage?: number
-  /** Last date (YYYY-MM-DD) we applied daily return. Used to run simulation from. */
+  /** Rate history sorted by effectiveDate, starting at creation. Absent until the rate is first changed. */
+  returnRateChanges?: ReturnRateChange[]
+  /** Default 'daily'. Interest accrues daily and is credited at the end of each period. */
+  compounding?: CompoundingFrequency
+  /** Yearly swing (percentage points) around the rate for pessimistic/optimistic projections. Optional. */
+  volatilityPercentage?: number
+  /** Last date (YYYY-MM-DD) the return simulation ran through. */
   lastReturnCalculationDate?: string
 }
 
@@ -26,6 +41,22 @@ export interface CreateGoalData {
   color?: string
   type?: GoalType
   annualReturnPercentage?: number
+  compounding?: CompoundingFrequency
+  volatilityPercentage?: number
+}
+
+/** Edit form result; investment settings are only included for investment goals. */
+export interface EditGoalFormData {
+  name: string
+  icon: string
+  targetAmount: number
+  durationMonths: number
+  color: string
+  compounding?: CompoundingFrequency
+  volatilityPercentage?: number
+  /** New rate from returnEffectiveDate on; only set when it differs from the rate on that date. */
+  annualReturnPercentage?: number
+  returnEffectiveDate?: string
 }
 
 /** Read-only entry for Investment Activity tab (daily simulated return). */
@@ -36,3 +67,19 @@ export interface InvestmentActivityEntry {
   amount: number
   label: string
 }
+
+/** Principal and simulated return of an investment goal at the end of a day (growth chart). */
+export interface InvestmentHistoryPoint {
+  date: string
+  principal: number
+  simulatedReturn: number
+}
+
+/** Projected balance of an investment goal under the three return scenarios. */
+export interface InvestmentScenarioPoint {
+  date: string
+  principal: number
+  pessimistic: number
+  base: number
+  optimistic: number
+}
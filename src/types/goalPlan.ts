@@ -0,0 +1,56 @@
+export type ContributionFrequency = 'weekly' | 'monthly'
+
+/** Scheduled transfer from a pocket into a goal. */
+export interface GoalAutoSave {
+  id: string
+  goalId: string
+  /** Pocket the money is taken from; amount is in this pocket's currency. */
+  pocketId: string
+  amount: number
+  frequency: ContributionFrequency
+  /** First transfer (YYYY-MM-DD). */
+  startDate: string
+  /** Next date (YYYY-MM-DD) a transfer is due. */
+  nextDueDate: string
+  /** Last date (YYYY-MM-DD) a transfer was made. */
+  lastPostedDate?: string
+  /** Last date (YYYY-MM-DD) a transfer was skipped because the pocket could not cover it. */
+  lastSkippedDate?: string
+  paused: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface GoalAutoSaveFormData {
+  pocketId: string
+  amount: number
+  frequency: ContributionFrequency
+  startDate: string
+}
+
+/** completed: target reached; overdue: deadline passed without reaching it. */
+export type GoalPlanStatus = 'completed' | 'on_track' | 'behind' | 'overdue'
+
+/** Contribution plan for a goal, all amounts in IDR like goal balances. */
+export interface GoalPlan {
+  goalId: string
+  /** Target date (YYYY-MM-DD): creation date plus durationMonths. */
+  deadline: string
+  /** Months left until the deadline (fractional, 0 once passed). */
+  monthsLeft: number
+  /** Contribution needed per month / week to reach the target by the deadline (returns included). */
+  requiredMonthly: number
+  requiredWeekly: number
+  /** Balance the goal should have today to be on schedule. */
+  expectedBalance: number
+  status: GoalPlanStatus
+  /** Monthly contribution used for the projection: auto-saves, or the recent average. */
+  monthlyPace: number
+  /** Where monthlyPace comes from. */
+  paceSource: 'auto_save' | 'history' | 'none'
+  /**
+   * Date (YYYY-MM-DD) the target is reached at the current pace: today plus the months needed, on
+   * today's day of the month (clamped to the month end) so it compares with the deadline. Undefined when never.
+   */
+  projectedCompletionDate?: string
+}
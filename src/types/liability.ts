@@ -0,0 +1,46 @@
+import type { CurrencyCode } from '@/utils/currency'
+
+export type LiabilityKind = 'credit_card' | 'loan' | 'paylater'
+
+export interface Liability {
+  id: string
+  name: string
+  kind: LiabilityKind
+  /**
+   * Outstanding amount before any recorded payment. Payments are transfers with
+   * `transferToLiabilityId`; the current balance is this minus their credited amounts.
+   */
+  openingBalance: number
+  /** Annual interest rate in percent (APR). */
+  interestRate: number
+  /** Minimum payment per month. */
+  minimumPayment: number
+  /** Day of month the payment is due (1–31). Optional. */
+  dueDay?: number
+  /** Currency the debt is owed in. Missing = IDR. */
+  currency?: CurrencyCode
+  createdAt: string
+  updatedAt: string
+}
+
+export interface LiabilityFormData {
+  name: string
+  kind: LiabilityKind
+  /** Amount owed today */
+  balance: number
+  interestRate: number
+  minimumPayment: number
+  dueDay?: number
+  currency?: CurrencyCode
+}
+
+/** Assets, liabilities and net worth at the end of a month (or today, for the running month). */
+export interface NetWorthSnapshot {
+  /** YYYY-MM */
+  month: string
+  assets: number
+  liabilities: number
+  /** Base currency the amounts were recorded in */
+  currency: CurrencyCode
+  updatedAt: string
+}
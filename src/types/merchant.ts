@@ -0,0 +1,39 @@
+/**
+ * A merchant in the user's history, with the category and pocket its purchases are
+ * usually recorded under. Learned from saved transactions; new receipts and typed
+ * entries from the merchant start out with the user's preferred category and pocket,
+ * or the learned ones when none is set.
+ */
+export interface Merchant {
+  id: string
+  /** Normalized display name ("Indomaret") */
+  name: string
+  /** Most used category for this merchant */
+  category?: string
+  /** Most used pocket for this merchant */
+  pocketId?: string
+  /** Category the user chose for this merchant; wins over the learned one */
+  preferredCategory?: string
+  /** Pocket the user chose for this merchant; wins over the learned one */
+  preferredPocketId?: string
+  /** Expenses recorded with this merchant */
+  transactionCount: number
+  /** Date (YYYY-MM-DD) of the latest of those transactions */
+  lastUsed: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MerchantPreferences {
+  preferredCategory?: string
+  preferredPocketId?: string
+}
+
+/** Spending at one merchant, in the base currency */
+export interface MerchantSpending {
+  merchant: string
+  total: number
+  count: number
+  /** Category most of the spending went to */
+  category: string
+}
@@ -1,3 +1,5 @@
+import type { CurrencyCode } from '@/utils/currency'
+
 export type PocketType = 'main' | 'spending' | 'saving' | 'investment'
 
 export interface Pocket {
@@ -9,6 +11,8 @@ export interface Pocket {
   createdAt: string
   /** Pocket card color (hex). Optional; default from presets. */
   color?: string
+  /** Currency the pocket's transactions are stored in. Missing = IDR. Not editable after creation. */
+  currency?: CurrencyCode
 }
 
 export interface CreatePocketData {
@@ -16,4 +20,5 @@ export interface CreatePocketData {
   icon: string
   type: Exclude<PocketType, 'main'>
   color?: string
+  currency?: CurrencyCode
 }
@@ -0,0 +1,43 @@
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+export interface RecurringRule {
+  id: string
+  type: 'income' | 'expense'
+  amount: number
+  description: string
+  category: string
+  /** Target pocket the generated transactions are posted to. */
+  pocketId: string
+  frequency: RecurringFrequency
+  /** Repeat every N periods (e.g. every 2 weeks). Default 1. */
+  interval: number
+  /** First occurrence (YYYY-MM-DD). */
+  startDate: string
+  /** Optional last allowed occurrence date (YYYY-MM-DD). */
+  endDate?: string
+  /** Optional cap on the number of generated occurrences. */
+  maxOccurrences?: number
+  /** Number of occurrences already posted. */
+  occurrenceCount: number
+  /** Next date (YYYY-MM-DD) an occurrence is due. Undefined once the rule has finished. */
+  nextDueDate?: string
+  /** Last date (YYYY-MM-DD) an occurrence was posted. */
+  lastPostedDate?: string
+  /** Paused rules keep their schedule but post nothing. */
+  paused: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RecurringRuleFormData {
+  type: 'income' | 'expense'
+  amount: number
+  description: string
+  category: string
+  pocketId: string
+  frequency: RecurringFrequency
+  interval: number
+  startDate: string
+  endDate?: string
+  maxOccurrences?: number
+}
@@ -0,0 +1,17 @@
+/** A named transactions-list query (see utils/transactionQuery), e.g. "Big food spends". */
+export interface SavedFilter {
+  id: string
+  name: string
+  /** Query text; relative dates (date:30d) are evaluated when the filter is opened */
+  query: string
+  /** Shown as a shortcut on the home screen */
+  pinned: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SavedFilterFormData {
+  name: string
+  query: string
+  pinned: boolean
+}
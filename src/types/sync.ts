@@ -0,0 +1,47 @@
+/** Records that are synced to Supabase when the Supabase backend is on. */
+export type SyncEntity = 'transaction' | 'pocket' | 'goal'
+
+/**
+ * Pending change in the outbox. Changes to the same record are merged,
+ * so the outbox holds at most one mutation per record.
+ */
+export interface SyncMutation {
+  id: string
+  entity: SyncEntity
+  recordId: string
+  op: 'upsert' | 'delete'
+  /** Field name -> when it was last changed on this device (ISO). Upserts only. */
+  fieldChangedAt: Record<string, string>
+  /** When the mutation was last touched (ISO); for deletes, when the record was deleted. */
+  changedAt: string
+}
+
+/** A field both this device and another device changed since the last sync. */
+export interface SyncConflict {
+  id: string
+  entity: SyncEntity
+  recordId: string
+  /** Record name or description at the time, for display. */
+  label: string
+  /** Field name, or '*' when one side deleted the record. */
+  field: string
+  localValue: unknown
+  remoteValue: unknown
+  localChangedAt: string
+  remoteChangedAt: string
+  winner: 'local' | 'remote'
+  resolvedAt: string
+}
+
+export interface SyncState {
+  /** Per table: newest server `updated_at` already pulled. */
+  cursors: Partial<Record<SyncEntity, string>>
+  lastSyncedAt?: string
+  lastError?: string
+}
+
+export interface SyncResult {
+  pushed: number
+  pulled: number
+  conflicts: number
+}
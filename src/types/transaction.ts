@@ -1,5 +1,13 @@
 export type TransactionType = 'income' | 'expense' | 'transfer'
 
+/** One category/amount line of a split transaction. */
+export interface TransactionSplit {
+  category: string
+  amount: number
+  /** Optional label for the line (e.g. receipt item name) */
+  note?: string
+}
+
 export interface Transaction {
   id: string
   type: TransactionType
@@ -16,6 +24,24 @@ export interface Transaction {
   goalId?: string
   /** Set when type === 'transfer' and target is a Goal */
   transferToGoalId?: string
+  /** Set when type === 'transfer' and the money pays down a liability (debt payment) */
+  transferToLiabilityId?: string
+  /**
+   * Transfers between different currencies: amount credited to the target, in the target's
+   * currency. `amount` is always in the source currency. Missing = same as `amount`.
+   */
+  transferToAmount?: number
+  /** Set when the transaction was auto-posted by a recurring rule */
+  recurringRuleId?: string
+  /**
+   * Set when the amount is split across several categories (income/expense only).
+   * Lines sum to `amount`; `category` holds the largest line's category.
+   */
+  splits?: TransactionSplit[]
+  /** Free-form labels (e.g. "bali-trip", "reimbursable"), stored without the leading # */
+  tags?: string[]
+  /** Shop or payee, normalized ("Indomaret"); read from receipts and typed text */
+  merchant?: string
 }
 
 export interface TransactionFormData {
@@ -27,14 +53,40 @@ export interface TransactionFormData {
   pocketId: string
   /** Set when transaction is for a Goal (income only) */
   goalId?: string
+  /** Set when the transaction is generated by a recurring rule */
+  recurringRuleId?: string
+  /** Category/amount lines when splitting; must sum to `amount` */
+  splits?: TransactionSplit[]
+  tags?: string[]
+  merchant?: string
+  /** Stored attachment (e.g. the scanned receipt) to link once the transaction is created */
+  attachmentId?: string
 }
 
+/** Every field narrows the result; list fields match any of their values. */
 export interface TransactionFilters {
   type?: TransactionType
   category?: string
+  /** Any of these categories; sub-categories count toward their parent */
+  categories?: string[]
+  /** YYYY-MM-DD, inclusive */
   startDate?: string
+  /** YYYY-MM-DD, inclusive */
   endDate?: string
   pocketId?: string
+  /**
+   * Any of these pockets, or goals as `goal:<id>`. Unlike `pocketId`, a pocket leaves out
+   * goal allocations and transfers into goals (they show under the goal).
+   */
+  pocketIds?: string[]
+  minAmount?: number
+  maxAmount?: number
+  /** Any of these tags (case-insensitive) */
+  tags?: string[]
+  /** Only transactions with (true) or without (false) an attached receipt */
+  hasAttachment?: boolean
+  /** Words that must all appear in the description, merchant, category name or tags */
+  text?: string
 }
 
 export interface TransactionSummary {
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { merchantKey, normalizeMerchantName } from '../merchants'
+
+describe('normalizeMerchantName', () => {
+  it.each([
+    ['INDOMARET 123 JKT', 'Indomaret'],
+    ['PT Indomarco Prismatama', 'Indomaret'],
+    ['SPBU 34.123.45 PERTAMINA', 'Pertamina'],
+    ['grabfood', 'GrabFood'],
+    ['WARUNG SATE PAK KUMIS 02', 'Warung Sate Pak Kumis'],
+    ['PT Bakmi GM JKT', 'Bakmi GM'],
+    ['Toko Sinar Jaya (Cabang 3) Bandung', 'Toko Sinar Jaya'],
+    ['shake shack', 'Shake Shack'],
+    ['Bandung', 'Bandung'],
+    ['#0231 **', ''],
+  ])('reads "%s" as "%s"', (raw, expected) => {
+    expect(normalizeMerchantName(raw)).toBe(expected)
+  })
+
+  it('gives spelling variants of one merchant the same key', () => {
+    expect(merchantKey('WARUNG SATE PAK KUMIS 02')).toBe(merchantKey('warung sate pak kumis'))
+    expect(merchantKey('Alfamart Cabang Depok')).toBe(merchantKey('ALFAMART'))
+  })
+})
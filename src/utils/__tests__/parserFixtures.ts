@@ -0,0 +1,154 @@
+import type { ParserLocale } from '@/utils/parserLocale'
+import type { ReceiptAdjustmentKind } from '@/utils/receiptParser'
+
+/** A text entry and what the text parser should read from it; dates are days before today */
+export interface TextFixture {
+  text: string
+  amount: number
+  type: 'income' | 'expense'
+  category?: string
+  description?: string
+  daysAgo?: number
+}
+
+/**
+ * A receipt's OCR text and what the receipt parser should find: total, date,
+ * merchant, the item lines and the tax/service/tip/discount/rounding lines
+ */
+export interface ReceiptFixture {
+  name: string
+  text: string
+  total: number
+  date: string
+  merchant?: string
+  items: number
+  subtotal?: number
+  adjustments: ReceiptAdjustmentKind[]
+}
+
+/** The same kinds of input in each language, so both parsers are held to the same cases */
+export const TEXT_FIXTURES: Record<ParserLocale, TextFixture[]> = {
+  id: [
+    { text: 'Beli bakso hari ini 20 ribu', amount: 20000, type: 'expense', category: 'food', description: 'bakso', daysAgo: 0 },
+    { text: 'Gaji masuk 5 juta', amount: 5000000, type: 'income', category: 'salary' },
+    { text: 'Bayar tagihan listrik kemarin 500rb', amount: 500000, type: 'expense', category: 'bills', daysAgo: 1 },
+    { text: 'Makan siang lima puluh ribu lima ratus', amount: 50500, type: 'expense', category: 'food' },
+    { text: 'Ngopi 15k kemarin lusa', amount: 15000, type: 'expense', category: 'coffee', daysAgo: 2 },
+    { text: 'Parkir 5rb 3 hari lalu', amount: 5000, type: 'expense', category: 'transport', daysAgo: 3 },
+    { text: 'Nonton bioskop 50rb minggu lalu', amount: 50000, type: 'expense', category: 'entertainment', daysAgo: 7 },
+    { text: 'Beli obat 1 juta 520 ribu', amount: 1520000, type: 'expense', category: 'health' },
+  ],
+  en: [
+    { text: 'Fifty thousand for lunch yesterday', amount: 50000, type: 'expense', category: 'food', description: 'lunch', daysAgo: 1 },
+    { text: 'Spent $12.50 on coffee 2 days ago', amount: 12.5, type: 'expense', category: 'coffee', description: 'coffee', daysAgo: 2 },
+    { text: 'Paid 1.2k rent last week', amount: 1200, type: 'expense', category: 'bills', daysAgo: 7 },
+    { text: 'Got paid 2,500 dollars salary today', amount: 2500, type: 'income', category: 'salary', daysAgo: 0 },
+    { text: 'Uber ride 23 bucks day before yesterday', amount: 23, type: 'expense', category: 'transport', description: 'Uber ride', daysAgo: 2 },
+    { text: 'A hundred bucks for concert tickets', amount: 100, type: 'expense', category: 'entertainment', description: 'concert tickets' },
+    { text: 'Groceries twenty-five dollars', amount: 25, type: 'expense', category: 'food' },
+    { text: 'Received 2.5 million from a client', amount: 2500000, type: 'income', category: 'freelance' },
+  ],
+}
+
+export const RECEIPT_FIXTURES: Record<ParserLocale, ReceiptFixture[]> = {
+  id: [
+    {
+      name: 'minimarket',
+      text: [
+        'INDOMARET',
+        'Tgl 15/10/2026 08:49',
+        'Aqua 600ml 3.500',
+        'Roti Tawar 12.000',
+        'Subtotal 15.500',
+        'PPN 1.705',
+        'Total Rp 17.205',
+        'Tunai 20.000',
+        'Kembalian 2.795',
+      ].join('\n'),
+      total: 17205,
+      date: '2026-10-15',
+      merchant: 'Indomaret',
+      items: 2,
+      subtotal: 15500,
+      adjustments: ['tax'],
+    },
+    {
+      name: 'restaurant with service charge',
+      text: [
+        'Tanggal: 03/10/2026',
+        'Nasi Goreng 35.000',
+        'Es Teh 8.000',
+        'Sub Total 43.000',
+        'Service 5% 2.150',
+        'Pajak 10% 4.515',
+        'Total Bayar Rp 49.665',
+      ].join('\n'),
+      total: 49665,
+      date: '2026-10-03',
+      items: 2,
+      subtotal: 43000,
+      adjustments: ['service', 'tax'],
+    },
+    {
+      name: 'minimarket with member discount',
+      text: [
+        'ALFAMART',
+        'Tgl 12/10/2026 19:02',
+        'Indomie Goreng 3.100',
+        'Teh Botol 4.500',
+        'Minyak Goreng 1L 12.000',
+        'Subtotal 19.600',
+        'Diskon Member -2.000',
+        'Pembulatan -100',
+        'Total 17.500',
+        'Tunai 20.000',
+        'Kembalian 2.500',
+      ].join('\n'),
+      total: 17500,
+      date: '2026-10-12',
+      merchant: 'Alfamart',
+      items: 3,
+      subtotal: 19600,
+      adjustments: ['discount', 'rounding'],
+    },
+  ],
+  en: [
+    {
+      name: 'grocery store',
+      text: [
+        "TRADER JOE'S",
+        '10/05/2026 12:31 PM',
+        'Greek Yogurt 5.99',
+        'Coffee Beans 8.99',
+        'Subtotal 14.98',
+        'Tax 1.35',
+        'Balance Due $16.33',
+        'Cash $20.00',
+        'Change $3.67',
+      ].join('\n'),
+      total: 16.33,
+      date: '2026-10-05',
+      merchant: "Trader Joe's",
+      items: 2,
+      subtotal: 14.98,
+      adjustments: ['tax'],
+    },
+    {
+      name: 'restaurant with tip',
+      text: [
+        'Date: 09/28/2026',
+        'Burger 12.50',
+        'Fries 4.00',
+        'Sub Total 16.50',
+        'Tax 1.49',
+        'Tip 3.00',
+        'Total $20.99',
+      ].join('\n'),
+      total: 20.99,
+      date: '2026-09-28',
+      items: 2,
+      subtotal: 16.5,
+      adjustments: ['tax', 'tip'],
+    },
+  ],
+}
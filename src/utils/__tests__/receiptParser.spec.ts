@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildReceiptBreakdown,
+  parseReceiptTextDetailed,
+  reconcileReceipt,
+  splitReceipt,
+  type ReceiptBreakdown,
+} from '../receiptParser'
+import type { ParserLocale } from '../parserLocale'
+import { RECEIPT_FIXTURES } from './parserFixtures'
+
+describe.each(Object.keys(RECEIPT_FIXTURES) as ParserLocale[])('parseReceiptTextDetailed (%s)', (locale) => {
+  it.each(RECEIPT_FIXTURES[locale])('reads the $name receipt', (fixture) => {
+    const result = parseReceiptTextDetailed(fixture.text, locale)
+
+    expect(result).toMatchObject({
+      detectedAmount: fixture.total,
+      date: fixture.date,
+      ...(fixture.merchant && { merchant: fixture.merchant }),
+    })
+  })
+
+  it.each(RECEIPT_FIXTURES[locale])('detects the language of the $name receipt', (fixture) => {
+    const other: ParserLocale = locale === 'id' ? 'en' : 'id'
+
+    expect(parseReceiptTextDetailed(fixture.text, other).detectedAmount).toBe(fixture.total)
+  })
+
+  it.each(RECEIPT_FIXTURES[locale])('breaks the $name receipt down into items and charges that add up', (fixture) => {
+    const result = parseReceiptTextDetailed(fixture.text, locale)
+
+    expect(result.items).toHaveLength(fixture.items)
+    expect(result.subtotal).toBe(fixture.subtotal)
+    expect(result.adjustments?.map((a) => a.kind)).toEqual(fixture.adjustments)
+    expect(reconcileReceipt(buildReceiptBreakdown(result))).toMatchObject({ difference: 0, balanced: true })
+  })
+})
+
+describe('receipt breakdown', () => {
+  const breakdown: ReceiptBreakdown = {
+    items: [
+      { name: 'Nasi Goreng', amount: 35000, category: 'food' },
+      { name: 'Es Teh', amount: 8000, category: 'food' },
+      { name: 'Parkir', amount: 5000, category: 'transport' },
+    ],
+    adjustments: [
+      { kind: 'tax', label: 'PB1', amount: 4800 },
+      { kind: 'discount', label: 'Voucher', amount: -3000 },
+    ],
+    total: 49800,
+  }
+
+  it('reports how far items and charges are from the total', () => {
+    expect(reconcileReceipt({ ...breakdown, total: 50000 })).toEqual({
+      itemsTotal: 48000,
+      adjustmentsTotal: 1800,
+      computedTotal: 49800,
+      difference: 200,
+      balanced: false,
+    })
+  })
+
+  it('shares charges out over the items in proportion', () => {
+    const parts = splitReceipt(breakdown, 'items')
+
+    expect(parts.map((p) => p.amount)).toEqual([36312, 8300, 5188])
+    expect(parts.reduce((sum, p) => sum + p.amount, 0)).toBe(breakdown.total)
+  })
+
+  it('groups items by category', () => {
+    expect(splitReceipt(breakdown, 'category')).toEqual([
+      { description: 'Nasi Goreng, Es Teh', category: 'food', amount: 44612 },
+      { description: 'Parkir', category: 'transport', amount: 5188 },
+    ])
+  })
+
+  it('keeps cents and puts the rounding remainder on the largest part', () => {
+    const parts = splitReceipt({
+      items: [
+        { name: 'A', amount: 1, category: 'food' },
+        { name: 'B', amount: 1, category: 'food' },
+        { name: 'C', amount: 1, category: 'food' },
+      ],
+      adjustments: [{ kind: 'tip', label: 'Tip', amount: 0.1 }],
+      total: 3.1,
+    }, 'items')
+
+    expect(parts.map((p) => p.amount)).toEqual([1.04, 1.03, 1.03])
+  })
+})
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findDuplicates,
+  guessColumnMapping,
+  guessDateFormat,
+  mapCsvRows,
+  parseAmount,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  parseStatementDate,
+} from '../statementImport'
+import type { Transaction } from '@/types/transaction'
+
+describe('parseAmount', () => {
+  it.each([
+    ['1.234.567,89', 1234567.89],
+    ['1,234,567.89', 1234567.89],
+    ['Rp 50.000', 50000],
+    ['50,000', 50000],
+    ['12,5', 12.5],
+    ['(120.00)', -120],
+    ['-75', -75],
+    ['150,000.00 DB', -150000],
+    ['25.000 CR', 25000],
+    ['500D', -500],
+    ['1.000.000 K', 1000000],
+  ])('reads "%s" as %d', (raw, expected) => {
+    expect(parseAmount(raw)).toBe(expected)
+  })
+
+  it.each(['', '   ', 'n/a', 'Rp'])('rejects "%s"', (raw) => {
+    expect(parseAmount(raw)).toBeNull()
+  })
+})
+
+describe('parseStatementDate', () => {
+  it.each([
+    ['15/03/2026', 'dmy', '2026-03-15'],
+    ['03/15/2026', 'mdy', '2026-03-15'],
+    ['2026/03/15', 'ymd', '2026-03-15'],
+    ['2026-03-15T08:30:00', 'mdy', '2026-03-15'],
+    ['15 Mar 2026', 'dmy', '2026-03-15'],
+    ['15-Agu-26', 'dmy', '2026-08-15'],
+    ['Oct 5, 2026', 'mdy', '2026-10-05'],
+  ] as const)('reads "%s" (%s) as %s', (raw, format, expected) => {
+    expect(parseStatementDate(raw, format)).toBe(expected)
+  })
+
+  it.each([
+    ['31/02/2026', 'dmy'],
+    ['13/15/2026', 'mdy'],
+    ['15/03', 'dmy'],
+    ['saldo awal', 'dmy'],
+  ] as const)('rejects "%s" (%s)', (raw, format) => {
+    expect(parseStatementDate(raw, format)).toBeNull()
+  })
+
+  it('guesses the order that reads every value, preferring day first', () => {
+    expect(guessDateFormat(['03/15/2026', '12/31/2026'])).toBe('mdy')
+    expect(guessDateFormat(['2026/03/15'])).toBe('ymd')
+    expect(guessDateFormat(['01/02/2026'])).toBe('dmy')
+  })
+})
+
+describe('CSV statements', () => {
+  it('maps separate debit and credit columns from an Indonesian header', () => {
+    const rows = parseCsv(
+      [
+        'Tanggal;Keterangan;Debet;Kredit;Saldo',
+        '01/03/2026;"TRSF E-BANKING; GAJI";;5.000.000,00;5.000.000,00',
+        '02/03/2026;INDOMARET JKT;75.500,00;;4.924.500,00',
+        '03/03/2026;SALDO;;;4.924.500,00',
+      ].join('\n'),
+    )
+    const mapping = guessColumnMapping(rows)
+
+    expect(mapping).toMatchObject({ hasHeader: true, date: 0, description: 1, debit: 2, credit: 3, amountMode: 'debitCredit', dateFormat: 'dmy' })
+    expect(mapCsvRows(rows, mapping)).toEqual({
+      entries: [
+        { date: '2026-03-01', amount: 5000000, description: 'TRSF E-BANKING; GAJI' },
+        { date: '2026-03-02', amount: -75500, description: 'INDOMARET JKT' },
+      ],
+      skipped: 1,
+    })
+  })
+
+  it('finds the columns of a statement without a header, skipping the running balance', () => {
+    const rows = parseCsv(
+      ['03/15/2026,Coffee beans,-12.50,987.50', '03/16/2026,Refund from store,20.00,1007.50'].join('\r\n'),
+    )
+    const mapping = guessColumnMapping(rows)
+
+    expect(mapping).toMatchObject({ hasHeader: false, date: 0, description: 1, amount: 2, amountMode: 'signed', dateFormat: 'mdy' })
+    expect(mapCsvRows(rows, mapping).entries.map((e) => e.amount)).toEqual([-12.5, 20])
+  })
+
+  it('flips the sign of credit card statements', () => {
+    const rows = [['15/03/2026', 'Dinner', '250.000']]
+    const mapping = { ...guessColumnMapping(rows), amountMode: 'inverted' as const }
+
+    expect(mapCsvRows(rows, mapping).entries[0]?.amount).toBe(-250000)
+  })
+})
+
+describe('parseOfx', () => {
+  it('reads each transaction block and skips zero amounts', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260305120000[+7:WIB]<TRNAMT>-42.10<NAME>GROCERY MART<MEMO>card 1234</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20260306',
+      '<TRNAMT>1500,00',
+      '<MEMO>Salary March',
+      '</STMTTRN>',
+      '<STMTTRN><DTPOSTED>20260307<TRNAMT>0.00<NAME>Fee waiver</STMTTRN>',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n')
+
+    expect(parseOfx(ofx)).toEqual({
+      entries: [
+        { date: '2026-03-05', amount: -42.1, description: 'GROCERY MART' },
+        { date: '2026-03-06', amount: 1500, description: 'Salary March' },
+      ],
+      skipped: 1,
+    })
+  })
+})
+
+describe('parseQif', () => {
+  it('reads records in the given date order and keeps the total of split records', () => {
+    const qif = [
+      '!Type:Bank',
+      'D03/15/2026',
+      'T-1,250.00',
+      'PRent',
+      '^',
+      'D03/16/2026',
+      'T-80.00',
+      'MWeekly shop',
+      'SGroceries',
+      '$-50.00',
+      'SHousehold',
+      '$-30.00',
+      '^',
+      'D13/45/2026',
+      'T10.00',
+      '^',
+    ].join('\n')
+
+    expect(parseQif(qif, 'mdy')).toEqual({
+      entries: [
+        { date: '2026-03-15', amount: -1250, description: 'Rent' },
+        { date: '2026-03-16', amount: -80, description: 'Weekly shop' },
+      ],
+      skipped: 1,
+    })
+  })
+})
+
+describe('findDuplicates', () => {
+  function recorded(id: string, overrides: Partial<Transaction>): Transaction {
+    return {
+      id,
+      type: 'expense',
+      amount: 25000,
+      description: 'Kopi Kenangan',
+      category: 'coffee',
+      date: '2026-03-02',
+      pocketId: 'main',
+      createdAt: '2026-03-02T00:00:00.000Z',
+      updatedAt: '2026-03-02T00:00:00.000Z',
+      ...overrides,
+    }
+  }
+
+  const entry = { date: '2026-03-02', amount: -25000, description: 'kopi  kenangan' }
+
+  it('flags entries already recorded in the pocket, ignoring case and spacing', () => {
+    expect(findDuplicates([entry], [recorded('1', {})], 'main')).toEqual([true])
+  })
+
+  it('matches each recorded transaction once', () => {
+    expect(findDuplicates([entry, entry], [recorded('1', {})], 'main')).toEqual([true, false])
+  })
+
+  it('does not match another pocket, direction or transfers', () => {
+    const existing = [
+      recorded('1', { pocketId: 'savings' }),
+      recorded('2', { type: 'income' }),
+      recorded('3', { type: 'transfer' }),
+    ]
+
+    expect(findDuplicates([entry], existing, 'main')).toEqual([false])
+  })
+
+  it('matches an entry without a description to one saved with the blank label', () => {
+    const blank = { ...entry, description: '' }
+    const existing = [recorded('1', { description: 'Transaksi impor' }), recorded('2', { description: 'Imported transaction' })]
+
+    expect(findDuplicates([blank, blank, blank], existing, 'main', ['Imported transaction', 'Transaksi impor'])).toEqual([
+      true,
+      true,
+      false,
+    ])
+  })
+
+  it('does not match a blank entry to a described transaction', () => {
+    expect(findDuplicates([{ ...entry, description: '  ' }], [recorded('1', {})], 'main', ['Imported transaction'])).toEqual([
+      false,
+    ])
+  })
+})
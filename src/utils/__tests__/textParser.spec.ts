@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { parseMultipleTextInput, parseTextInput } from '../textParser'
+import type { ParserLocale } from '../parserLocale'
+import { TEXT_FIXTURES } from './parserFixtures'
+
+/** UTC day `days` before today, the form the parser returns dates in */
+function daysAgo(days: number): string {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days)).toISOString().split('T')[0]!
+}
+
+describe.each(Object.keys(TEXT_FIXTURES) as ParserLocale[])('parseTextInput (%s)', (locale) => {
+  it.each(TEXT_FIXTURES[locale])('parses "$text"', (fixture) => {
+    const result = parseTextInput(fixture.text, undefined, { locale })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      amount: fixture.amount,
+      type: fixture.type,
+      ...(fixture.category && { category: fixture.category }),
+      ...(fixture.description && { description: fixture.description }),
+      ...(fixture.daysAgo !== undefined && { date: daysAgo(fixture.daysAgo) }),
+    })
+  })
+
+  it('parses every fixture when pasted as one list', () => {
+    const result = parseMultipleTextInput(TEXT_FIXTURES[locale].map((f) => f.text).join('\n'), undefined, { locale })
+
+    expect(result.drafts.map((d) => d.data.amount)).toEqual(TEXT_FIXTURES[locale].map((f) => f.amount))
+  })
+})
+
+describe('parser language', () => {
+  it('reads clearly English text as English with the app in Indonesian', () => {
+    const result = parseTextInput('Spent $12.50 on coffee yesterday', undefined, { locale: 'id' })
+
+    expect(result.data.amount).toBe(12.5)
+    expect(result.data.date).toBe(daysAgo(1))
+  })
+
+  it('reads numeric dates in the language\'s order', () => {
+    expect(parseTextInput('lunch $12 on 10/05/2026', undefined, { locale: 'en' }).data.date).toBe('2026-10-05')
+    expect(parseTextInput('makan 20rb tgl 10/05/2026', undefined, { locale: 'id' }).data.date).toBe('2026-05-10')
+  })
+
+  it('reads last weekday as the most recent past one', () => {
+    const date = parseTextInput('dinner $30 last Friday', undefined, { locale: 'en' }).data.date!
+    const friday = new Date(`${date}T00:00:00.000Z`)
+
+    expect(friday.getUTCDay()).toBe(5)
+    expect(date < daysAgo(0)).toBe(true)
+    expect(date >= daysAgo(7)).toBe(true)
+  })
+})
+
+describe('relative dates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    // Monday late evening in UTC; already Tuesday morning east of it
+    vi.setSystemTime(new Date('2026-10-19T23:30:00.000Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts back from the UTC day, whatever the device time zone', () => {
+    expect(parseTextInput('makan 20rb kemarin', undefined, { locale: 'id' }).data.date).toBe('2026-10-18')
+    expect(parseTextInput('lunch $12 3 days ago', undefined, { locale: 'en' }).data.date).toBe('2026-10-16')
+    expect(parseTextInput('dinner $30 last Friday', undefined, { locale: 'en' }).data.date).toBe('2026-10-16')
+    expect(parseTextInput('makan 20rb senin lalu', undefined, { locale: 'id' }).data.date).toBe('2026-10-12')
+  })
+})
+
+describe('merchants', () => {
+  it('recognises a known chain and keeps it on the entry', () => {
+    const result = parseTextInput('Kopi Kenangan 25rb', undefined, { locale: 'id' })
+
+    expect(result.data).toMatchObject({ amount: 25000, merchant: 'Kopi Kenangan', category: 'coffee' })
+  })
+})
+
+describe('pockets and goals', () => {
+  const accounts = {
+    pockets: [
+      { id: 'pocket-bca', name: 'BCA' },
+      { id: 'pocket-jago', name: 'Jago' },
+      { id: 'pocket-savings', name: 'Tabungan' },
+    ],
+    goals: [
+      { id: 'goal-holiday', name: 'Liburan' },
+      { id: 'goal-savings', name: 'Tabungan' },
+    ],
+  }
+
+  it('reads "pindah ... dari X ke Y" as a transfer between those pockets', () => {
+    const result = parseTextInput('pindah 100rb dari BCA ke Jago', undefined, { accounts, locale: 'id' })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({ type: 'transfer', amount: 100000, pocketId: 'pocket-bca' })
+    expect(result.transferTarget).toEqual({ kind: 'pocket', id: 'pocket-jago' })
+    expect(result.confidence.type).toBe('high')
+  })
+
+  it('reads "nabung ke goal Z" as a transfer to that goal', () => {
+    const result = parseTextInput('nabung 500rb ke goal Liburan', undefined, { accounts, locale: 'id' })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({ type: 'transfer', amount: 500000 })
+    expect(result.data.pocketId).toBeUndefined()
+    expect(result.transferTarget).toEqual({ kind: 'goal', id: 'goal-holiday' })
+  })
+
+  it('takes the source pocket of a goal transfer from "dari X"', () => {
+    const result = parseTextInput('nabung 200rb dari Jago ke goal Liburan', undefined, { accounts, locale: 'id' })
+
+    expect(result.data).toMatchObject({ type: 'transfer', amount: 200000, pocketId: 'pocket-jago' })
+    expect(result.transferTarget).toEqual({ kind: 'goal', id: 'goal-holiday' })
+  })
+
+  it('prefers the pocket when a goal has the same name, unless "goal" is said', () => {
+    expect(parseTextInput('pindah 100rb ke Tabungan', undefined, { accounts, locale: 'id' }).transferTarget).toEqual({
+      kind: 'pocket',
+      id: 'pocket-savings',
+    })
+    expect(parseTextInput('nabung 100rb ke goal Tabungan', undefined, { accounts, locale: 'id' }).transferTarget).toEqual({
+      kind: 'goal',
+      id: 'goal-savings',
+    })
+  })
+
+  it('keeps a payment "dari X" an expense from that pocket', () => {
+    const result = parseTextInput('bayar listrik 300rb dari BCA', undefined, { accounts, locale: 'id' })
+
+    expect(result.data).toMatchObject({ type: 'expense', amount: 300000, pocketId: 'pocket-bca' })
+    expect(result.transferTarget).toBeUndefined()
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { parseTransactionQuery, quoteQueryValue, type TransactionQueryContext } from '../transactionQuery'
+
+const context: TransactionQueryContext = {
+  pockets: [
+    { id: 'main', name: 'Main' },
+    { id: 'pocket-2', name: 'Travel Fund' },
+  ],
+  goals: [{ id: 'goal-1', name: 'Laptop' }],
+  // Late evening UTC: already the next day in UTC+7
+  now: new Date('2026-03-14T23:30:00.000Z'),
+}
+
+function parse(query: string) {
+  return parseTransactionQuery(query, context)
+}
+
+describe('parseTransactionQuery', () => {
+  it('combines terms and keeps plain words as text', () => {
+    expect(parse('category:food,transport amount>50000 pocket:Main #bali-trip "iced coffee" extra')).toEqual({
+      filters: {
+        categories: ['food', 'transport'],
+        minAmount: 50000.01,
+        pocketIds: ['main'],
+        tags: ['bali-trip'],
+        text: 'iced coffee extra',
+      },
+      invalid: [],
+    })
+  })
+
+  it('reads key aliases in Indonesian and quoted pocket names', () => {
+    expect(parse('tipe:pengeluaran kantong:"travel fund" tanpa:struk').filters).toEqual({
+      type: 'expense',
+      pocketIds: ['pocket-2'],
+      hasAttachment: false,
+    })
+  })
+
+  it('names goals as goal: or pocket:goal:', () => {
+    expect(parse('goal:Laptop').filters.pocketIds).toEqual(['goal:goal-1'])
+    expect(parse('pocket:goal:goal-1').filters.pocketIds).toEqual(['goal:goal-1'])
+  })
+
+  it.each([
+    ['amount:50k', { minAmount: 50000, maxAmount: 50000 }],
+    ['amount:10rb..1,5jt', { minAmount: 10000, maxAmount: 1500000 }],
+    ['amount>=100 amount<=200', { minAmount: 100, maxAmount: 200 }],
+    ['amount<1.000', { maxAmount: 999.99 }],
+    ['amount>10 amount>20', { minAmount: 20.01 }],
+  ])('reads %s as an amount range', (query, expected) => {
+    expect(parse(query).filters).toEqual(expected)
+  })
+
+  it.each([
+    ['date:today', { startDate: '2026-03-14', endDate: '2026-03-14' }],
+    ['date:yesterday', { startDate: '2026-03-13', endDate: '2026-03-13' }],
+    ['date:7d', { startDate: '2026-03-08', endDate: '2026-03-14' }],
+    ['tgl:2026-02', { startDate: '2026-02-01', endDate: '2026-02-28' }],
+    ['date:2024-02', { startDate: '2024-02-01', endDate: '2024-02-29' }],
+    ['date:2025', { startDate: '2025-01-01', endDate: '2025-12-31' }],
+    ['date>2026-03-01', { startDate: '2026-03-02' }],
+    ['date<2026-03', { endDate: '2026-02-28' }],
+    ['date:30d date<=2026-03-01', { startDate: '2026-02-13', endDate: '2026-03-01' }],
+  ])('reads %s as UTC days', (query, expected) => {
+    expect(parse(query).filters).toEqual(expected)
+  })
+
+  it('reports terms it does not understand and ignores them', () => {
+    expect(parse('colour:red category:nonsense pocket:Nowhere amount>lots date:soon type:gift has:pdf coffee')).toEqual({
+      filters: { text: 'coffee' },
+      invalid: ['colour:red', 'category:nonsense', 'pocket:Nowhere', 'amount>lots', 'date:soon', 'type:gift', 'has:pdf'],
+    })
+  })
+
+  it('quotes values with spaces', () => {
+    expect(quoteQueryValue('Travel Fund')).toBe('"Travel Fund"')
+    expect(quoteQueryValue('Main')).toBe('Main')
+  })
+})
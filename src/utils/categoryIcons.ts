@@ -1,124 +1,89 @@
 /**
- * Utility untuk mapping kategori transaksi ke emoji icon
+ * Utility untuk menampilkan kategori transaksi (nama, emoji icon, warna)
+ *
+ * Transactions store a category id (see categoryService). Values saved by older
+ * versions as a name ("Makanan", "Food") are still understood.
  */
+import i18n from '@/i18n'
+import type { Category, CategoryType } from '@/types/category'
+import {
+  builtInCategoryNameKey,
+  DEFAULT_CATEGORY_COLOR,
+  getActiveCategories,
+  getCategoryById,
+  resolveCategoryId,
+} from '@/services/categoryService'
 
-// Mapping kategori expense (pengeluaran) ke emoji
-// Support both Indonesian and English category names
-const expenseCategoryIcons: Record<string, string> = {
-  // Indonesian
-  Makanan: '🍽️',
-  Transportasi: '🚗',
-  Belanja: '🛍️',
-  Tagihan: '📋',
-  Hiburan: '🎮',
-  Kesehatan: '🏥',
-  'Coffee/Minuman': '☕',
-  Investasi: '📈',
-  Invest: '📈',
-  Lainnya: '📦',
-  // English
-  Food: '🍽️',
-  Transportation: '🚗',
-  Shopping: '🛍️',
-  Bills: '📋',
-  Entertainment: '🎮',
-  Health: '🏥',
-  'Coffee/Beverages': '☕',
-  Investment: '📈',
-  Other: '📦',
+/** Emoji offered when creating or editing a category. */
+export const CATEGORY_ICONS = [
+  '🍽️', '🚗', '🛍️', '📋', '🎮', '🏥', '☕', '💵', '💼', '🎁', '📈', '📦',
+  '🏷️', '🛒', '⛽', '🏠', '💡', '📱', '✈️', '🧳', '🎓', '📚', '👶', '🍼',
+  '🐶', '🐱', '💊', '🏋️', '💄', '👕', '🎉', '❤️', '🧾', '🏦', '🔧', '🌱',
+] as const
+
+function findCategory(category: string): Category | null {
+  const id = resolveCategoryId(category)
+  return id ? getCategoryById(id) : null
 }
 
-// Mapping kategori income (pemasukan) ke emoji
-// Support both Indonesian and English category names
-const incomeCategoryIcons: Record<string, string> = {
-  // Indonesian
-  Gaji: '💵',
-  Freelance: '💼',
-  Investasi: '💰',
-  Invest: '💰',
-  Hadiah: '🎁',
-  Lainnya: '📦',
-  // English
-  Salary: '💵',
-  Investment: '💰',
-  Gift: '🎁',
-  Other: '📦',
+/**
+ * Nama kategori untuk ditampilkan
+ * @param category - Id kategori (atau nama dari versi lama)
+ * @returns Nama yang diberikan pengguna, nama bawaan dalam bahasa aplikasi, atau teks aslinya
+ */
+export function getCategoryName(category: string): string {
+  const found = findCategory(category)
+  if (!found) return category
+  if (found.name) return found.name
+  const key = builtInCategoryNameKey(found.id)
+  return key ? i18n.global.t(key) : found.id
 }
 
 /**
  * Mendapatkan emoji icon untuk kategori tertentu
- * @param category - Nama kategori
- * @param type - Tipe transaksi ('income' | 'expense')
+ * @param category - Id kategori (atau nama dari versi lama)
+ * @param type - Tipe transaksi ('income' | 'expense'), untuk icon default
  * @returns Emoji icon untuk kategori, atau default icon jika tidak ditemukan
  */
 export function getCategoryIcon(category: string, type: 'income' | 'expense'): string {
-  const categoryIcons = type === 'income' ? incomeCategoryIcons : expenseCategoryIcons
-  
-  // Trim whitespace
-  const trimmedCategory = category.trim()
-  
-  // Cari exact match
-  if (categoryIcons[trimmedCategory]) {
-    return categoryIcons[trimmedCategory]
-  }
-  
-  // Case-insensitive search
-  const lowerCategory = trimmedCategory.toLowerCase()
-  const matchedKey = Object.keys(categoryIcons).find(
-    key => key.toLowerCase() === lowerCategory
-  )
-  
-  if (matchedKey) {
-    return categoryIcons[matchedKey]
-  }
-  
-  // Try to match common variations
-  const variations: Record<string, string> = {
-    // Expense variations
-    'food': '🍽️',
-    'makanan': '🍽️',
-    'transportation': '🚗',
-    'transportasi': '🚗',
-    'shopping': '🛍️',
-    'belanja': '🛍️',
-    'bills': '📋',
-    'tagihan': '📋',
-    'entertainment': '🎮',
-    'hiburan': '🎮',
-    'health': '🏥',
-    'kesehatan': '🏥',
-    'coffee': '☕',
-    'minuman': '☕',
-    'beverages': '☕',
-    'coffee/minuman': '☕',
-    'coffee/beverages': '☕',
-    'other': '📦',
-    'lainnya': '📦',
-    // Income variations
-    'salary': '💵',
-    'gaji': '💵',
-    'freelance': '💼',
-    'investment': '📈',
-    'investasi': '📈',
-    'gift': '🎁',
-    'hadiah': '🎁',
-  }
-  
-  if (variations[lowerCategory]) {
-    return variations[lowerCategory]
-  }
-  
-  // Default icon berdasarkan type
-  return type === 'income' ? '💵' : '📦'
+  return findCategory(category)?.icon ?? (type === 'income' ? '💵' : '📦')
+}
+
+/** Color chosen for the category (charts, badges). */
+export function getCategoryColor(category: string): string {
+  return findCategory(category)?.color ?? DEFAULT_CATEGORY_COLOR
 }
 
 /**
  * Mendapatkan display text untuk kategori dengan icon
- * @param category - Nama kategori
+ * @param category - Id kategori (atau nama dari versi lama)
  * @param type - Tipe transaksi ('income' | 'expense')
  * @returns String dengan format "icon category"
  */
 export function getCategoryWithIcon(category: string, type: 'income' | 'expense'): string {
   const icon = getCategoryIcon(category, type)
-  return `${icon} ${category}`
+  return `${icon} ${getCategoryName(category)}`
+}
+
+/**
+ * Select options for picking a category: active categories for the type, sub-categories
+ * indented under their parent. `keep` lists values that must stay selectable (e.g. the
+ * archived category of a transaction being edited).
+ */
+export function getCategoryOptions(
+  type?: CategoryType,
+  keep: string[] = [],
+): Array<{ value: string; label: string }> {
+  const iconType = type ?? 'expense'
+  const options = getActiveCategories(type).map((c) => ({
+    value: c.id,
+    // Option text collapses spaces, so sub-categories are indented with non-breaking ones
+    label: `${c.parentId ? '\u00a0\u00a0↳ ' : ''}${getCategoryWithIcon(c.id, iconType)}`,
+  }))
+  for (const value of keep) {
+    if (value && !options.some((o) => o.value === value)) {
+      options.push({ value, label: getCategoryWithIcon(value, iconType) })
+    }
+  }
+  return options
 }
@@ -54,3 +54,33 @@ export function parseIDR(value: string): number {
   return isNaN(parsed) ? 0 : parsed
 }
 
+/** Currencies a pocket can hold. IDR is the app's default currency. */
+export const SUPPORTED_CURRENCIES = ['IDR', 'USD', 'SGD', 'EUR', 'GBP', 'JPY', 'AUD', 'MYR', 'CNY', 'THB'] as const
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number]
+
+/** Currency of pockets without a `currency` field, goals and amounts from before multi-currency. */
+export const DEFAULT_CURRENCY: CurrencyCode = 'IDR'
+
+/**
+ * Decimal places used when entering and displaying amounts.
+ * IDR and JPY are whole-unit currencies; the rest use cents.
+ */
+export function currencyFractionDigits(currency: CurrencyCode): number {
+  return currency === 'IDR' || currency === 'JPY' ? 0 : 2
+}
+
+/**
+ * Format amount in any supported currency.
+ * IDR keeps the app's "Rp 1.000.000" style; other currencies use the locale's symbol.
+ */
+export function formatMoney(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): string {
+  if (currency === 'IDR') return formatIDR(amount)
+  const digits = currencyFractionDigits(currency)
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount)
+}
@@ -6,6 +6,11 @@
 import { encryptData, decryptData } from './encryption'
 import { MAIN_POCKET_ID } from '@/services/pocketService'
 import { DEFAULT_POCKET_COLOR } from '@/utils/pocketColors'
+import { recordChanges } from '@/services/syncOutbox'
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot, type StorageSnapshot } from '@/services/storageMigrations'
+import { getTablesByLegacyKey, replaceTableByLegacyKey } from '@/services/localDatabase'
+import { getCategoriesForExport, mergeImportedCategories } from '@/services/categoryService'
+import { getAttachmentsForExport, importAttachments, isAttachmentStorageAvailable } from '@/services/attachmentService'
 
 const APP_VERSION = '1.0.0'
 const STORAGE_KEYS = {
@@ -14,32 +19,50 @@ const STORAGE_KEYS = {
   THEME: 'financial_tracker_theme',
   POCKETS: 'financial_tracker_pockets',
   GOALS: 'financial_tracker_goals',
+  CATEGORIES: 'financial_tracker_categories',
 } as const
 
+/** Export file fields holding stored lists, and the storage key each was read from. */
+const PAYLOAD_STORAGE_KEYS = {
+  transactions: STORAGE_KEYS.TRANSACTIONS,
+  pockets: STORAGE_KEYS.POCKETS,
+  goals: STORAGE_KEYS.GOALS,
+  categories: STORAGE_KEYS.CATEGORIES,
+} as const
+
+/** Transactions, pockets and goals live in the on-device database, under the keys they replaced. */
+function readList(key: string): unknown[] {
+  return getTablesByLegacyKey()[key] ?? []
+}
+
+function writeList(key: string, records: unknown[]): void {
+  replaceTableByLegacyKey(key, records as { id: string }[])
+}
+
 export interface ExportData {
   version: string
+  /** Storage schema the data is in (see storageMigrations). Missing in files from before versioning. */
+  schemaVersion?: number
   exportedAt: string
   transactions: unknown[]
   pockets: unknown[]
   goals?: unknown[]
+  /** Custom and edited categories; transactions refer to them by id. */
+  categories?: unknown[]
   profile: unknown
   theme: string | null
+  /** Receipt images (as data URLs) linked to the exported transactions; only when asked for. */
+  attachments?: unknown[]
 }
 
 /**
- * Collects all app data from localStorage.
+ * Collects all app data from localStorage and the on-device database.
  * Avatar is stored separately and must NOT be included in export.
  */
 export function collectAppData(): ExportData {
-  const transactions = JSON.parse(
-    localStorage.getItem(STORAGE_KEYS.TRANSACTIONS) || '[]',
-  )
-  const pockets = JSON.parse(
-    localStorage.getItem(STORAGE_KEYS.POCKETS) || '[]',
-  )
-  const goals = JSON.parse(
-    localStorage.getItem(STORAGE_KEYS.GOALS) || '[]',
-  )
+  const transactions = readList(STORAGE_KEYS.TRANSACTIONS)
+  const pockets = readList(STORAGE_KEYS.POCKETS)
+  const goals = readList(STORAGE_KEYS.GOALS)
   const rawProfile = JSON.parse(
     localStorage.getItem(STORAGE_KEYS.PROFILE) || 'null',
   )
@@ -54,25 +77,32 @@ export function collectAppData(): ExportData {
 
   return {
     version: APP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     exportedAt: new Date().toISOString(),
     transactions,
     pockets: Array.isArray(pockets) ? pockets : [],
     goals: Array.isArray(goals) ? goals : [],
+    categories: getCategoriesForExport(),
     profile,
     theme,
   }
 }
 
 /**
- * Exports app data as encrypted JSON file
+ * Exports app data as encrypted JSON file. Receipt images make the file much larger,
+ * so they are only included with `includeAttachments`.
  */
-export async function exportData(passphrase: string): Promise<void> {
+export async function exportData(passphrase: string, options: { includeAttachments?: boolean } = {}): Promise<void> {
   if (!passphrase || passphrase.length < 4) {
     throw new Error('Passphrase harus minimal 4 karakter')
   }
 
   // Collect all data
   const data = collectAppData()
+  if (options.includeAttachments && isAttachmentStorageAvailable()) {
+    const ids = new Set((data.transactions as Array<{ id?: string }>).map((t) => t.id ?? ''))
+    data.attachments = await getAttachmentsForExport(ids)
+  }
   const jsonString = JSON.stringify(data, null, 2)
 
   // Encrypt data
@@ -101,20 +131,24 @@ export async function exportData(passphrase: string): Promise<void> {
 
 export interface PocketExportPayload {
   version: string
+  schemaVersion?: number
   exportedAt: string
   exportType: 'pocket'
   exportedBy?: string
   pockets: unknown[]
   transactions: unknown[]
+  categories?: unknown[]
 }
 
 export interface GoalExportPayload {
   version: string
+  schemaVersion?: number
   exportedAt: string
   exportType: 'goal'
   exportedBy?: string
   goals: unknown[]
   transactions: unknown[]
+  categories?: unknown[]
 }
 
 /**
@@ -133,11 +167,13 @@ export async function exportPocketData(
 
   const data: PocketExportPayload = {
     version: APP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     exportedAt: new Date().toISOString(),
     exportType: 'pocket',
     ...(exportedBy && { exportedBy }),
     pockets: [pocket],
     transactions,
+    categories: getCategoriesForExport(),
   }
   const jsonString = JSON.stringify(data, null, 2)
   const encrypted = await encryptData(jsonString, passphrase)
@@ -172,11 +208,13 @@ export async function exportGoalData(
 
   const data: GoalExportPayload = {
     version: APP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     exportedAt: new Date().toISOString(),
     exportType: 'goal',
     ...(exportedBy && { exportedBy }),
     goals: [goal],
     transactions,
+    categories: getCategoriesForExport(),
   }
   const jsonString = JSON.stringify(data, null, 2)
   const encrypted = await encryptData(jsonString, passphrase)
@@ -196,6 +234,11 @@ export async function exportGoalData(
   URL.revokeObjectURL(url)
 }
 
+/** Tags are optional, but when present must be a list of strings. */
+function hasValidTags(t: Record<string, unknown>): boolean {
+  return t.tags === undefined || (Array.isArray(t.tags) && t.tags.every((tag) => typeof tag === 'string'))
+}
+
 /**
  * Validates legacy (global) import data structure.
  * Pockets array is optional for backward compatibility with old backups.
@@ -234,7 +277,8 @@ function validateImportData(data: unknown): data is ExportData {
       typeof t !== 'object' ||
       typeof t.id !== 'string' ||
       typeof t.type !== 'string' ||
-      typeof t.amount !== 'number'
+      typeof t.amount !== 'number' ||
+      !hasValidTags(t)
     ) {
       return false
     }
@@ -260,6 +304,7 @@ function validatePocketImportData(data: unknown): data is PocketExportPayload {
   for (const t of d.transactions as unknown[]) {
     const x = t as Record<string, unknown>
     if (!x || typeof x.id !== 'string' || typeof x.type !== 'string' || typeof x.amount !== 'number') return false
+    if (!hasValidTags(x)) return false
   }
   return true
 }
@@ -289,6 +334,7 @@ export interface ImportResult {
   transactionCount: number
   pocketCount?: number
   goalCount?: number
+  attachmentCount?: number
   profileName: string
 }
 
@@ -367,15 +413,76 @@ export async function importData(
   if (d.version && d.version !== APP_VERSION) {
     console.warn(`Version mismatch: backup ${d.version}, app ${APP_VERSION}`)
   }
+  upgradePayload(d)
+
+  const transactionIdMap = new Map<string, string>()
+  const result = queueImportForSync(() => applyImportPayload(payload, transactionIdMap))
+  if (Array.isArray(d.attachments) && d.attachments.length > 0) {
+    const attachmentCount = await importAttachments(d.attachments, transactionIdMap)
+    if (attachmentCount > 0) result.attachmentCount = attachmentCount
+  }
+  return result
+}
+
+/**
+ * Bring an export file's lists up to the current storage schema with the same
+ * migrations the app runs at boot. Files without `schemaVersion` are version 0.
+ */
+function upgradePayload(d: Record<string, unknown>): void {
+  const from = typeof d.schemaVersion === 'number' ? d.schemaVersion : 0
+  if (from > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Schema mismatch: backup ${from}, app ${CURRENT_SCHEMA_VERSION}`)
+    return
+  }
+  const snapshot: StorageSnapshot = {}
+  for (const [field, key] of Object.entries(PAYLOAD_STORAGE_KEYS)) {
+    if (field in d) snapshot[key] = d[field]
+  }
+  d.schemaVersion = migrateSnapshot(snapshot, from)
+  for (const [field, key] of Object.entries(PAYLOAD_STORAGE_KEYS)) {
+    if (key in snapshot) d[field] = snapshot[key]
+  }
+}
+
+/** Point an imported transaction (and its split lines) at this device's category ids. */
+function withLocalCategories(t: Record<string, unknown>, idMap: Map<string, string>): Record<string, unknown> {
+  if (idMap.size === 0) return t
+  const local = (category: unknown) => (typeof category === 'string' ? (idMap.get(category) ?? category) : category)
+  return {
+    ...t,
+    category: local(t.category),
+    ...(Array.isArray(t.splits) && {
+      splits: (t.splits as Record<string, unknown>[]).map((s) => ({ ...s, category: local(s.category) })),
+    }),
+  }
+}
+
+/**
+ * Import writes storage directly, so with the Supabase backend the appended
+ * pockets, goals and transactions are queued for sync here.
+ */
+function queueImportForSync(apply: () => ImportResult): ImportResult {
+  const read = (key: string) => readList(key) as { id: string }[]
+  const entities = [
+    ['pocket', STORAGE_KEYS.POCKETS],
+    ['goal', STORAGE_KEYS.GOALS],
+    ['transaction', STORAGE_KEYS.TRANSACTIONS],
+  ] as const
+  const before = entities.map(([, key]) => read(key))
+  const result = apply()
+  entities.forEach(([entity, key], i) => recordChanges(entity, before[i]!, read(key)))
+  return result
+}
+
+/** `transactionIdMap` is filled with backup id → new id for each appended transaction. */
+function applyImportPayload(payload: unknown, transactionIdMap: Map<string, string>): ImportResult {
+  const d = payload as Record<string, unknown>
+  const categoryIdMap = mergeImportedCategories(Array.isArray(d.categories) ? d.categories : [])
 
   // Pocket format: append pockets + transactions
   if (validatePocketImportData(payload)) {
-    const existingPockets: unknown[] = JSON.parse(
-      localStorage.getItem(STORAGE_KEYS.POCKETS) || '[]',
-    )
-    const existingTx: unknown[] = JSON.parse(
-      localStorage.getItem(STORAGE_KEYS.TRANSACTIONS) || '[]',
-    )
+    const existingPockets: unknown[] = readList(STORAGE_KEYS.POCKETS)
+    const existingTx: unknown[] = readList(STORAGE_KEYS.TRANSACTIONS)
 
     const exportedBy = typeof d.exportedBy === 'string' ? d.exportedBy.trim() : undefined
     const pocketIdMap = new Map<string, string>()
@@ -425,9 +532,11 @@ export async function importData(
       const dstOk = !tid || pocketIdMap.has(tid)
       if (!srcOk || !dstOk) continue
       const date = typeof x.date === 'string' ? validateAndFixDate(x.date) : (x.date as string) || now.slice(0, 10)
+      const txId = newId('tx')
+      if (typeof x.id === 'string') transactionIdMap.set(x.id, txId)
       newTx.push({
-        ...x,
-        id: newId('tx'),
+        ...withLocalCategories(x, categoryIdMap),
+        id: txId,
         pocketId: pocketIdMap.get(pid)!,
         transferToPocketId: tid ? pocketIdMap.get(tid) : undefined,
         date,
@@ -440,8 +549,8 @@ export async function importData(
     const mergedTx = [...(Array.isArray(existingTx) ? existingTx : []), ...newTx]
 
     try {
-      localStorage.setItem(STORAGE_KEYS.POCKETS, JSON.stringify(mergedPockets))
-      localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(mergedTx))
+      writeList(STORAGE_KEYS.POCKETS, mergedPockets)
+      writeList(STORAGE_KEYS.TRANSACTIONS, mergedTx)
     } catch (e) {
       throw new Error(
         `Gagal menyimpan data yang diimpor: ${e instanceof Error ? e.message : 'Error penyimpanan'}`,
@@ -464,15 +573,9 @@ export async function importData(
   }
 
   const legacyData = payload as ExportData
-  const existingPockets: unknown[] = JSON.parse(
-    localStorage.getItem(STORAGE_KEYS.POCKETS) || '[]',
-  )
-  const existingGoals: unknown[] = JSON.parse(
-    localStorage.getItem(STORAGE_KEYS.GOALS) || '[]',
-  )
-  const existingTx: unknown[] = JSON.parse(
-    localStorage.getItem(STORAGE_KEYS.TRANSACTIONS) || '[]',
-  )
+  const existingPockets: unknown[] = readList(STORAGE_KEYS.POCKETS)
+  const existingGoals: unknown[] = readList(STORAGE_KEYS.GOALS)
+  const existingTx: unknown[] = readList(STORAGE_KEYS.TRANSACTIONS)
 
   const pocketIdMap = new Map<string, string>()
   const goalIdMap = new Map<string, string>()
@@ -527,7 +630,7 @@ export async function importData(
       existingPockets.push(newPocket)
     }
     try {
-      localStorage.setItem(STORAGE_KEYS.POCKETS, JSON.stringify(existingPockets))
+      writeList(STORAGE_KEYS.POCKETS, existingPockets)
     } catch (e) {
       throw new Error(
         `Gagal menyimpan kantong yang diimpor: ${e instanceof Error ? e.message : 'Error penyimpanan'}`,
@@ -549,7 +652,7 @@ export async function importData(
       })
     }
     try {
-      localStorage.setItem(STORAGE_KEYS.GOALS, JSON.stringify(existingGoals))
+      writeList(STORAGE_KEYS.GOALS, existingGoals)
     } catch (e) {
       throw new Error(
         `Gagal menyimpan goal yang diimpor: ${e instanceof Error ? e.message : 'Error penyimpanan'}`,
@@ -569,9 +672,11 @@ export async function importData(
     const newTid = tid ? (pocketIdMap.get(tid) ?? MAIN_POCKET_ID) : undefined
     const newGid = gid ? (goalIdMap.get(gid) ?? gid) : undefined
     const newTransferToGid = transferToGid ? (goalIdMap.get(transferToGid) ?? transferToGid) : undefined
+    const txId = newId('tx')
+    if (typeof t.id === 'string') transactionIdMap.set(t.id, txId)
     return {
-      ...t,
-      id: newId('tx'),
+      ...withLocalCategories(t, categoryIdMap),
+      id: txId,
       pocketId: newPid,
       transferToPocketId: newTid,
       ...(newGid !== undefined && { goalId: newGid }),
@@ -585,7 +690,7 @@ export async function importData(
   const mergedTx = [...(Array.isArray(existingTx) ? existingTx : []), ...appended]
 
   try {
-    localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(mergedTx))
+    writeList(STORAGE_KEYS.TRANSACTIONS, mergedTx)
   } catch (e) {
     throw new Error(
       `Gagal menyimpan data yang diimpor: ${e instanceof Error ? e.message : 'Error penyimpanan'}`,
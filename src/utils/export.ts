@@ -3,6 +3,7 @@ import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import type { Transaction } from '@/types/transaction'
 import { formatIDR } from './currency'
+import { getCategoryName } from './categoryIcons'
 
 /** Escape CSV cell (quotes, newlines) */
 function escapeCsvCell(s: string): string {
@@ -10,6 +11,37 @@ function escapeCsvCell(s: string): string {
   return s
 }
 
+function typeLabel(t: Transaction): string {
+  return t.type === 'transfer' ? 'Transfer' : t.type === 'income' ? 'Income' : 'Expense'
+}
+
+/** Tags as "#a #b" (empty when untagged) */
+function tagsLabel(t: Transaction): string {
+  return (t.tags ?? []).map((tag) => `#${tag}`).join(' ')
+}
+
+/**
+ * One row per category line. Split transactions become one row per split
+ * (description suffixed with the line note or "split i/n"), so category
+ * totals in a spreadsheet match the app. Categories are written by name;
+ * every row of a split repeats the transaction's tags.
+ */
+function toExportRows(transactions: Transaction[]) {
+  return transactions.flatMap((t) => {
+    if (!t.splits || t.splits.length === 0) {
+      return [{ t, description: t.description, category: getCategoryName(t.category), tags: tagsLabel(t), amount: t.amount }]
+    }
+    const n = t.splits.length
+    return t.splits.map((s, i) => ({
+      t,
+      description: `${t.description} (${s.note || `split ${i + 1}/${n}`})`,
+      category: getCategoryName(s.category),
+      tags: tagsLabel(t),
+      amount: s.amount,
+    }))
+  })
+}
+
 /**
  * Export transactions to CSV
  */
@@ -20,18 +52,18 @@ export function exportToCSV(
 ) {
   const includePocket = options?.includePocket ?? false
   const pocketNames = options?.pocketNames ?? {}
-  const headers = ['Date', 'Type', 'Description', 'Category', 'Amount', 'Amount (IDR)']
+  const headers = ['Date', 'Type', 'Description', 'Category', 'Tags', 'Amount', 'Amount (IDR)']
   if (includePocket) headers.splice(2, 0, 'Pocket')
 
-  const rows = transactions.map((t) => {
-    const type = t.type === 'transfer' ? 'Transfer' : t.type === 'income' ? 'Income' : 'Expense'
+  const rows = toExportRows(transactions).map(({ t, description, category, tags, amount }) => {
     const base = [
       new Date(t.date).toLocaleDateString('id-ID'),
-      type,
-      t.description,
-      t.category,
-      String(t.amount),
-      formatIDR(t.amount),
+      typeLabel(t),
+      description,
+      category,
+      tags,
+      String(amount),
+      formatIDR(amount),
     ]
     if (includePocket) {
       const name = pocketNames[t.pocketId] ?? t.pocketId
@@ -55,17 +87,15 @@ export function exportToCSV(
  */
 export function exportToXLSX(transactions: Transaction[], filename = 'transactions.xlsx') {
   // Prepare data for Excel
-  const data = transactions.map((t) => {
-    const type = t.type === 'transfer' ? 'Transfer' : t.type === 'income' ? 'Income' : 'Expense'
-    return {
-      Date: new Date(t.date).toLocaleDateString('id-ID'),
-      Type: type,
-      Description: t.description,
-      Category: t.category,
-      Amount: t.amount,
-      'Amount (IDR)': formatIDR(t.amount),
-    }
-  })
+  const data = toExportRows(transactions).map(({ t, description, category, tags, amount }) => ({
+    Date: new Date(t.date).toLocaleDateString('id-ID'),
+    Type: typeLabel(t),
+    Description: description,
+    Category: category,
+    Tags: tags,
+    Amount: amount,
+    'Amount (IDR)': formatIDR(amount),
+  }))
 
   // Create workbook and worksheet
   const wb = XLSX.utils.book_new()
@@ -77,6 +107,7 @@ export function exportToXLSX(transactions: Transaction[], filename = 'transactio
     { wch: 10 }, // Type
     { wch: 30 }, // Description
     { wch: 15 }, // Category
+    { wch: 20 }, // Tags
     { wch: 15 }, // Amount
     { wch: 20 }, // Amount (IDR)
   ]
@@ -113,21 +144,19 @@ export function exportToPDF(transactions: Transaction[], summary?: {
   }
 
   // Prepare table data
-  const tableData = transactions.map((t) => {
-    const type = t.type === 'transfer' ? 'Transfer' : t.type === 'income' ? 'Income' : 'Expense'
-    return [
-      new Date(t.date).toLocaleDateString('id-ID'),
-      type,
-      t.description,
-      t.category,
-      formatIDR(t.amount),
-    ]
-  })
+  const tableData = toExportRows(transactions).map(({ t, description, category, tags, amount }) => [
+    new Date(t.date).toLocaleDateString('id-ID'),
+    typeLabel(t),
+    description,
+    category,
+    tags,
+    formatIDR(amount),
+  ])
 
   // Add table
   autoTable(doc, {
     startY: summary ? 62 : 30,
-    head: [['Date', 'Type', 'Description', 'Category', 'Amount']],
+    head: [['Date', 'Type', 'Description', 'Category', 'Tags', 'Amount']],
     body: tableData,
     styles: {
       fontSize: 8,
@@ -142,11 +171,12 @@ export function exportToPDF(transactions: Transaction[], summary?: {
       fillColor: [245, 247, 250],
     },
     columnStyles: {
-      0: { cellWidth: 30 },
-      1: { cellWidth: 25 },
-      2: { cellWidth: 60 },
-      3: { cellWidth: 30 },
-      4: { cellWidth: 35, halign: 'right' },
+      0: { cellWidth: 25 },
+      1: { cellWidth: 20 },
+      2: { cellWidth: 50 },
+      3: { cellWidth: 27 },
+      4: { cellWidth: 25 },
+      5: { cellWidth: 35, halign: 'right' },
     },
   })
 
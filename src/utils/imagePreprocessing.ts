@@ -255,3 +255,38 @@ export async function quickPreprocessImageForOCR(imageFile: File): Promise<File>
     img.src = URL.createObjectURL(imageFile)
   })
 }
+
+/**
+ * Shrink an image for keeping as an attachment: longest side at most `maxSize`,
+ * re-encoded as JPEG. Receipts stay readable at ~1600px and usually end up at 150–400 KB.
+ */
+export async function compressImageForStorage(image: Blob, maxSize = 1600, quality = 0.7): Promise<Blob> {
+  const url = URL.createObjectURL(image)
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image()
+      el.onload = () => resolve(el)
+      el.onerror = () => reject(new Error('Failed to load image'))
+      el.src = url
+    })
+
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(img.width * scale)
+    canvas.height = Math.round(img.height * scale)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Could not get canvas context')
+    // JPEG has no transparency; keep transparent PNGs readable
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality))
+    if (!blob) throw new Error('Failed to create blob')
+    // Already-small JPEGs can grow when re-encoded
+    return blob.size < image.size || image.type !== 'image/jpeg' ? blob : image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Chains and platforms whose receipts and descriptions vary ("INDOMARET 123 JKT",
+ * "PT Indomarco Prismatama", "indomaret point") but should count as one merchant.
+ */
+const KNOWN_MERCHANTS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Indomaret', pattern: /\bindomaret|\bindomarco\b/i },
+  { name: 'Alfamart', pattern: /\balfamart|\bsumber\s*alfaria\b/i },
+  { name: 'Alfamidi', pattern: /\balfamidi\b/i },
+  { name: 'Lawson', pattern: /\blawson\b/i },
+  { name: 'FamilyMart', pattern: /\bfamily\s*mart\b/i },
+  { name: 'Circle K', pattern: /\bcircle\s*k\b/i },
+  { name: 'Superindo', pattern: /\bsuper\s*indo\b/i },
+  { name: 'Hypermart', pattern: /\bhypermart\b/i },
+  { name: 'Transmart', pattern: /\btransmart\b/i },
+  { name: 'Starbucks', pattern: /\bstarbucks\b/i },
+  { name: 'Kopi Kenangan', pattern: /\bkopi\s*kenangan\b/i },
+  { name: 'Janji Jiwa', pattern: /\bjanji\s*jiwa\b/i },
+  { name: "McDonald's", pattern: /\bmc\s*donald'?s?\b|\bmcd\b/i },
+  { name: 'KFC', pattern: /\bkfc\b/i },
+  { name: 'Pertamina', pattern: /\bpertamina\b|\bspbu\b/i },
+  { name: 'Shopee', pattern: /\bshopee(?!\s*pay)|\bshopee\s*food\b/i },
+  { name: 'ShopeePay', pattern: /\bshopee\s*pay\b/i },
+  { name: 'Tokopedia', pattern: /\btokopedia\b|\btoped\b/i },
+  { name: 'GrabFood', pattern: /\bgrab\s*food\b/i },
+  { name: 'Grab', pattern: /\bgrab\b/i },
+  { name: 'GoFood', pattern: /\bgo\s*food\b/i },
+  { name: 'Gojek', pattern: /\bgojek\b|\bgo\s*ride\b/i },
+  { name: 'Lazada', pattern: /\blazada\b/i },
+  { name: 'Blibli', pattern: /\bblibli\b/i },
+  { name: 'TikTok Shop', pattern: /\btiktok\s*shop\b/i },
+  { name: 'Walmart', pattern: /\bwalmart\b/i },
+  { name: 'Target', pattern: /^target\b/i },
+  { name: 'Costco', pattern: /\bcostco\b/i },
+  { name: "Trader Joe's", pattern: /\btrader\s*joe'?s?\b/i },
+  { name: 'Whole Foods', pattern: /\bwhole\s*foods\b/i },
+  { name: 'Amazon', pattern: /\bamazon\b/i },
+  { name: 'Uber', pattern: /\buber\b/i },
+]
+
+/** Branch and city codes printed after a store name ("JKT", "BDG", "Jakarta Selatan") */
+const LOCATION_WORDS = new Set([
+  'jkt', 'jakarta', 'selatan', 'utara', 'barat', 'timur', 'pusat', 'bdg', 'bandung', 'sby', 'surabaya',
+  'smg', 'semarang', 'jogja', 'yogyakarta', 'dps', 'denpasar', 'bali', 'mdn', 'medan', 'tng', 'tangerang',
+  'bks', 'bekasi', 'dpk', 'depok', 'bgr', 'bogor', 'mks', 'makassar', 'cabang', 'branch', 'store', 'outlet',
+])
+
+/** Legal forms that are not part of the shop's name */
+const COMPANY_WORDS = new Set(['pt', 'cv', 'tbk', 'ud', 'inc', 'llc', 'ltd', 'co', 'corp'])
+
+const MAX_MERCHANT_LENGTH = 40
+
+/** Chain or platform named in the text, if any. */
+export function findKnownMerchant(text: string): string | undefined {
+  return KNOWN_MERCHANTS.find((m) => m.pattern.test(text))?.name
+}
+
+/**
+ * Display name for a merchant as printed on a receipt or typed: known chains get
+ * their usual spelling, otherwise store numbers, branch/city codes and legal forms
+ * are dropped and the rest is title-cased ("WARUNG SATE PAK KUMIS 02" →
+ * "Warung Sate Pak Kumis"). Empty string when nothing is left.
+ */
+export function normalizeMerchantName(raw: string): string {
+  const known = findKnownMerchant(raw)
+  if (known) return known
+
+  const words = raw
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[#*_|]/g, ' ')
+    .split(/\s+/)
+    .map((w) => w.replace(/^[.,:-]+|[.,:-]+$/g, ''))
+    .filter((w) => w && !/\d/.test(w) && !COMPANY_WORDS.has(w.toLowerCase()))
+  // Trailing city and branch words go ("Bakmi GM JKT" → "Bakmi GM"); a name that is only a city stays
+  while (words.length > 1 && LOCATION_WORDS.has(words[words.length - 1]!.toLowerCase())) words.pop()
+
+  // Receipts print names in capitals; typed names keep their own casing ("Bakmi GM")
+  const shouting = words.join('') === words.join('').toUpperCase()
+  return words
+    .map((w) => (shouting && w.length > 2 ? w.charAt(0) + w.slice(1).toLowerCase() : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join(' ')
+    .slice(0, MAX_MERCHANT_LENGTH)
+    .trim()
+}
+
+/** Key merchants are matched and grouped by, ignoring case and spelling variants. */
+export function merchantKey(name: string): string {
+  return normalizeMerchantName(name).toLowerCase()
+}
@@ -0,0 +1,49 @@
+/**
+ * Language of text handed to the text and receipt parsers.
+ * Indonesian and English differ in number words, relative dates, receipt
+ * keywords and number formats (1.200 is twelve hundred in `id`, 1.2 in `en`).
+ */
+export type ParserLocale = 'id' | 'en'
+
+/** Words that only show up in Indonesian text, transactions and receipts */
+const ID_MARKERS = [
+  'ribu', 'rb', 'rebu', 'juta', 'jt', 'milyar', 'miliar', 'ratus', 'puluh', 'seribu', 'sejuta', 'seratus',
+  'kemarin', 'hari', 'ini', 'lalu', 'beli', 'bayar', 'gaji', 'masuk', 'keluar', 'makan', 'belanja', 'tagihan',
+  'dari', 'ke', 'untuk', 'dan', 'rp', 'ppn', 'pajak', 'kembalian', 'tunai', 'terima', 'kasih', 'jumlah',
+  'harga', 'diskon', 'pembayaran', 'tanggal', 'tgl',
+]
+
+/** Words that only show up in English text, transactions and receipts */
+const EN_MARKERS = [
+  'thousand', 'million', 'billion', 'hundred', 'dollar', 'dollars', 'bucks', 'usd',
+  'yesterday', 'today', 'ago', 'last', 'days', 'week', 'bought', 'paid', 'spent', 'received', 'salary',
+  'for', 'from', 'to', 'and', 'the', 'subtotal', 'tax', 'tip', 'gratuity', 'balance', 'due', 'change',
+  'cash', 'thank', 'you', 'amount', 'lunch', 'dinner', 'breakfast', 'groceries',
+]
+
+/**
+ * Pick the language to parse `text` as. The preferred locale (the app's
+ * language) wins unless the text clearly reads as the other language, so an
+ * Indonesian note typed with the app in English still parses as Indonesian.
+ */
+export function detectParserLocale(text: string, preferred: ParserLocale = 'id'): ParserLocale {
+  const words = text.toLowerCase().match(/[a-z]+/g) ?? []
+  let id = 0
+  let en = 0
+  for (const word of words) {
+    if (ID_MARKERS.includes(word)) id++
+    if (EN_MARKERS.includes(word)) en++
+  }
+  // Dollar amounts ("$12.50") are English-style receipts and notes
+  if (/\$\s*\d/.test(text)) en += 2
+  if (/\brp\.?\s*\d/i.test(text)) id += 2
+
+  if (en > id) return 'en'
+  if (id > en) return 'id'
+  return preferred
+}
+
+/** Parser locale for an i18n locale code ("en", "en-US", "id") */
+export function toParserLocale(locale: string): ParserLocale {
+  return locale.toLowerCase().startsWith('en') ? 'en' : 'id'
+}
@@ -5,8 +5,17 @@
  * Cache Storage IS shared. So we:
  * - In browser (Safari): periodically write localStorage → Cache
  * - In standalone (PWA): on load, read Cache → localStorage (so data + license "move" with install)
+ *
+ * Lists kept in the on-device database (localDatabase) are copied under the localStorage
+ * keys they replaced; after a restore, initLocalDatabase moves them back in.
+ *
+ * With the Supabase backend, transactions, pockets and goals (and the sync queue's own
+ * keys) are left out: each context syncs them through syncService instead.
  */
 
+import { isSupabaseBackend } from '@/services/dataBackend'
+import { getTablesByLegacyKey, transactionsTable } from '@/services/localDatabase'
+
 const CACHE_NAME = 'fanplanner-data-sync'
 const SYNC_URL = '/__fanplanner_sync__'
 const SYNC_META_KEY = '__fanplanner_sync_ts__'
@@ -33,14 +42,24 @@ const SYNC_KEYS_EXACT = [
 ]
 // Dynamic keys: fanplanner_last_notified_* (we'll copy by prefix)
 const OPENAI_KEY = 'openai_api_key'
+/** Owned by the sync queue when the Supabase backend is on. */
+const SUPABASE_SYNCED_KEYS = [
+  'financial_tracker_transactions',
+  'financial_tracker_pockets',
+  'financial_tracker_goals',
+  'financial_tracker_sync_outbox',
+  'financial_tracker_sync_state',
+  'financial_tracker_sync_conflicts',
+]
 
 function getAllSyncableEntries(): Record<string, string> {
   const out: Record<string, string> = {}
   try {
     const exactSet = new Set(SYNC_KEYS_EXACT)
+    const skipped = new Set(isSupabaseBackend() ? SUPABASE_SYNCED_KEYS : [])
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i)
-      if (!key) continue
+      if (!key || skipped.has(key)) continue
       if (exactSet.has(key)) {
         const v = localStorage.getItem(key)
         if (v != null) out[key] = v
@@ -55,6 +74,9 @@ function getAllSyncableEntries(): Record<string, string> {
         if (v != null) out[key] = v
       }
     }
+    for (const [key, records] of Object.entries(getTablesByLegacyKey())) {
+      if (!skipped.has(key)) out[key] = JSON.stringify(records)
+    }
   } catch {
     // ignore
   }
@@ -120,6 +142,7 @@ export async function syncCacheToLocalStorage(): Promise<SyncResult> {
     delete payload[SYNC_META_KEY]
 
     const hasCriticalLocal =
+      transactionsTable.size > 0 ||
       localStorage.getItem('financial_tracker_transactions') != null ||
       localStorage.getItem('financial_tracker_tokens') != null
     const hasCriticalCache =
@@ -1,4 +1,9 @@
 import type { TransactionFormData } from '@/types/transaction'
+import { applyCategoryRules } from '@/services/categoryRuleService'
+import { findMerchant, getMerchantCategory } from '@/services/merchantService'
+import { OTHER_CATEGORY_ID, SALARY_CATEGORY_ID } from '@/services/categoryService'
+import { detectParserLocale, type ParserLocale } from '@/utils/parserLocale'
+import { normalizeMerchantName } from '@/utils/merchants'
 
 /**
  * Receipt parsing result with confidence and metadata
@@ -10,6 +15,10 @@ export interface ReceiptParseResult {
   rawOcrText: string
   normalizedText: string
   items?: ReceiptItem[]
+  /** Amount printed on the Subtotal line, before tax, service and discounts */
+  subtotal?: number
+  /** Tax, service charge, tip, discount and rounding lines */
+  adjustments?: ReceiptAdjustment[]
   date?: string
   merchant?: string
 }
@@ -20,6 +29,37 @@ export interface ReceiptItem {
   quantity?: number
 }
 
+export type ReceiptAdjustmentKind = 'tax' | 'service' | 'tip' | 'discount' | 'rounding'
+
+/** A receipt line that changes the total without being an item */
+export interface ReceiptAdjustment {
+  kind: ReceiptAdjustmentKind
+  label: string
+  /** Signed: discounts are negative, rounding can be either */
+  amount: number
+}
+
+/** Editable line-item view of a receipt, reviewed before saving */
+export interface ReceiptBreakdown {
+  items: Array<{ name: string; amount: number; category: string }>
+  adjustments: ReceiptAdjustment[]
+  /** Total the receipt should add up to (the detected total, editable) */
+  total: number
+}
+
+export interface ReceiptReconciliation {
+  itemsTotal: number
+  adjustmentsTotal: number
+  /** Items plus adjustments */
+  computedTotal: number
+  /** Total minus computedTotal; 0 when the breakdown adds up */
+  difference: number
+  balanced: boolean
+}
+
+/** Save a receipt as one transaction, one per item, or one per category */
+export type ReceiptSaveMode = 'single' | 'items' | 'category'
+
 /**
  * Normalize OCR output:
  * - Remove extra spaces & symbols
@@ -29,17 +69,18 @@ export interface ReceiptItem {
  */
 function normalizeOcrText(text: string): string {
   return text
-    .replace(/\s+/g, ' ') // Multiple spaces to single space
+    .replace(/[^\S\n]+/g, ' ') // Multiple spaces to single space; line breaks separate items
+    .replace(/ *\n[\s]*/g, '\n') // Drop blank lines and spaces around line breaks
     // Fix common OCR errors in number contexts (receipt & invoice)
-    .replace(/(\d)\s*[Oo]\s*(\d)/g, '$10$2') // O between numbers -> 0
-    .replace(/(\d)\s*[Il|]\s*(\d)/g, '$11$2') // I or l between numbers -> 1
+    .replace(/(\d) ?[Oo] ?(\d)/g, '$10$2') // O between numbers -> 0
+    .replace(/(\d) ?[Il|] ?(\d)/g, '$11$2') // I or l between numbers -> 1
     .replace(/\b[Oo]\s*(\d)/g, '0$1') // O at start of number -> 0
     .replace(/(\d)\s*[Oo]\b/g, '$10') // O at end of number -> 0
     .replace(/([Rp\s])([S5])(\d{2,})/gi, '$15$3') // S misread as 5 after Rp
     .replace(/(\d)[B8](\d)/g, '$18$2') // B in number -> 8
-    .replace(/(\d)\s*[Zz]\s*(\d)/g, '$12$2') // Z in number -> 2
-    // Preserve common receipt/invoice symbols
-    .replace(/[^\w\s\d.,:/-]/g, '') // Remove special symbols except common ones
+    .replace(/(\d) ?[Zz] ?(\d)/g, '$12$2') // Z in number -> 2
+    // Preserve common receipt/invoice symbols ($ marks amounts on English receipts)
+    .replace(/[^\w\s\d.,:/$-]/g, '') // Remove special symbols except common ones
     .trim()
 }
 
@@ -94,6 +135,42 @@ function parseIDRAmount(numStr: string): number {
   return digitsOnly ? parseInt(digitsOnly, 10) : NaN
 }
 
+/**
+ * Parse amount string for English receipts: comma = thousands, dot = decimal
+ * (1,234.56 → 1234.56, 12.50 → 12.5). Other formats fall back to parseIDRAmount.
+ */
+function parseUSDAmount(numStr: string): number {
+  const raw = numStr.trim().replace(/\s/g, '')
+  if (/^\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?$/.test(raw) || /^\d+(?:\.\d{1,2})?$/.test(raw)) {
+    return parseFloat(raw.replace(/,/g, ''))
+  }
+  return parseIDRAmount(raw)
+}
+
+/**
+ * How amounts and dates are written on receipts in each language:
+ * Indonesian receipts print whole rupiah (Rp 38.000) and DD/MM dates,
+ * English ones print cents ($12.50) and MM/DD dates.
+ */
+const RECEIPT_LOCALE_RULES: Record<ParserLocale, {
+  parseAmount: (numStr: string) => number
+  /** Smallest amount that can be a price or total */
+  minAmount: number
+  /** Smallest amount Tier 2 may pick as the total */
+  tier2Threshold: number
+  round: (value: number) => number
+  dayFirst: boolean
+}> = {
+  id: { parseAmount: parseIDRAmount, minAmount: 100, tier2Threshold: 1000, round: Math.round, dayFirst: true },
+  en: {
+    parseAmount: parseUSDAmount,
+    minAmount: 0.01,
+    tier2Threshold: 1,
+    round: (value) => Math.round(value * 100) / 100,
+    dayFirst: false,
+  },
+}
+
 /**
  * Normalize number string to pure digits (legacy helper; prefer parseIDRAmount for amounts)
  * Handles: 58,000, 58.000, 58 000 → 58000
@@ -141,13 +218,14 @@ function isLikelyYear(value: number, line: string): boolean {
   return isDateLikeLine(line)
 }
 
-function extractNumbers(text: string): NumberMatch[] {
+function extractNumbers(text: string, locale: ParserLocale = 'id'): NumberMatch[] {
+  const rules = RECEIPT_LOCALE_RULES[locale]
   const lines = text.split('\n')
   const numbers: NumberMatch[] = []
 
   lines.forEach((line, lineIndex) => {
     const numberPatterns = [
-      /(?:Rp\.?\s*|IDR\.?\s*|Rupiah\s*)?(\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{2})?)/gi,
+      /(?:Rp\.?\s*|IDR\.?\s*|Rupiah\s*|\$\s*|USD\s*)?(\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{2})?)/gi,
       /(?:total|amount|nominal|jumlah|bayar|tagihan|payment\s*amount)\s*:?\s*(\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{2})?)/gi,
       /(\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{2})?)\s*(?:\.|,|$)/g,
       /(\d{3,}(?:[.,]\d{2})?)/g,
@@ -165,19 +243,21 @@ function extractNumbers(text: string): NumberMatch[] {
         if (/\d{1,2}[\/\-:]\d{1,2}/.test(context)) return
 
         const rawNum = match[1] || ''
-        const value = parseIDRAmount(rawNum)
+        const value = rules.parseAmount(rawNum)
 
-        if (!Number.isFinite(value) || value < 100 || value > 1000000000) return
+        if (!Number.isFinite(value) || value < rules.minAmount || value > 1000000000) return
         if (isLikelyYear(value, line)) return
+        // Small whole numbers on English receipts are quantities, not prices ("2 Burger 10.00")
+        if (locale === 'en' && value < 100 && !/[.,]\d{2}$/.test(rawNum) && !match[0].includes('$')) return
 
         const isDuplicate = numbers.some(
           (n) => n.lineIndex === lineIndex &&
                  Math.abs(n.position - match.index) < 10 &&
-                 Math.abs(n.value - value) < 100
+                 Math.abs(n.value - value) < (locale === 'en' ? 0.01 : 100)
         )
         if (!isDuplicate) {
           numbers.push({
-            value: Math.round(value),
+            value: rules.round(value),
             original: match[0],
             line: line.trim(),
             lineIndex,
@@ -216,6 +296,7 @@ function classifyNumber(
     /\d+x/, // Quantity pattern (e.g., 1x, 250x)
     /\b(no|bil|panggil|pos|csh|queue|antrian)\s*\d+/i, // Keywords with numbers
     /\b\d+\s*(no|bil|panggil|pos|csh|queue|antrian)/i,
+    /\b(cash|tendered|change|kembalian|tunai)\b/i, // Money handed over or back, not the price
   ]
 
   for (const pattern of nonPricePatterns) {
@@ -230,6 +311,7 @@ function classifyNumber(
     /\b(tax|pajak|ppn|pph)/i,
     /\b(service|servis|layanan)/i,
     /\b(discount|diskon|potongan)/i,
+    /\b(tip|gratuity)\b/i,
   ]
 
   for (const pattern of supportingPatterns) {
@@ -274,9 +356,10 @@ function classifyNumber(
 const TOTAL_KEYWORDS = [
   { pattern: /\b(payment\s*amount|total\s*transaksi|nominal\s*transfer)\b/i, weight: 1.0 },
   { pattern: /\b(total\s*pesanan|total\s*pembayaran|amount\s*due|total\s*bayar)\b/i, weight: 1.0 },
-  { pattern: /\b(grand\s*total|total\s*tagihan|total\s*amount|balance\s*due)\b/i, weight: 0.98 },
+  { pattern: /\b(grand\s*total|total\s*tagihan|total\s*amount|balance\s*due|total\s*due)\b/i, weight: 0.98 },
   { pattern: /\b(jumlah|jumlah\s*bayar|total\s*:?\s*$)\b/i, weight: 0.97 },
-  { pattern: /\b(total)\b/i, weight: 0.9 },
+  // "Sub Total" is the amount before tax and tip
+  { pattern: /(?<!sub\s?)\b(total)\b/i, weight: 0.9 },
   { pattern: /\b(bayar|nominal|tagihan|pembayaran|diterima)\b/i, weight: 0.85 },
 ]
 
@@ -284,13 +367,13 @@ const TOTAL_KEYWORDS = [
  * Tier 1: Prefer nominal that is ON THE SAME LINE as a total keyword (OCR often has "Total Rp 38.000" on one line).
  * Pick number that appears after the keyword (right side) when possible.
  */
-function detectTotalTier1(text: string, numbers: NumberMatch[]): {
+function detectTotalTier1(text: string, numbers: NumberMatch[], locale: ParserLocale = 'id'): {
   amount: number
   confidence: 'high' | 'medium' | 'low'
   keyword?: string
 } | null {
   const lines = text.split('\n')
-  const minAmount = 100
+  const minAmount = RECEIPT_LOCALE_RULES[locale].minAmount
 
   // --- Pass 1: Same-line only (strongest signal: keyword and amount on same line) ---
   let bestSameLine: {
@@ -419,13 +502,70 @@ function detectTotalTier2(numbers: NumberMatch[], threshold: number = 500): {
   return { amount: largest.value, confidence: 'low' }
 }
 
+/** Keywords of adjustment lines; rounding and discount first so "Disc. Service" is a discount */
+const ADJUSTMENT_PATTERNS: Array<{ kind: ReceiptAdjustmentKind; pattern: RegExp }> = [
+  { kind: 'rounding', pattern: /\b(pembulatan|rounding|round\s*off)\b/i },
+  { kind: 'discount', pattern: /\b(discount|diskon|disc|potongan|voucher)\b/i },
+  { kind: 'service', pattern: /\b(service|servis|layanan|svc)\b/i },
+  { kind: 'tip', pattern: /\b(tip|gratuity)\b/i },
+  { kind: 'tax', pattern: /\b(ppn|pb1|pajak|tax|vat|pph)\b/i },
+]
+
+const SUBTOTAL_PATTERN = /\b(sub\s*total|sebelum\s*pajak|before\s*tax)\b/i
+
+/** Amount at the end of a line; "-5.000", "(5.00)" and "5.000-" are negative */
+const TRAILING_AMOUNT_PATTERN = /(-|\()?\s*(?:rp\.?|idr|\$)?\s*(\d(?:[\d.,]*\d)?)\s*(\)|-)?\s*$/i
+
+function trailingAmount(line: string, locale: ParserLocale): number | null {
+  const match = line.match(TRAILING_AMOUNT_PATTERN)
+  if (!match || /[\/:]$/.test(line.slice(0, match.index).trim())) return null
+  const value = RECEIPT_LOCALE_RULES[locale].parseAmount(match[2]!)
+  if (!Number.isFinite(value) || value <= 0) return null
+  return match[1] || match[3] ? -value : value
+}
+
+/**
+ * Detect the subtotal and the tax, service, tip, discount and rounding lines.
+ * Percent-only lines ("PPN 11%") without an amount are skipped.
+ */
+function detectAdjustments(text: string, locale: ParserLocale = 'id'): {
+  subtotal?: number
+  adjustments: ReceiptAdjustment[]
+} {
+  let subtotal: number | undefined
+  const adjustments: ReceiptAdjustment[] = []
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim()
+    if (SUBTOTAL_PATTERN.test(trimmed)) {
+      const amount = trailingAmount(trimmed, locale)
+      if (amount !== null && amount > 0) subtotal = amount
+      continue
+    }
+    const match = ADJUSTMENT_PATTERNS.find(({ pattern }) => pattern.test(trimmed))
+    if (!match) continue
+    // "Total (incl. PPN)" is the total, not a tax line
+    if (match.kind === 'tax' && /(?<!sub\s?)\btotal\b/i.test(trimmed)) continue
+    const amount = trailingAmount(trimmed, locale)
+    if (amount === null) continue
+    // "Service 5% 2.150" keeps only its name; the percent sign is gone after normalizing
+    const label = trimmed.slice(0, trimmed.search(TRAILING_AMOUNT_PATTERN)).replace(/(\s+\d+)*[\s:]*$/, '') || trimmed
+    adjustments.push({
+      kind: match.kind,
+      label,
+      amount: match.kind === 'discount' ? -Math.abs(amount) : amount,
+    })
+  }
+
+  return { subtotal, adjustments }
+}
+
 /**
  * Detect item lines (item name on left, price on right)
  */
-function detectItems(text: string, numbers: NumberMatch[]): ReceiptItem[] {
+function detectItems(text: string, numbers: NumberMatch[], locale: ParserLocale = 'id'): ReceiptItem[] {
   const lines = text.split('\n')
   const items: ReceiptItem[] = []
-  const processedNumbers = new Set<number>()
 
   lines.forEach((line, lineIndex) => {
     const trimmedLine = line.trim()
@@ -433,10 +573,10 @@ function detectItems(text: string, numbers: NumberMatch[]): ReceiptItem[] {
 
     // Look for item-price patterns
     // Pattern: Item name ... price (price at end of line)
-    const lineNumbers = numbers.filter((n) => n.lineIndex === lineIndex && n.value >= 1000)
+    const lineNumbers = numbers.filter((n) => n.lineIndex === lineIndex && n.value >= (locale === 'en' ? 0.01 : 1000))
 
+    // One item per line: the price is the number at its end
     for (const num of lineNumbers) {
-      if (processedNumbers.has(num.value)) continue
 
       // Check if this number is at the end of the line (likely a price)
       const pricePosition = num.position + num.original.length
@@ -451,7 +591,8 @@ function detectItems(text: string, numbers: NumberMatch[]): ReceiptItem[] {
         if (
           itemName.length >= 2 &&
           itemName.length <= 100 &&
-          !/total|bayar|jumlah|subtotal|tax|pajak/i.test(itemName)
+          !/total|bayar|jumlah|subtotal|tax|pajak|\b(tip|gratuity|balance|change|cash|tunai|kembalian)\b/i.test(itemName) &&
+          !ADJUSTMENT_PATTERNS.some(({ pattern }) => pattern.test(itemName))
         ) {
           // Check for quantity (e.g., "1x", "2x")
           const qtyMatch = itemName.match(/(\d+)\s*x\s*$/i)
@@ -462,8 +603,7 @@ function detectItems(text: string, numbers: NumberMatch[]): ReceiptItem[] {
             price: num.value,
             quantity: quantity > 1 ? quantity : undefined,
           })
-
-          processedNumbers.add(num.value)
+          break
         }
       }
     }
@@ -500,9 +640,11 @@ const MONTH_NAMES_EN = ['january', 'february', 'march', 'april', 'may', 'june',
 /**
  * Extract date from receipt or invoice text
  * Supports: DD/MM/YYYY, DD-MM-YYYY, YYYY-MM-DD, "Tanggal: ...", "Date: ...", "5 Feb 2026", "05 Februari 2026"
+ * English receipts use MM/DD/YYYY (unless the first part is over 12)
  * Returns today's date if extraction fails or date is in the future
  */
-function extractDate(text: string): string {
+function extractDate(text: string, locale: ParserLocale = 'id'): string {
+  const dayFirst = RECEIPT_LOCALE_RULES[locale].dayFirst
   const lines = text.split('\n')
   const fullText = text
 
@@ -534,8 +676,9 @@ function extractDate(text: string): string {
       month = m2.padStart(2, '0')
       day = m3.padStart(2, '0')
     } else {
-      day = m1.padStart(2, '0')
-      month = m2.padStart(2, '0')
+      const monthFirst = Number(m2) > 12 || (!dayFirst && Number(m1) <= 12)
+      day = (monthFirst ? m2 : m1).padStart(2, '0')
+      month = (monthFirst ? m1 : m2).padStart(2, '0')
       year = m3.length === 2 ? '20' + m3 : m3
     }
     const dateStr = `${year}-${month}-${day}`
@@ -597,8 +740,9 @@ function extractDate(text: string): string {
         month = m2.padStart(2, '0')
         day = m3.padStart(2, '0')
       } else {
-        day = m1.padStart(2, '0')
-        month = m2.padStart(2, '0')
+        const monthFirst = Number(m2) > 12 || (!dayFirst && Number(m1) <= 12)
+        day = (monthFirst ? m2 : m1).padStart(2, '0')
+        month = (monthFirst ? m1 : m2).padStart(2, '0')
         year = m3.length === 2 ? '20' + m3 : m3
       }
       const dateStr = `${year}-${month}-${day}`
@@ -626,8 +770,8 @@ function extractMerchant(text: string): string | undefined {
     // Invoice-style: "From:", "Bill From", "Issued by", "Vendor:"
     const fromMatch = trimmed.match(/(?:from|bill\s*from|issued\s*by|vendor|dari|penerbit)\s*:?\s*(.+)/i)
     if (fromMatch && fromMatch[1]) {
-      const name = fromMatch[1].trim()
-      if (name.length >= 2 && name.length <= 50 && !/^\d+$/.test(name)) {
+      const name = normalizeMerchantName(fromMatch[1])
+      if (name.length >= 2) {
         return name
       }
     }
@@ -663,10 +807,12 @@ function extractMerchant(text: string): string | undefined {
       trimmed.length >= 3 &&
       trimmed.length <= 50 &&
       /^[A-Za-z0-9\s&.\-]+$/.test(trimmed) &&
+      !/\d[.,]\d{2,3}$/.test(trimmed) && // an item line ("Nasi Goreng 35.000")
       !/^TOTAL|RECEIPT|INVOICE|DATE|TIME|NOMINAL|TRANSFER|BAYAR|TANGGAL|TGL\b|NO\.|NUMBER/i.test(trimmed)
     ) {
-      if (/^[A-Z\s&]+$/.test(trimmed)) return trimmed
-      if (trimmed.length >= 4 && !/^\d/.test(trimmed)) return trimmed
+      // "INDOMARET 123 JKT" → "Indomaret"
+      if (/^[A-Z\s&]+$/.test(trimmed)) return normalizeMerchantName(trimmed) || trimmed
+      if (trimmed.length >= 4 && !/^\d/.test(trimmed)) return normalizeMerchantName(trimmed) || trimmed
     }
   }
   return undefined
@@ -675,13 +821,19 @@ function extractMerchant(text: string): string | undefined {
 /**
  * Main parsing function
  * Parse OCR text from receipt to extract transaction data
+ * @param locale - Preferred receipt language (the app's locale); a receipt that clearly reads as the other one is parsed as that
  */
-export function parseReceiptText(text: string): Partial<TransactionFormData> | Partial<TransactionFormData>[] {
+export function parseReceiptText(
+  text: string,
+  locale: ParserLocale = 'id',
+): Partial<TransactionFormData> | Partial<TransactionFormData>[] {
+  const parserLocale = detectParserLocale(text, locale)
+
   // A1: Normalize OCR output
   const normalizedText = normalizeOcrText(text)
 
   // Extract all numbers with context
-  const numbers = extractNumbers(normalizedText)
+  const numbers = extractNumbers(normalizedText, parserLocale)
 
   // A2-A3: Detect total amount with priority logic
   let detectedAmount = 0
@@ -689,7 +841,7 @@ export function parseReceiptText(text: string): Partial<TransactionFormData> | P
   let sourceKeyword: string | undefined
 
   // Tier 1: Try keyword-based detection
-  const tier1Result = detectTotalTier1(normalizedText, numbers)
+  const tier1Result = detectTotalTier1(normalizedText, numbers, parserLocale)
   if (tier1Result) {
     detectedAmount = tier1Result.amount
     confidenceLevel = tier1Result.confidence
@@ -697,7 +849,7 @@ export function parseReceiptText(text: string): Partial<TransactionFormData> | P
   } else {
     // Tier 2: Special Handling for Shopee/Clean Layouts where "Total Pesanan" might not be matched properly
     // or when there are multiple matching amounts
-    const tier2Result = detectTotalTier2(numbers, 1000)
+    const tier2Result = detectTotalTier2(numbers, RECEIPT_LOCALE_RULES[parserLocale].tier2Threshold)
     if (tier2Result) {
       detectedAmount = tier2Result.amount
       confidenceLevel = tier2Result.confidence
@@ -709,7 +861,7 @@ export function parseReceiptText(text: string): Partial<TransactionFormData> | P
   void sourceKeyword
 
   // A4: Extract metadata first
-  const date = extractDate(normalizedText)
+  const date = extractDate(normalizedText, parserLocale)
   const merchant = extractMerchant(normalizedText)
   const isBank = merchant && ['BCA', 'Mandiri', 'BNI', 'BRI'].includes(merchant)
 
@@ -736,7 +888,7 @@ export function parseReceiptText(text: string): Partial<TransactionFormData> | P
   }
 
   // B1: Detect items (optional, for multi-item receipts)
-  const items = detectItems(normalizedText, numbers)
+  const items = detectItems(normalizedText, numbers, parserLocale)
 
   // B2: If multiple items detected and total matches, return array
   if (items.length > 1 && detectedAmount > 0) {
@@ -745,39 +897,57 @@ export function parseReceiptText(text: string): Partial<TransactionFormData> | P
 
     // If items sum is close to detected total (within 10%), return items
     if (Math.abs(itemsSum - detectedAmount) / detectedAmount < 0.1) {
-      return items.map((item) => ({
-        type: 'expense' as const,
-        amount: item.price * (item.quantity || 1),
-        description: item.quantity && item.quantity > 1 ? `${item.name} (${item.quantity}x)` : item.name,
-        category: inferCategory(item.name),
-        date,
-      }))
+      return items.map((item) => {
+        const amount = RECEIPT_LOCALE_RULES[parserLocale].round(item.price * (item.quantity || 1))
+        return {
+          type: 'expense' as const,
+          amount,
+          description: item.quantity && item.quantity > 1 ? `${item.name} (${item.quantity}x)` : item.name,
+          category:
+            applyCategoryRules({ type: 'expense', amount, description: item.name, merchant }) ??
+            inferCategory(item.name),
+          date,
+          ...(merchant && { merchant }),
+        }
+      })
     }
   }
 
-  // Single transaction fallback
+  // Single transaction fallback; a known merchant keeps the category the user chose or usually gives it
+  const known = merchant ? findMerchant(merchant) : null
   const result: Partial<TransactionFormData> = {
     type,
     amount: detectedAmount,
     description: merchant ? `${merchant} Transaction` : 'Receipt Transaction',
-    category: merchant ? inferCategory(merchant) : 'Lainnya',
+    category: merchant ? ((known && getMerchantCategory(known)) ?? inferCategory(merchant)) : OTHER_CATEGORY_ID,
     date,
+    // Bank screenshots name the bank, not a shop
+    ...(merchant && !isBank && { merchant }),
   }
 
   // Refine description for specific platforms
   if (merchant === 'Shopee' || merchant === 'ShopeePay') {
     result.description = 'Belanja Shopee'
-    result.category = 'Belanja'
+    result.category = 'shopping'
   } else if (isBank && type === 'income') {
     result.description = merchant ? `Transfer Masuk ${merchant}` : 'Transfer Masuk'
-    // Default to 'Gaji' for income if no specific category inferred
-    if (!result.category || result.category === 'Lainnya' || result.category === 'Transfer') {
-      result.category = 'Gaji'
+    // Default to salary for income if no specific category inferred
+    if (!result.category || result.category === OTHER_CATEGORY_ID) {
+      result.category = SALARY_CATEGORY_ID
     }
   }
 
-  // User requirement: If category is 'Lainnya' and no specific merchant, clear description
-  if (result.category === 'Lainnya' && !merchant) {
+  // User-defined rules (Category Rules) win over the built-in guesses above
+  const ruleCategory = applyCategoryRules({
+    type,
+    amount: detectedAmount,
+    description: result.description ?? '',
+    merchant,
+  })
+  if (ruleCategory) result.category = ruleCategory
+
+  // User requirement: If category is 'other' and no specific merchant, clear description
+  if (result.category === OTHER_CATEGORY_ID && !merchant) {
     result.description = ''
   }
 
@@ -790,51 +960,54 @@ export function parseReceiptText(text: string): Partial<TransactionFormData> | P
 function inferCategory(text: string): string {
   const lowerText = text.toLowerCase()
   const categoryKeywords: Record<string, string[]> = {
-    Makanan: ['restaurant', 'cafe', 'food', 'grocery', 'market', 'supermarket', 'warung', 'makan', 'minum', 'kopi', 'bakso', 'nasi'],
-    Transportasi: ['gas', 'fuel', 'bensin', 'taxi', 'uber', 'grab', 'gojek', 'parking', 'parkir', 'toll', 'tol'],
-    Belanja: ['store', 'shop', 'toko', 'mall', 'retail', 'clothing', 'pakaian', 'shoes', 'sepatu'],
-    Tagihan: ['utility', 'listrik', 'air', 'internet', 'phone', 'telepon', 'cable', 'bill', 'tagihan', 'topup', 'pulsa'],
-    Hiburan: ['movie', 'cinema', 'bioskop', 'theater', 'game', 'entertainment', 'netflix', 'spotify', 'youtube'],
-    Kesehatan: ['pharmacy', 'apotek', 'drug', 'obat', 'hospital', 'rumah sakit', 'clinic', 'klinik', 'doctor', 'dokter', 'halodoc'],
-    'E-commerce': ['shopee', 'tokopedia', 'lazada', 'blibli', 'bukalapak', 'tiktok\s*shop'],
-    Transfer: ['transfer', 'bca', 'mandiri', 'bni', 'bri', 'm-banking', 'payment', 'va', 'virtual\s*account'],
+    food: ['restaurant', 'cafe', 'food', 'grocery', 'market', 'supermarket', 'minimarket', 'warung', 'makan', 'minum', 'kopi', 'bakso', 'nasi'],
+    transport: ['gas', 'fuel', 'bensin', 'taxi', 'uber', 'grab', 'gojek', 'parking', 'parkir', 'toll', 'tol'],
+    shopping: ['store', 'shop', 'toko', 'mall', 'retail', 'clothing', 'pakaian', 'shoes', 'sepatu', 'shopee', 'tokopedia', 'lazada', 'blibli', 'bukalapak', 'tiktok\s*shop'],
+    bills: ['utility', 'listrik', 'air', 'internet', 'phone', 'telepon', 'cable', 'bill', 'tagihan', 'topup', 'pulsa'],
+    entertainment: ['movie', 'cinema', 'bioskop', 'theater', 'game', 'entertainment', 'netflix', 'spotify', 'youtube'],
+    health: ['pharmacy', 'apotek', 'drug', 'obat', 'hospital', 'rumah sakit', 'clinic', 'klinik', 'doctor', 'dokter', 'halodoc'],
   }
 
+  // Keywords match at the start of a word, so "tol" (toll) is not found in "Teh Botol"
   for (const [category, keywords] of Object.entries(categoryKeywords)) {
-    if (keywords.some((keyword) => lowerText.includes(keyword))) {
+    if (keywords.some((keyword) => new RegExp(`\\b${keyword}`).test(lowerText))) {
       return category
     }
   }
 
-  return 'Lainnya'
+  // Bank transfers and anything else without a keyword match
+  return OTHER_CATEGORY_ID
 }
 
 /**
  * Parse receipt with detailed result (for debugging and advanced features)
+ * @param locale - Preferred receipt language, as for parseReceiptText
  */
-export function parseReceiptTextDetailed(text: string): ReceiptParseResult {
+export function parseReceiptTextDetailed(text: string, locale: ParserLocale = 'id'): ReceiptParseResult {
+  const parserLocale = detectParserLocale(text, locale)
   const normalizedText = normalizeOcrText(text)
-  const numbers = extractNumbers(normalizedText)
+  const numbers = extractNumbers(normalizedText, parserLocale)
 
   let detectedAmount = 0
   let confidenceLevel: 'high' | 'medium' | 'low' = 'low'
   let sourceKeyword: string | undefined
 
-  const tier1Result = detectTotalTier1(normalizedText, numbers)
+  const tier1Result = detectTotalTier1(normalizedText, numbers, parserLocale)
   if (tier1Result) {
     detectedAmount = tier1Result.amount
     confidenceLevel = tier1Result.confidence
     sourceKeyword = tier1Result.keyword
   } else {
-    const tier2Result = detectTotalTier2(numbers, 1000)
+    const tier2Result = detectTotalTier2(numbers, RECEIPT_LOCALE_RULES[parserLocale].tier2Threshold)
     if (tier2Result) {
       detectedAmount = tier2Result.amount
       confidenceLevel = tier2Result.confidence
     }
   }
 
-  const items = detectItems(normalizedText, numbers)
-  const extractedDate = extractDate(normalizedText)
+  const items = detectItems(normalizedText, numbers, parserLocale)
+  const { subtotal, adjustments } = detectAdjustments(normalizedText, parserLocale)
+  const extractedDate = extractDate(normalizedText, parserLocale)
   // Validate date is not in future (extractDate already handles this, but double-check)
   const today = getTodayDateString()
   const date = isDateInFuture(extractedDate) ? today : extractedDate
@@ -847,7 +1020,88 @@ export function parseReceiptTextDetailed(text: string): ReceiptParseResult {
     rawOcrText: text,
     normalizedText,
     items: items.length > 0 ? items : undefined,
+    subtotal,
+    adjustments: adjustments.length > 0 ? adjustments : undefined,
     date,
     merchant,
   }
 }
+
+/** Round to whole units when every amount is whole (rupiah), otherwise to cents */
+function roundingFor(amounts: number[]): (value: number) => number {
+  return amounts.every(Number.isInteger)
+    ? Math.round
+    : (value) => Math.round(value * 100) / 100
+}
+
+/**
+ * Editable breakdown of a parsed receipt: items with a guessed category
+ * (Category Rules first), the adjustment lines, and the detected total
+ */
+export function buildReceiptBreakdown(result: ReceiptParseResult): ReceiptBreakdown {
+  return {
+    items: (result.items ?? []).map((item) => {
+      const amount = item.price * (item.quantity || 1)
+      return {
+        name: item.quantity && item.quantity > 1 ? `${item.name} (${item.quantity}x)` : item.name,
+        amount,
+        category:
+          applyCategoryRules({ type: 'expense', amount, description: item.name, merchant: result.merchant }) ??
+          inferCategory(item.name),
+      }
+    }),
+    adjustments: (result.adjustments ?? []).map((a) => ({ ...a })),
+    total: result.detectedAmount,
+  }
+}
+
+/**
+ * Check that items plus adjustments add up to the receipt total
+ */
+export function reconcileReceipt(breakdown: ReceiptBreakdown): ReceiptReconciliation {
+  const round = roundingFor([
+    breakdown.total,
+    ...breakdown.items.map((i) => i.amount),
+    ...breakdown.adjustments.map((a) => a.amount),
+  ])
+  const itemsTotal = round(breakdown.items.reduce((sum, i) => sum + i.amount, 0))
+  const adjustmentsTotal = round(breakdown.adjustments.reduce((sum, a) => sum + a.amount, 0))
+  const computedTotal = round(itemsTotal + adjustmentsTotal)
+  const difference = round(breakdown.total - computedTotal)
+  return { itemsTotal, adjustmentsTotal, computedTotal, difference, balanced: difference === 0 }
+}
+
+/**
+ * Split a receipt into one part per item or per category. Tax, service, tip,
+ * discount and rounding are shared out in proportion to each part's amount,
+ * so the parts add up to items plus adjustments; the rounding remainder goes
+ * to the largest part.
+ */
+export function splitReceipt(
+  breakdown: ReceiptBreakdown,
+  mode: Exclude<ReceiptSaveMode, 'single'>,
+): Array<{ description: string; category: string; amount: number }> {
+  const items = breakdown.items.filter((i) => i.amount > 0)
+  const groups = mode === 'items'
+    ? items.map((i) => ({ description: i.name, category: i.category, amount: i.amount }))
+    : Object.values(items.reduce<Record<string, { description: string; category: string; amount: number }>>((acc, i) => {
+      const group = (acc[i.category] ??= { description: '', category: i.category, amount: 0 })
+      group.description = group.description ? `${group.description}, ${i.name}` : i.name
+      group.amount += i.amount
+      return acc
+    }, {}))
+  if (groups.length === 0) return []
+
+  const { itemsTotal, adjustmentsTotal, computedTotal } = reconcileReceipt(breakdown)
+  const round = roundingFor([computedTotal, ...breakdown.items.map((i) => i.amount), ...breakdown.adjustments.map((a) => a.amount)])
+  const parts = groups.map((g) => ({
+    ...g,
+    amount: round(g.amount + (itemsTotal > 0 ? (adjustmentsTotal * g.amount) / itemsTotal : 0)),
+  }))
+  const remainder = round(computedTotal - parts.reduce((sum, p) => sum + p.amount, 0))
+  if (remainder !== 0) {
+    const largest = parts.reduce((a, b) => (b.amount > a.amount ? b : a))
+    largest.amount = round(largest.amount + remainder)
+  }
+  return parts
+}
@@ -0,0 +1,384 @@
+import type { Transaction } from '@/types/transaction'
+
+/**
+ * Parsing for bank and e-wallet statements (CSV, OFX/QFX, QIF) before they are
+ * imported into a pocket. Every format is reduced to StatementEntry rows; CSV needs a
+ * ColumnMapping (guessed from the header, adjustable by the user).
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif'
+
+/** Order of day, month and year in a date; separators and month names are handled by the parser. */
+export type StatementDateFormat = 'dmy' | 'mdy' | 'ymd'
+
+/**
+ * How money in and out are told apart:
+ * - `signed`: one amount column, negative (or marked DB/D) is money out
+ * - `inverted`: one amount column, positive is money out (e.g. credit card statements)
+ * - `debitCredit`: separate columns for money out and money in
+ */
+export type AmountMode = 'signed' | 'inverted' | 'debitCredit'
+
+/** Column indexes are 0-based; -1 means not mapped. */
+export interface ColumnMapping {
+  hasHeader: boolean
+  date: number
+  description: number
+  amount: number
+  debit: number
+  credit: number
+  amountMode: AmountMode
+  dateFormat: StatementDateFormat
+}
+
+export interface StatementEntry {
+  /** YYYY-MM-DD */
+  date: string
+  /** Negative for money out. */
+  amount: number
+  description: string
+}
+
+export interface StatementParseResult {
+  entries: StatementEntry[]
+  /** Rows without a readable date or a non-zero amount. */
+  skipped: number
+}
+
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = ['dmy', 'mdy', 'ymd']
+
+/** Month names (English and Indonesian abbreviations) as they appear in statement dates. */
+const MONTH_NAMES: string[][] = [
+  ['jan'],
+  ['feb', 'peb'],
+  ['mar'],
+  ['apr'],
+  ['may', 'mei'],
+  ['jun'],
+  ['jul'],
+  ['aug', 'agu', 'agt'],
+  ['sep'],
+  ['oct', 'okt'],
+  ['nov', 'nop'],
+  ['dec', 'des'],
+]
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.ofx') || name.endsWith('.qfx') || /<OFX>/i.test(text)) return 'ofx'
+  if (name.endsWith('.qif') || /^!Type:/im.test(text)) return 'qif'
+  if (name.endsWith('.csv') || name.endsWith('.txt')) return 'csv'
+  return null
+}
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t', '|']
+  let best = ','
+  let bestCount = 0
+  for (const d of candidates) {
+    // Good enough for a header line; quoted delimiters are rare there
+    const count = firstLine.split(d).length - 1
+    if (count > bestCount) {
+      best = d
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/** Split CSV text into rows of trimmed cells. Handles quoted cells and `;`/tab/`|` delimiters. */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  row.push(cell.trim())
+  rows.push(row)
+  return rows.filter((r) => r.some((c) => c !== ''))
+}
+
+/**
+ * Read an amount as written in a statement: `1.234.567,89`, `1,234,567.89`, `Rp 50.000`,
+ * `(120.00)`, `-75`, `150,000.00 DB`. Returns a signed number (negative = money out).
+ */
+export function parseAmount(raw: string): number | null {
+  let s = raw.trim()
+  if (!s) return null
+  let negative = false
+  if (/^\(.*\)$/.test(s)) {
+    negative = true
+    s = s.slice(1, -1)
+  }
+  // Indonesian banks mark debits with DB/D and credits with CR/K
+  const marker = s.match(/(?<![a-z])(DB|DR|D|CR|K)\.?$/i)
+  if (marker) {
+    if (/^(DB|DR|D)$/i.test(marker[1]!)) negative = true
+    s = s.slice(0, marker.index)
+  }
+  if (s.includes('-')) negative = true
+  s = s.replace(/[^\d.,]/g, '')
+  if (!/\d/.test(s)) return null
+
+  const lastSep = Math.max(s.lastIndexOf('.'), s.lastIndexOf(','))
+  let normalized = s
+  if (lastSep !== -1) {
+    const decimals = s.length - lastSep - 1
+    // One or two trailing digits are cents; three are a thousands group
+    normalized =
+      decimals > 0 && decimals < 3
+        ? `${s.slice(0, lastSep).replace(/[.,]/g, '')}.${s.slice(lastSep + 1)}`
+        : s.replace(/[.,]/g, '')
+  }
+  const value = Number(normalized)
+  if (!Number.isFinite(value)) return null
+  return negative ? -value : value
+}
+
+function monthFromName(value: string): number | null {
+  const lower = value.toLowerCase()
+  const index = MONTH_NAMES.findIndex((names) => names.some((n) => lower.startsWith(n)))
+  return index === -1 ? null : index + 1
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+/** Read a statement date in the given order; ISO dates are always accepted. Returns YYYY-MM-DD. */
+export function parseStatementDate(raw: string, format: StatementDateFormat): string | null {
+  const s = raw.trim()
+  const iso = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const parts = s.split(/[/\-.\s',]+/).filter(Boolean)
+  if (parts.length < 3) return null
+  const [a, b, c] = parts as [string, string, string]
+  const [y, m, d] = format === 'ymd' ? [a, b, c] : format === 'mdy' ? [c, a, b] : [c, b, a]
+  const month = /^\d+$/.test(m) ? Number(m) : monthFromName(m)
+  if (!/^\d+$/.test(y) || !/^\d+$/.test(d) || month == null) return null
+  return toIsoDate(Number(y), month, Number(d))
+}
+
+/** The date order that reads the most values; ties go to day-first, the local convention. */
+export function guessDateFormat(values: string[]): StatementDateFormat {
+  let best: StatementDateFormat = 'dmy'
+  let bestCount = -1
+  for (const format of STATEMENT_DATE_FORMATS) {
+    const count = values.filter((v) => parseStatementDate(v, format) != null).length
+    if (count > bestCount) {
+      best = format
+      bestCount = count
+    }
+  }
+  return best
+}
+
+const HEADER_PATTERNS = {
+  date: /date|tanggal|tgl|posted|waktu|time/i,
+  debit: /debit|debet|withdraw|keluar|money out|paid out/i,
+  credit: /credit|kredit|deposit|masuk|money in|paid in/i,
+  amount: /amount|jumlah|nominal|mutasi|nilai|total/i,
+  description: /desc|keterangan|uraian|memo|narrative|detail|payee|merchant|remark|transaksi|transaction|name|nama/i,
+}
+
+function findColumn(header: string[], pattern: RegExp, taken: number[]): number {
+  return header.findIndex((cell, i) => !taken.includes(i) && pattern.test(cell))
+}
+
+/** Best-effort mapping from the header row, or from the cell contents when there is none. */
+export function guessColumnMapping(rows: string[][]): ColumnMapping {
+  const header = rows[0] ?? []
+  const width = Math.max(0, ...rows.slice(0, 20).map((r) => r.length))
+  const sample = rows.slice(1, 21)
+
+  const date = findColumn(header, HEADER_PATTERNS.date, [])
+  const debit = findColumn(header, HEADER_PATTERNS.debit, [date])
+  const credit = findColumn(header, HEADER_PATTERNS.credit, [date, debit])
+  const amount = findColumn(header, HEADER_PATTERNS.amount, [date, debit, credit])
+  const description = findColumn(header, HEADER_PATTERNS.description, [date, debit, credit, amount])
+  const hasHeader = [date, debit, credit, amount, description].some((i) => i !== -1)
+
+  const dataRows = hasHeader ? sample : rows.slice(0, 20)
+  const column = (i: number) => dataRows.map((r) => r[i] ?? '').filter(Boolean)
+  const columns = Array.from({ length: width }, (_, i) => i)
+  const isDateColumn = (i: number) =>
+    column(i).length > 0 && column(i).every((v) => STATEMENT_DATE_FORMATS.some((f) => parseStatementDate(v, f)))
+  const isAmountColumn = (i: number) => column(i).length > 0 && column(i).every((v) => parseAmount(v) != null)
+
+  const mapping: ColumnMapping = {
+    hasHeader,
+    date: date !== -1 ? date : columns.find(isDateColumn) ?? 0,
+    description,
+    amount,
+    debit,
+    credit,
+    amountMode: debit !== -1 && credit !== -1 && amount === -1 ? 'debitCredit' : 'signed',
+    dateFormat: 'dmy',
+  }
+  if (mapping.amountMode === 'signed' && mapping.amount === -1) {
+    // Last numeric column; statements often end with the running balance, so prefer the one before it
+    const numeric = columns.filter((i) => i !== mapping.date && isAmountColumn(i))
+    mapping.amount = numeric.length > 1 ? numeric[numeric.length - 2]! : numeric[0] ?? -1
+  }
+  if (mapping.description === -1) {
+    // Longest text column
+    const used = [mapping.date, mapping.amount, mapping.debit, mapping.credit]
+    const lengths = columns.map((i) =>
+      used.includes(i) ? -1 : column(i).reduce((sum, v) => sum + v.length, 0),
+    )
+    mapping.description = lengths.indexOf(Math.max(...lengths))
+  }
+  mapping.dateFormat = guessDateFormat(column(mapping.date))
+  return mapping
+}
+
+/** Apply a column mapping to parsed CSV rows. */
+export function mapCsvRows(rows: string[][], mapping: ColumnMapping): StatementParseResult {
+  const entries: StatementEntry[] = []
+  let skipped = 0
+  for (const row of mapping.hasHeader ? rows.slice(1) : rows) {
+    const cell = (i: number) => (i >= 0 ? row[i] ?? '' : '')
+    const date = parseStatementDate(cell(mapping.date), mapping.dateFormat)
+    let amount: number | null
+    if (mapping.amountMode === 'debitCredit') {
+      const out = parseAmount(cell(mapping.debit))
+      const inflow = parseAmount(cell(mapping.credit))
+      amount = out == null && inflow == null ? null : Math.abs(inflow ?? 0) - Math.abs(out ?? 0)
+    } else {
+      const value = parseAmount(cell(mapping.amount))
+      amount = value == null ? null : mapping.amountMode === 'inverted' ? -value : value
+    }
+    if (!date || !amount) {
+      skipped++
+      continue
+    }
+    entries.push({ date, amount, description: cell(mapping.description).replace(/\s+/g, ' ') })
+  }
+  return { entries, skipped }
+}
+
+/** OFX/QFX (SGML or XML): one entry per STMTTRN block. */
+export function parseOfx(text: string): StatementParseResult {
+  const entries: StatementEntry[] = []
+  let skipped = 0
+  for (const block of text.split(/<STMTTRN>/i).slice(1)) {
+    const body = block.split(/<\/STMTTRN>/i)[0] ?? ''
+    const field = (tag: string) => body.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() ?? ''
+    const posted = field('DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/)
+    const date = posted ? toIsoDate(Number(posted[1]), Number(posted[2]), Number(posted[3])) : null
+    const amount = Number(field('TRNAMT').replace(',', '.'))
+    if (!date || !Number.isFinite(amount) || amount === 0) {
+      skipped++
+      continue
+    }
+    entries.push({ date, amount, description: field('NAME') || field('MEMO') })
+  }
+  return { entries, skipped }
+}
+
+/** Date values of a QIF file, for guessing its date order. */
+export function qifDates(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('D'))
+    .map((line) => line.slice(1).trim())
+}
+
+/** QIF: `D` date, `T`/`U` amount, `P` payee, `M` memo, `^` ends a record. */
+export function parseQif(text: string, dateFormat: StatementDateFormat): StatementParseResult {
+  const entries: StatementEntry[] = []
+  let skipped = 0
+  let record: Record<string, string> = {}
+
+  const flush = () => {
+    if (Object.keys(record).length === 0) return
+    const date = parseStatementDate(record.D ?? '', dateFormat)
+    const amount = parseAmount(record.T ?? record.U ?? '')
+    if (!date || !amount) skipped++
+    else entries.push({ date, amount, description: record.P || record.M || '' })
+    record = {}
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('!')) continue
+    if (line.startsWith('^')) {
+      flush()
+      continue
+    }
+    const code = line[0]!
+    // Split lines (S/E/$) belong to the record's total; keep the first value of each code
+    if (!(code in record)) record[code] = line.slice(1).trim()
+  }
+  flush()
+  return { entries, skipped }
+}
+
+function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Flags entries already recorded in the pocket (same date, amount, direction and
+ * description). Each existing transaction matches at most one entry, so two identical
+ * purchases on one day are only flagged if both were recorded.
+ * `blankDescriptions` are the labels rows without a description were saved with
+ * (in any language); they match an empty description.
+ */
+export function findDuplicates(
+  entries: StatementEntry[],
+  existing: Transaction[],
+  pocketId: string,
+  blankDescriptions: string[] = [],
+): boolean[] {
+  const blanks = new Set(blankDescriptions.map(normalizeDescription))
+  const duplicateKey = (date: string, amount: number, description: string) => {
+    const normalized = normalizeDescription(description)
+    return `${date}|${amount.toFixed(2)}|${blanks.has(normalized) ? '' : normalized}`
+  }
+
+  const counts = new Map<string, number>()
+  for (const t of existing) {
+    if (t.pocketId !== pocketId || t.type === 'transfer') continue
+    const key = duplicateKey(t.date, t.type === 'expense' ? -t.amount : t.amount, t.description)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  return entries.map((e) => {
+    const key = duplicateKey(e.date, e.amount, e.description)
+    const n = counts.get(key) ?? 0
+    if (n === 0) return false
+    counts.set(key, n - 1)
+    return true
+  })
+}
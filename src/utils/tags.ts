@@ -0,0 +1,64 @@
+import type { Transaction } from '@/types/transaction'
+
+/** Letters, digits, `-` and `_`; anything else ends a hashtag. */
+const HASHTAG_PATTERN = /(^|\s)#([\p{L}\p{N}_-]+)/gu
+
+const MAX_TAG_LENGTH = 40
+
+/** Trim a tag and drop a leading #; empty string when nothing is left. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * Clean a tag list: normalized, empty ones dropped, duplicates removed ignoring case
+ * (the first spelling wins). Returns undefined when no tags are left.
+ */
+export function normalizeTags(tags: string[] | undefined): string[] | undefined {
+  if (!tags) return undefined
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const raw of tags) {
+    const tag = normalizeTag(raw)
+    const key = tag.toLowerCase()
+    if (!tag || seen.has(key)) continue
+    seen.add(key)
+    result.push(tag)
+  }
+  return result.length > 0 ? result : undefined
+}
+
+/** `#hashtags` in free text, plus the text with them removed. */
+export function extractHashtags(text: string): { tags: string[]; text: string } {
+  const tags: string[] = []
+  const rest = text.replace(HASHTAG_PATTERN, (_, lead: string, tag: string) => {
+    tags.push(tag)
+    return lead
+  })
+  return { tags: normalizeTags(tags) ?? [], text: rest.replace(/\s+/g, ' ').trim() }
+}
+
+export function hasAnyTag(t: Pick<Transaction, 'tags'>, tags: string[]): boolean {
+  if (!t.tags?.length) return false
+  const wanted = new Set(tags.map((tag) => tag.toLowerCase()))
+  return t.tags.some((tag) => wanted.has(tag.toLowerCase()))
+}
+
+/** Every tag in use, most used first (spelling of the most recent use). */
+export function collectTags(transactions: Array<Pick<Transaction, 'tags' | 'date'>>): string[] {
+  const counts = new Map<string, { tag: string; count: number; date: string }>()
+  for (const t of transactions) {
+    for (const tag of t.tags ?? []) {
+      const key = tag.toLowerCase()
+      const entry = counts.get(key)
+      if (!entry) counts.set(key, { tag, count: 1, date: t.date })
+      else {
+        entry.count++
+        if (t.date > entry.date) Object.assign(entry, { tag, date: t.date })
+      }
+    }
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .map((e) => e.tag)
+}
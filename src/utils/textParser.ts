@@ -1,4 +1,9 @@
 import type { TransactionFormData } from '@/types/transaction'
+import { applyCategoryRules } from '@/services/categoryRuleService'
+import { findMerchant, findMerchantInText, getMerchantCategory } from '@/services/merchantService'
+import { OTHER_CATEGORY_ID, SALARY_CATEGORY_ID } from '@/services/categoryService'
+import { extractHashtags } from '@/utils/tags'
+import { detectParserLocale, type ParserLocale } from '@/utils/parserLocale'
 
 /**
  * Parse result with confidence indicators
@@ -14,6 +19,50 @@ export interface TextParseResult {
   }
   errors?: string[]
   warnings?: string[]
+  /** The piece of the input this result was parsed from (multi-transaction input). */
+  source?: string
+  /** Where the money goes when the text moves money ("pindah 1jt ke tabungan"); `data.type` is then 'transfer' */
+  transferTarget?: TransferTarget
+}
+
+/** A pocket or goal the parser can recognise by name */
+export interface TextParseAccount {
+  id: string
+  name: string
+}
+
+/** The user's pockets and goals, so "dari BCA" or "ke goal Liburan" can be resolved */
+export interface TextParseAccounts {
+  pockets: TextParseAccount[]
+  goals: TextParseAccount[]
+}
+
+export interface TransferTarget {
+  kind: 'pocket' | 'goal'
+  id: string
+}
+
+/**
+ * Optional context for parsing
+ */
+export interface TextParseOptions {
+  /** The user's pockets and goals, recognised by name (not used with a forced type) */
+  accounts?: TextParseAccounts
+  /**
+   * Preferred language, usually the app's locale. Text that clearly reads as
+   * the other language ("fifty thousand for lunch yesterday") is parsed as that one.
+   */
+  locale?: ParserLocale
+}
+
+/**
+ * Result of parsing text that may hold several transactions
+ */
+export interface MultiTextParseResult {
+  /** One draft per piece of text that contains an amount, in input order */
+  drafts: TextParseResult[]
+  /** Pieces without an amount that were not turned into drafts (headings, totals, chat) */
+  ignored: string[]
 }
 
 /**
@@ -25,15 +74,43 @@ function getTodayDateString(): string {
 }
 
 /**
- * Get yesterday's date string in YYYY-MM-DD format
+ * Get the date `days` days before today in YYYY-MM-DD format (UTC, like getTodayDateString)
  */
-function getYesterdayDateString(): string {
-  const yesterday = new Date()
-  yesterday.setDate(yesterday.getDate() - 1)
-  const parts = yesterday.toISOString().split('T')
+function getDaysAgoDateString(days: number): string {
+  const now = new Date()
+  const parts = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days)).toISOString().split('T')
   return parts[0] || ''
 }
 
+/**
+ * Messages for errors and warnings, in the language the text was parsed as
+ */
+const MESSAGES: Record<ParserLocale, Record<
+  'empty' | 'noAmount' | 'lowAmount' | 'unclearType' | 'noCategory' | 'lowCategory' | 'noDate' | 'noDescription',
+  string
+>> = {
+  id: {
+    empty: 'Teks tidak boleh kosong',
+    noAmount: 'Tidak dapat mendeteksi jumlah transaksi. Pastikan teks mengandung jumlah seperti "20 ribu", "Rp 20.000", atau "5 juta".',
+    lowAmount: 'Jumlah yang terdeteksi memiliki keyakinan rendah. Silakan periksa kembali sebelum menyimpan.',
+    unclearType: 'Tipe transaksi tidak terdeteksi dengan jelas. Default: Expense. Gunakan kata seperti "beli", "bayar" untuk expense atau "gaji", "masuk" untuk income.',
+    noCategory: 'Kategori tidak terdeteksi. Akan menggunakan kategori default.',
+    lowCategory: 'Kategori yang terdeteksi memiliki keyakinan rendah. Disarankan untuk memverifikasi sebelum menyimpan.',
+    noDate: 'Tanggal tidak terdeteksi. Menggunakan tanggal hari ini sebagai default.',
+    noDescription: 'Deskripsi tidak dapat diekstrak dengan baik dari teks. Silakan periksa sebelum menyimpan.',
+  },
+  en: {
+    empty: 'Text cannot be empty',
+    noAmount: 'Could not find the transaction amount. Make sure the text contains an amount such as "$12.50", "20k" or "fifty thousand".',
+    lowAmount: 'The detected amount has low confidence. Please check it before saving.',
+    unclearType: 'Transaction type is unclear. Default: Expense. Use words like "bought", "paid" for expenses or "salary", "received" for income.',
+    noCategory: 'Category not detected. The default category will be used.',
+    lowCategory: 'The detected category has low confidence. Please verify it before saving.',
+    noDate: 'Date not detected. Using today as the default.',
+    noDescription: 'Could not extract a clear description from the text. Please check it before saving.',
+  },
+}
+
 /**
  * Multiplier words for Indonesian currency
  * Used for both parsing amounts and cleaning descriptions
@@ -152,14 +229,159 @@ function parseNaturalAmount(text: string): number {
   return total
 }
 
+/** English number words; "a"/"an" only count before a scale ("a hundred", "a grand") */
+const EN_UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90,
+}
+
+const EN_SCALES: Record<string, number> = {
+  thousand: 1000, grand: 1000, k: 1000, million: 1000000, mil: 1000000, m: 1000000, billion: 1000000000, bn: 1000000000,
+}
+
+/** Scale words that may follow a number; single letters only as shorthand ("20k", "1.5m") */
+function isScaleWord(word: string): boolean {
+  return word in EN_SCALES && (word.length > 1 || word === 'k')
+}
+
+/** Month names and abbreviations in both languages, mapped to their month (1-12) */
+const MONTHS: Record<string, number> = {
+  january: 1, januari: 1, jan: 1, february: 2, februari: 2, feb: 2, march: 3, maret: 3, mar: 3,
+  april: 4, apr: 4, may: 5, mei: 5, june: 6, juni: 6, jun: 6, july: 7, juli: 7, jul: 7,
+  august: 8, agustus: 8, aug: 8, agu: 8, agt: 8, september: 9, sept: 9, sep: 9,
+  october: 10, oktober: 10, oct: 10, okt: 10, november: 11, nov: 11, december: 12, desember: 12, dec: 12, des: 12,
+}
+
+/** Regex source matching one month name, longest first so "june" is not read as "jun" */
+const MONTH_NAMES = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|')
+
+/** "Oct 5", "October 5th, 2026" */
+const MONTH_DAY_PATTERN = new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'i')
+/** "5 Oktober", "5th of October 2026" */
+const DAY_MONTH_PATTERN = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES})\\b\\.?(?:\\s+(\\d{4})\\b)?`, 'i')
+
+/**
+ * Remove written dates and times ("15/10/2026", "Oct 5", "2 days ago", "8:30 pm")
+ * so their numbers are not read as amounts
+ */
+function stripDates(text: string): string {
+  return text
+    .replace(/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}|\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}/g, ' ')
+    .replace(new RegExp(MONTH_DAY_PATTERN.source, 'gi'), ' ')
+    .replace(new RegExp(DAY_MONTH_PATTERN.source, 'gi'), ' ')
+    .replace(/\b\d+\s+(?:days?|weeks?)\s+ago\b|\b\d+\s*(?:hari|minggu)\s*(?:yang\s*)?lalu\b/gi, ' ')
+    .replace(/\b\d{1,2}:\d{2}(?:\s*[ap]\.?m\.?)?/gi, ' ')
+}
+
+/**
+ * English amounts written with words or scale shorthand:
+ * "fifty thousand", "one hundred twenty", "a grand", "2.5 million", "1.2k", "20k".
+ * Returns the largest run of number words, or 0 when there is none. Small
+ * bare words ("two coffees") are counts, not amounts, and are skipped.
+ */
+function parseEnglishNumberWords(text: string): number {
+  const tokens = text.toLowerCase().replace(/-/g, ' ').split(/[^a-z0-9.]+/).filter(Boolean)
+  let best = 0
+  let total = 0
+  let current = 0
+  let found = false
+  let hasScale = false
+
+  const endRun = () => {
+    const value = total + current
+    if (found && (hasScale || value >= 20)) best = Math.max(best, value)
+    total = 0
+    current = 0
+    found = false
+    hasScale = false
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!.replace(/\.$/, '')
+    const next = tokens[i + 1] ?? ''
+    const shorthand = token.match(/^(\d+(?:\.\d+)?)(k|m|mil|bn)$/)
+    if (shorthand) {
+      endRun()
+      best = Math.max(best, parseFloat(shorthand[1]!) * EN_SCALES[shorthand[2]!]!)
+      continue
+    }
+    if (/^\d+(?:\.\d+)?$/.test(token) && (isScaleWord(next) || next === 'hundred')) {
+      endRun()
+      current = parseFloat(token)
+      found = true
+      continue
+    }
+    if ((token === 'a' || token === 'an') && (isScaleWord(next) || next === 'hundred')) {
+      endRun()
+      current = 1
+      found = true
+      continue
+    }
+    if (token in EN_UNITS) {
+      current += EN_UNITS[token]!
+      found = true
+      continue
+    }
+    if (token === 'hundred' && found) {
+      current = (current || 1) * 100
+      hasScale = true
+      continue
+    }
+    if (isScaleWord(token) && found) {
+      total += (current || 1) * EN_SCALES[token]!
+      current = 0
+      hasScale = true
+      continue
+    }
+    if (token === 'and' && found) continue
+    endRun()
+  }
+  endRun()
+
+  return Math.round(best * 100) / 100
+}
+
+/**
+ * Parse an amount written the English way: "$12.50", "1,200", "20 dollars",
+ * "1.2k", "fifty thousand". Comma = thousands, dot = decimal, and small
+ * amounts are allowed. A "$"/"dollars" amount wins over bare numbers.
+ */
+function parseEnglishAmount(text: string): { amount: number; confidence: 'high' | 'medium' | 'low' | 'none' } {
+  const lowerText = stripDates(text.toLowerCase())
+
+  const wordsAmount = parseEnglishNumberWords(lowerText)
+  if (wordsAmount > 0 && wordsAmount <= 10000000000) {
+    return { amount: wordsAmount, confidence: 'high' }
+  }
+
+  const moneyPattern = /(\$\s*|\busd\s*)?(?<![\d.,])(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?![\d.,]*\d)(\s*(?:dollars?|bucks|usd)\b)?/g
+  let best: { amount: number; marked: boolean; cents: boolean } | null = null
+  for (const match of lowerText.matchAll(moneyPattern)) {
+    const amount = parseFloat(`${match[2]!.replace(/,/g, '')}.${match[3] ?? '0'}`)
+    if (!(amount > 0) || amount > 10000000000) continue
+    const candidate = { amount, marked: !!(match[1] || match[4]), cents: match[3] !== undefined }
+    if (!best || (candidate.marked && !best.marked) || (candidate.marked === best.marked && amount > best.amount)) {
+      best = candidate
+    }
+  }
+
+  if (!best) return { amount: 0, confidence: 'none' }
+  const confidence = best.marked || best.cents || best.amount >= 1000 ? 'high' : 'medium'
+  return { amount: Math.round(best.amount * 100) / 100, confidence }
+}
+
 /**
  * Parse amount from text
  * Handles: "20 ribu", "20k", "Rp 20.000", "5 juta", "500rb", "Rp 5.000.000",
  *          "1 juta 520 ribu", "1juta 520rb", "2 juta 300 ribu 50 ribu", etc.
  * Priority: Multiple multipliers > Single multiplier > Currency format > Plain numbers
+ * Written dates ("15/10/2026", "5 Oktober") are not amounts. English text is handed to parseEnglishAmount.
  */
-function parseAmount(text: string): { amount: number; confidence: 'high' | 'medium' | 'low' | 'none' } {
-  const lowerText = text.toLowerCase().trim()
+function parseAmount(text: string, locale: ParserLocale = 'id'): { amount: number; confidence: 'high' | 'medium' | 'low' | 'none' } {
+  if (locale === 'en') return parseEnglishAmount(text)
+  const lowerText = stripDates(text.toLowerCase()).trim()
 
   // Pattern 0: Natural Language / Advanced Summing (HIGHEST PRIORITY for NL)
   // This handles: "50 ribu 500", "1 juta 500", "seratus lima puluh ribu"
@@ -320,58 +542,101 @@ function parseAmount(text: string): { amount: number; confidence: 'high' | 'medi
   return { amount: 0, confidence: 'none' }
 }
 
+/**
+ * English keywords for type and category detection, added to the built-in
+ * lists when the text is parsed as English
+ */
+const EN_TYPE_KEYWORDS = {
+  incomeHigh: ['got paid', 'paycheck', 'paycheque', 'payday', 'wage', 'wages', 'received', 'earned', 'refund', 'refunded', 'reimbursed', 'sold'],
+  incomeMedium: ['came in', 'deposit'],
+  expenseHigh: ['bought', 'paid', 'spent', 'ordered', 'rent', 'subscription'],
+  expenseMedium: ['cost', 'for'],
+}
+
+const EN_CATEGORY_KEYWORDS: Record<string, string[]> = {
+  salary: ['paycheck', 'paycheque', 'payday', 'wage', 'wages'],
+  freelance: ['client', 'invoice', 'gig', 'side job'],
+  investment: ['dividend', 'interest', 'stock', 'stocks', 'crypto'],
+  gift: ['birthday money', 'present', 'refund'],
+  food: ['lunch', 'dinner', 'breakfast', 'brunch', 'meal', 'groceries', 'grocery', 'pizza', 'burger', 'sushi', 'takeout', 'snack'],
+  transport: ['uber', 'lyft', 'bus', 'train', 'subway', 'metro', 'cab', 'ride'],
+  shopping: ['clothes', 'shirt', 'shoes', 'amazon', 'walmart', 'target'],
+  bills: ['rent', 'electricity', 'water bill', 'utilities', 'phone bill', 'insurance', 'subscription'],
+  coffee: ['cafe', 'espresso', 'mocha'],
+  entertainment: ['movie', 'movies', 'concert', 'tickets', 'ticket'],
+  health: ['gym', 'dentist', 'prescription', 'vitamins'],
+}
+
+/**
+ * Whether `text` mentions `keyword`. Indonesian keywords match anywhere
+ * ("makan" in "makanan"); English ones match whole words, allowing a plural
+ * "s", so "air" does not match "airport" and "tea" does not match "team".
+ */
+function hasKeyword(text: string, keyword: string, locale: ParserLocale): boolean {
+  if (locale === 'id') return text.includes(keyword)
+  return new RegExp(`\\b${keyword.replace(/\s+/g, '\\s+')}(?:s|es)?\\b`).test(text)
+}
+
 /**
  * Detect transaction type (expense or income)
  */
-function detectTransactionType(text: string): { type: 'expense' | 'income'; confidence: 'high' | 'medium' | 'low' | 'none' } {
+function detectTransactionType(
+  text: string,
+  locale: ParserLocale = 'id',
+): { type: 'expense' | 'income'; confidence: 'high' | 'medium' | 'low' | 'none' } {
   const lowerText = text.toLowerCase()
+  const english = locale === 'en'
 
   // Income keywords (high confidence)
   const incomeKeywordsHigh = [
     'gaji', 'salary', 'income', 'pendapatan',
     'transfer masuk', 'transfer dari', 'dapat', 'terima',
-    'bonus', 'tunjangan', 'uang masuk'
+    'bonus', 'tunjangan', 'uang masuk',
+    ...(english ? EN_TYPE_KEYWORDS.incomeHigh : []),
   ]
 
   // Income keywords (medium confidence)
   const incomeKeywordsMedium = [
-    'masuk', 'diterima', 'dapat uang', 'uang masuk'
+    'masuk', 'diterima', 'dapat uang', 'uang masuk',
+    ...(english ? EN_TYPE_KEYWORDS.incomeMedium : []),
   ]
 
   // Expense keywords (high confidence)
   const expenseKeywordsHigh = [
     'beli', 'buy', 'purchase', 'bayar', 'pay', 'payment',
     'pembayaran', 'belanja', 'shopping', 'expense', 'pengeluaran',
-    'tagihan', 'bill', 'bayar tagihan'
+    'tagihan', 'bill', 'bayar tagihan',
+    ...(english ? EN_TYPE_KEYWORDS.expenseHigh : []),
   ]
 
   // Expense keywords (medium confidence)
   const expenseKeywordsMedium = [
-    'keluar', 'spend', 'habis', 'uang keluar', 'pengeluaran'
+    'keluar', 'spend', 'habis', 'uang keluar', 'pengeluaran',
+    ...(english ? EN_TYPE_KEYWORDS.expenseMedium : []),
   ]
 
   // Check for income keywords
   for (const keyword of incomeKeywordsHigh) {
-    if (lowerText.includes(keyword)) {
+    if (hasKeyword(lowerText, keyword, locale)) {
       return { type: 'income', confidence: 'high' }
     }
   }
 
   for (const keyword of incomeKeywordsMedium) {
-    if (lowerText.includes(keyword)) {
+    if (hasKeyword(lowerText, keyword, locale)) {
       return { type: 'income', confidence: 'medium' }
     }
   }
 
   // Check for expense keywords
   for (const keyword of expenseKeywordsHigh) {
-    if (lowerText.includes(keyword)) {
+    if (hasKeyword(lowerText, keyword, locale)) {
       return { type: 'expense', confidence: 'high' }
     }
   }
 
   for (const keyword of expenseKeywordsMedium) {
-    if (lowerText.includes(keyword)) {
+    if (hasKeyword(lowerText, keyword, locale)) {
       return { type: 'expense', confidence: 'medium' }
     }
   }
@@ -383,134 +648,313 @@ function detectTransactionType(text: string): { type: 'expense' | 'income'; conf
 /**
  * Infer category from text
  */
-function inferCategory(text: string, transactionType: 'expense' | 'income'): { category: string; confidence: 'high' | 'medium' | 'low' | 'none' } {
+function inferCategory(
+  text: string,
+  transactionType: 'expense' | 'income',
+  locale: ParserLocale = 'id',
+): { category: string; confidence: 'high' | 'medium' | 'low' | 'none' } {
   const lowerText = text.toLowerCase()
 
   if (transactionType === 'income') {
     const incomeCategories: Record<string, string[]> = {
-      'Gaji': ['gaji', 'salary', 'pendapatan tetap'],
-      'Freelance': ['freelance', 'project', 'proyek', 'kontrak'],
-      'Investasi': ['investasi', 'dividen', 'return', 'profit'],
-      'Hadiah': ['hadiah', 'gift', 'bonus', 'tunjangan'],
+      salary: ['gaji', 'salary', 'pendapatan tetap'],
+      freelance: ['freelance', 'project', 'proyek', 'kontrak'],
+      investment: ['investasi', 'dividen', 'return', 'profit'],
+      gift: ['hadiah', 'gift', 'bonus', 'tunjangan'],
     }
 
     for (const [category, keywords] of Object.entries(incomeCategories)) {
-      if (keywords.some(keyword => lowerText.includes(keyword))) {
+      const all = locale === 'en' ? [...keywords, ...(EN_CATEGORY_KEYWORDS[category] ?? [])] : keywords
+      if (all.some(keyword => hasKeyword(lowerText, keyword, locale))) {
         return { category, confidence: 'high' }
       }
     }
 
-    return { category: 'Gaji', confidence: 'low' } // Default for income
+    return { category: SALARY_CATEGORY_ID, confidence: 'low' } // Default for income
   } else {
     // Expense categories
     const expenseCategories: Record<string, string[]> = {
-      'Makanan': ['makan', 'makanan', 'food', 'restaurant', 'warung', 'bakso', 'nasi', 'ayam', 'sate', 'mie', 'bakmi', 'soto', 'gudeg', 'rendang', 'nasi goreng', 'mie goreng'],
-      'Transportasi': ['transport', 'transportasi', 'bensin', 'gas', 'fuel', 'parkir', 'parking', 'tol', 'toll', 'grab', 'gojek', 'taxi', 'ojek', 'angkot'],
-      'Belanja': ['belanja', 'shopping', 'toko', 'store', 'mall', 'supermarket', 'minimarket', 'alfamart', 'indomaret'],
-      'Tagihan': ['tagihan', 'bill', 'listrik', 'air', 'internet', 'wifi', 'telepon', 'phone', 'pulsa', 'paket data'],
-      'Coffee/Minuman': ['ngopi', 'kopi', 'coffee', 'minuman', 'beverage', 'beverages', 'starbucks', 'kopi susu', 'es kopi', 'latte', 'cappuccino', 'americano', 'teh', 'tea', 'jus', 'juice', 'smoothie', 'boba', 'bubble tea'],
-      'Hiburan': ['hiburan', 'entertainment', 'nonton', 'cinema', 'bioskop', 'game', 'games', 'netflix', 'spotify'],
-      'Kesehatan': ['kesehatan', 'health', 'obat', 'medicine', 'apotek', 'pharmacy', 'dokter', 'doctor', 'rumah sakit', 'hospital', 'klinik', 'clinic'],
-      'Lainnya': [] // Default fallback
+      food: ['makan', 'makanan', 'food', 'restaurant', 'warung', 'bakso', 'nasi', 'ayam', 'sate', 'mie', 'bakmi', 'soto', 'gudeg', 'rendang', 'nasi goreng', 'mie goreng'],
+      transport: ['transport', 'transportasi', 'bensin', 'gas', 'fuel', 'parkir', 'parking', 'tol', 'toll', 'grab', 'gojek', 'taxi', 'ojek', 'angkot'],
+      shopping: ['belanja', 'shopping', 'toko', 'store', 'mall', 'supermarket', 'minimarket', 'alfamart', 'indomaret'],
+      bills: ['tagihan', 'bill', 'listrik', 'air', 'internet', 'wifi', 'telepon', 'phone', 'pulsa', 'paket data'],
+      coffee: ['ngopi', 'kopi', 'coffee', 'minuman', 'beverage', 'beverages', 'starbucks', 'kopi susu', 'es kopi', 'latte', 'cappuccino', 'americano', 'teh', 'tea', 'jus', 'juice', 'smoothie', 'boba', 'bubble tea'],
+      entertainment: ['hiburan', 'entertainment', 'nonton', 'cinema', 'bioskop', 'game', 'games', 'netflix', 'spotify'],
+      health: ['kesehatan', 'health', 'obat', 'medicine', 'apotek', 'pharmacy', 'dokter', 'doctor', 'rumah sakit', 'hospital', 'klinik', 'clinic'],
+      other: [] // Default fallback
     }
 
     for (const [category, keywords] of Object.entries(expenseCategories)) {
-      if (category === 'Lainnya') continue
-      if (keywords.some(keyword => lowerText.includes(keyword))) {
+      if (category === OTHER_CATEGORY_ID) continue
+      const all = locale === 'en' ? [...keywords, ...(EN_CATEGORY_KEYWORDS[category] ?? [])] : keywords
+      if (all.some(keyword => hasKeyword(lowerText, keyword, locale))) {
         return { category, confidence: 'high' }
       }
     }
 
-    return { category: 'Lainnya', confidence: 'low' } // Default for expense
+    return { category: OTHER_CATEGORY_ID, confidence: 'low' } // Default for expense
+  }
+}
+
+/** Weekday names (0 = Sunday); "minggu" is only a weekday after "hari", otherwise it means "week" */
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  minggu: 0, ahad: 0, senin: 1, selasa: 2, rabu: 3, kamis: 4, jumat: 5, sabtu: 6,
+}
+
+/** Small counts written as words in "two days ago", "a week ago" */
+const EN_COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+}
+
+/**
+ * Date string for a day/month/year read from text. Dates in the future are not
+ * trusted (today, low confidence); without a year the most recent such day is used.
+ */
+function resolveDate(day: number, month: number, year?: number): { date: string; confidence: 'high' | 'medium' | 'low' | 'none' } | null {
+  const today = new Date()
+  today.setHours(23, 59, 59, 999)
+  let fullYear = year ?? today.getFullYear()
+  if (fullYear < 100) fullYear += 2000
+
+  const dateObj = new Date(Date.UTC(fullYear, month - 1, day))
+  if (isNaN(dateObj.getTime()) || dateObj.getUTCMonth() !== month - 1 || dateObj.getUTCDate() !== day) return null
+  if (dateObj > today) {
+    if (year !== undefined) return { date: getTodayDateString(), confidence: 'low' }
+    dateObj.setUTCFullYear(fullYear - 1)
   }
+  return { date: dateObj.toISOString().split('T')[0] || '', confidence: 'medium' }
 }
 
 /**
  * Parse date from text
- * Handles: "hari ini", "kemarin", "yesterday", "today", etc.
+ * Handles: "hari ini", "kemarin", "kemarin lusa", "3 hari lalu", "minggu lalu", "jumat lalu",
+ *          "today", "yesterday", "day before yesterday", "2 days ago", "last week", "last Friday",
+ *          "15/10/2026" (MM/DD/YYYY for English), "5 Oktober", "Oct 5, 2026".
  */
-function parseDate(text: string): { date: string; confidence: 'high' | 'medium' | 'low' | 'none' } {
+function parseDate(text: string, locale: ParserLocale = 'id'): { date: string; confidence: 'high' | 'medium' | 'low' | 'none' } {
   const lowerText = text.toLowerCase()
 
+  // Two days ago, checked before "kemarin"/"yesterday" which it contains
+  if (/\bkemarin\s+lusa\b|\bday\s+before\s+yesterday\b/.test(lowerText)) {
+    return { date: getDaysAgoDateString(2), confidence: 'high' }
+  }
+
   // Today keywords
   if (lowerText.includes('hari ini') || lowerText.includes('today') || lowerText.includes('sekarang')) {
     return { date: getTodayDateString(), confidence: 'high' }
   }
 
   // Yesterday keywords
-  if (lowerText.includes('kemarin') || lowerText.includes('yesterday')) {
-    return { date: getYesterdayDateString(), confidence: 'high' }
+  if (lowerText.includes('kemarin') && !/\b(senin|selasa|rabu|kamis|jum'?at|sabtu|minggu|ahad)\s+kemarin\b/.test(lowerText)) {
+    return { date: getDaysAgoDateString(1), confidence: 'high' }
+  }
+  if (lowerText.includes('yesterday')) {
+    return { date: getDaysAgoDateString(1), confidence: 'high' }
   }
 
-  // Relative days
+  // Relative days and weeks: "3 hari lalu", "2 minggu lalu", "2 days ago", "a week ago"
   const daysAgoMatch = lowerText.match(/(\d+)\s*(hari|lusa)\s*(yang\s*)?lalu/i)
-  if (daysAgoMatch && daysAgoMatch[1]) {
-    const daysAgo = parseInt(daysAgoMatch[1], 10)
+    ?? lowerText.match(/\b(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten)\s+(days?)\s+ago\b/)
+  const weeksAgoMatch = lowerText.match(/(\d+)\s*(minggu)\s*(yang\s*)?lalu/i)
+    ?? lowerText.match(/\b(\d+|an?|one|two|three|four)\s+(weeks?)\s+ago\b/)
+  const relativeMatch = daysAgoMatch ?? weeksAgoMatch
+  if (relativeMatch && relativeMatch[1]) {
+    const count = EN_COUNT_WORDS[relativeMatch[1]] ?? parseInt(relativeMatch[1], 10)
+    const daysAgo = daysAgoMatch ? count : count * 7
     if (!isNaN(daysAgo) && daysAgo >= 1 && daysAgo <= 30) {
-      const date = new Date()
-      date.setDate(date.getDate() - daysAgo)
-      const parts = date.toISOString().split('T')
-      return { date: parts[0] || '', confidence: 'medium' }
+      return { date: getDaysAgoDateString(daysAgo), confidence: 'medium' }
     }
   }
 
-  // Date patterns (DD/MM/YYYY, DD-MM-YYYY)
-  const datePatterns = [
-    /(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/,
-    /(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/,
-  ]
-
-  for (const pattern of datePatterns) {
-    const match = lowerText.match(pattern)
-    if (match) {
-      let day: string, month: string, year: string
+  // Weekdays: "last Friday", "on Monday", "jumat lalu", "hari senin", "sabtu kemarin"
+  const weekdayMatch =
+    lowerText.match(/\b(?:(last|on|this past)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/) ??
+    lowerText.match(/\b(hari\s+)?(minggu|ahad|senin|selasa|rabu|kamis|jum'?at|sabtu)\b(?:\s+(lalu|kemarin))?/)
+  if (weekdayMatch && weekdayMatch[2] && (weekdayMatch[2] !== 'minggu' || weekdayMatch[1])) {
+    const weekday = WEEKDAYS[weekdayMatch[2].replace(/'/g, '')]!
+    let daysAgo = (new Date().getUTCDay() - weekday + 7) % 7
+    // "last Friday" / "jumat lalu" said on a Friday means a week ago
+    if (daysAgo === 0 && (weekdayMatch[1] === 'last' || weekdayMatch[3])) daysAgo = 7
+    return { date: getDaysAgoDateString(daysAgo), confidence: 'medium' }
+  }
 
-      if (match[1]!.length === 4) {
-        // YYYY-MM-DD format
-        year = match[1]!
-        month = match[2]!.padStart(2, '0')
-        day = match[3]!.padStart(2, '0')
-      } else {
-        // DD/MM/YYYY format
-        day = match[1]!.padStart(2, '0')
-        month = match[2]!.padStart(2, '0')
-        year = match[3]!
-        if (year.length === 2) {
-          year = '20' + year
-        }
-      }
+  if (/\blast\s+week\b|\bminggu\s+(yang\s+)?lalu\b/.test(lowerText)) {
+    return { date: getDaysAgoDateString(7), confidence: 'medium' }
+  }
 
-      try {
-        const dateObj = new Date(`${year}-${month}-${day}`)
-        if (!isNaN(dateObj.getTime())) {
-          const parts = dateObj.toISOString().split('T')
-          const dateString = parts[0] || ''
-          // Check if date is in the future
-          const today = new Date()
-          today.setHours(23, 59, 59, 999)
-          if (dateObj > today) {
-            return { date: getTodayDateString(), confidence: 'low' }
-          }
-          return { date: dateString, confidence: 'medium' }
-        }
-      } catch {
-        // Invalid date, continue
-      }
+  // Date patterns: DD/MM/YYYY (MM/DD/YYYY for English) and YYYY-MM-DD
+  const numericMatch = lowerText.match(/(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/)
+    ?? lowerText.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/)
+  if (numericMatch) {
+    const [, first, second, third] = numericMatch.map(Number) as [number, number, number, number]
+    let resolved
+    if (numericMatch[1]!.length === 4) {
+      resolved = resolveDate(third, second, first)
+    } else {
+      // The part over 12 can only be the day
+      const monthFirst = second > 12 || (locale === 'en' && first <= 12)
+      resolved = monthFirst ? resolveDate(second, first, third) : resolveDate(first, second, third)
     }
+    if (resolved) return resolved
   }
 
+  // Month names: "5 Oktober", "Oct 5", "October 5th, 2026"
+  const monthDayMatch = lowerText.match(MONTH_DAY_PATTERN)
+  const dayMonthMatch = lowerText.match(DAY_MONTH_PATTERN)
+  const named = monthDayMatch
+    ? resolveDate(Number(monthDayMatch[2]), MONTHS[monthDayMatch[1]!]!, monthDayMatch[3] ? Number(monthDayMatch[3]) : undefined)
+    : dayMonthMatch
+      ? resolveDate(Number(dayMonthMatch[1]), MONTHS[dayMonthMatch[2]!]!, dayMonthMatch[3] ? Number(dayMonthMatch[3]) : undefined)
+      : null
+  if (named) return named
+
   // Default to today if no date found
   return { date: getTodayDateString(), confidence: 'low' }
 }
 
+/** Words before a pocket the money leaves: "dari BCA", "pakai GoPay" */
+const SOURCE_PREPOSITIONS = ['dari', 'from', 'pakai', 'pake', 'via', 'lewat', 'using']
+
+/** Words before the pocket or goal the money goes to: "ke tabungan", "into savings" */
+const TARGET_PREPOSITIONS = ['ke', 'to', 'into', 'untuk']
+
+/** Words that make "ke <pocket/goal>" a transfer instead of an income or expense */
+const TRANSFER_KEYWORDS = [
+  'pindah', 'pindahkan', 'mindahin', 'transfer', 'tf', 'move', 'nabung', 'menabung', 'tabung',
+  'setor', 'sisihkan', 'alokasi', 'alokasikan', 'top up', 'topup', 'save',
+]
+
+interface AccountMention {
+  account: TextParseAccount
+  role: 'source' | 'target' | 'bare'
+  /** The matched words ("dari BCA"), removed from the description */
+  phrase: string
+  /** "goal Liburan" / "pocket BCA" */
+  qualifier?: 'goal' | 'pocket'
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Find pocket or goal names in the text, longest names first so "Tabungan Rumah"
+ * wins over "Tabungan". Each match is blanked out so it is not matched twice.
+ */
+function findAccountMentions(text: string, accounts: TextParseAccount[], maskRef: { text: string }): AccountMention[] {
+  const prepositions = [...SOURCE_PREPOSITIONS, ...TARGET_PREPOSITIONS].join('|')
+  const mentions: AccountMention[] = []
+  const sorted = [...accounts].filter((a) => a.name.trim()).sort((a, b) => b.name.length - a.name.length)
+
+  for (const account of sorted) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:(${prepositions})\\s+)?(?:(goal|pocket|kantong)\\s+)?(${escapeRegExp(account.name.trim())})(?![\\p{L}\\p{N}])`,
+      'iu',
+    )
+    const match = maskRef.text.match(pattern)
+    if (!match || match.index === undefined) continue
+
+    const preposition = match[1]?.toLowerCase()
+    const qualifier = match[2]?.toLowerCase()
+    mentions.push({
+      account,
+      role: !preposition ? 'bare' : SOURCE_PREPOSITIONS.includes(preposition) ? 'source' : 'target',
+      phrase: text.slice(match.index, match.index + match[0].length),
+      qualifier: qualifier === 'goal' ? 'goal' : qualifier ? 'pocket' : undefined,
+    })
+    maskRef.text =
+      maskRef.text.slice(0, match.index) + ' '.repeat(match[0].length) + maskRef.text.slice(match.index + match[0].length)
+  }
+  return mentions
+}
+
+/**
+ * Resolve the pocket a transaction belongs to, or a transfer, from pocket and goal names:
+ * - "bayar listrik 300rb dari BCA" → expense from BCA
+ * - "gaji 5jt ke BCA" → income into BCA
+ * - "pindah 1jt ke tabungan", "tf 200rb dari BCA ke Jago" → pocket transfer
+ * - "nabung 500rb ke goal Liburan" → transfer to a goal
+ * A target alone becomes a transfer only with a transfer word or a named source pocket.
+ */
+function detectAccounts(
+  text: string,
+  type: 'income' | 'expense',
+  accounts: TextParseAccounts,
+): { pocketId?: string; transferTarget?: TransferTarget; transferConfidence: 'high' | 'medium'; phrases: string[] } {
+  const maskRef = { text }
+  // Goals are matched first only when named explicitly ("goal Liburan"); otherwise pockets win a shared name
+  const goalMentions = findAccountMentions(text, accounts.goals, { text }).filter((m) => m.qualifier === 'goal')
+  for (const m of goalMentions) maskRef.text = maskRef.text.replace(m.phrase, ' '.repeat(m.phrase.length))
+  const pocketMentions = findAccountMentions(text, accounts.pockets, maskRef)
+  const otherGoals = findAccountMentions(text, accounts.goals, maskRef).filter((m) => m.role === 'target')
+  const goalMention = goalMentions[0] ?? otherGoals[0]
+
+  const hasTransferWord = new RegExp(`\\b(${TRANSFER_KEYWORDS.join('|')})\\b`, 'i').test(text)
+  let source = pocketMentions.find((m) => m.role === 'source')
+  let target = pocketMentions.find((m) => m.role === 'target')
+  const bare = pocketMentions.filter((m) => m.role === 'bare')
+  const phrases = [...pocketMentions, ...(goalMention ? [goalMention] : [])].map((m) => m.phrase)
+
+  if (goalMention && (goalMention.qualifier === 'goal' || hasTransferWord || source)) {
+    source ??= bare[0]
+    return {
+      pocketId: source?.account.id,
+      transferTarget: { kind: 'goal', id: goalMention.account.id },
+      transferConfidence: hasTransferWord ? 'high' : 'medium',
+      phrases,
+    }
+  }
+
+  // A bare pocket next to a transfer word fills whichever side is missing: "pindah 1jt BCA ke Jago"
+  if (hasTransferWord && bare[0]) {
+    if (target && !source) source = bare[0]
+    else if (source && !target) target = bare[0]
+  }
+
+  if (target && (hasTransferWord || source) && target.account.id !== source?.account.id) {
+    return {
+      pocketId: source?.account.id,
+      transferTarget: { kind: 'pocket', id: target.account.id },
+      transferConfidence: hasTransferWord && source ? 'high' : 'medium',
+      phrases,
+    }
+  }
+
+  // Income lands in the pocket it goes "to"; expenses leave the pocket they are paid "from"
+  const pocket = type === 'income' ? (target ?? bare[0]) : (source ?? bare[0] ?? target)
+  return { pocketId: pocket?.account.id, transferConfidence: 'medium', phrases }
+}
+
 /**
  * Keywords to remove from description
  */
 const REMOVABLE_KEYWORDS = {
   type: ['beli', 'buy', 'bayar', 'pay', 'gaji', 'salary', 'income', 'masuk', 'keluar'],
-  date: ['hari ini', 'kemarin', 'yesterday', 'today', 'sekarang']
+  date: ['kemarin lusa', 'day before yesterday', 'hari ini', 'kemarin', 'yesterday', 'today', 'sekarang']
 } as const
 
+/** English type words removed from descriptions of English text */
+const EN_REMOVABLE_TYPE_KEYWORDS = ['bought', 'paid', 'spent', 'received', 'got paid', 'earned']
+
+/** Relative dates removed from descriptions: "3 hari lalu", "jumat lalu", "last Friday", "2 days ago" */
+const REMOVABLE_DATE_PHRASES = [
+  '\\d+\\s*(?:hari|minggu)\\s*(?:yang\\s*)?lalu',
+  '(?:hari\\s+)?(?:senin|selasa|rabu|kamis|jum\'?at|sabtu|minggu|ahad)\\s+(?:lalu|kemarin)',
+  'hari\\s+(?:senin|selasa|rabu|kamis|jum\'?at|sabtu|minggu|ahad)',
+  'minggu\\s+(?:yang\\s+)?lalu',
+  '(?:(?:last|on|this\\s+past)\\s+)?(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)',
+  'last\\s+week',
+  '(?:\\d+|an?|one|two|three)\\s+(?:days?|weeks?)\\s+ago',
+]
+
+/** A run of English number words ("a hundred", "twenty-five thousand") */
+const EN_NUMBER_WORD = `(?:${[...Object.keys(EN_UNITS), 'hundred', ...Object.keys(EN_SCALES).filter(isScaleWord)].join('|')})`
+const EN_NUMBER_WORDS_PATTERN = new RegExp(
+  `\\b(?:an?\\s+)?${EN_NUMBER_WORD}(?:[\\s-]+(?:and\\s+)?${EN_NUMBER_WORD})*\\b`,
+  'gi',
+)
+
 /**
  * Extract description from text by removing amounts, dates, type keywords, and multiplier words
  *
@@ -522,13 +966,28 @@ const REMOVABLE_KEYWORDS = {
  * - Type keywords are removed
  * - Only meaningful description remains
  */
-function extractDescription(text: string): string {
+function extractDescription(text: string, locale: ParserLocale = 'id'): string {
+  const fallback = locale === 'en' ? 'Transaction' : 'Transaksi'
   if (!text || text.trim().length === 0) {
-    return 'Transaksi'
+    return fallback
   }
 
   let description = text.trim()
 
+  // Step 0: Remove written and relative dates ("5 Oktober", "Oct 5", "jumat lalu", "last Friday")
+  description = stripDates(description)
+  for (const phrase of REMOVABLE_DATE_PHRASES) {
+    description = description.replace(new RegExp(`\\b${phrase}\\b`, 'gi'), '')
+  }
+
+  // English amounts: "$12.50", "1.2k", "fifty thousand", "20 dollars"
+  if (locale === 'en') {
+    description = description.replace(/\$\s*/g, '')
+      .replace(/\b\d+(?:\.\d+)?(?:k|m|mil|bn)\b/gi, '')
+      .replace(EN_NUMBER_WORDS_PATTERN, '')
+      .replace(/\b(?:dollars?|bucks|usd)\b/gi, '')
+  }
+
   // Step 1: Remove currency formats (Rp 20.000, 5.000.000, etc.)
   // Matches: "Rp 20.000", "5.000.000", "Rp5.000.000", "20,000", etc.
   description = description.replace(/(?:rp\s*)?\d{1,3}(?:[.,]\d{3})*(?:\.\d{2})?/gi, '')
@@ -564,10 +1023,17 @@ function extractDescription(text: string): string {
   // Transaction type indicators: "beli", "bayar", "gaji", "masuk", etc.
   const typeKeywordsPattern = new RegExp(`\\b(${REMOVABLE_KEYWORDS.type.join('|')})\\b`, 'gi')
   description = description.replace(typeKeywordsPattern, '')
+  if (locale === 'en') {
+    description = description.replace(new RegExp(`\\b(${EN_REMOVABLE_TYPE_KEYWORDS.join('|')})\\b`, 'gi'), '')
+  }
 
   // Step 6: Clean up whitespace
   // Replace multiple spaces/newlines/tabs with single space, then trim
   description = description.replace(/\s+/g, ' ').trim()
+  if (locale === 'en') {
+    // Prepositions left over from removed amounts and dates ("$12 for lunch on Friday")
+    description = description.replace(/^(?:(?:for|on|at|of)\s+)+|(?:\s+(?:for|on|at|of))+$/gi, '')
+  }
 
   // Step 7: Validate and fallback
   // If description is empty or too short after cleaning, use original text (but still cleaned)
@@ -576,7 +1042,7 @@ function extractDescription(text: string): string {
     description = text.trim().replace(/\s+/g, ' ')
   }
 
-  return description || 'Transaksi'
+  return description || fallback
 }
 
 /**
@@ -584,8 +1050,26 @@ function extractDescription(text: string): string {
  * Parse natural language text to extract transaction data
  * @param text - The text to parse
  * @param forcedType - Optional: force transaction type (e.g., 'income' for goals)
+ * @param options - Optional: pockets/goals to recognise and the preferred language
+ */
+export function parseTextInput(
+  text: string,
+  forcedType?: 'income' | 'expense',
+  options: TextParseOptions = {},
+): TextParseResult {
+  return parseEntry(text, forcedType, options.accounts, detectParserLocale(text, options.locale))
+}
+
+/**
+ * Parse one transaction in an already chosen language
  */
-export function parseTextInput(text: string, forcedType?: 'income' | 'expense'): TextParseResult {
+function parseEntry(
+  text: string,
+  forcedType: 'income' | 'expense' | undefined,
+  accounts: TextParseAccounts | undefined,
+  locale: ParserLocale,
+): TextParseResult {
+  const messages = MESSAGES[locale]
   const errors: string[] = []
   const warnings: string[] = []
 
@@ -599,54 +1083,92 @@ export function parseTextInput(text: string, forcedType?: 'income' | 'expense'):
         category: 'none',
         date: 'none',
       },
-      errors: ['Teks tidak boleh kosong'],
+      errors: [messages.empty],
     }
   }
 
+  // #hashtags become tags and are kept out of the amount, date and description
+  const hashtags = extractHashtags(text)
+  text = hashtags.text
+
+  // Pocket and goal names ("dari BCA", "ke goal Liburan") are resolved first and then
+  // kept out of the amount, category and description
+  const accountResult = accounts && !forcedType
+    ? detectAccounts(text, detectTransactionType(text, locale).type, accounts)
+    : null
+  for (const phrase of accountResult?.phrases ?? []) {
+    text = text.replace(phrase, ' ').replace(/\s+/g, ' ').trim()
+  }
+  const transferTarget = accountResult?.transferTarget
+
   // Parse amount
-  const amountResult = parseAmount(text)
+  const amountResult = parseAmount(text, locale)
   if (amountResult.confidence === 'none') {
-    errors.push('Tidak dapat mendeteksi jumlah transaksi. Pastikan teks mengandung jumlah seperti "20 ribu", "Rp 20.000", atau "5 juta".')
+    errors.push(messages.noAmount)
   } else if (amountResult.confidence === 'low') {
-    warnings.push('Jumlah yang terdeteksi memiliki keyakinan rendah. Silakan periksa kembali sebelum menyimpan.')
+    warnings.push(messages.lowAmount)
   }
 
   // Detect transaction type (or use forced type)
   const typeResult = forcedType
     ? { type: forcedType, confidence: 'high' as const }
-    : detectTransactionType(text)
+    : detectTransactionType(text, locale)
 
-  if (!forcedType && typeResult.confidence === 'none') {
-    warnings.push('Tipe transaksi tidak terdeteksi dengan jelas. Default: Expense. Gunakan kata seperti "beli", "bayar" untuk expense atau "gaji", "masuk" untuk income.')
+  if (!forcedType && !transferTarget && typeResult.confidence === 'none') {
+    warnings.push(messages.unclearType)
   }
 
-  // Infer category
-  const categoryResult = inferCategory(text, typeResult.type)
+  // Shop named in the text ("kopi kenangan", "at Trader Joe's"); its usual category is the next best guess after the rules
+  const merchant = transferTarget ? undefined : findMerchantInText(text)
+  const known = merchant && typeResult.type === 'expense' ? findMerchant(merchant) : null
+  const merchantCategory = known ? getMerchantCategory(known) : undefined
+
+  // Infer category: user-defined rules (Category Rules) first, then the merchant's usual
+  // category, then the built-in keywords. Transfers have no category
+  const preferredCategory = transferTarget
+    ? null
+    : applyCategoryRules({ type: typeResult.type, amount: amountResult.amount, description: text, merchant }) ?? merchantCategory
+  const categoryResult = transferTarget
+    ? { category: '', confidence: 'high' as const }
+    : preferredCategory
+      ? { category: preferredCategory, confidence: 'high' as const }
+      : inferCategory(text, typeResult.type, locale)
   if (categoryResult.confidence === 'none') {
-    warnings.push('Kategori tidak terdeteksi. Akan menggunakan kategori default.')
+    warnings.push(messages.noCategory)
   } else if (categoryResult.confidence === 'low') {
-    warnings.push('Kategori yang terdeteksi memiliki keyakinan rendah. Disarankan untuk memverifikasi sebelum menyimpan.')
+    warnings.push(messages.lowCategory)
   }
 
   // Parse date
-  const dateResult = parseDate(text)
+  const dateResult = parseDate(text, locale)
   if (dateResult.confidence === 'none') {
-    warnings.push('Tanggal tidak terdeteksi. Menggunakan tanggal hari ini sebagai default.')
+    warnings.push(messages.noDate)
   }
 
   // Extract description
-  const description = extractDescription(text)
+  const description = extractDescription(text, locale)
   if (!description || description.trim().length < 3) {
-    warnings.push('Deskripsi tidak dapat diekstrak dengan baik dari teks. Silakan periksa sebelum menyimpan.')
+    warnings.push(messages.noDescription)
   }
 
-  const data: Partial<TransactionFormData> = {
-    type: typeResult.type,
-    amount: amountResult.amount,
-    description: description || 'Transaksi',
-    category: categoryResult.category || (typeResult.type === 'income' ? 'Gaji' : 'Lainnya'),
-    date: dateResult.date,
-  }
+  const data: Partial<TransactionFormData> = transferTarget
+    ? {
+      type: 'transfer',
+      amount: amountResult.amount,
+      description: description || 'Transfer',
+      category: '',
+      date: dateResult.date,
+    }
+    : {
+      type: typeResult.type,
+      amount: amountResult.amount,
+      description: description || (locale === 'en' ? 'Transaction' : 'Transaksi'),
+      category: categoryResult.category || (typeResult.type === 'income' ? SALARY_CATEGORY_ID : OTHER_CATEGORY_ID),
+      date: dateResult.date,
+      ...(hashtags.tags.length > 0 && { tags: hashtags.tags }),
+      ...(merchant && { merchant }),
+    }
+  if (accountResult?.pocketId) data.pocketId = accountResult.pocketId
 
   // Determine overall success - require at least amount and type
   const success = amountResult.confidence !== 'none' && amountResult.amount > 0 && typeResult.confidence !== 'none'
@@ -656,12 +1178,155 @@ export function parseTextInput(text: string, forcedType?: 'income' | 'expense'):
     data,
     confidence: {
       amount: amountResult.confidence,
-      type: typeResult.confidence,
+      type: transferTarget ? accountResult!.transferConfidence : typeResult.confidence,
       category: categoryResult.confidence,
       date: dateResult.confidence,
     },
     errors: errors.length > 0 ? errors : undefined,
     warnings: warnings.length > 0 ? warnings : undefined,
+    ...(transferTarget && { transferTarget }),
   }
 }
 
+
+/**
+ * WhatsApp chat export prefixes: "[19/10/26, 08.15.22] Budi: ..." (iOS) and
+ * "19/10/26 08.15 - Budi: ..." (Android), with "10/19/26, 8:15 PM" in English
+ * exports. The date is captured.
+ */
+const WHATSAPP_PREFIX_PATTERNS = [
+  /^\[(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+\d{1,2}[.:]\d{2}(?:[.:]\d{2})?(?:\s*[ap]\.?m\.?)?\]\s*[^:]{1,40}:\s*/i,
+  /^(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+\d{1,2}[.:]\d{2}(?:\s*[ap]\.?m\.?)?\s*-\s*[^:]{1,40}:\s*/i,
+]
+
+/** List markers at the start of a recap line: "- ", "• ", "* ", "1. ", "2) " */
+const BULLET_PATTERN = /^\s*(?:[-*•·]|\d{1,2}[.)])\s+/
+
+/** Recap lines that repeat the sum of the lines above them */
+const TOTAL_LINE_PATTERN = /^(?:grand\s+total|sub\s*total|total|jumlah)\b/i
+
+/** A comma between a written day and its year ("October 5, 2026") */
+const DATE_COMMA = `(?<!\\b(?:${MONTH_NAMES})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?)`
+
+/**
+ * Split one line on commas and semicolons. Commas between two digits are
+ * number separators ("2,5 juta", "20,000") and are kept, as are commas
+ * inside dates ("October 5, 2026").
+ */
+function splitLine(line: string): string[] {
+  return line
+    .split(new RegExp(`;|(?<!\\d)${DATE_COMMA},|${DATE_COMMA},(?!\\d)`, 'i'))
+    .map((piece) => piece.trim())
+    .filter((piece) => piece.length > 0)
+}
+
+/** Whether a piece of text holds an amount */
+function hasAmount(text: string, locale: ParserLocale): boolean {
+  return parseAmount(extractHashtags(text).text, locale).confidence !== 'none'
+}
+
+/** Date written in a piece of text, or null when the text does not mention one */
+function explicitDate(text: string, locale: ParserLocale): string | null {
+  const result = parseDate(text, locale)
+  return result.confidence === 'low' ? null : result.date
+}
+
+/**
+ * Parse text that may hold several transactions, one per line or separated
+ * by commas/semicolons: "kopi 25rb, parkir 5rb, makan siang 45rb kemarin"
+ * or a pasted WhatsApp recap.
+ *
+ * - A date mentioned once in a line applies to the other entries of that line.
+ * - A line without an amount but with a date ("Pengeluaran kemarin:") dates
+ *   the lines below it; the WhatsApp message date is used otherwise.
+ * - A piece without an amount is joined to the next piece of its line
+ *   ("makan, minum 50rb"), and total lines are skipped.
+ *
+ * Text without any amount returns a single failed draft so callers can show
+ * the usual parse errors.
+ * @param text - The text to parse
+ * @param forcedType - Optional: force transaction type (e.g., 'income' for goals)
+ * @param options - Optional: pockets/goals to recognise and the preferred language
+ */
+export function parseMultipleTextInput(
+  text: string,
+  forcedType?: 'income' | 'expense',
+  options: TextParseOptions = {},
+): MultiTextParseResult {
+  // One language for the whole text, so a short line ("parkir 5000") is not guessed on its own
+  const locale = detectParserLocale(text, options.locale)
+  const { accounts } = options
+  const drafts: TextParseResult[] = []
+  const ignored: string[] = []
+  let headingDate: string | null = null
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim()
+    if (!line) continue
+
+    let messageDate: string | null = null
+    for (const pattern of WHATSAPP_PREFIX_PATTERNS) {
+      const match = line.match(pattern)
+      if (match) {
+        messageDate = explicitDate(match[1]!, locale)
+        line = line.slice(match[0].length).trim()
+        break
+      }
+    }
+    line = line.replace(BULLET_PATTERN, '').trim()
+    if (!line) continue
+
+    if (TOTAL_LINE_PATTERN.test(line)) {
+      ignored.push(line)
+      continue
+    }
+
+    if (!hasAmount(line, locale)) {
+      const date = explicitDate(line, locale)
+      if (date) headingDate = date
+      ignored.push(line)
+      continue
+    }
+
+    // Join pieces without an amount to the following piece
+    const entries: string[] = []
+    let pending = ''
+    for (const piece of splitLine(line)) {
+      const joined = pending ? `${pending}, ${piece}` : piece
+      if (hasAmount(piece, locale)) {
+        entries.push(joined)
+        pending = ''
+      } else {
+        pending = joined
+      }
+    }
+
+    // Trailing piece without an amount: a date word ("..., kemarin") or a note on the last entry
+    let lineDate: string | null = null
+    if (entries.length === 0) {
+      entries.push(line)
+    } else if (pending) {
+      lineDate = explicitDate(pending, locale)
+      if (!lineDate && entries.length > 0) entries[entries.length - 1] += `, ${pending}`
+    }
+
+    const results = entries.map((entry) => ({ ...parseEntry(entry, forcedType, accounts, locale), source: entry }))
+    const lineDates = new Set(results.filter((r) => r.confidence.date !== 'low').map((r) => r.data.date))
+    if (!lineDate && lineDates.size === 1) lineDate = [...lineDates][0] ?? null
+
+    const inheritedDate = lineDate ?? messageDate ?? headingDate
+    for (const result of results) {
+      if (inheritedDate && result.confidence.date === 'low') {
+        result.data.date = inheritedDate
+        result.confidence.date = 'medium'
+      }
+      drafts.push(result)
+    }
+  }
+
+  if (drafts.length === 0) {
+    return { drafts: [{ ...parseEntry(text, forcedType, accounts, locale), source: text.trim() }], ignored: [] }
+  }
+
+  return { drafts, ignored }
+}
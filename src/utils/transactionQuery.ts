@@ -0,0 +1,250 @@
+import type { TransactionFilters, TransactionType } from '@/types/transaction'
+import { resolveCategoryId } from '@/services/categoryService'
+import { normalizeTag } from '@/utils/tags'
+
+/**
+ * Query language for the transactions list. Terms are separated by spaces and all must
+ * match; a term is `key:value`, `key>value` (also `>=`, `<`, `<=`), or plain words that
+ * search the description, category name and tags. Values with spaces go in double quotes.
+ * `#word` is short for `tag:word`; `has:receipt` / `no:receipt` check for an attached receipt.
+ *
+ *   category:Food,Transport amount>50000 pocket:Main date:30d #bali-trip coffee
+ *
+ * Commas (or repeating the key) give alternatives for category, pocket and tag; repeating
+ * amount or date narrows the range.
+ */
+
+/** Pockets and goals a `pocket:` / `goal:` term can name. */
+export interface TransactionQueryContext {
+  pockets: Array<{ id: string; name: string }>
+  goals: Array<{ id: string; name: string }>
+  /** Reference for relative dates (today, 7d); defaults to now */
+  now?: Date
+}
+
+export interface ParsedTransactionQuery {
+  filters: TransactionFilters
+  /** Terms that were not understood (unknown key, category or pocket; bad amount or date) */
+  invalid: string[]
+}
+
+type Operator = ':' | '>' | '>=' | '<' | '<='
+
+const KEY_ALIASES: Record<string, 'category' | 'type' | 'pocket' | 'goal' | 'amount' | 'date' | 'tag' | 'has' | 'no' | 'text'> = {
+  category: 'category',
+  cat: 'category',
+  kategori: 'category',
+  type: 'type',
+  tipe: 'type',
+  jenis: 'type',
+  pocket: 'pocket',
+  wallet: 'pocket',
+  dompet: 'pocket',
+  kantong: 'pocket',
+  goal: 'goal',
+  tujuan: 'goal',
+  amount: 'amount',
+  jumlah: 'amount',
+  nominal: 'amount',
+  date: 'date',
+  tanggal: 'date',
+  tgl: 'date',
+  tag: 'tag',
+  tags: 'tag',
+  label: 'tag',
+  has: 'has',
+  ada: 'has',
+  no: 'no',
+  tanpa: 'no',
+  text: 'text',
+  desc: 'text',
+  description: 'text',
+  deskripsi: 'text',
+}
+
+const TYPE_VALUES: Record<string, TransactionType> = {
+  income: 'income',
+  pemasukan: 'income',
+  masuk: 'income',
+  expense: 'expense',
+  pengeluaran: 'expense',
+  keluar: 'expense',
+  transfer: 'transfer',
+}
+
+const ATTACHMENT_VALUES = new Set(['receipt', 'struk', 'attachment', 'lampiran', 'photo', 'foto'])
+
+const AMOUNT_SUFFIXES: Record<string, number> = { k: 1_000, rb: 1_000, ribu: 1_000, jt: 1_000_000, juta: 1_000_000, m: 1_000_000 }
+
+// key + operator + value (quoted or not), a quoted phrase, or a bare word
+const TERM_PATTERN = /([a-z]+)(>=|<=|:|>|<)("([^"]*)"|\S+)|"([^"]*)"|(\S+)/gi
+
+/** Quote a value for a query term when it contains spaces (quotes inside are dropped). */
+export function quoteQueryValue(value: string): string {
+  const clean = value.replace(/"/g, '')
+  return /\s/.test(clean) ? `"${clean}"` : clean
+}
+
+/** YYYY-MM-DD in UTC, the form transaction dates are stored in. */
+function toDateString(d: Date): string {
+  return d.toISOString().split('T')[0]!
+}
+
+function addDays(day: string, days: number): string {
+  const [y, m, d] = day.split('-').map(Number)
+  return toDateString(new Date(Date.UTC(y!, m! - 1, d! + days)))
+}
+
+/** "50000", "50.000", "50k", "1,5jt" → number; null when not an amount. */
+function parseAmount(value: string): number | null {
+  const match = value.toLowerCase().match(/^(\d+(?:[.,]\d+)*)(k|rb|ribu|jt|juta|m)?$/)
+  if (!match) return null
+  const [, digits, suffix] = match
+  if (suffix) {
+    // With a suffix the separator is a decimal point: 1.5jt, 1,5jt
+    const n = Number(digits!.replace(',', '.'))
+    return Number.isFinite(n) ? Math.round(n * AMOUNT_SUFFIXES[suffix]!) : null
+  }
+  return Number(digits!.replace(/[.,]/g, ''))
+}
+
+/** Inclusive day range for a date value: today, yesterday, 7d, 2026-03, 2026-03-14. */
+function parseDateRange(value: string, now: Date): { start: string; end: string } | null {
+  const today = toDateString(now)
+  const v = value.toLowerCase()
+  if (v === 'today' || v === 'hariini') return { start: today, end: today }
+  if (v === 'yesterday' || v === 'kemarin') {
+    const day = addDays(today, -1)
+    return { start: day, end: day }
+  }
+  const lastDays = v.match(/^(\d+)d$/)
+  if (lastDays) {
+    const n = Number(lastDays[1])
+    return n > 0 ? { start: addDays(today, -(n - 1)), end: today } : null
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) return { start: v, end: v }
+  const month = v.match(/^(\d{4})-(\d{2})$/)
+  if (month) {
+    const last = new Date(Date.UTC(Number(month[1]), Number(month[2]), 0))
+    return { start: `${v}-01`, end: toDateString(last) }
+  }
+  if (/^\d{4}$/.test(v)) return { start: `${v}-01-01`, end: `${v}-12-31` }
+  return null
+}
+
+function findByName(items: Array<{ id: string; name: string }>, value: string): string | null {
+  const lower = value.toLowerCase()
+  return (items.find((i) => i.id === value) ?? items.find((i) => i.name.toLowerCase() === lower))?.id ?? null
+}
+
+export function parseTransactionQuery(query: string, context: TransactionQueryContext): ParsedTransactionQuery {
+  const now = context.now ?? new Date()
+  const filters: TransactionFilters = {}
+  const invalid: string[] = []
+  const words: string[] = []
+
+  const narrowStart = (day: string) => {
+    if (!filters.startDate || day > filters.startDate) filters.startDate = day
+  }
+  const narrowEnd = (day: string) => {
+    if (!filters.endDate || day < filters.endDate) filters.endDate = day
+  }
+  const narrowMin = (n: number) => {
+    if (filters.minAmount == null || n > filters.minAmount) filters.minAmount = n
+  }
+  const narrowMax = (n: number) => {
+    if (filters.maxAmount == null || n < filters.maxAmount) filters.maxAmount = n
+  }
+
+  /** Apply one key/value term; false when it is not understood. */
+  function applyTerm(key: string, op: Operator, value: string): boolean {
+    const field = KEY_ALIASES[key.toLowerCase()]
+    if (!field || !value) return false
+    const values = value.split(',').map((v) => v.trim()).filter(Boolean)
+    switch (field) {
+      case 'text':
+        if (op !== ':') return false
+        words.push(value)
+        return true
+      case 'type': {
+        const type = TYPE_VALUES[value.toLowerCase()]
+        if (op !== ':' || !type) return false
+        filters.type = type
+        return true
+      }
+      case 'category': {
+        const ids = values.map((v) => resolveCategoryId(v))
+        if (op !== ':' || ids.some((id) => !id)) return false
+        filters.categories = [...(filters.categories ?? []), ...(ids as string[])]
+        return true
+      }
+      case 'tag': {
+        const tags = values.map(normalizeTag)
+        if (op !== ':' || tags.some((tag) => !tag)) return false
+        filters.tags = [...(filters.tags ?? []), ...tags]
+        return true
+      }
+      case 'has':
+      case 'no':
+        if (op !== ':' || !ATTACHMENT_VALUES.has(value.toLowerCase())) return false
+        filters.hasAttachment = field === 'has'
+        return true
+      case 'pocket':
+      case 'goal': {
+        // Goals can also be written as pocket:goal:<id>
+        const ids = values.map((v) => {
+          if (field === 'pocket' && !v.startsWith('goal:')) return findByName(context.pockets, v)
+          const goalId = findByName(context.goals, field === 'goal' ? v : v.slice(5))
+          return goalId && `goal:${goalId}`
+        })
+        if (op !== ':' || ids.some((id) => !id)) return false
+        filters.pocketIds = [...(filters.pocketIds ?? []), ...(ids as string[])]
+        return true
+      }
+      case 'amount': {
+        const range = op === ':' ? value.split('..') : [value]
+        const amounts = range.map(parseAmount)
+        if (amounts.some((n) => n == null) || amounts.length > 2) return false
+        const [a, b] = amounts as number[]
+        // Amounts have at most two decimals, so "more than" starts one cent higher
+        if (op === '>') narrowMin(a! + 0.01)
+        else if (op === '>=') narrowMin(a!)
+        else if (op === '<') narrowMax(a! - 0.01)
+        else if (op === '<=') narrowMax(a!)
+        else {
+          narrowMin(a!)
+          narrowMax(b ?? a!)
+        }
+        return true
+      }
+      case 'date': {
+        const range = parseDateRange(value, now)
+        if (!range) return false
+        if (op === '>') narrowStart(addDays(range.end, 1))
+        else if (op === '>=') narrowStart(range.start)
+        else if (op === '<') narrowEnd(addDays(range.start, -1))
+        else if (op === '<=') narrowEnd(range.end)
+        else {
+          narrowStart(range.start)
+          narrowEnd(range.end)
+        }
+        return true
+      }
+    }
+  }
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [term, key, op, rawValue, quotedValue, phrase, word] = match
+    if (key && op && rawValue) {
+      if (!applyTerm(key, op as Operator, quotedValue ?? rawValue)) invalid.push(term)
+    } else if (word && word.length > 1 && word.startsWith('#')) {
+      if (!applyTerm('tag', ':', word)) invalid.push(term)
+    } else {
+      words.push(phrase ?? word ?? '')
+    }
+  }
+
+  const text = words.join(' ').trim()
+  if (text) filters.text = text
+  return { filters, invalid }
+}
@@ -0,0 +1,68 @@
+import type { Transaction, TransactionSplit } from '@/types/transaction'
+import { isInCategory } from '@/services/categoryService'
+
+/** Error codes returned by validateSplits (mapped to i18n messages in the UI). */
+export type SplitValidationError = 'SPLIT_TOO_FEW_LINES' | 'SPLIT_LINE_INVALID' | 'SPLIT_TOTAL_MISMATCH'
+
+/** i18n key for each split validation error. */
+export const SPLIT_ERROR_MESSAGE_KEYS: Record<SplitValidationError, string> = {
+  SPLIT_TOO_FEW_LINES: 'transaction.splitTooFewLines',
+  SPLIT_LINE_INVALID: 'transaction.splitLineInvalid',
+  SPLIT_TOTAL_MISMATCH: 'transaction.splitTotalMismatch',
+}
+
+/** Amounts are whole Rupiah, but allow for float noise from CurrencyInput. */
+const SPLIT_TOLERANCE = 0.01
+
+export function splitsTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, s) => sum + s.amount, 0)
+}
+
+/**
+ * Category/amount lines of a transaction: its splits when present,
+ * otherwise a single line with the transaction's category and amount.
+ * Use this anywhere amounts are grouped by category.
+ */
+export function getCategoryLines(
+  t: Pick<Transaction, 'category' | 'amount' | 'splits'>,
+): Array<{ category: string; amount: number }> {
+  if (t.splits && t.splits.length > 0) {
+    return t.splits.map((s) => ({ category: s.category, amount: s.amount }))
+  }
+  return [{ category: t.category, amount: t.amount }]
+}
+
+/** True when the transaction (or one of its split lines) is in the given category or one of its sub-categories. */
+export function hasCategory(t: Pick<Transaction, 'category' | 'splits'>, category: string): boolean {
+  if (t.splits && t.splits.length > 0) return t.splits.some((s) => isInCategory(s.category, category))
+  return isInCategory(t.category, category)
+}
+
+/** Category of the largest line; stored as the transaction's main category. */
+export function primaryCategory(splits: TransactionSplit[]): string {
+  let best = splits[0]
+  for (const s of splits) {
+    if (best && s.amount > best.amount) best = s
+  }
+  return best?.category ?? ''
+}
+
+export function validateSplits(amount: number, splits: TransactionSplit[]): SplitValidationError | null {
+  if (splits.length < 2) return 'SPLIT_TOO_FEW_LINES'
+  if (splits.some((s) => !s.category || !(s.amount > 0))) return 'SPLIT_LINE_INVALID'
+  if (Math.abs(splitsTotal(splits) - amount) > SPLIT_TOLERANCE) return 'SPLIT_TOTAL_MISMATCH'
+  return null
+}
+
+/** Drop empty lines and trim notes; returns undefined when there is nothing to split. */
+export function normalizeSplits(splits: TransactionSplit[] | undefined): TransactionSplit[] | undefined {
+  if (!splits) return undefined
+  const cleaned = splits
+    .filter((s) => s.category || s.amount > 0)
+    .map((s) => ({
+      category: s.category,
+      amount: s.amount,
+      ...(s.note?.trim() && { note: s.note.trim() }),
+    }))
+  return cleaned.length > 0 ? cleaned : undefined
+}
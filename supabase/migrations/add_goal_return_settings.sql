@@ -0,0 +1,7 @@
+-- Investment goal return settings: compounding (Goal.compounding), rate changes with
+-- effective dates (Goal.returnRateChanges) and the volatility used for projection bands.
+-- annual_return_percentage keeps the most recently set rate.
+ALTER TABLE goals
+  ADD COLUMN IF NOT EXISTS return_rate_changes JSONB,
+  ADD COLUMN IF NOT EXISTS compounding TEXT CHECK (compounding IN ('daily', 'monthly', 'yearly')),
+  ADD COLUMN IF NOT EXISTS volatility_percentage NUMERIC;
@@ -0,0 +1,4 @@
+-- Debt payments (Transaction.transferToLiabilityId): transfers from a pocket that pay down a liability.
+-- Liabilities themselves are kept on the device; the id only links the payment to its debt.
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transfer_to_liability_id TEXT;
@@ -0,0 +1,4 @@
+-- Shop or payee of a transaction (Transaction.merchant), normalized on the client ("Indomaret").
+-- Merchant spending and the merchant directory are computed on the client from these values.
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS merchant TEXT;
@@ -0,0 +1,4 @@
+-- Free-form transaction tags (Transaction.tags), stored without the leading #.
+-- Tag filters ignore case, so they run on the client (filterTransactions) rather than in SQL.
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS tags TEXT[];
@@ -0,0 +1,45 @@
+-- Per-user goals for the Supabase data backend.
+-- Balances are not stored: like on the device they are derived from transactions.
+CREATE TABLE IF NOT EXISTS goals (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  target_amount NUMERIC NOT NULL CHECK (target_amount >= 0),
+  duration_months INTEGER NOT NULL CHECK (duration_months > 0),
+  color TEXT,
+  type TEXT NOT NULL DEFAULT 'saving' CHECK (type IN ('saving', 'investment')),
+  annual_return_percentage NUMERIC,
+  last_return_calculation_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, id)
+);
+
+-- Enable Row Level Security: users only ever see and change their own goals
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own goals"
+ON goals
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own goals"
+ON goals
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goals"
+ON goals
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goals"
+ON goals
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,42 @@
+-- Per-user pockets for the Supabase data backend.
+-- Ids are generated on the device (e.g. "pocket-...", "main-pocket"), so they are only unique per user.
+CREATE TABLE IF NOT EXISTS pockets (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('main', 'spending', 'saving', 'investment')),
+  color TEXT,
+  currency VARCHAR(3) NOT NULL DEFAULT 'IDR',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, id)
+);
+
+-- Enable Row Level Security: users only ever see and change their own pockets
+ALTER TABLE pockets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own pockets"
+ON pockets
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own pockets"
+ON pockets
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own pockets"
+ON pockets
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own pockets"
+ON pockets
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,55 @@
+-- Per-user transactions for the Supabase data backend (SupabaseTransactionService).
+-- pocket_id / goal_id are not foreign keys: the app keeps its own rules for
+-- what happens to transactions when a pocket or goal is deleted.
+CREATE TABLE IF NOT EXISTS transactions (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense', 'transfer')),
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  description TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  pocket_id TEXT NOT NULL,
+  goal_id TEXT,
+  transfer_to_pocket_id TEXT,
+  transfer_to_goal_id TEXT,
+  transfer_to_amount NUMERIC,
+  recurring_rule_id TEXT,
+  splits JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, id)
+);
+
+-- Create indexes for the filters the app uses
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON transactions(user_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_pocket ON transactions(user_id, pocket_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_goal ON transactions(user_id, goal_id);
+
+-- Enable Row Level Security: users only ever see and change their own transactions
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own transactions"
+ON transactions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transactions"
+ON transactions
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transactions"
+ON transactions
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transactions"
+ON transactions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
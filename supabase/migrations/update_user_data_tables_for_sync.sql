@@ -0,0 +1,46 @@
+-- Columns used by the offline sync queue (src/services/syncService.ts).
+-- field_updated_at: field name -> when a device last changed it, for last-writer-wins per field
+-- updated_by: device that wrote the row last (tie-break when two edits share a timestamp)
+-- deleted_at: soft delete, so other devices learn about deletions when they pull
+ALTER TABLE pockets
+  ADD COLUMN IF NOT EXISTS field_updated_at JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS updated_by TEXT,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE goals
+  ADD COLUMN IF NOT EXISTS field_updated_at JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS updated_by TEXT,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS field_updated_at JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS updated_by TEXT,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- updated_at is the pull cursor, so it must come from the server clock, not the device
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pockets_set_updated_at ON pockets;
+CREATE TRIGGER pockets_set_updated_at
+BEFORE INSERT OR UPDATE ON pockets
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS goals_set_updated_at ON goals;
+CREATE TRIGGER goals_set_updated_at
+BEFORE INSERT OR UPDATE ON goals
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS transactions_set_updated_at ON transactions;
+CREATE TRIGGER transactions_set_updated_at
+BEFORE INSERT OR UPDATE ON transactions
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_pockets_user_updated_at ON pockets(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_goals_user_updated_at ON goals(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_updated_at ON transactions(user_id, updated_at);